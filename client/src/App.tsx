@@ -7,12 +7,14 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/useAuth";
 import Landing from "@/pages/landing";
 import ResetPassword from "@/pages/reset-password";
+import VerifyLetter from "@/pages/verify-letter";
 import Dashboard from "@/pages/dashboard";
 import Couriers from "@/pages/couriers";
 import ReceivedCouriers from "@/pages/received-couriers";
 import AuthorityLetter from "@/pages/authority-letter";
 import AuthorityLetterNew from "@/pages/authority-letter-new";
 import ManageAuthorityLetter from "@/pages/manage-authority-letter";
+import LetterRegister from "@/pages/letter-register";
 import Users from "@/pages/users";
 import UserPolicies from "@/pages/user-policies";
 import Departments from "@/pages/departments";
@@ -20,6 +22,7 @@ import Branches from "@/pages/branches";
 import Vendors from "@/pages/vendors";
 import Settings from "@/pages/settings";
 import SamlSSO from "@/pages/saml-sso";
+import ScanCourier from "@/pages/scan-courier";
 import AppLayout from "@/components/layout/app-layout";
 
 function Router() {
@@ -35,6 +38,7 @@ function Router() {
 
   return (
     <Switch>
+      <Route path="/verify/:code?" component={VerifyLetter} />
       {!isAuthenticated ? (
         <>
           <Route path="/reset-password" component={ResetPassword} />
@@ -46,8 +50,10 @@ function Router() {
             <Route path="/" component={Dashboard} />
             <Route path="/couriers" component={Couriers} />
             <Route path="/received-couriers" component={ReceivedCouriers} />
+            <Route path="/scan" component={ScanCourier} />
             <Route path="/authority-letter" component={AuthorityLetter} />
             <Route path="/manage-authority-letter" component={ManageAuthorityLetter} />
+            <Route path="/letter-register" component={LetterRegister} />
             <Route path="/users" component={Users} />
             <Route path="/user-policies" component={UserPolicies} />
             <Route path="/departments" component={Departments} />
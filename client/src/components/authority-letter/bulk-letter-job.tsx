@@ -0,0 +1,138 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Download, FileWarning } from "lucide-react";
+
+export interface BulkLetterJobStatus {
+  id: number;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  sourceFileName: string | null;
+  totalRows: number;
+  processedRows: number;
+  succeededRows: number;
+  failedRows: number;
+  errorMessage: string | null;
+  hasResult: boolean;
+  hasErrorReport: boolean;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+interface BulkLetterJobProgressProps {
+  jobId: number;
+}
+
+const STATUS_STYLES: Record<BulkLetterJobStatus['status'], string> = {
+  queued: 'bg-slate-100 text-slate-800',
+  running: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+function saveBlob(blob: Blob, fileName: string) {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+}
+
+// Progress of a queued bulk generation, with the ZIP and the error report once it has finished
+export default function BulkLetterJobProgress({ jobId }: BulkLetterJobProgressProps) {
+  const { toast } = useToast();
+
+  const { data: job } = useQuery<BulkLetterJobStatus>({
+    queryKey: ['/api/letter-bulk-jobs', jobId],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/letter-bulk-jobs/${jobId}`);
+      return response.json();
+    },
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === 'completed' || status === 'failed' ? false : 2000;
+    },
+  });
+
+  const downloadMutation = useMutation({
+    mutationFn: async (file: 'result' | 'errors') => {
+      const response = await apiRequest('GET', `/api/letter-bulk-jobs/${jobId}/${file}`);
+      saveBlob(await response.blob(), file === 'result' ? `authority_letters_bulk_${jobId}.zip` : `authority_letters_bulk_${jobId}_errors.csv`);
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to download file", variant: "destructive" });
+    },
+  });
+
+  if (!job) {
+    return (
+      <div className="flex justify-center py-4">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const percent = job.totalRows > 0 ? Math.round((job.processedRows / job.totalRows) * 100) : 0;
+
+  return (
+    <div className="space-y-3 rounded-md border p-4" data-testid={`bulk-letter-job-${job.id}`}>
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium text-slate-900">
+          {job.sourceFileName || `Job #${job.id}`}
+        </div>
+        <Badge className={STATUS_STYLES[job.status]}>
+          {job.status.charAt(0).toUpperCase() + job.status.slice(1)}
+        </Badge>
+      </div>
+
+      <Progress value={job.status === 'completed' ? 100 : percent} />
+
+      <div className="flex justify-between text-xs text-slate-600">
+        <span>{job.processedRows} of {job.totalRows} rows processed</span>
+        <span>
+          {job.succeededRows} generated{job.failedRows > 0 && <span className="text-red-600"> · {job.failedRows} failed</span>}
+        </span>
+      </div>
+
+      {job.status === 'queued' && (
+        <p className="text-xs text-slate-500">Waiting for earlier jobs to finish. You can close this window; the letters are still generated.</p>
+      )}
+      {job.errorMessage && (
+        <p className="text-sm text-red-700">{job.errorMessage}</p>
+      )}
+
+      {(job.hasResult || job.hasErrorReport) && (
+        <div className="flex justify-end gap-2">
+          {job.hasErrorReport && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => downloadMutation.mutate('errors')}
+              disabled={downloadMutation.isPending}
+              data-testid="button-download-bulk-errors"
+            >
+              <FileWarning className="h-4 w-4 mr-2" />
+              Error Report
+            </Button>
+          )}
+          {job.hasResult && (
+            <Button
+              size="sm"
+              onClick={() => downloadMutation.mutate('result')}
+              disabled={downloadMutation.isPending}
+              data-testid="button-download-bulk-result"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download ZIP
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
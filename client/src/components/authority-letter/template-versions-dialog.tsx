@@ -0,0 +1,260 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { GitCompare, Rocket, RotateCcw, FileText } from "lucide-react";
+
+interface TemplateVersion {
+  id: number;
+  versionNumber: number;
+  wordTemplateUrl: string | null;
+  status: 'draft' | 'published' | 'superseded';
+  changeNote: string | null;
+  createdByName: string | null;
+  createdAt: string;
+  publishedAt: string | null;
+}
+
+interface TemplateDiff {
+  from: TemplateVersion;
+  to: TemplateVersion;
+  wordTemplateChanged: boolean;
+  lines: Array<{ type: 'added' | 'removed' | 'unchanged'; text: string }>;
+}
+
+interface TemplateVersionsDialogProps {
+  template: { id: number; templateName: string } | null;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<TemplateVersion['status'], string> = {
+  draft: 'bg-amber-100 text-amber-800',
+  published: 'bg-green-100 text-green-800',
+  superseded: 'bg-gray-100 text-gray-700',
+};
+
+const LINE_STYLES = {
+  added: 'bg-green-50 text-green-900',
+  removed: 'bg-red-50 text-red-900 line-through decoration-red-300',
+  unchanged: 'text-slate-600',
+};
+
+const LINE_PREFIX = { added: '+', removed: '-', unchanged: ' ' };
+
+// Version history of an authority letter template, with a diff against the published layout
+export default function TemplateVersionsDialog({ template, onClose }: TemplateVersionsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [compareVersionId, setCompareVersionId] = useState<number | null>(null);
+
+  useEffect(() => {
+    setCompareVersionId(null);
+  }, [template?.id]);
+
+  const versionsKey = ['/api/authority-letter-templates', template?.id, 'versions'];
+
+  const { data: versions = [], isLoading } = useQuery<TemplateVersion[]>({
+    queryKey: versionsKey,
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/authority-letter-templates/${template!.id}/versions`);
+      return response.json();
+    },
+    enabled: !!template,
+  });
+
+  const { data: diff, isLoading: diffLoading } = useQuery<TemplateDiff>({
+    queryKey: ['/api/authority-letter-templates', template?.id, 'versions', compareVersionId, 'diff'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/authority-letter-templates/${template!.id}/versions/${compareVersionId}/diff`);
+      return response.json();
+    },
+    enabled: !!template && compareVersionId !== null,
+  });
+
+  const onVersionChanged = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/authority-letter-templates'] });
+    setCompareVersionId(null);
+    toast({ title: "Success", description: message });
+  };
+
+  const onVersionError = (error: any) => {
+    toast({ title: "Error", description: error.message || "Failed to update template version.", variant: "destructive" });
+  };
+
+  const publishMutation = useMutation({
+    mutationFn: async (version: TemplateVersion) => {
+      await apiRequest('POST', `/api/authority-letter-templates/${template!.id}/versions/${version.id}/publish`);
+      return version;
+    },
+    onSuccess: (version) => onVersionChanged(`Version ${version.versionNumber} is now used for new letters.`),
+    onError: onVersionError,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (version: TemplateVersion) => {
+      await apiRequest('POST', `/api/authority-letter-templates/${template!.id}/versions/${version.id}/rollback`);
+      return version;
+    },
+    onSuccess: (version) => onVersionChanged(`Rolled back to the layout of version ${version.versionNumber}.`),
+    onError: onVersionError,
+  });
+
+  const isBusy = publishMutation.isPending || rollbackMutation.isPending;
+  const changedLines = diff?.lines.filter(line => line.type !== 'unchanged').length ?? 0;
+
+  return (
+    <Dialog open={!!template} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[900px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+          <DialogDescription>
+            Layouts of "{template?.templateName}". New letters use the published version; issued letters keep the version they were rendered from.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : versions.length === 0 ? (
+          <div className="text-center py-8 text-slate-500">No versions recorded yet</div>
+        ) : (
+          <TooltipProvider>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead className="text-center">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {versions.map((version) => (
+                  <TableRow key={version.id} className={compareVersionId === version.id ? 'bg-slate-50' : undefined}>
+                    <TableCell className="font-medium">v{version.versionNumber}</TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_STYLES[version.status]}>
+                        {version.status.charAt(0).toUpperCase() + version.status.slice(1)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="max-w-xs">
+                      <div className="truncate">{version.changeNote || '-'}</div>
+                      {version.wordTemplateUrl && (
+                        <div className="text-xs text-slate-500 flex items-center gap-1">
+                          <FileText className="h-3 w-3" /> Word template
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm">{new Date(version.createdAt).toLocaleString()}</div>
+                      <div className="text-xs text-slate-500">{version.createdByName || 'System'}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-center space-x-2">
+                        {version.status !== 'published' && (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setCompareVersionId(version.id)}
+                                className="h-8 w-8 p-0 text-gray-600 hover:text-gray-800"
+                                data-testid={`button-compare-version-${version.id}`}
+                              >
+                                <GitCompare className="h-4 w-4" />
+                              </Button>
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              <p>Compare with published version</p>
+                            </TooltipContent>
+                          </Tooltip>
+                        )}
+                        {version.status === 'draft' && (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => publishMutation.mutate(version)}
+                                disabled={isBusy}
+                                className="h-8 w-8 p-0 text-green-600 hover:text-green-800"
+                                data-testid={`button-publish-version-${version.id}`}
+                              >
+                                <Rocket className="h-4 w-4" />
+                              </Button>
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              <p>Publish</p>
+                            </TooltipContent>
+                          </Tooltip>
+                        )}
+                        {version.status === 'superseded' && (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => rollbackMutation.mutate(version)}
+                                disabled={isBusy}
+                                className="h-8 w-8 p-0 text-blue-600 hover:text-blue-800"
+                                data-testid={`button-rollback-version-${version.id}`}
+                              >
+                                <RotateCcw className="h-4 w-4" />
+                              </Button>
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              <p>Roll back to this version</p>
+                            </TooltipContent>
+                          </Tooltip>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TooltipProvider>
+        )}
+
+        {compareVersionId !== null && (
+          <div className="border-t pt-4 space-y-2">
+            {diffLoading || !diff ? (
+              <div className="flex justify-center py-4">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center justify-between">
+                  <h3 className="font-medium text-slate-900">
+                    v{diff.to.versionNumber} compared with published v{diff.from.versionNumber}
+                  </h3>
+                  <span className="text-xs text-slate-500">{changedLines} changed line{changedLines === 1 ? '' : 's'}</span>
+                </div>
+                {diff.wordTemplateChanged && (
+                  <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-2">
+                    The versions use different Word documents. The comparison shows the HTML converted from each.
+                  </p>
+                )}
+                <div className="max-h-96 overflow-auto rounded-md border bg-white font-mono text-xs" data-testid="template-version-diff">
+                  {diff.lines.map((line, index) => (
+                    <div key={index} className={`px-3 py-0.5 whitespace-pre-wrap break-all ${LINE_STYLES[line.type]}`}>
+                      <span className="select-none mr-2">{LINE_PREFIX[line.type]}</span>
+                      {line.text}
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
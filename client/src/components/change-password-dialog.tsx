@@ -4,22 +4,47 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { usePasswordPolicy } from "@/hooks/usePasswordPolicy";
+import type { LoginResult } from "@/hooks/useAuth";
 import { KeyRound } from "lucide-react";
 
 interface ChangePasswordDialogProps {
-  children: React.ReactNode;
+  children?: React.ReactNode;
+  // Set when sign-in stopped because the password expired. The dialog is then opened
+  // by the caller, skips the current password (already verified) and hands the sign-in
+  // response to onExpiredComplete.
+  expiredChallengeToken?: string | null;
+  onExpiredComplete?: (result: LoginResult) => void;
+  onExpiredCancel?: () => void;
 }
 
-export default function ChangePasswordDialog({ children }: ChangePasswordDialogProps) {
-  const [isOpen, setIsOpen] = useState(false);
+export default function ChangePasswordDialog({ children, expiredChallengeToken, onExpiredComplete, onExpiredCancel }: ChangePasswordDialogProps) {
+  const isExpired = !!expiredChallengeToken;
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const isOpen = isExpired || isDialogOpen;
   const [oldPassword, setOldPassword] = useState("");
   const [newPassword, setNewPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
+  const { hint: passwordHint, getErrors: getPasswordErrors } = usePasswordPolicy(isOpen);
+
+  const setIsOpen = (open: boolean) => {
+    if (isExpired) {
+      if (!open) onExpiredCancel?.();
+    } else {
+      setIsDialogOpen(open);
+    }
+  };
+
+  const resetFields = () => {
+    setOldPassword("");
+    setNewPassword("");
+    setConfirmPassword("");
+  };
 
   const handleChangePassword = async () => {
-    if (!oldPassword || !newPassword || !confirmPassword) {
+    if ((!isExpired && !oldPassword) || !newPassword || !confirmPassword) {
       toast({
         title: "Error",
         description: "Please fill in all fields",
@@ -37,16 +62,17 @@ export default function ChangePasswordDialog({ children }: ChangePasswordDialogP
       return;
     }
 
-    if (newPassword.length < 6) {
+    const passwordErrors = getPasswordErrors(newPassword);
+    if (passwordErrors.length > 0) {
       toast({
         title: "Error",
-        description: "New password must be at least 6 characters long",
+        description: passwordErrors[0],
         variant: "destructive",
       });
       return;
     }
 
-    if (oldPassword === newPassword) {
+    if (!isExpired && oldPassword === newPassword) {
       toast({
         title: "Error",
         description: "New password must be different from the current password",
@@ -58,17 +84,23 @@ export default function ChangePasswordDialog({ children }: ChangePasswordDialogP
     setIsLoading(true);
     try {
       const token = localStorage.getItem('auth_token');
-      const response = await fetch('/api/auth/change-password', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        },
-        body: JSON.stringify({ 
-          oldPassword,
-          newPassword 
-        }),
-      });
+      const response = isExpired
+        ? await fetch('/api/auth/change-expired-password', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ challengeToken: expiredChallengeToken, newPassword }),
+          })
+        : await fetch('/api/auth/change-password', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': `Bearer ${token}`
+            },
+            body: JSON.stringify({ 
+              oldPassword,
+              newPassword 
+            }),
+          });
 
       const data = await response.json();
 
@@ -77,10 +109,20 @@ export default function ChangePasswordDialog({ children }: ChangePasswordDialogP
           title: "Success",
           description: "Password changed successfully",
         });
-        setIsOpen(false);
-        setOldPassword("");
-        setNewPassword("");
-        setConfirmPassword("");
+        resetFields();
+        if (isExpired) {
+          onExpiredComplete?.(data);
+        } else {
+          setIsDialogOpen(false);
+        }
+      } else if (data.code === 'CHALLENGE_EXPIRED') {
+        toast({
+          title: "Error",
+          description: data.message,
+          variant: "destructive",
+        });
+        resetFields();
+        onExpiredCancel?.();
       } else {
         toast({
           title: "Error",
@@ -101,30 +143,37 @@ export default function ChangePasswordDialog({ children }: ChangePasswordDialogP
 
   return (
     <Dialog open={isOpen} onOpenChange={setIsOpen}>
-      <DialogTrigger asChild>
-        {children}
-      </DialogTrigger>
+      {children && (
+        <DialogTrigger asChild>
+          {children}
+        </DialogTrigger>
+      )}
       <DialogContent className="sm:max-w-md">
         <DialogHeader className="text-center space-y-2">
           <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
             <KeyRound className="w-6 h-6 text-blue-600" />
           </div>
           <DialogTitle className="text-xl font-bold text-slate-800">
-            Change Password
+            {isExpired ? "Password Expired" : "Change Password"}
           </DialogTitle>
+          {isExpired && (
+            <p className="text-sm text-slate-600">Your password has expired. Choose a new one to continue signing in.</p>
+          )}
         </DialogHeader>
         <div className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="current-password">Current Password</Label>
-            <Input
-              id="current-password"
-              type="password"
-              value={oldPassword}
-              onChange={(e) => setOldPassword(e.target.value)}
-              placeholder="Enter current password"
-              data-testid="input-current-password"
-            />
-          </div>
+          {!isExpired && (
+            <div className="space-y-2">
+              <Label htmlFor="current-password">Current Password</Label>
+              <Input
+                id="current-password"
+                type="password"
+                value={oldPassword}
+                onChange={(e) => setOldPassword(e.target.value)}
+                placeholder="Enter current password"
+                data-testid="input-current-password"
+              />
+            </div>
+          )}
           
           <div className="space-y-2">
             <Label htmlFor="new-password">New Password</Label>
@@ -136,6 +185,9 @@ export default function ChangePasswordDialog({ children }: ChangePasswordDialogP
               placeholder="Enter new password"
               data-testid="input-new-password"
             />
+            {passwordHint && (
+              <p className="text-xs text-slate-500" data-testid="text-password-policy">{passwordHint}</p>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -25,7 +25,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardContent } from "@/components/ui/card";
 import { Upload, X, Save } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getAuthHeaders } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { Autocomplete } from "@/components/ui/autocomplete";
 import MultiEmailInput from "@/components/ui/multi-email-input";
@@ -145,13 +145,15 @@ export default function CourierForm({ courier, onClose, onSuccess }: CourierForm
   const vendors = vendorsData?.vendors || [];
   const dropdownFields = dropdownFieldsWithOptions.data || [];
 
-  // State for custom field values
-  const [customFieldValues, setCustomFieldValues] = useState<Record<string, string>>({});
+  // State for custom field values, keyed by field ID
+  const [customFieldValues, setCustomFieldValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries((courier?.customFieldValues || []).map((v: any) => [String(v.fieldId), v.value]))
+  );
 
-  const handleCustomFieldChange = (fieldName: string, value: string) => {
+  const handleCustomFieldChange = (fieldId: number, value: string) => {
     setCustomFieldValues(prev => ({
       ...prev,
-      [fieldName]: value
+      [String(fieldId)]: value
     }));
   };
 
@@ -172,8 +174,8 @@ export default function CourierForm({ courier, onClose, onSuccess }: CourierForm
       }
 
       // Add custom field values
-      if (Object.keys(customFieldValues).length > 0) {
-        formData.append('customFields', JSON.stringify(customFieldValues));
+      if (departmentFields.length > 0) {
+        formData.append('customFieldValues', JSON.stringify(customFieldValues));
       }
 
       // Append file if selected
@@ -184,16 +186,9 @@ export default function CourierForm({ courier, onClose, onSuccess }: CourierForm
       const url = courier ? `/api/couriers/${courier.id}` : '/api/couriers';
       const method = courier ? 'PUT' : 'POST';
       
-      // Get auth token for file upload request
-      const token = localStorage.getItem('auth_token');
-      const headers: Record<string, string> = {};
-      if (token) {
-        headers['Authorization'] = `Bearer ${token}`;
-      }
-
       const response = await fetch(url, {
         method,
-        headers,
+        headers: getAuthHeaders(),
         body: formData,
       });
 
@@ -222,9 +217,18 @@ export default function CourierForm({ courier, onClose, onSuccess }: CourierForm
         }, 500);
         return;
       }
+      // Surface custom field validation messages from the server
+      let description = `Failed to ${courier ? 'update' : 'create'} courier`;
+      try {
+        const body = JSON.parse(error.message.substring(error.message.indexOf(':') + 1));
+        const customFieldError = body.errors?.find((e: any) => e.path?.[0] === 'customFieldValues');
+        if (customFieldError) description = customFieldError.message;
+      } catch {
+        // Fall back to the generic message
+      }
       toast({
         title: "Error",
-        description: `Failed to ${courier ? 'update' : 'create'} courier`,
+        description,
         variant: "destructive",
       });
     },
@@ -492,8 +496,8 @@ export default function CourierForm({ courier, onClose, onSuccess }: CourierForm
                   </label>
                   {field.type === 'dropdown' ? (
                     <Select
-                      onValueChange={(value) => handleCustomFieldChange(field.name, value)}
-                      value={customFieldValues[field.name] || ''}
+                      onValueChange={(value) => handleCustomFieldChange(field.id, value)}
+                      value={customFieldValues[String(field.id)] || ''}
                     >
                       <SelectTrigger data-testid={`select-${field.name.toLowerCase().replace(/\s+/g, '-')}`}>
                         <SelectValue placeholder={`Select ${field.name.toLowerCase()}`} />
@@ -514,10 +518,10 @@ export default function CourierForm({ courier, onClose, onSuccess }: CourierForm
                     </Select>
                   ) : (
                     <Input
-                      type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text'}
+                      type={field.type === 'calendar' ? 'date' : 'text'}
                       placeholder={`Enter ${field.name.toLowerCase()}`}
-                      value={customFieldValues[field.name] || ''}
-                      onChange={(e) => handleCustomFieldChange(field.name, e.target.value)}
+                      value={customFieldValues[String(field.id)] || ''}
+                      onChange={(e) => handleCustomFieldChange(field.id, e.target.value)}
                       data-testid={`input-${field.name.toLowerCase().replace(/\s+/g, '-')}`}
                     />
                   )}
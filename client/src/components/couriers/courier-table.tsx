@@ -14,12 +14,14 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Edit, Eye, Trash2, RotateCcw, ChevronLeft, ChevronRight, Check, CheckCheck } from "lucide-react";
+import { Edit, Eye, Trash2, RotateCcw, ChevronLeft, ChevronRight, Check, CheckCheck, Printer } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getAuthHeaders } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { formatEntityId } from "@/lib/idUtils";
 import { formatDateDDMMYYYY } from "@/lib/utils";
+import StatusTimeline from "@/components/couriers/status-timeline";
+import TrackingEvents from "@/components/couriers/tracking-events";
 
 interface CourierTableProps {
   title?: string;
@@ -65,13 +67,7 @@ export default function CourierTable({
       if (departmentFilter !== "all") params.append('departmentId', departmentFilter);
       
       const url = `/api/couriers${params.toString() ? '?' + params.toString() : ''}`;
-      const token = localStorage.getItem('auth_token');
-      const headers: Record<string, string> = {};
-      if (token) {
-        headers['Authorization'] = `Bearer ${token}`;
-      }
-      
-      const response = await fetch(url, { headers });
+      const response = await fetch(url, { headers: getAuthHeaders() });
       if (!response.ok) throw new Error(`${response.status}: ${response.statusText}`);
       return response.json();
     },
@@ -235,10 +231,42 @@ export default function CourierTable({
     },
   });
 
+  const printLabelMutation = useMutation({
+    mutationFn: async (courier: any) => {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/couriers/${courier.id}/label`, {
+        headers: token ? { 'Authorization': `Bearer ${token}` } : {}
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to generate label');
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `courier-label-${courier.podNo || courier.id}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to generate label",
+        variant: "destructive",
+      });
+    },
+  });
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'on_the_way':
         return <Badge variant="outline" className="bg-yellow-50 text-yellow-700 border-yellow-200">On The Way</Badge>;
+      case 'delivered':
+        return <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">Delivered (Carrier)</Badge>;
       case 'received':
         return <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">Delivered</Badge>;
       case 'completed':
@@ -349,6 +377,15 @@ export default function CourierTable({
                       <TableRow key={courier.id} className="hover:bg-slate-50">
                         <TableCell className="font-medium" data-testid={`text-pod-${courier.id}`}>
                           {courier.podNo}
+                          {courier.customFieldValues?.length > 0 && (
+                            <div className="text-slate-400 text-xs font-normal mt-1">
+                              {courier.customFieldValues.map((v: any) => (
+                                <div key={v.fieldId}>
+                                  {v.fieldName}: {v.fieldType === 'calendar' ? formatDateDDMMYYYY(v.value) : v.value}
+                                </div>
+                              ))}
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell>
                           <div>
@@ -392,6 +429,19 @@ export default function CourierTable({
                               <Eye className="h-4 w-4" />
                             </Button>
                             
+                            {!showRestore && (
+                              <Button 
+                                variant="ghost" 
+                                size="sm"
+                                onClick={() => printLabelMutation.mutate(courier)}
+                                disabled={printLabelMutation.isPending}
+                                data-testid={`button-label-${courier.id}`}
+                                title="Print Label"
+                              >
+                                <Printer className="h-4 w-4" />
+                              </Button>
+                            )}
+                            
                             {courier.status === 'on_the_way' && (
                               <Button 
                                 variant="ghost" 
@@ -579,6 +629,19 @@ export default function CourierTable({
                 )}
               </div>
               
+              {viewingCourier.customFieldValues?.length > 0 && (
+                <div className="grid grid-cols-2 gap-x-6 gap-y-4">
+                  {viewingCourier.customFieldValues.map((v: any) => (
+                    <div key={v.fieldId}>
+                      <label className="text-sm font-semibold text-slate-600 block mb-1">{v.fieldName}</label>
+                      <p className="text-sm text-gray-900">
+                        {v.fieldType === 'calendar' ? formatDateDDMMYYYY(v.value) : v.value}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+              
               {viewingCourier.details && (
                 <div>
                   <label className="text-sm font-medium text-gray-700">Details</label>
@@ -643,6 +706,9 @@ export default function CourierTable({
                   </p>
                 </div>
               )}
+              
+              <TrackingEvents courierId={viewingCourier.id} />
+              <StatusTimeline courierType="courier" courierId={viewingCourier.id} />
             </div>
             
             <div className="flex justify-end pt-4">
@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, CheckCircle2, Download, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getAuthHeaders } from "@/lib/queryClient";
+
+type ImportKind = 'courier' | 'received_courier';
+
+interface ImportRowResult {
+  row: number;
+  errors: string[];
+  warnings: string[];
+  preview: Record<string, string | null>;
+}
+
+interface ImportReport {
+  dryRun: boolean;
+  totalRows: number;
+  validCount: number;
+  errorCount: number;
+  rows: ImportRowResult[];
+  createdCount?: number;
+  message?: string;
+}
+
+interface ImportCouriersDialogProps {
+  kind: ImportKind;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const IMPORT_ENDPOINTS: Record<ImportKind, { base: string; title: string; templateName: string }> = {
+  courier: { base: '/api/couriers', title: 'Import Sent Couriers', templateName: 'sent-couriers-import-template.csv' },
+  received_courier: { base: '/api/received-couriers', title: 'Import Received Couriers', templateName: 'received-couriers-import-template.csv' },
+};
+
+// Columns shown in the validation preview, in order
+const PREVIEW_COLUMNS: Record<ImportKind, Array<{ key: string; label: string }>> = {
+  courier: [
+    { key: 'toBranch', label: 'To Branch' },
+    { key: 'courierDate', label: 'Date' },
+    { key: 'vendor', label: 'Vendor' },
+    { key: 'podNo', label: 'POD No' },
+    { key: 'receiverName', label: 'Receiver' },
+  ],
+  received_courier: [
+    { key: 'podNumber', label: 'POD Number' },
+    { key: 'receivedDate', label: 'Date' },
+    { key: 'fromLocation', label: 'From' },
+    { key: 'courierVendor', label: 'Vendor' },
+    { key: 'receiverName', label: 'Receiver' },
+  ],
+};
+
+export default function ImportCouriersDialog({ kind, open, onOpenChange }: ImportCouriersDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const endpoint = IMPORT_ENDPOINTS[kind];
+
+  const importMutation = useMutation({
+    mutationFn: async ({ dryRun }: { dryRun: boolean }) => {
+      const formData = new FormData();
+      formData.append('file', file!);
+      formData.append('dryRun', String(dryRun));
+
+      const response = await fetch(`${endpoint.base}/import`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      // A rejected commit still returns the row report so the errors can be shown
+      if (!response.ok && !Array.isArray(data.rows)) {
+        throw new Error(data.message || 'Failed to import couriers');
+      }
+
+      return data as ImportReport;
+    },
+    onSuccess: (data) => {
+      setReport(data);
+      if (data.dryRun) return;
+
+      if (data.createdCount !== undefined) {
+        queryClient.invalidateQueries({ queryKey: [endpoint.base] });
+        queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+        toast({ title: "Success", description: data.message });
+        handleOpenChange(false);
+      } else {
+        toast({ title: "Import failed", description: data.message, variant: "destructive" });
+      }
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to import couriers", variant: "destructive" });
+    },
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setFile(null);
+      setReport(null);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleDownloadTemplate = async () => {
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`${endpoint.base}/import/template`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+
+      if (!response.ok) throw new Error('Failed to download template');
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = endpoint.templateName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to download template", variant: "destructive" });
+    }
+  };
+
+  const canImport = !!file && !!report?.dryRun && report.errorCount === 0 && report.validCount > 0;
+  const rowsWithIssues = report?.rows.filter(row => row.errors.length > 0 || row.warnings.length > 0) ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            {endpoint.title}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="text-sm text-slate-600">
+            Upload a CSV or Excel (.xlsx) file. The file is validated first; nothing is saved until every row is valid and you confirm the import.
+          </div>
+
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <Label htmlFor="import-file">File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.xlsx"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] ?? null);
+                  setReport(null);
+                }}
+                className="mt-1"
+                data-testid="input-import-file"
+              />
+            </div>
+            <Button variant="outline" onClick={handleDownloadTemplate} data-testid="button-download-import-template">
+              <Download className="h-4 w-4 mr-2" />
+              Template
+            </Button>
+          </div>
+
+          {report && (
+            <div className="space-y-3" data-testid="import-report">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="outline">{report.totalRows} row(s)</Badge>
+                <Badge className="bg-green-100 text-green-800 hover:bg-green-100">{report.validCount} valid</Badge>
+                {report.errorCount > 0 && (
+                  <Badge variant="destructive">{report.errorCount} with errors</Badge>
+                )}
+              </div>
+
+              {rowsWithIssues.length > 0 ? (
+                <div className="border rounded-md max-h-80 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">Row</TableHead>
+                        {PREVIEW_COLUMNS[kind].map(column => (
+                          <TableHead key={column.key}>{column.label}</TableHead>
+                        ))}
+                        <TableHead>Issues</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rowsWithIssues.map(row => (
+                        <TableRow key={row.row}>
+                          <TableCell>{row.row}</TableCell>
+                          {PREVIEW_COLUMNS[kind].map(column => (
+                            <TableCell key={column.key} className="text-xs">{row.preview[column.key] || '-'}</TableCell>
+                          ))}
+                          <TableCell className="text-xs space-y-1">
+                            {row.errors.map((error, index) => (
+                              <div key={`e${index}`} className="text-red-600">{error}</div>
+                            ))}
+                            {row.warnings.map((warning, index) => (
+                              <div key={`w${index}`} className="text-amber-600 flex items-center gap-1">
+                                <AlertTriangle className="h-3 w-3 shrink-0" />
+                                {warning}
+                              </div>
+                            ))}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 text-sm text-green-700">
+                  <CheckCircle2 className="h-4 w-4" />
+                  All rows are valid and ready to import.
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => importMutation.mutate({ dryRun: true })}
+            disabled={!file || importMutation.isPending}
+            data-testid="button-validate-import"
+          >
+            {importMutation.isPending && importMutation.variables?.dryRun ? "Validating..." : "Validate"}
+          </Button>
+          <Button
+            onClick={() => importMutation.mutate({ dryRun: false })}
+            disabled={!canImport || importMutation.isPending}
+            data-testid="button-confirm-import"
+          >
+            {importMutation.isPending && !importMutation.variables?.dryRun ? "Importing..." : `Import ${report?.validCount ?? ''} Row(s)`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
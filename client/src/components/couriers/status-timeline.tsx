@@ -0,0 +1,52 @@
+import { useQuery } from "@tanstack/react-query";
+import { COURIER_STATUS_LABELS, type CourierStatus, type CourierType } from "@shared/courier-status";
+
+interface StatusTimelineProps {
+  courierType: CourierType;
+  courierId: number;
+}
+
+interface StatusHistoryEntry {
+  id: number;
+  fromStatus: CourierStatus | null;
+  toStatus: CourierStatus;
+  remarks: string | null;
+  changedAt: string;
+  changedByName: string | null;
+}
+
+export default function StatusTimeline({ courierType, courierId }: StatusTimelineProps) {
+  const basePath = courierType === 'courier' ? '/api/couriers' : '/api/received-couriers';
+
+  const { data: history = [], isLoading } = useQuery<StatusHistoryEntry[]>({
+    queryKey: [basePath, courierId, 'status-history'],
+  });
+
+  return (
+    <div>
+      <label className="text-sm font-semibold text-slate-600 block mb-2">Status Timeline</label>
+      {isLoading ? (
+        <p className="text-sm text-slate-500">Loading history...</p>
+      ) : history.length === 0 ? (
+        <p className="text-sm text-slate-500">No status changes recorded.</p>
+      ) : (
+        <ol className="relative border-l border-slate-200 ml-2" data-testid="status-timeline">
+          {history.map((entry) => (
+            <li key={entry.id} className="mb-4 ml-4">
+              <div className="absolute w-2.5 h-2.5 bg-primary rounded-full -left-[5px] mt-1.5" />
+              <p className="text-sm font-medium text-gray-900">
+                {entry.fromStatus
+                  ? `${COURIER_STATUS_LABELS[entry.fromStatus] || entry.fromStatus} → ${COURIER_STATUS_LABELS[entry.toStatus] || entry.toStatus}`
+                  : COURIER_STATUS_LABELS[entry.toStatus] || entry.toStatus}
+              </p>
+              <p className="text-xs text-slate-500">
+                {new Date(entry.changedAt).toLocaleString()} · {entry.changedByName || 'System'}
+              </p>
+              {entry.remarks && <p className="text-sm text-slate-700 mt-1">{entry.remarks}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { apiRequest } from "@/lib/queryClient";
+
+interface TrackingEventsProps {
+  courierId: number;
+}
+
+interface TrackingEvent {
+  id: number;
+  status: string;
+  description: string | null;
+  location: string | null;
+  eventTime: string;
+  isDelivered: boolean;
+}
+
+interface CourierTracking {
+  trackingEnabled: boolean;
+  vendorName: string | null;
+  lastCheckedAt: string | null;
+  events: TrackingEvent[];
+}
+
+export default function TrackingEvents({ courierId }: TrackingEventsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+
+  const { data: tracking, isLoading } = useQuery<CourierTracking>({
+    queryKey: ['/api/couriers', courierId, 'tracking'],
+  });
+
+  const refreshMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/couriers/${courierId}/tracking/refresh`);
+      return response.json();
+    },
+    onSuccess: (result: { newEvents: number; delivered: boolean }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/couriers'] });
+      toast({
+        title: "Tracking refreshed",
+        description: result.delivered
+          ? "The carrier reports this courier as delivered"
+          : `${result.newEvents} new tracking event(s)`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to refresh tracking",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !tracking || (!tracking.trackingEnabled && tracking.events.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-sm font-semibold text-slate-600">
+          Carrier Tracking{tracking.vendorName ? ` (${tracking.vendorName})` : ''}
+        </label>
+        {tracking.trackingEnabled && can('courier.update') && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => refreshMutation.mutate()}
+            disabled={refreshMutation.isPending}
+            data-testid="button-refresh-tracking"
+          >
+            <RefreshCw className={`h-4 w-4 mr-1 ${refreshMutation.isPending ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        )}
+      </div>
+      {tracking.lastCheckedAt && (
+        <p className="text-xs text-slate-500 mb-2">Last checked {new Date(tracking.lastCheckedAt).toLocaleString()}</p>
+      )}
+      {tracking.events.length === 0 ? (
+        <p className="text-sm text-slate-500">No tracking events yet.</p>
+      ) : (
+        <ol className="relative border-l border-slate-200 ml-2" data-testid="tracking-events">
+          {tracking.events.map((event) => (
+            <li key={event.id} className="mb-4 ml-4">
+              <div className={`absolute w-2.5 h-2.5 rounded-full -left-[5px] mt-1.5 ${event.isDelivered ? 'bg-green-500' : 'bg-slate-400'}`} />
+              <p className="text-sm font-medium text-gray-900">
+                {event.status}
+                {event.isDelivered && (
+                  <Badge variant="outline" className="ml-2 bg-green-50 text-green-700 border-green-200">Delivered</Badge>
+                )}
+              </p>
+              <p className="text-xs text-slate-500">
+                {new Date(event.eventTime).toLocaleString()}{event.location ? ` · ${event.location}` : ''}
+              </p>
+              {event.description && <p className="text-sm text-slate-700 mt-1">{event.description}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,303 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { apiRequest } from "@/lib/queryClient";
+import { CheckCircle, XCircle, Eye, Download, ClipboardCheck } from "lucide-react";
+import type { LetterApprovalRequest } from "@shared/schema";
+
+type LetterApprovalRow = Omit<LetterApprovalRequest, 'requestedAt' | 'reviewedAt'> & {
+  requestedAt: string;
+  reviewedAt: string | null;
+  templateName: string | null;
+  departmentName: string | null;
+  requesterName: string | null;
+  reviewerName: string | null;
+  referenceNumber: string | null;
+};
+
+type Decision = 'approved' | 'rejected';
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+function saveBlob(blob: Blob, fileName: string) {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+}
+
+// Maker-checker queue for authority letters: requests waiting for the user's decision and the user's own requests
+export default function LetterApprovals() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const [decision, setDecision] = useState<{ request: LetterApprovalRow; decision: Decision } | null>(null);
+  const [comment, setComment] = useState("");
+
+  const canApprove = can('letter.approve');
+
+  const { data: queue = [] } = useQuery<LetterApprovalRow[]>({
+    queryKey: ['/api/letter-approvals', 'queue'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/letter-approvals?view=queue');
+      return response.json();
+    },
+    enabled: canApprove,
+    refetchInterval: 30000,
+  });
+
+  const { data: myRequests = [] } = useQuery<LetterApprovalRow[]>({
+    queryKey: ['/api/letter-approvals', 'mine'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/letter-approvals');
+      return response.json();
+    },
+    enabled: can('letter.view'),
+    refetchInterval: 30000,
+  });
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({ title: "Error", description: error.message || fallback, variant: "destructive" });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (request: LetterApprovalRow) => {
+      const response = await apiRequest('GET', `/api/letter-approvals/${request.id}/preview`);
+      const url = window.URL.createObjectURL(await response.blob());
+      window.open(url, '_blank');
+      setTimeout(() => window.URL.revokeObjectURL(url), 60000);
+    },
+    onError: onError("Failed to open the draft"),
+  });
+
+  const downloadMutation = useMutation({
+    mutationFn: async (request: LetterApprovalRow) => {
+      const response = await apiRequest('GET', `/api/letter-approvals/${request.id}/download`);
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1]
+        || `authority-letter.${request.format}`;
+      saveBlob(await response.blob(), fileName);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/letter-approvals'] }),
+    onError: onError("Failed to download letter"),
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: async ({ id, decision, comment }: { id: number; decision: Decision; comment: string }) => {
+      const response = await apiRequest('POST', `/api/letter-approvals/${id}/decision`, { decision, comment: comment || undefined });
+      return response.json();
+    },
+    onSuccess: (request: LetterApprovalRequest) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/letter-approvals'] });
+      setDecision(null);
+      setComment("");
+      toast({ title: "Success", description: `Request #${request.id} ${request.status}` });
+    },
+    onError: onError("Failed to record the decision"),
+  });
+
+  if (queue.length === 0 && myRequests.length === 0) {
+    return null;
+  }
+
+  const previewButton = (request: LetterApprovalRow) => (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => previewMutation.mutate(request)}
+      disabled={previewMutation.isPending}
+      title="Preview draft"
+      data-testid={`button-preview-approval-${request.id}`}
+    >
+      <Eye className="h-4 w-4" />
+    </Button>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Letter Approvals
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {queue.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-slate-900">Awaiting your approval ({queue.length})</h3>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Request</TableHead>
+                  <TableHead>Template</TableHead>
+                  <TableHead>Submitted by</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {queue.map((request) => (
+                  <TableRow key={request.id} data-testid={`row-approval-queue-${request.id}`}>
+                    <TableCell className="font-mono text-sm">#{request.id}</TableCell>
+                    <TableCell>
+                      <div>{request.templateName || '-'}</div>
+                      <div className="text-xs text-slate-500">{request.departmentName || '-'} · {request.format.toUpperCase()}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm">{request.requesterName || 'Unknown user'}</div>
+                      <div className="text-xs text-slate-500">{new Date(request.requestedAt).toLocaleString()}</div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        {previewButton(request)}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setDecision({ request, decision: 'approved' })}
+                          title="Approve"
+                          data-testid={`button-approve-letter-${request.id}`}
+                        >
+                          <CheckCircle className="h-4 w-4 text-green-600" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setDecision({ request, decision: 'rejected' })}
+                          title="Reject"
+                          data-testid={`button-reject-letter-${request.id}`}
+                        >
+                          <XCircle className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {myRequests.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-slate-900">Your letter requests</h3>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Request</TableHead>
+                  <TableHead>Template</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {myRequests.map((request) => (
+                  <TableRow key={request.id} data-testid={`row-my-approval-${request.id}`}>
+                    <TableCell>
+                      <div className="font-mono text-sm">#{request.id}</div>
+                      <div className="text-xs text-slate-500">{new Date(request.requestedAt).toLocaleString()}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div>{request.templateName || '-'}</div>
+                      {request.referenceNumber && (
+                        <div className="text-xs font-mono text-slate-500">{request.referenceNumber}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_STYLES[request.status] || STATUS_STYLES.pending}>
+                        {request.status.charAt(0).toUpperCase() + request.status.slice(1)}
+                      </Badge>
+                      {request.reviewComment && (
+                        <div className="text-xs text-slate-500 mt-1 max-w-xs">
+                          {request.reviewerName ? `${request.reviewerName}: ` : ''}{request.reviewComment}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        {previewButton(request)}
+                        {request.status === 'approved' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => downloadMutation.mutate(request)}
+                            disabled={downloadMutation.isPending}
+                            title="Download letter"
+                            data-testid={`button-download-approved-${request.id}`}
+                          >
+                            <Download className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={!!decision}
+        onOpenChange={(open) => {
+          if (!open) {
+            setDecision(null);
+            setComment("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {decision?.decision === 'approved' ? 'Approve' : 'Reject'} request #{decision?.request.id}
+            </DialogTitle>
+            <DialogDescription>
+              {decision?.decision === 'approved'
+                ? 'The maker can then download the final letter, which is issued with a reference number.'
+                : 'The maker is told why, and can correct the letter and submit it again.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="letter-approval-comment">
+              Comment{decision?.decision === 'approved' ? ' (optional)' : ''}
+            </Label>
+            <Textarea
+              id="letter-approval-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={3}
+              data-testid="textarea-letter-approval-comment"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDecision(null)}>
+              Close
+            </Button>
+            <Button
+              variant={decision?.decision === 'approved' ? 'default' : 'destructive'}
+              disabled={decisionMutation.isPending || (decision?.decision === 'rejected' && !comment.trim())}
+              onClick={() => decision && decisionMutation.mutate({ id: decision.request.id, decision: decision.decision, comment: comment.trim() })}
+              data-testid="button-confirm-letter-decision"
+            >
+              {decisionMutation.isPending ? "Saving..." : decision?.decision === 'approved' ? "Approve" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
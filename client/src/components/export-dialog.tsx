@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { getAuthHeaders } from "@/lib/queryClient";
 
 interface ExportDialogProps {
   title: string;
@@ -22,8 +23,6 @@ export function ExportDialog({ title, exportType, children }: ExportDialogProps)
   const handleExport = async () => {
     try {
       setIsExporting(true);
-      const token = localStorage.getItem('auth_token');
-      
       // Build query parameters
       const params = new URLSearchParams();
       if (startDate) params.append('startDate', startDate);
@@ -33,9 +32,7 @@ export function ExportDialog({ title, exportType, children }: ExportDialogProps)
       const url = `${endpoint}?${params.toString()}`;
       
       const response = await fetch(url, {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
+        headers: getAuthHeaders()
       });
       
       if (response.ok) {
@@ -6,14 +6,16 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Input } from "@/components/ui/input";
-import { User, LogOut, Mail, Building, Calendar, Phone, Hash, Camera, Upload, KeyRound } from "lucide-react";
+import { User, LogOut, Mail, Building, Calendar, Phone, Hash, Camera, Upload, KeyRound, MonitorSmartphone, ShieldCheck } from "lucide-react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import ChangePasswordDialog from "@/components/change-password-dialog";
+import SessionsList, { type SessionSummary } from "@/components/sessions-list";
+import TwoFactorDialog from "@/components/two-factor/two-factor-dialog";
 
 export default function AccountProfile() {
-  const { user, logout } = useAuth();
+  const { user, logout, logoutEverywhere } = useAuth();
   const [isOpen, setIsOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
@@ -46,6 +48,33 @@ export default function AccountProfile() {
     // logout() already handles the cleanup and redirect
   };
 
+  const { data: sessions = [] } = useQuery<SessionSummary[]>({
+    queryKey: ['/api/auth/sessions'],
+    enabled: isOpen,
+  });
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      const response = await apiRequest('DELETE', `/api/auth/sessions/${sessionId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/sessions'] });
+      toast({ title: "Success", description: "Session signed out" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to sign out session", variant: "destructive" });
+    },
+  });
+
+  const handleLogoutEverywhere = async () => {
+    try {
+      await logoutEverywhere();
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to log out of all sessions", variant: "destructive" });
+    }
+  };
+
   const uploadImageMutation = useMutation({
     mutationFn: async (file: File) => {
       const formData = new FormData();
@@ -123,7 +152,7 @@ export default function AccountProfile() {
           <span className="hidden md:inline">Profile</span>
         </Button>
       </DialogTrigger>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <User className="h-5 w-5" />
@@ -181,6 +210,11 @@ export default function AccountProfile() {
               <Badge variant="secondary" className="mt-1" data-testid="badge-user-role">
                 {userData?.role?.toUpperCase() || 'USER'}
               </Badge>
+              {userData?.emergencyAccessExpiresAt && (
+                <p className="mt-2 text-xs text-red-600" data-testid="text-emergency-access">
+                  Emergency access until {new Date(userData.emergencyAccessExpiresAt).toLocaleString()}. All changes are audited.
+                </p>
+              )}
             </div>
 
             <Separator />
@@ -239,6 +273,23 @@ export default function AccountProfile() {
 
             <Separator />
 
+            {/* Active Sessions */}
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-slate-700 flex items-center gap-2">
+                <MonitorSmartphone className="h-4 w-4 text-slate-400" />
+                Active Sessions
+              </p>
+              <div className="max-h-48 overflow-y-auto">
+                <SessionsList
+                  sessions={sessions}
+                  onRevoke={(sessionId) => revokeSessionMutation.mutate(sessionId)}
+                  isRevoking={revokeSessionMutation.isPending}
+                />
+              </div>
+            </div>
+
+            <Separator />
+
             {/* Actions */}
             <div className="flex flex-col gap-3">
               <ChangePasswordDialog>
@@ -252,7 +303,21 @@ export default function AccountProfile() {
                   Change Password
                 </Button>
               </ChangePasswordDialog>
-              
+
+              {!userData?.emergencyAccessExpiresAt && (
+                <TwoFactorDialog>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex items-center gap-2"
+                    data-testid="button-two-factor-profile"
+                  >
+                    <ShieldCheck className="h-4 w-4" />
+                    Two-Factor Authentication
+                  </Button>
+                </TwoFactorDialog>
+              )}
+
               <Button
                 variant="destructive"
                 size="sm"
@@ -263,6 +328,17 @@ export default function AccountProfile() {
                 <LogOut className="h-4 w-4" />
                 Sign Out
               </Button>
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleLogoutEverywhere}
+                className="flex items-center gap-2 text-red-600 hover:text-red-700"
+                data-testid="button-logout-everywhere"
+              >
+                <LogOut className="h-4 w-4" />
+                Log Out Everywhere
+              </Button>
             </div>
           </div>
         </div>
@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
+import { refreshAccessToken } from "@/lib/queryClient";
 import Sidebar from "./sidebar";
 import TopNavbar from "./top-navbar";
 
@@ -9,6 +10,13 @@ interface AppLayoutProps {
 export default function AppLayout({ children }: AppLayoutProps) {
   const [sidebarOpen, setSidebarOpen] = useState(false);
 
+  // Access tokens last 15 minutes; renew them ahead of time so plain fetch calls
+  // (downloads, file uploads) never go out with an expired token
+  useEffect(() => {
+    const interval = setInterval(refreshAccessToken, 10 * 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
   return (
     <div className="flex h-screen bg-slate-50">
       <Sidebar isOpen={sidebarOpen} onClose={() => setSidebarOpen(false)} />
@@ -0,0 +1,76 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Building } from "lucide-react";
+import { ACTIVE_DEPARTMENT_KEY } from "@/lib/queryClient";
+
+interface UserDepartment {
+  id: number;
+  name: string;
+  isPrimary: boolean;
+}
+
+const ALL_DEPARTMENTS = "all";
+
+// Lets staff who belong to several departments view one of them or all at once.
+// The choice is sent with every request as X-Department-Id (see getAuthHeaders).
+export default function DepartmentSwitcher() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [activeDepartment, setActiveDepartment] = useState<string>(
+    () => localStorage.getItem(ACTIVE_DEPARTMENT_KEY) || ALL_DEPARTMENTS
+  );
+
+  const { data: departments = [] } = useQuery<UserDepartment[]>({
+    queryKey: ["/api/user/departments"],
+    enabled: !!user,
+  });
+
+  const handleChange = (value: string) => {
+    if (value === ALL_DEPARTMENTS) {
+      localStorage.removeItem(ACTIVE_DEPARTMENT_KEY);
+    } else {
+      localStorage.setItem(ACTIVE_DEPARTMENT_KEY, value);
+    }
+    setActiveDepartment(value);
+    // Every scoped list and statistic depends on the selection
+    queryClient.invalidateQueries();
+  };
+
+  // Drop a selection the user no longer has access to
+  useEffect(() => {
+    if (
+      activeDepartment !== ALL_DEPARTMENTS &&
+      departments.length > 0 &&
+      !departments.some((department) => department.id.toString() === activeDepartment)
+    ) {
+      handleChange(ALL_DEPARTMENTS);
+    }
+  }, [departments, activeDepartment]);
+
+  if (departments.length < 2) return null;
+
+  return (
+    <Select value={activeDepartment} onValueChange={handleChange}>
+      <SelectTrigger className="w-48" data-testid="select-active-department">
+        <Building className="h-4 w-4 mr-2 text-slate-500" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_DEPARTMENTS}>All my departments</SelectItem>
+        {departments.map((department) => (
+          <SelectItem key={department.id} value={department.id.toString()}>
+            {department.name}{department.isPrimary ? " (primary)" : ""}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
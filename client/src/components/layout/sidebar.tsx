@@ -2,7 +2,7 @@ import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { Link, useLocation, useRouter } from "wouter";
 import { cn } from "@/lib/utils";
-import { useQuery } from "@tanstack/react-query";
+import { usePermissions } from "@/hooks/usePermissions";
 import { ExportDialog } from "@/components/export-dialog";
 import lightLogo from "@/assets/light-logo.png";
 import { 
@@ -21,7 +21,9 @@ import {
   FileText,
   Shield,
   Store,
-  KeyRound
+  KeyRound,
+  ScanLine,
+  BookCheck
 } from "lucide-react";
 
 interface SidebarProps {
@@ -33,22 +35,17 @@ export default function Sidebar({ isOpen, onClose }: SidebarProps) {
   const { user, logout } = useAuth();
   const [location] = useLocation();
 
-  // Fetch user's accessible tabs based on their department policies
-  const { data: userPermissions } = useQuery({
-    queryKey: ["/api/user-permissions"],
-    enabled: !!user,
-    retry: false,
-  });
-
-  // Check if user has access to branches
-  const shouldShowBranches = (user as any)?.role === 'admin' || (user as any)?.role === 'sub_admin' || 
-    (userPermissions as any)?.accessibleTabs?.includes('branches');
+  // Navigation follows the user's effective permissions
+  const { can } = usePermissions();
+  const shouldShowBranches = can('branch.view');
 
   const navigation = [
     { name: "Dashboard", href: "/", icon: BarChart3, current: location === "/" },
-    { name: "Sent Couriers", href: "/couriers", icon: Package, current: location === "/couriers" },
-    { name: "Received Couriers", href: "/received-couriers", icon: Truck, current: location === "/received-couriers" },
-    { name: "Authority Letter", href: "/authority-letter", icon: FileDown, current: location === "/authority-letter" },
+    ...(can('courier.view') ? [{ name: "Sent Couriers", href: "/couriers", icon: Package, current: location === "/couriers" }] : []),
+    ...(can('received_courier.view') ? [{ name: "Received Couriers", href: "/received-couriers", icon: Truck, current: location === "/received-couriers" }] : []),
+    ...(can('courier.update') ? [{ name: "Scan Label", href: "/scan", icon: ScanLine, current: location === "/scan" }] : []),
+    ...(can('letter.view') ? [{ name: "Authority Letter", href: "/authority-letter", icon: FileDown, current: location === "/authority-letter" }] : []),
+    ...(can('letter.register') ? [{ name: "Letter Register", href: "/letter-register", icon: BookCheck, current: location === "/letter-register" }] : []),
     ...(shouldShowBranches && user?.role !== 'admin' && user?.role !== 'sub_admin' ? [{ name: "Branch List", href: "/branches", icon: MapPin, current: location === "/branches" }] : []),
   ];
 
@@ -67,8 +64,8 @@ export default function Sidebar({ isOpen, onClose }: SidebarProps) {
     { name: "Export Data", href: "/export", icon: FileDown, group: "tools" },
   ] : [];
 
-  // Manager navigation items (export access)
-  const managerNavigation = ((user as any)?.role === 'manager') ? [
+  // Export access for other roles (admin navigation already includes it)
+  const managerNavigation = (adminNavigation.length === 0 && can('courier.export')) ? [
     { name: "Export Data", href: "/export", icon: FileDown, group: "tools" },
   ] : [];
 
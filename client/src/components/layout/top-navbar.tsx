@@ -12,6 +12,7 @@ import { ThemeToggle } from "@/components/ui/theme-toggle";
 import { Menu, Bell, ChevronDown } from "lucide-react";
 import { useLocation } from "wouter";
 import AccountProfile from "./account-profile";
+import DepartmentSwitcher from "./department-switcher";
 import lightLogo from "@/assets/light-logo.png";
 import { useQuery } from "@tanstack/react-query";
 
@@ -70,6 +71,9 @@ export default function TopNavbar({ onMenuClick }: TopNavbarProps) {
         
         {/* Right side */}
         <div className="ml-4 flex items-center md:ml-6 space-x-4">
+          {/* Department Switcher */}
+          <DepartmentSwitcher />
+
           {/* Notifications */}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -0,0 +1,89 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Monitor, Smartphone, X } from "lucide-react";
+
+export interface SessionSummary {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string | null;
+  expiresAt: string;
+  isCurrent: boolean;
+}
+
+interface SessionsListProps {
+  sessions: SessionSummary[];
+  onRevoke: (sessionId: string) => void;
+  isRevoking?: boolean;
+  // The user's own list hides the button on the current session; "Sign Out" covers it
+  allowRevokeCurrent?: boolean;
+}
+
+// Short "Browser on OS" label from a user agent string
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) return { label: 'Unknown device', isMobile: false };
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\//.test(userAgent) ? 'Opera'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const os = /Windows/.test(userAgent) ? 'Windows'
+    : /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'unknown OS';
+
+  return { label: `${browser} on ${os}`, isMobile: /Mobile|Android|iPhone|iPad/.test(userAgent) };
+}
+
+const formatDateTime = (value: string | null) => {
+  if (!value) return '-';
+  const date = new Date(value);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export default function SessionsList({ sessions, onRevoke, isRevoking, allowRevokeCurrent }: SessionsListProps) {
+  if (sessions.length === 0) {
+    return <p className="text-sm text-slate-500 text-center py-2">No active sessions</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {sessions.map((session) => {
+        const device = describeDevice(session.userAgent);
+        const DeviceIcon = device.isMobile ? Smartphone : Monitor;
+        return (
+          <div key={session.id} className="flex items-center gap-3 rounded-md border p-2" data-testid={`session-${session.id}`}>
+            <DeviceIcon className="h-4 w-4 text-slate-400 shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-slate-700 flex items-center gap-2">
+                {device.label}
+                {session.isCurrent && <Badge variant="secondary" className="text-xs">This device</Badge>}
+              </p>
+              <p className="text-xs text-slate-500 truncate">
+                {session.ipAddress || 'Unknown IP'} · Last seen {formatDateTime(session.lastSeenAt)}
+              </p>
+            </div>
+            {(!session.isCurrent || allowRevokeCurrent) && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => onRevoke(session.id)}
+                disabled={isRevoking}
+                title="Sign out this session"
+                data-testid={`button-revoke-session-${session.id}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
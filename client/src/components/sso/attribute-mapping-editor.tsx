@@ -0,0 +1,220 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { OIDC_DEFAULT_CLAIMS, SAML_DEFAULT_ATTRIBUTES, SSO_ROLES, type SsoAttributeMapping, type SsoRole } from "@shared/sso-mapping";
+
+const ROLE_LABELS: Record<SsoRole, string> = {
+  admin: 'Admin',
+  sub_admin: 'Sub Admin',
+  manager: 'Manager',
+  user: 'User',
+};
+
+const PROFILE_ATTRIBUTES: { key: 'emailAttribute' | 'nameAttribute' | 'firstNameAttribute' | 'lastNameAttribute'; label: string; default: 'email' | 'name' | 'firstName' | 'lastName' }[] = [
+  { key: 'emailAttribute', label: 'Email attribute', default: 'email' },
+  { key: 'nameAttribute', label: 'Display name attribute', default: 'name' },
+  { key: 'firstNameAttribute', label: 'First name attribute', default: 'firstName' },
+  { key: 'lastNameAttribute', label: 'Last name attribute', default: 'lastName' },
+];
+
+interface AttributeMappingEditorProps {
+  value: SsoAttributeMapping;
+  onChange: (value: SsoAttributeMapping) => void;
+  // Decides the standard attribute names shown when a field is left blank
+  protocol?: 'saml' | 'oidc';
+}
+
+// Maps SAML assertion attributes or OpenID Connect claims to the user's name, role and departments
+export default function AttributeMappingEditor({ value, onChange, protocol = 'saml' }: AttributeMappingEditorProps) {
+  const defaults = protocol === 'oidc' ? OIDC_DEFAULT_CLAIMS : SAML_DEFAULT_ATTRIBUTES;
+  const { data: departments = [] } = useQuery<{ id: number; name: string }[]>({
+    queryKey: ['/api/departments'],
+  });
+
+  const updateRoleRule = (index: number, changes: Partial<SsoAttributeMapping['roleRules'][number]>) => {
+    onChange({ ...value, roleRules: value.roleRules.map((rule, i) => i === index ? { ...rule, ...changes } : rule) });
+  };
+
+  const updateDepartmentRule = (index: number, changes: Partial<SsoAttributeMapping['departmentRules'][number]>) => {
+    onChange({ ...value, departmentRules: value.departmentRules.map((rule, i) => i === index ? { ...rule, ...changes } : rule) });
+  };
+
+  const toggleRuleDepartment = (index: number, departmentId: number, checked: boolean) => {
+    const departmentIds = value.departmentRules[index].departmentIds;
+    updateDepartmentRule(index, {
+      departmentIds: checked ? [...departmentIds, departmentId] : departmentIds.filter(id => id !== departmentId),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div>
+          <h4 className="text-sm font-semibold text-slate-900">User attributes</h4>
+          <p className="text-xs text-slate-500">
+            Leave blank to use the {protocol === 'saml' ? 'NameID and the ' : ''}standard claims shown.
+          </p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {PROFILE_ATTRIBUTES.map(attribute => (
+            <div key={attribute.key}>
+              <Label htmlFor={`saml-${attribute.key}`}>{attribute.label}</Label>
+              <Input
+                id={`saml-${attribute.key}`}
+                placeholder={protocol === 'saml' && attribute.default === 'email' ? 'NameID' : defaults[attribute.default]}
+                value={value[attribute.key]}
+                onChange={(e) => onChange({ ...value, [attribute.key]: e.target.value })}
+                className="font-mono text-xs"
+                data-testid={`input-saml-${attribute.key}`}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <h4 className="text-sm font-semibold text-slate-900">Role rules</h4>
+          <p className="text-xs text-slate-500">
+            Users get the highest role whose rule matches, and the default role otherwise. Roles are re-synced on every login;
+            with no rules, roles set by admins are kept.
+          </p>
+        </div>
+        <div className="max-w-xs">
+          <Label>Default role</Label>
+          <Select value={value.defaultRole} onValueChange={(role) => onChange({ ...value, defaultRole: role as SsoRole })}>
+            <SelectTrigger data-testid="select-saml-default-role">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SSO_ROLES.map(role => (
+                <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {value.roleRules.map((rule, index) => (
+          <div key={index} className="grid grid-cols-[1fr_1fr_10rem_auto] gap-2 items-end">
+            <div>
+              <Label className="text-xs">Attribute</Label>
+              <Input
+                value={rule.attribute}
+                onChange={(e) => updateRoleRule(index, { attribute: e.target.value })}
+                className="font-mono text-xs"
+                data-testid={`input-saml-role-rule-attribute-${index}`}
+              />
+            </div>
+            <div>
+              <Label className="text-xs">Equals</Label>
+              <Input
+                value={rule.value}
+                placeholder="Group name or ID"
+                onChange={(e) => updateRoleRule(index, { value: e.target.value })}
+                data-testid={`input-saml-role-rule-value-${index}`}
+              />
+            </div>
+            <div>
+              <Label className="text-xs">Role</Label>
+              <Select value={rule.role} onValueChange={(role) => updateRoleRule(index, { role: role as SsoRole })}>
+                <SelectTrigger data-testid={`select-saml-role-rule-role-${index}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SSO_ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange({ ...value, roleRules: value.roleRules.filter((_, i) => i !== index) })}
+              data-testid={`button-remove-saml-role-rule-${index}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...value, roleRules: [...value.roleRules, { attribute: defaults.groups, value: '', role: 'user' }] })}
+          data-testid="button-add-saml-role-rule"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Role Rule
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <h4 className="text-sm font-semibold text-slate-900">Department rules</h4>
+          <p className="text-xs text-slate-500">
+            Users belong to the departments of every matching rule, re-synced on every login. With no rules,
+            departments set by admins are kept.
+          </p>
+        </div>
+        {value.departmentRules.map((rule, index) => (
+          <div key={index} className="rounded-md border p-3 space-y-2">
+            <div className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+              <div>
+                <Label className="text-xs">Attribute</Label>
+                <Input
+                  value={rule.attribute}
+                  onChange={(e) => updateDepartmentRule(index, { attribute: e.target.value })}
+                  className="font-mono text-xs"
+                  data-testid={`input-saml-department-rule-attribute-${index}`}
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Equals</Label>
+                <Input
+                  value={rule.value}
+                  placeholder="Group name or ID"
+                  onChange={(e) => updateDepartmentRule(index, { value: e.target.value })}
+                  data-testid={`input-saml-department-rule-value-${index}`}
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange({ ...value, departmentRules: value.departmentRules.filter((_, i) => i !== index) })}
+                data-testid={`button-remove-saml-department-rule-${index}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2 max-h-32 overflow-y-auto">
+              {departments.map(department => (
+                <div key={department.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`saml-rule-${index}-dept-${department.id}`}
+                    checked={rule.departmentIds.includes(department.id)}
+                    onCheckedChange={(checked) => toggleRuleDepartment(index, department.id, !!checked)}
+                  />
+                  <label htmlFor={`saml-rule-${index}-dept-${department.id}`} className="text-sm cursor-pointer">
+                    {department.name}
+                  </label>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...value, departmentRules: [...value.departmentRules, { attribute: defaults.groups, value: '', departmentIds: [] }] })}
+          data-testid="button-add-saml-department-rule"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Department Rule
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Fingerprint, Users } from "lucide-react";
+import AttributeMappingEditor from "./attribute-mapping-editor";
+import { DEFAULT_SSO_ATTRIBUTE_MAPPING, type SsoAttributeMapping } from "@shared/sso-mapping";
+
+interface OidcSettings {
+  enabled: boolean;
+  displayName: string | null;
+  issuerUrl: string | null;
+  clientId: string | null;
+  clientSecretConfigured: boolean;
+  scopes: string | null;
+  claimMapping: SsoAttributeMapping;
+  callbackUrl: string;
+}
+
+const toFormData = (settings?: OidcSettings) => ({
+  enabled: settings?.enabled || false,
+  displayName: settings?.displayName || "OpenID Connect",
+  issuerUrl: settings?.issuerUrl || "",
+  clientId: settings?.clientId || "",
+  // Blank keeps the stored secret, null removes it
+  clientSecret: "" as string | null,
+  scopes: settings?.scopes || "openid email profile",
+  claimMapping: settings?.claimMapping || DEFAULT_SSO_ATTRIBUTE_MAPPING,
+});
+
+// OpenID Connect provider (authorization code + PKCE), configured next to SAML SSO
+export default function OidcSettingsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings, isLoading } = useQuery<OidcSettings>({
+    queryKey: ['/api/oidc-settings'],
+  });
+
+  const [formData, setFormData] = useState(toFormData());
+
+  useEffect(() => {
+    if (settings) setFormData(toFormData(settings));
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ReturnType<typeof toFormData>) => {
+      const res = await apiRequest('PUT', '/api/oidc-settings', data);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "OpenID Connect settings saved successfully" });
+      queryClient.invalidateQueries({ queryKey: ['/api/oidc-settings'] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save OpenID Connect settings", variant: "destructive" });
+    }
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-8">Loading OpenID Connect settings...</div>;
+  }
+
+  const callbackUrl = settings?.callbackUrl || `${window.location.origin}/api/oidc/callback`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Fingerprint className="h-5 w-5" />
+          OpenID Connect
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="bg-slate-50 p-4 rounded-lg border border-slate-200">
+          <h3 className="text-sm font-semibold text-slate-900 mb-2">Redirect URI</h3>
+          <div className="flex items-center gap-2">
+            <Input readOnly value={callbackUrl} className="bg-white font-mono text-xs" />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                navigator.clipboard.writeText(callbackUrl);
+                toast({ title: "Copied", description: "Redirect URI copied to clipboard" });
+              }}
+            >
+              Copy
+            </Button>
+          </div>
+          <p className="text-xs text-slate-500 mt-2">
+            Register this redirect URI for the client at your identity provider. Logins use the authorization code flow with PKCE.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="oidc-issuer">Issuer URL</Label>
+            <Input
+              id="oidc-issuer"
+              placeholder="https://login.example.com/realms/group"
+              value={formData.issuerUrl}
+              onChange={(e) => setFormData(prev => ({ ...prev, issuerUrl: e.target.value }))}
+              data-testid="input-oidc-issuer"
+            />
+            <p className="text-sm text-slate-500 mt-1">Endpoints are discovered from /.well-known/openid-configuration</p>
+          </div>
+          <div>
+            <Label htmlFor="oidc-display-name">Button label</Label>
+            <Input
+              id="oidc-display-name"
+              value={formData.displayName}
+              onChange={(e) => setFormData(prev => ({ ...prev, displayName: e.target.value }))}
+              data-testid="input-oidc-display-name"
+            />
+            <p className="text-sm text-slate-500 mt-1">Shown as "Login with ..." on the sign-in dialog</p>
+          </div>
+          <div>
+            <Label htmlFor="oidc-client-id">Client ID</Label>
+            <Input
+              id="oidc-client-id"
+              value={formData.clientId}
+              onChange={(e) => setFormData(prev => ({ ...prev, clientId: e.target.value }))}
+              data-testid="input-oidc-client-id"
+            />
+          </div>
+          <div>
+            <Label htmlFor="oidc-client-secret">Client secret</Label>
+            <Input
+              id="oidc-client-secret"
+              type="password"
+              autoComplete="off"
+              placeholder={formData.clientSecret === null
+                ? "The stored secret will be removed on save"
+                : settings?.clientSecretConfigured ? "A secret is stored. Enter a new one to replace it." : "Leave blank for a public client"}
+              value={formData.clientSecret ?? ""}
+              onChange={(e) => setFormData(prev => ({ ...prev, clientSecret: e.target.value }))}
+              data-testid="input-oidc-client-secret"
+            />
+            {settings?.clientSecretConfigured && formData.clientSecret !== null && (
+              <Button
+                variant="link"
+                size="sm"
+                className="px-0 text-red-600"
+                onClick={() => setFormData(prev => ({ ...prev, clientSecret: null }))}
+              >
+                Remove secret
+              </Button>
+            )}
+          </div>
+          <div className="md:col-span-2">
+            <Label htmlFor="oidc-scopes">Scopes</Label>
+            <Input
+              id="oidc-scopes"
+              value={formData.scopes}
+              onChange={(e) => setFormData(prev => ({ ...prev, scopes: e.target.value }))}
+              data-testid="input-oidc-scopes"
+            />
+            <p className="text-sm text-slate-500 mt-1">Space separated. Add the scope your provider needs for group claims, if any.</p>
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="oidc-enabled"
+            checked={formData.enabled}
+            onCheckedChange={(checked) => setFormData(prev => ({ ...prev, enabled: checked as boolean }))}
+            data-testid="checkbox-oidc-enabled"
+          />
+          <Label htmlFor="oidc-enabled">Enable OpenID Connect login</Label>
+        </div>
+
+        <div className="border-t pt-4 space-y-2">
+          <h3 className="font-medium text-slate-900 flex items-center gap-2">
+            <Users className="h-4 w-4" />
+            User Provisioning
+          </h3>
+          <p className="text-sm text-slate-600">
+            Users are created on their first login and updated from the ID token and userinfo claims on every login.
+          </p>
+          <AttributeMappingEditor
+            protocol="oidc"
+            value={formData.claimMapping}
+            onChange={(claimMapping) => setFormData(prev => ({ ...prev, claimMapping }))}
+          />
+        </div>
+
+        <div className="flex gap-3 pt-4">
+          <Button
+            onClick={() => saveMutation.mutate(formData)}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-oidc"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Configuration"}
+          </Button>
+          <Button variant="outline" onClick={() => setFormData(toFormData(settings))}>
+            Reset
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
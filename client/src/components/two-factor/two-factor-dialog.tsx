@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ShieldCheck } from "lucide-react";
+import { TwoFactorCodeInput, TwoFactorQrCode, BackupCodesList, type TwoFactorSetup } from "./two-factor-fields";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  backupCodesRemaining: number;
+  required: boolean;
+}
+
+interface TwoFactorDialogProps {
+  children: React.ReactNode;
+}
+
+export default function TwoFactorDialog({ children }: TwoFactorDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ['/api/auth/2fa'],
+    enabled: isOpen,
+  });
+
+  const reset = () => {
+    setSetup(null);
+    setBackupCodes(null);
+    setCode("");
+  };
+
+  const onError = (error: Error) => {
+    const message = error.message.includes('Invalid verification code') ? 'Invalid verification code' : 'Request failed, please try again';
+    toast({ title: "Error", description: message, variant: "destructive" });
+    setCode("");
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      // Replacing an enabled second factor needs a current code
+      const res = await apiRequest('POST', '/api/auth/2fa/setup', status?.enabled ? { currentCode: code } : undefined);
+      return res.json();
+    },
+    onSuccess: (data: TwoFactorSetup) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/auth/2fa/enable', { code });
+      return res.json();
+    },
+    onSuccess: (data: { backupCodes: string[] }) => {
+      setSetup(null);
+      setCode("");
+      setBackupCodes(data.backupCodes);
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/2fa'] });
+      toast({ title: "Success", description: "Two-factor authentication enabled" });
+    },
+    onError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/auth/2fa/backup-codes', { code });
+      return res.json();
+    },
+    onSuccess: (data: { backupCodes: string[] }) => {
+      setCode("");
+      setBackupCodes(data.backupCodes);
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/2fa'] });
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/auth/2fa/disable', { code });
+      return res.json();
+    },
+    onSuccess: () => {
+      reset();
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/2fa'] });
+      toast({ title: "Success", description: "Two-factor authentication disabled" });
+    },
+    onError,
+  });
+
+  const isBusy = setupMutation.isPending || enableMutation.isPending || regenerateMutation.isPending || disableMutation.isPending;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); if (!open) reset(); }}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Two-Factor Authentication
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading || !status ? (
+          <div className="animate-pulse space-y-2">
+            <div className="h-4 bg-slate-200 rounded w-3/4"></div>
+            <div className="h-4 bg-slate-200 rounded w-1/2"></div>
+          </div>
+        ) : backupCodes ? (
+          <div className="space-y-4">
+            <BackupCodesList codes={backupCodes} />
+            <Button className="w-full" onClick={() => setBackupCodes(null)}>Done</Button>
+          </div>
+        ) : setup ? (
+          <div className="space-y-4">
+            <TwoFactorQrCode setup={setup} />
+            <p className="text-sm text-slate-600 text-center">Enter the 6-digit code shown in the app to finish.</p>
+            <TwoFactorCodeInput value={code} onChange={setCode} />
+            <Button className="w-full" onClick={() => enableMutation.mutate()} disabled={code.length !== 6 || isBusy} data-testid="button-enable-two-factor">
+              {enableMutation.isPending ? "Verifying..." : "Enable"}
+            </Button>
+          </div>
+        ) : status.enabled ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Enabled</Badge>
+              <span className="text-xs text-slate-500">{status.backupCodesRemaining} backup codes left</span>
+            </div>
+            <p className="text-sm text-slate-600">Enter a current code to create new backup codes{status.required ? ' or move to a new device' : ', move to a new device or turn off two-factor authentication'}.</p>
+            <TwoFactorCodeInput value={code} onChange={setCode} allowBackupCode />
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={() => regenerateMutation.mutate()} disabled={!code || isBusy} data-testid="button-regenerate-backup-codes">
+                New Backup Codes
+              </Button>
+              {!status.required && (
+                <Button variant="destructive" className="flex-1" onClick={() => disableMutation.mutate()} disabled={!code || isBusy} data-testid="button-disable-two-factor">
+                  Turn Off
+                </Button>
+              )}
+            </div>
+            <Button variant="link" size="sm" className="w-full text-slate-600" onClick={() => setupMutation.mutate()} disabled={!code || isBusy}>
+              Move to a new device
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-600">
+              Protect your account with a code from an authenticator app in addition to your password.
+            </p>
+            <Button className="w-full" onClick={() => setupMutation.mutate()} disabled={isBusy} data-testid="button-setup-two-factor">
+              {setupMutation.isPending ? "Please wait..." : "Set Up Two-Factor Authentication"}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { Copy } from "lucide-react";
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpAuthUrl: string;
+  qrCode: string;
+}
+
+interface TwoFactorCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit?: (code: string) => void;
+  // Backup codes are accepted wherever an enrolled user verifies, but not while enrolling
+  allowBackupCode?: boolean;
+}
+
+// Six-digit code from the authenticator app, or a backup code when the phone is unavailable
+export function TwoFactorCodeInput({ value, onChange, onSubmit, allowBackupCode }: TwoFactorCodeInputProps) {
+  const [useBackupCode, setUseBackupCode] = useState(false);
+
+  const toggleBackupCode = () => {
+    setUseBackupCode(!useBackupCode);
+    onChange("");
+  };
+
+  return (
+    <div className="space-y-2">
+      {useBackupCode ? (
+        <Input
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && onSubmit?.(value)}
+          placeholder="xxxxx-xxxxx"
+          autoComplete="off"
+          autoFocus
+          data-testid="input-backup-code"
+        />
+      ) : (
+        <div className="flex justify-center">
+          <InputOTP
+            maxLength={6}
+            value={value}
+            onChange={onChange}
+            onComplete={(completed: string) => onSubmit?.(completed)}
+            autoFocus
+            data-testid="input-totp-code"
+          >
+            <InputOTPGroup>
+              {Array.from({ length: 6 }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      )}
+      {allowBackupCode && (
+        <Button type="button" variant="link" size="sm" className="w-full text-slate-600" onClick={toggleBackupCode}>
+          {useBackupCode ? "Use a code from the authenticator app" : "Use a backup code instead"}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+// QR code and manual key for adding the account to an authenticator app
+export function TwoFactorQrCode({ setup }: { setup: TwoFactorSetup }) {
+  return (
+    <div className="space-y-2 text-center">
+      <p className="text-sm text-slate-600">
+        Scan this QR code with an authenticator app such as Google or Microsoft Authenticator.
+      </p>
+      <img src={setup.qrCode} alt="Two-factor QR code" className="mx-auto h-44 w-44" data-testid="img-two-factor-qr" />
+      <p className="text-xs text-slate-500">Or enter this key manually:</p>
+      <code className="block break-all rounded bg-slate-100 px-2 py-1 text-xs" data-testid="text-two-factor-secret">
+        {setup.secret.match(/.{1,4}/g)?.join(' ')}
+      </code>
+    </div>
+  );
+}
+
+// Backup codes are only returned once, so the user is asked to keep them somewhere safe
+export function BackupCodesList({ codes }: { codes: string[] }) {
+  const { toast } = useToast();
+
+  const copyCodes = () => {
+    navigator.clipboard.writeText(codes.join('\n'));
+    toast({ title: "Copied", description: "Backup codes copied to clipboard" });
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-slate-600">
+        Save these backup codes. Each can be used once to sign in if you lose access to your authenticator app.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-slate-50 p-3 font-mono text-sm" data-testid="list-backup-codes">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <Button type="button" variant="outline" size="sm" className="w-full" onClick={copyCodes}>
+        <Copy className="h-4 w-4 mr-2" />
+        Copy Codes
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { LoginResult } from "@/hooks/useAuth";
+import { TwoFactorCodeInput, TwoFactorQrCode, BackupCodesList, type TwoFactorSetup } from "./two-factor-fields";
+
+export interface TwoFactorLoginChallenge {
+  challengeToken: string;
+  // 'enroll' when the user's role requires 2FA and they have not set it up yet
+  mode: 'verify' | 'enroll';
+}
+
+interface TwoFactorLoginStepProps {
+  challenge: TwoFactorLoginChallenge;
+  onComplete: (result: LoginResult) => void;
+  onCancel: () => void;
+}
+
+// Second step of the sign-in dialog, shown after the password was accepted
+export default function TwoFactorLoginStep({ challenge, onComplete, onCancel }: TwoFactorLoginStepProps) {
+  const [code, setCode] = useState("");
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [enrolled, setEnrolled] = useState<(LoginResult & { backupCodes: string[] }) | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const handleError = (error: any, fallback: string) => {
+    if (error.message?.includes('CHALLENGE_EXPIRED')) {
+      toast({ title: "Error", description: "Verification has expired, please sign in again", variant: "destructive" });
+      onCancel();
+      return;
+    }
+    const description = error.message?.includes('Invalid verification code') ? 'Invalid verification code'
+      : error.message?.includes('TOO_MANY_ATTEMPTS') ? 'Too many attempts. Please try again later.'
+      : fallback;
+    toast({ title: "Error", description, variant: "destructive" });
+    setCode("");
+  };
+
+  useEffect(() => {
+    if (challenge.mode !== 'enroll') return;
+    apiRequest('POST', '/api/auth/login/2fa/setup', { challengeToken: challenge.challengeToken })
+      .then((res) => res.json())
+      .then(setSetup)
+      .catch((error) => handleError(error, "Failed to start two-factor setup"));
+  }, [challenge.challengeToken]);
+
+  const handleSubmit = async (submittedCode: string = code) => {
+    if (!submittedCode || isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+      if (challenge.mode === 'enroll') {
+        const res = await apiRequest('POST', '/api/auth/login/2fa/enable', { challengeToken: challenge.challengeToken, code: submittedCode });
+        setEnrolled(await res.json());
+      } else {
+        const res = await apiRequest('POST', '/api/auth/login/2fa', { challengeToken: challenge.challengeToken, code: submittedCode });
+        onComplete(await res.json());
+      }
+    } catch (error: any) {
+      handleError(error, "Verification failed");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (enrolled) {
+    return (
+      <div className="space-y-4">
+        <BackupCodesList codes={enrolled.backupCodes} />
+        <Button className="w-full" onClick={() => onComplete(enrolled)} data-testid="button-two-factor-continue">
+          Continue
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {challenge.mode === 'enroll' ? (
+        <>
+          <p className="text-sm font-medium text-slate-700 text-center">
+            Your role requires two-factor authentication. Set it up to continue.
+          </p>
+          {setup ? (
+            <TwoFactorQrCode setup={setup} />
+          ) : (
+            <div className="mx-auto h-44 w-44 animate-pulse rounded bg-slate-200"></div>
+          )}
+          <p className="text-sm text-slate-600 text-center">Then enter the 6-digit code shown in the app.</p>
+        </>
+      ) : (
+        <p className="text-sm text-slate-600 text-center">
+          Enter the 6-digit code from your authenticator app.
+        </p>
+      )}
+      <TwoFactorCodeInput value={code} onChange={setCode} onSubmit={handleSubmit} allowBackupCode={challenge.mode === 'verify'} />
+      <div className="flex flex-col gap-2">
+        <Button
+          onClick={() => handleSubmit()}
+          disabled={!code || isSubmitting || (challenge.mode === 'enroll' && !setup)}
+          className="w-full bg-gradient-to-r from-blue-600 to-orange-500 hover:from-blue-700 hover:to-orange-600 text-white border-0 shadow-lg"
+          data-testid="button-verify-two-factor"
+        >
+          {isSubmitting ? "Please wait..." : "Verify"}
+        </Button>
+        <Button variant="outline" className="w-full" onClick={onCancel}>
+          Back to Sign In
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { LogOut } from "lucide-react";
+import SessionsList, { type SessionSummary } from "@/components/sessions-list";
+
+interface UserSessionsDialogProps {
+  user?: any;
+  onClose: () => void;
+}
+
+export default function UserSessionsDialog({ user, onClose }: UserSessionsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [], isLoading } = useQuery<SessionSummary[]>({
+    queryKey: ['/api/users', user?.id, 'sessions'],
+    enabled: !!user?.id,
+  });
+
+  const onRevoked = (data: { message: string }) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/users', user.id, 'sessions'] });
+    toast({ title: "Success", description: data.message });
+  };
+
+  const onRevokeError = () => {
+    toast({ title: "Error", description: "Failed to revoke session", variant: "destructive" });
+  };
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      const res = await apiRequest('DELETE', `/api/users/${user.id}/sessions/${sessionId}`);
+      return res.json();
+    },
+    onSuccess: onRevoked,
+    onError: onRevokeError,
+  });
+
+  const revokeAllMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('DELETE', `/api/users/${user.id}/sessions`);
+      return res.json();
+    },
+    onSuccess: onRevoked,
+    onError: onRevokeError,
+  });
+
+  if (!user) return null;
+
+  return (
+    <Dialog open={!!user} onOpenChange={() => onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Active Sessions</DialogTitle>
+          <p className="text-sm text-slate-500">
+            Devices signed in as {user.name || user.email}
+          </p>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isLoading ? (
+            <div className="animate-pulse space-y-2">
+              <div className="h-4 bg-slate-200 rounded w-3/4"></div>
+              <div className="h-4 bg-slate-200 rounded w-1/2"></div>
+            </div>
+          ) : (
+            <div className="max-h-72 overflow-y-auto">
+              <SessionsList
+                sessions={sessions}
+                onRevoke={(sessionId) => revokeSessionMutation.mutate(sessionId)}
+                isRevoking={revokeSessionMutation.isPending || revokeAllMutation.isPending}
+                allowRevokeCurrent
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => revokeAllMutation.mutate()}
+              disabled={sessions.length === 0 || revokeAllMutation.isPending}
+              data-testid="button-revoke-all-sessions"
+            >
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign Out Everywhere
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
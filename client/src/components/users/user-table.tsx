@@ -20,15 +20,25 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { Edit, Trash2, Settings, Search } from "lucide-react";
+import { Edit, Trash2, Settings, Search, MonitorSmartphone, LockOpen } from "lucide-react";
 import { formatEntityId } from "@/lib/idUtils";
 
+// Account locked after too many failed sign-ins (GET /api/users/lockouts)
+export interface AccountLockout {
+  email: string;
+  attempts: number;
+  lockedUntil: string;
+}
+
 interface UserTableProps {
   onEdit?: (user: any) => void;
   onManageDepartments?: (user: any) => void;
+  onManageSessions?: (user: any) => void;
+  lockouts?: AccountLockout[];
+  onUnlock?: (user: any) => void;
 }
 
-export default function UserTable({ onEdit, onManageDepartments }: UserTableProps) {
+export default function UserTable({ onEdit, onManageDepartments, onManageSessions, lockouts = [], onUnlock }: UserTableProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [searchTerm, setSearchTerm] = useState("");
@@ -127,6 +137,10 @@ export default function UserTable({ onEdit, onManageDepartments }: UserTableProp
     return dept?.name || 'Unknown Department';
   };
 
+  const getLockout = (email: string | null | undefined) => {
+    return email ? lockouts.find(lockout => lockout.email === email.toLowerCase()) : undefined;
+  };
+
   const getDepartmentNames = (userDepartments: Array<{ id: number; name: string }> | undefined) => {
     if (!userDepartments || userDepartments.length === 0) return [];
     return userDepartments;
@@ -204,6 +218,16 @@ export default function UserTable({ onEdit, onManageDepartments }: UserTableProp
                   </TableCell>
                   <TableCell data-testid={`text-email-${user.id}`}>
                     {user.email}
+                    {getLockout(user.email) && (
+                      <Badge
+                        variant="destructive"
+                        className="ml-2 text-xs"
+                        title={`Locked until ${new Date(getLockout(user.email)!.lockedUntil).toLocaleTimeString()}`}
+                        data-testid={`badge-locked-${user.id}`}
+                      >
+                        Locked
+                      </Badge>
+                    )}
                   </TableCell>
                   <TableCell data-testid={`text-mobile-${user.id}`}>
                     {user.mobileNumber || '-'}
@@ -247,6 +271,28 @@ export default function UserTable({ onEdit, onManageDepartments }: UserTableProp
                       >
                         <Settings className="h-4 w-4" />
                       </Button>
+                      {onUnlock && getLockout(user.email) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => onUnlock(user)}
+                          title="Unlock account"
+                          data-testid={`button-unlock-${user.id}`}
+                        >
+                          <LockOpen className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {onManageSessions && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => onManageSessions(user)}
+                          title="Active sessions"
+                          data-testid={`button-sessions-${user.id}`}
+                        >
+                          <MonitorSmartphone className="h-4 w-4" />
+                        </Button>
+                      )}
                       <Button
                         variant="outline"
                         size="sm"
@@ -1,11 +1,10 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, ACTIVE_DEPARTMENT_KEY, storeSessionTokens, clearSessionTokens } from "@/lib/queryClient";
 import type { User } from "@shared/schema";
 
 interface LoginData {
   email: string;
   password: string;
-  useTempUser?: boolean;
 }
 
 interface RegisterData {
@@ -16,6 +15,17 @@ interface RegisterData {
   departmentId?: number;
 }
 
+export interface LoginResult {
+  token?: string;
+  refreshToken?: string;
+  user?: User;
+  twoFactorRequired?: boolean;
+  twoFactorEnrollmentRequired?: boolean;
+  // The password is past its maximum age and must be replaced before signing in
+  passwordExpired?: boolean;
+  challengeToken?: string;
+}
+
 export function useAuth() {
   const queryClient = useQueryClient();
   
@@ -29,35 +39,39 @@ export function useAuth() {
 
   // Handle unauthorized error by clearing token
   if (isError) {
-    localStorage.removeItem('auth_token');
+    clearSessionTokens();
   }
 
+  // Sign in with a token pair from the login, register or two-factor endpoints
+  const completeLogin = (data: LoginResult) => {
+    if (!data.token) return;
+    storeSessionTokens({ token: data.token, refreshToken: data.refreshToken });
+    queryClient.setQueryData(["/api/auth/user"], data.user);
+  };
+
+  // When a second factor is owed the response carries a challenge token instead of a session
   const loginMutation = useMutation({
-    mutationFn: async (data: LoginData) => {
+    mutationFn: async (data: LoginData): Promise<LoginResult> => {
       const res = await apiRequest('POST', '/api/auth/login', data);
       return res.json();
     },
-    onSuccess: (data: { token: string; user: User }) => {
-      localStorage.setItem('auth_token', data.token);
-      queryClient.setQueryData(["/api/auth/user"], data.user);
-    },
+    onSuccess: completeLogin,
   });
 
   const registerMutation = useMutation({
-    mutationFn: async (data: RegisterData) => {
+    mutationFn: async (data: RegisterData): Promise<LoginResult> => {
       const res = await apiRequest('POST', '/api/auth/register', data);
       return res.json();
     },
-    onSuccess: (data: { token: string; user: User }) => {
-      localStorage.setItem('auth_token', data.token);
-      queryClient.setQueryData(["/api/auth/user"], data.user);
-    },
+    onSuccess: completeLogin,
   });
 
   const logout = async () => {
     console.log('Frontend logout initiated');
     const token = localStorage.getItem('auth_token');
     console.log('Token present for logout:', !!token, token ? 'exists' : 'missing');
+    // Set for SAML SSO sessions so the user is also signed out at the identity provider
+    let samlLogoutUrl: string | undefined;
     
     try {
       // Call logout endpoint to log the action
@@ -66,6 +80,7 @@ export function useAuth() {
       console.log('Logout API response:', response.status, response.statusText);
       const result = await response.json();
       console.log('Logout API result:', result);
+      samlLogoutUrl = result.samlLogoutUrl;
     } catch (error) {
       // Even if logout fails, continue with local cleanup
       console.error('Logout API call failed:', error);
@@ -77,10 +92,20 @@ export function useAuth() {
     }
     
     console.log('Performing local cleanup...');
-    localStorage.removeItem('auth_token');
+    clearSessionTokens();
+    localStorage.removeItem(ACTIVE_DEPARTMENT_KEY);
     queryClient.setQueryData(["/api/auth/user"], null);
     queryClient.clear();
     console.log('Redirecting to login page...');
+    window.location.href = samlLogoutUrl || "/?showLogin=true";
+  };
+
+  // Revoke every session of this user, then clean up locally like a normal logout
+  const logoutEverywhere = async () => {
+    await apiRequest('POST', '/api/auth/logout-all');
+    clearSessionTokens();
+    localStorage.removeItem(ACTIVE_DEPARTMENT_KEY);
+    queryClient.clear();
     window.location.href = "/?showLogin=true";
   };
 
@@ -90,7 +115,9 @@ export function useAuth() {
     isAuthenticated: !!user,
     login: loginMutation.mutateAsync,
     register: registerMutation.mutateAsync,
+    completeLogin,
     logout,
+    logoutEverywhere,
     isLoginLoading: loginMutation.isPending,
     isRegisterLoading: registerMutation.isPending,
   };
@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import { describePasswordPolicy, getPasswordPolicyErrors, type PasswordPolicy } from "@shared/password-policy";
+
+// Password rules configured in Settings > Security, for hints and early checks on
+// password fields. The server applies the same rules plus the reuse history.
+export function usePasswordPolicy(enabled = true) {
+  const { data: policy } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/password-policy"],
+    enabled,
+    retry: false,
+  });
+
+  return {
+    policy,
+    hint: policy ? describePasswordPolicy(policy) : null,
+    getErrors: (password: string) => (policy ? getPasswordPolicyErrors(password, policy) : []),
+  };
+}
@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import type { Permission } from "@shared/permissions";
+
+// Effective permissions of the logged-in user, resolved on the server from
+// the shared registry, role defaults and department grants.
+export function usePermissions() {
+  const { user } = useAuth();
+
+  const { data, isLoading } = useQuery<{ permissions: Permission[] }>({
+    queryKey: ["/api/user-permissions"],
+    enabled: !!user,
+    retry: false,
+  });
+
+  const permissions = data?.permissions ?? [];
+
+  return {
+    permissions,
+    isLoading: !!user && isLoading,
+    can: (permission: Permission) => permissions.includes(permission),
+  };
+}
@@ -7,13 +7,81 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
-function getAuthHeaders(): Record<string, string> {
+// Department picked in the navbar switcher; unset means all of the user's departments
+export const ACTIVE_DEPARTMENT_KEY = 'active_department_id';
+export const REFRESH_TOKEN_KEY = 'refresh_token';
+
+export function storeSessionTokens(tokens: { token: string; refreshToken?: string }) {
+  localStorage.setItem('auth_token', tokens.token);
+  if (tokens.refreshToken) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+  }
+}
+
+export function clearSessionTokens() {
+  localStorage.removeItem('auth_token');
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+}
+
+let refreshInFlight: Promise<boolean> | null = null;
+
+// Trade the refresh token for a new token pair. Concurrent callers share one request
+// because the server rotates the refresh token and only accepts it once.
+export function refreshAccessToken(): Promise<boolean> {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+      if (!refreshToken) return false;
+
+      const res = await fetch('/api/auth/refresh', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken }),
+      });
+      if (!res.ok) {
+        if (res.status === 401) clearSessionTokens();
+        return false;
+      }
+
+      storeSessionTokens(await res.json());
+      return true;
+    })().catch(() => false).finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
+
+// fetch with auth headers that refreshes an expired access token once and retries
+async function fetchWithAuth(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = () => fetch(url, { ...init, headers: { ...getAuthHeaders(), ...(init.headers as Record<string, string>) } });
+  const tokenUsed = localStorage.getItem('auth_token');
+
+  const res = await send();
+  if (res.status !== 401 || !tokenUsed) return res;
+
+  const body = await res.clone().json().catch(() => null);
+  if (body?.code !== 'TOKEN_EXPIRED') return res;
+
+  // Another tab or request may already have refreshed the token
+  if (localStorage.getItem('auth_token') === tokenUsed && !(await refreshAccessToken())) {
+    return res;
+  }
+  return send();
+}
+
+export function getAuthHeaders(): Record<string, string> {
   const token = localStorage.getItem('auth_token');
+  const activeDepartmentId = localStorage.getItem(ACTIVE_DEPARTMENT_KEY);
   const headers: Record<string, string> = {};
   
   if (token) {
     headers['Authorization'] = `Bearer ${token}`;
   }
+
+  if (activeDepartmentId) {
+    headers['X-Department-Id'] = activeDepartmentId;
+  }
   
   return headers;
 }
@@ -23,14 +91,9 @@ export async function apiRequest(
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const headers = {
-    ...getAuthHeaders(),
-    ...(data ? { "Content-Type": "application/json" } : {}),
-  };
-
-  const res = await fetch(url, {
+  const res = await fetchWithAuth(url, {
     method,
-    headers,
+    headers: data ? { "Content-Type": "application/json" } : {},
     body: data ? JSON.stringify(data) : undefined,
   });
 
@@ -44,9 +107,7 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
-      headers: getAuthHeaders(),
-    });
+    const res = await fetchWithAuth(queryKey.join("/") as string);
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
@@ -23,6 +23,7 @@ import {
   Edit
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import BulkLetterJobProgress, { type BulkLetterJobStatus } from "@/components/authority-letter/bulk-letter-job";
 import { isUnauthorizedError } from "@/lib/authUtils";
 
 interface Department {
@@ -63,6 +64,7 @@ export default function AuthorityLetterNew() {
   const [showTemplateManager, setShowTemplateManager] = useState(false);
   const [showBulkUpload, setShowBulkUpload] = useState(false);
   const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [bulkJobId, setBulkJobId] = useState<number | null>(null);
   const [wordTemplateFile, setWordTemplateFile] = useState<File | null>(null);
   const [uploadingTemplateId, setUploadingTemplateId] = useState<number | null>(null);
   const [newTemplateWordFile, setNewTemplateWordFile] = useState<File | null>(null);
@@ -318,26 +320,19 @@ export default function AuthorityLetterNew() {
       });
 
       if (!response.ok) {
-        throw new Error('Failed to generate bulk PDFs');
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message || 'Failed to start bulk generation');
       }
 
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `authority_letters_bulk_${Date.now()}.zip`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      window.URL.revokeObjectURL(url);
+      return response.json() as Promise<BulkLetterJobStatus>;
     },
-    onSuccess: () => {
-      toast({ title: "Success", description: "Bulk PDFs generated and downloaded successfully" });
-      setShowBulkUpload(false);
+    onSuccess: (job) => {
+      toast({ title: "Success", description: `Generating ${job.totalRows} letters in the background` });
+      setBulkJobId(job.id);
       setCsvFile(null);
     },
     onError: (error: any) => {
-      toast({ title: "Error", description: "Failed to generate bulk PDFs", variant: "destructive" });
+      toast({ title: "Error", description: error.message || "Failed to start bulk generation", variant: "destructive" });
     },
   });
 
@@ -771,7 +766,8 @@ export default function AuthorityLetterNew() {
                           <li>1. Download the sample CSV file</li>
                           <li>2. Fill in your data following the sample format</li>
                           <li>3. Upload your completed CSV file</li>
-                          <li>4. Click "Generate Bulk PDFs" to download a ZIP file</li>
+                          <li>4. Click "Generate Bulk PDFs" and download the ZIP when the job finishes</li>
+                          <li>5. Rows that fail the field checks are listed in the error report</li>
                         </ol>
                       </div>
 
@@ -798,9 +794,11 @@ export default function AuthorityLetterNew() {
                           data-testid="button-bulk-generate"
                         >
                           <Archive className="h-4 w-4 mr-2" />
-                          {bulkGenerateMutation.isPending ? 'Generating...' : 'Generate Bulk PDFs'}
+                          {bulkGenerateMutation.isPending ? 'Uploading...' : 'Generate Bulk PDFs'}
                         </Button>
                       )}
+
+                      {bulkJobId && <BulkLetterJobProgress jobId={bulkJobId} />}
                     </div>
                   </div>
                 </CardContent>
@@ -9,8 +9,9 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { FileDown, FileText, Plus, Edit, Upload, Download } from "lucide-react";
+import { FileDown, FileText, Plus, Edit, Upload, Send } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import BulkLetterJobProgress, { type BulkLetterJobStatus } from "@/components/authority-letter/bulk-letter-job";
 
 interface Department {
   id: number;
@@ -27,6 +28,7 @@ interface AuthorityTemplate {
   templateDescription?: string;
   isDefault: boolean;
   isActive: boolean;
+  requiresApproval: boolean;
   wordTemplateUrl?: string | null;
   createdAt: string;
 }
@@ -54,6 +56,7 @@ export default function AuthorityLetter() {
   const [selectedFilenameField, setSelectedFilenameField] = useState("");
   const [showBulkUpload, setShowBulkUpload] = useState(false);
   const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [bulkJobId, setBulkJobId] = useState<number | null>(null);
   const [downloadFormat, setDownloadFormat] = useState<'pdf' | 'word'>('pdf');
 
   // Redirect to home if not authenticated
@@ -93,6 +96,10 @@ export default function AuthorityLetter() {
     ? allTemplates.filter(template => template.departmentId === selectedDepartment && template.isActive)
     : [];
 
+  // Letters from these templates go to an approver instead of being downloaded straight away
+  const currentTemplate = availableTemplates.find(template => template.id === selectedTemplate);
+  const requiresApproval = !!currentTemplate?.requiresApproval;
+
   // Fetch fields for selected template
   const { data: fields = [], isLoading: fieldsLoading } = useQuery<AuthorityLetterField[]>({
     queryKey: ['/api/authority-letter-fields', selectedTemplate],
@@ -218,6 +225,22 @@ export default function AuthorityLetter() {
     },
   });
 
+  // Submit letter for approval mutation
+  const submitForApprovalMutation = useMutation({
+    mutationFn: async (data: { templateId: number; fieldValues: Record<string, string>; format: 'pdf' | 'docx'; fileName?: string }) => {
+      const res = await apiRequest('POST', '/api/letter-approvals', data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/letter-approvals'] });
+      toast({ title: "Submitted for Approval", description: "You can download the letter from the dashboard once it is approved" });
+      setShowFilenameDialog(false);
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to submit letter for approval", variant: "destructive" });
+    },
+  });
+
   // Bulk upload mutation
   const bulkUploadMutation = useMutation({
     mutationFn: async (data: { templateId: number; csvFile: File }) => {
@@ -235,26 +258,19 @@ export default function AuthorityLetter() {
       });
 
       if (!response.ok) {
-        throw new Error('Failed to generate bulk PDFs');
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message || 'Failed to start bulk generation');
       }
 
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `authority_letters_bulk_${Date.now()}.zip`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      window.URL.revokeObjectURL(url);
+      return response.json() as Promise<BulkLetterJobStatus>;
     },
-    onSuccess: () => {
-      toast({ title: "Success", description: "Bulk PDFs generated and downloaded successfully" });
-      setShowBulkUpload(false);
+    onSuccess: (job) => {
+      toast({ title: "Success", description: `Generating ${job.totalRows} letters in the background` });
+      setBulkJobId(job.id);
       setCsvFile(null);
     },
     onError: (error: any) => {
-      toast({ title: "Error", description: "Failed to generate bulk PDFs", variant: "destructive" });
+      toast({ title: "Error", description: error.message || "Failed to start bulk generation", variant: "destructive" });
     },
   });
 
@@ -294,7 +310,14 @@ export default function AuthorityLetter() {
 
   const handleConfirmDownload = () => {
     const fileName = generateFilename();
-    if (downloadFormat === 'word') {
+    if (requiresApproval) {
+      submitForApprovalMutation.mutate({
+        templateId: selectedTemplate!,
+        fieldValues,
+        format: downloadFormat === 'word' ? 'docx' : 'pdf',
+        fileName
+      });
+    } else if (downloadFormat === 'word') {
       downloadWordMutation.mutate({ 
         templateId: selectedTemplate!, 
         fieldValues, 
@@ -523,7 +546,37 @@ export default function AuthorityLetter() {
               )}
 
               {/* Action Buttons */}
-              {selectedTemplate && (
+              {selectedTemplate && requiresApproval && (
+                <div className="pt-4 space-y-3">
+                  <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-3">
+                    Letters from this template need approval. Submit it to an approver of the department; once approved you can download it from the dashboard.
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      onClick={handleDownloadPDF}
+                      disabled={submitForApprovalMutation.isPending}
+                      className="flex items-center gap-2"
+                      data-testid="button-submit-pdf-approval"
+                    >
+                      <Send className="h-4 w-4" />
+                      Submit PDF for Approval
+                    </Button>
+                    {currentTemplate?.wordTemplateUrl && (
+                      <Button
+                        onClick={handleDownloadWord}
+                        disabled={submitForApprovalMutation.isPending}
+                        variant="outline"
+                        className="flex items-center gap-2"
+                        data-testid="button-submit-word-approval"
+                      >
+                        <Send className="h-4 w-4" />
+                        Submit Word for Approval
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              )}
+              {selectedTemplate && !requiresApproval && (
                 <div className="flex gap-2 pt-4">
                   {/* Real-time preview - no button needed */}
                   <div className="flex gap-2">
@@ -562,7 +615,12 @@ export default function AuthorityLetter() {
             </CardHeader>
             <CardContent className="p-2">
               {generatedContent ? (
-                <div className="bg-gray-100 rounded-lg max-h-[calc(100vh-300px)] overflow-y-auto">
+                <div className="relative bg-gray-100 rounded-lg max-h-[calc(100vh-300px)] overflow-y-auto">
+                  {requiresApproval && (
+                    <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center">
+                      <span className="-rotate-[35deg] text-8xl font-bold tracking-widest text-red-600/20 select-none">DRAFT</span>
+                    </div>
+                  )}
                   {/* Document Preview with exact PDF styling - isolated to prevent global CSS leakage */}
                   <iframe
                     srcDoc={generatedContent}
@@ -599,7 +657,7 @@ export default function AuthorityLetter() {
       <Dialog open={showFilenameDialog} onOpenChange={setShowFilenameDialog}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Customize PDF Filename</DialogTitle>
+            <DialogTitle>{requiresApproval ? 'Submit for Approval' : 'Customize PDF Filename'}</DialogTitle>
           </DialogHeader>
           <div className="space-y-4">
             <div>
@@ -638,16 +696,28 @@ export default function AuthorityLetter() {
               <Button variant="outline" onClick={() => setShowFilenameDialog(false)}>
                 Cancel
               </Button>
-              <Button onClick={handleConfirmDownload} disabled={downloadPDFMutation.isPending || downloadWordMutation.isPending}>
-                {(downloadPDFMutation.isPending || downloadWordMutation.isPending) ? "Generating..." : `Download ${downloadFormat === 'word' ? 'Word' : 'PDF'}`}
-              </Button>
+              {requiresApproval ? (
+                <Button onClick={handleConfirmDownload} disabled={submitForApprovalMutation.isPending} data-testid="button-confirm-submit-approval">
+                  {submitForApprovalMutation.isPending ? "Submitting..." : "Submit for Approval"}
+                </Button>
+              ) : (
+                <Button onClick={handleConfirmDownload} disabled={downloadPDFMutation.isPending || downloadWordMutation.isPending}>
+                  {(downloadPDFMutation.isPending || downloadWordMutation.isPending) ? "Generating..." : `Download ${downloadFormat === 'word' ? 'Word' : 'PDF'}`}
+                </Button>
+              )}
             </div>
           </div>
         </DialogContent>
       </Dialog>
 
       {/* Bulk Upload Dialog */}
-      <Dialog open={showBulkUpload} onOpenChange={setShowBulkUpload}>
+      <Dialog
+        open={showBulkUpload}
+        onOpenChange={(open) => {
+          setShowBulkUpload(open);
+          if (!open) setBulkJobId(null);
+        }}
+      >
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Bulk Generate PDFs</DialogTitle>
@@ -682,9 +752,11 @@ export default function AuthorityLetter() {
                 data-testid="input-csv-file"
               />
               <p className="text-sm text-slate-600 mt-1">
-                CSV should contain columns matching the template field names
+                CSV should contain columns matching the template field names. Rows that fail the field checks are listed in an error report instead of stopping the batch.
               </p>
             </div>
+
+            {bulkJobId && <BulkLetterJobProgress jobId={bulkJobId} />}
             
             {/* Sample CSV Download */}
             {selectedDepartment && fields.length > 0 && (
@@ -710,15 +782,15 @@ export default function AuthorityLetter() {
             )}
             
             <div className="flex justify-end gap-2">
-              <Button variant="outline" onClick={() => setShowBulkUpload(false)}>
-                Cancel
+              <Button variant="outline" onClick={() => { setShowBulkUpload(false); setBulkJobId(null); }}>
+                {bulkJobId ? "Close" : "Cancel"}
               </Button>
               <Button 
                 onClick={handleBulkUpload} 
                 disabled={bulkUploadMutation.isPending || !selectedDepartment || !csvFile}
               >
-                <Download className="h-4 w-4 mr-2" />
-                {bulkUploadMutation.isPending ? "Generating..." : "Generate & Download ZIP"}
+                <Upload className="h-4 w-4 mr-2" />
+                {bulkUploadMutation.isPending ? "Uploading..." : "Start Bulk Generation"}
               </Button>
             </div>
           </div>
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
@@ -62,7 +63,7 @@ interface Branch {
 }
 
 export default function Branches() {
-  const { user, isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isLoading } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -94,18 +95,15 @@ export default function Branches() {
   });
 
   // Check user permissions for branches
-  const { data: userPermissions } = useQuery({
-    queryKey: ["/api/user-permissions"],
-    enabled: !!user,
-    retry: false,
-  });
-
-  const canViewBranches = (user as any)?.role === 'admin' || (userPermissions as any)?.accessibleTabs?.includes('branches');
-  const canModifyBranches = (user as any)?.role === 'admin';
+  const { can, isLoading: permissionsLoading } = usePermissions();
+  const canViewBranches = can('branch.view');
+  const canModifyBranches = can('branch.manage');
+  const canImportBranches = can('branch.import');
+  const canExportBranches = can('branch.export');
 
   // Redirect if not authenticated or no branch permissions
   useEffect(() => {
-    if (!isLoading && (!isAuthenticated || !canViewBranches)) {
+    if (!isLoading && !permissionsLoading && (!isAuthenticated || !canViewBranches)) {
       toast({
         title: "Unauthorized",
         description: "You don't have permission to access this page.",
@@ -116,7 +114,7 @@ export default function Branches() {
       }, 500);
       return;
     }
-  }, [isAuthenticated, isLoading, canViewBranches, toast]);
+  }, [isAuthenticated, isLoading, permissionsLoading, canViewBranches, toast]);
 
   // Fetch Indian states
   const { data: statesData } = useQuery({
@@ -472,10 +470,18 @@ export default function Branches() {
           <p className="text-slate-600 mt-1">Manage your organization's branches</p>
         </div>
         <div className="flex gap-3">
-          <Button onClick={() => setShowExportDialog(true)} variant="outline" data-testid="button-export">
-            <Download className="h-4 w-4 mr-2" />
-            Export
-          </Button>
+          {canExportBranches && (
+            <Button onClick={() => setShowExportDialog(true)} variant="outline" data-testid="button-export">
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
+          )}
+          {canImportBranches && (
+            <Button onClick={() => setShowBulkUpload(true)} variant="outline" data-testid="button-bulk-upload">
+              <Upload className="h-4 w-4 mr-2" />
+              Bulk Upload
+            </Button>
+          )}
           {canModifyBranches && (
             <>
               {selectedBranches.length > 0 && (
@@ -488,10 +494,6 @@ export default function Branches() {
                   Delete Selected ({selectedBranches.length}{allBranchIds?.length && selectedBranches.length === allBranchIds.length ? ' - All' : ''})
                 </Button>
               )}
-              <Button onClick={() => setShowBulkUpload(true)} variant="outline" data-testid="button-bulk-upload">
-                <Upload className="h-4 w-4 mr-2" />
-                Bulk Upload
-              </Button>
               <Button onClick={() => setShowBranchForm(true)} data-testid="button-add-branch">
                 <Plus className="h-4 w-4 mr-2" />
                 Add Branch
@@ -4,15 +4,17 @@ import { useToast } from "@/hooks/use-toast";
 import CourierTable from "@/components/couriers/courier-table";
 import CourierForm from "@/components/couriers/courier-form";
 import PrintAuthorityForm from "@/components/print-authority/print-authority-form";
+import ImportCouriersDialog from "@/components/couriers/import-couriers-dialog";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Plus } from "lucide-react";
+import { Plus, Upload } from "lucide-react";
 
 export default function Couriers() {
   const { toast } = useToast();
   const { isAuthenticated, isLoading } = useAuth();
   const [showCourierForm, setShowCourierForm] = useState(false);
   const [editingCourier, setEditingCourier] = useState(null);
+  const [showImport, setShowImport] = useState(false);
 
   // Redirect to home if not authenticated
   useEffect(() => {
@@ -70,7 +72,15 @@ export default function Couriers() {
                 Manage all courier shipments and track their status
               </p>
             </div>
-            <div className="mt-4 flex md:mt-0 md:ml-4">
+            <div className="mt-4 flex gap-2 md:mt-0 md:ml-4">
+              <Button
+                variant="outline"
+                onClick={() => setShowImport(true)}
+                data-testid="button-import-couriers"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Button>
               <Button 
                 onClick={() => setShowCourierForm(true)}
                 data-testid="button-add-courier"
@@ -120,6 +130,8 @@ export default function Couriers() {
           onSuccess={handleSuccess}
         />
       )}
+
+      <ImportCouriersDialog kind="courier" open={showImport} onOpenChange={setShowImport} />
     </main>
   );
 }
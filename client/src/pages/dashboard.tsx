@@ -3,6 +3,7 @@ import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import StatsCards from "@/components/dashboard/stats-cards";
 import Charts from "@/components/dashboard/charts";
+import LetterApprovals from "@/components/dashboard/letter-approvals";
 import CourierTable from "@/components/couriers/courier-table";
 import { Button } from "@/components/ui/button";
 import { Plus } from "lucide-react";
@@ -67,6 +68,11 @@ export default function Dashboard() {
             <StatsCards />
           </div>
 
+          {/* Letter approvals, shown when the user has requests or a queue */}
+          <div className="mt-8 empty:hidden">
+            <LetterApprovals />
+          </div>
+
           {/* Charts Section */}
           <div className="mt-8">
             <Charts />
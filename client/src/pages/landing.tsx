@@ -7,29 +7,35 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Checkbox } from "@/components/ui/checkbox";
 import { Building2, Package, Users, BarChart3 } from "lucide-react";
 import lightLogo from "../assets/light-logo.png";
-import { useAuth } from "@/hooks/useAuth";
+import { useAuth, type LoginResult } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { storeSessionTokens } from "@/lib/queryClient";
+import TwoFactorLoginStep, { type TwoFactorLoginChallenge } from "@/components/two-factor/two-factor-login-step";
+import ChangePasswordDialog from "@/components/change-password-dialog";
 
 export default function Landing() {
   const [showLogin, setShowLogin] = useState(() => {
     return new URLSearchParams(window.location.search).get('showLogin') === 'true';
   });
-  const [loginData, setLoginData] = useState({ email: "", password: "", useTempUser: false });
+  const [loginData, setLoginData] = useState({ email: "", password: "" });
   const [registerData, setRegisterData] = useState({ name: "", email: "", password: "" });
   const [isRegisterMode, setIsRegisterMode] = useState(false);
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorLoginChallenge | null>(null);
+  const [expiredPasswordToken, setExpiredPasswordToken] = useState<string | null>(null);
   
-  const { login, register, isLoginLoading, isRegisterLoading } = useAuth();
+  const { login, register, completeLogin, isLoginLoading, isRegisterLoading } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
     const ssoToken = params.get('ssoToken');
+    const ssoRefreshToken = params.get('ssoRefreshToken');
     const ssoError = params.get('ssoError');
 
     if (ssoToken) {
-      localStorage.setItem('auth_token', ssoToken);
+      storeSessionTokens({ token: ssoToken, refreshToken: ssoRefreshToken ?? undefined });
       queryClient.setQueryData(['/api/auth/user'], null);
       queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
       window.history.replaceState({}, '', '/');
@@ -62,6 +68,10 @@ export default function Landing() {
     }
   };
 
+  const { data: oidcSettings } = useQuery<{ enabled: boolean; displayName: string }>({
+    queryKey: ['/api/oidc-settings-public'],
+  });
+
   const handleLogin = async () => {
     if (!loginData.email || !loginData.password) {
       toast({
@@ -72,7 +82,15 @@ export default function Landing() {
       return;
     }
     try {
-      await login(loginData);
+      const result = await login(loginData);
+      if (result.passwordExpired && result.challengeToken) {
+        setExpiredPasswordToken(result.challengeToken);
+        return;
+      }
+      if (result.challengeToken) {
+        setTwoFactorChallenge({ challengeToken: result.challengeToken, mode: result.twoFactorRequired ? 'verify' : 'enroll' });
+        return;
+      }
       toast({ title: "Success", description: "Logged in successfully!" });
     } catch (error: any) {
       toast({ 
@@ -83,6 +101,23 @@ export default function Landing() {
     }
   };
 
+  // After an expired password was replaced sign-in continues with the second factor, if any
+  const handleExpiredPasswordComplete = (result: LoginResult) => {
+    setExpiredPasswordToken(null);
+    if (result.challengeToken) {
+      setTwoFactorChallenge({ challengeToken: result.challengeToken, mode: result.twoFactorRequired ? 'verify' : 'enroll' });
+      return;
+    }
+    completeLogin(result);
+    toast({ title: "Success", description: "Logged in successfully!" });
+  };
+
+  const handleTwoFactorComplete = (result: LoginResult) => {
+    completeLogin(result);
+    setTwoFactorChallenge(null);
+    toast({ title: "Success", description: "Logged in successfully!" });
+  };
+
   const handleRegister = async () => {
     if (!registerData.name || !registerData.email || !registerData.password) {
       toast({
@@ -93,7 +128,11 @@ export default function Landing() {
       return;
     }
     try {
-      await register(registerData);
+      const result = await register(registerData);
+      if (result.challengeToken) {
+        setTwoFactorChallenge({ challengeToken: result.challengeToken, mode: result.twoFactorRequired ? 'verify' : 'enroll' });
+        return;
+      }
       toast({ title: "Success", description: "Account created successfully!" });
     } catch (error: any) {
       toast({ 
@@ -114,6 +153,11 @@ export default function Landing() {
               <img src={lightLogo} alt="Light Microfinance" className="h-10 w-auto object-contain" />
               <h1 className="ml-3 text-xl font-bold text-slate-900">Light Microfinance Pvt Ltd</h1>
             </div>
+            <ChangePasswordDialog
+              expiredChallengeToken={expiredPasswordToken}
+              onExpiredComplete={handleExpiredPasswordComplete}
+              onExpiredCancel={() => setExpiredPasswordToken(null)}
+            />
             <Dialog open={showLogin} onOpenChange={setShowLogin}>
               <DialogTrigger asChild>
                 <Button data-testid="button-login">
@@ -132,6 +176,13 @@ export default function Landing() {
                     <p className="text-sm text-slate-600">Light Microfinance Pvt Ltd</p>
                   </div>
                 </DialogHeader>
+                {twoFactorChallenge ? (
+                <TwoFactorLoginStep
+                  challenge={twoFactorChallenge}
+                  onComplete={handleTwoFactorComplete}
+                  onCancel={() => setTwoFactorChallenge(null)}
+                />
+                ) : (
                 <div className="space-y-4">
                   <div className="flex flex-col gap-3">
                     <Button 
@@ -140,6 +191,14 @@ export default function Landing() {
                     >
                       Login with SSO
                     </Button>
+                    {oidcSettings?.enabled && (
+                      <Button 
+                        className="w-full h-12 text-base font-medium transition-all duration-200 bg-gradient-to-r from-blue-600 to-orange-500 hover:from-blue-700 hover:to-orange-600 text-white border-0 shadow-lg"
+                        onClick={() => { window.location.href = '/api/oidc/login'; }}
+                      >
+                        Login with {oidcSettings.displayName}
+                      </Button>
+                    )}
                     <div className="relative my-4">
                       <div className="absolute inset-0 flex items-center">
                         <span className="w-full border-t border-slate-200"></span>
@@ -259,6 +318,7 @@ export default function Landing() {
                     </Button>
                   </div>
                 </div>
+                )}
               </DialogContent>
             </Dialog>
           </div>
@@ -0,0 +1,316 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { apiRequest } from "@/lib/queryClient";
+import { Search, Download, Ban, XCircle, ChevronLeft, ChevronRight } from "lucide-react";
+import type { IssuedLetter } from "@shared/schema";
+
+type IssuedLetterRow = Omit<IssuedLetter, 'issuedAt' | 'statusChangedAt'> & {
+  issuedAt: string;
+  statusChangedAt: string | null;
+  issuerName: string | null;
+  departmentName: string | null;
+  templateVersionNumber: number | null;
+};
+
+type StatusAction = 'revoked' | 'cancelled';
+
+const PAGE_SIZE = 20;
+
+const STATUS_STYLES: Record<string, string> = {
+  issued: 'bg-green-100 text-green-800',
+  revoked: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+};
+
+export default function LetterRegister() {
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState("all");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [statusAction, setStatusAction] = useState<{ letter: IssuedLetterRow; status: StatusAction } | null>(null);
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+
+  const { data, isLoading } = useQuery<{ letters: IssuedLetterRow[]; total: number }>({
+    queryKey: ['/api/issued-letters', { search, status, page: currentPage }],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (search) params.set('search', search);
+      if (status !== 'all') params.set('status', status);
+      params.set('limit', PAGE_SIZE.toString());
+      params.set('offset', ((currentPage - 1) * PAGE_SIZE).toString());
+
+      const response = await apiRequest('GET', `/api/issued-letters?${params.toString()}`);
+      return response.json();
+    },
+  });
+
+  const letters = data?.letters ?? [];
+  const total = data?.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const downloadMutation = useMutation({
+    mutationFn: async (letter: IssuedLetterRow) => {
+      const response = await apiRequest('GET', `/api/issued-letters/${letter.id}/download`);
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = letter.fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to download letter",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status, reason }: { id: number; status: StatusAction; reason: string }) => {
+      const response = await apiRequest('POST', `/api/issued-letters/${id}/status`, { status, reason });
+      return response.json();
+    },
+    onSuccess: (letter: IssuedLetter) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/issued-letters'] });
+      setStatusAction(null);
+      setReason("");
+      toast({
+        title: "Success",
+        description: `Letter ${letter.referenceNumber} ${letter.status}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update letter",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Letter Register</h1>
+        <p className="mt-2 text-sm text-slate-600">
+          Every generated authority letter with its reference number. Use the reference to confirm that a letter is genuine.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 max-w-sm">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+          <Input
+            placeholder="Search reference, template, issuer or field values..."
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setCurrentPage(1);
+            }}
+            className="pl-10"
+            data-testid="input-search-letters"
+          />
+        </div>
+        <Select
+          value={status}
+          onValueChange={(value) => {
+            setStatus(value);
+            setCurrentPage(1);
+          }}
+        >
+          <SelectTrigger className="w-40" data-testid="select-letter-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            <SelectItem value="issued">Issued</SelectItem>
+            <SelectItem value="revoked">Revoked</SelectItem>
+            <SelectItem value="cancelled">Cancelled</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : letters.length === 0 ? (
+            <div className="text-center py-8 text-slate-500">No letters found</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>Template</TableHead>
+                  <TableHead>Department</TableHead>
+                  <TableHead>Issued</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {letters.map((letter) => (
+                  <TableRow key={letter.id} data-testid={`row-letter-${letter.id}`}>
+                    <TableCell className="font-mono text-sm">{letter.referenceNumber}</TableCell>
+                    <TableCell>
+                      <div>{letter.templateName}</div>
+                      {letter.templateVersionNumber && (
+                        <div className="text-xs text-slate-500">Version {letter.templateVersionNumber}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{letter.departmentName || '-'}</TableCell>
+                    <TableCell>
+                      <div className="text-sm">{new Date(letter.issuedAt).toLocaleString()}</div>
+                      <div className="text-xs text-slate-500">{letter.issuerName || 'Unknown user'}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_STYLES[letter.status] || STATUS_STYLES.cancelled}>
+                        {letter.status.charAt(0).toUpperCase() + letter.status.slice(1)}
+                      </Badge>
+                      {letter.statusReason && (
+                        <div className="text-xs text-slate-500 mt-1 max-w-xs">{letter.statusReason}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => downloadMutation.mutate(letter)}
+                          disabled={downloadMutation.isPending}
+                          title="Download"
+                          data-testid={`button-download-letter-${letter.id}`}
+                        >
+                          <Download className="h-4 w-4" />
+                        </Button>
+                        {can('letter.revoke') && letter.status === 'issued' && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setStatusAction({ letter, status: 'revoked' })}
+                              title="Revoke"
+                              data-testid={`button-revoke-letter-${letter.id}`}
+                            >
+                              <Ban className="h-4 w-4 text-red-600" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setStatusAction({ letter, status: 'cancelled' })}
+                              title="Cancel"
+                              data-testid={`button-cancel-letter-${letter.id}`}
+                            >
+                              <XCircle className="h-4 w-4 text-slate-600" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {total > 0 && (
+            <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200">
+              <div className="text-sm text-gray-700">
+                Showing {((currentPage - 1) * PAGE_SIZE) + 1} to {Math.min(currentPage * PAGE_SIZE, total)} of {total} letters
+              </div>
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentPage(currentPage - 1)}
+                  disabled={currentPage <= 1}
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  Previous
+                </Button>
+                <span className="text-sm text-gray-700">
+                  Page {currentPage} of {totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentPage(currentPage + 1)}
+                  disabled={currentPage >= totalPages}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog
+        open={!!statusAction}
+        onOpenChange={(open) => {
+          if (!open) {
+            setStatusAction(null);
+            setReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {statusAction?.status === 'revoked' ? 'Revoke' : 'Cancel'} letter {statusAction?.letter.referenceNumber}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <p className="text-sm text-slate-600">
+              {statusAction?.status === 'revoked'
+                ? 'A revoked letter was valid when issued but must no longer be relied on.'
+                : 'A cancelled letter should never have been used, for example because it was generated in error.'}
+            </p>
+            <Label htmlFor="letter-status-reason">Reason</Label>
+            <Textarea
+              id="letter-status-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              data-testid="textarea-letter-status-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStatusAction(null)}>
+              Close
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!reason.trim() || statusMutation.isPending}
+              onClick={() => statusAction && statusMutation.mutate({ id: statusAction.letter.id, status: statusAction.status, reason: reason.trim() })}
+              data-testid="button-confirm-letter-status"
+            >
+              {statusMutation.isPending ? "Saving..." : statusAction?.status === 'revoked' ? "Revoke Letter" : "Cancel Letter"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -29,10 +29,12 @@ import {
   Settings,
   Search,
   ChevronUp,
-  ChevronDown
+  ChevronDown,
+  History
 } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { apiRequest } from "@/lib/queryClient";
+import TemplateVersionsDialog from "@/components/authority-letter/template-versions-dialog";
 
 interface User {
   id: string;
@@ -54,7 +56,9 @@ interface AuthorityTemplate {
   templateDescription?: string;
   isDefault: boolean;
   isActive: boolean;
+  requiresApproval: boolean;
   wordTemplateUrl?: string | null;
+  publishedVersionId?: number | null;
   createdAt: string;
   department?: Department;
 }
@@ -72,6 +76,10 @@ export default function ManageAuthorityLetter() {
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedDepartments, setSelectedDepartments] = useState<number[]>([]);
   const [wordFile, setWordFile] = useState<File | null>(null);
+  const [versionsTemplate, setVersionsTemplate] = useState<AuthorityTemplate | null>(null);
+  // A layout change (content edit or Word upload) is published now or kept as a draft
+  const [publishChange, setPublishChange] = useState(true);
+  const [changeNote, setChangeNote] = useState("");
   
   // Template Fields Management State
   const [activeTab, setActiveTab] = useState('templates');
@@ -93,7 +101,8 @@ export default function ManageAuthorityLetter() {
     templateDescription: '',
     templateContent: '<p>Default authority letter template content. Replace with your template.</p>',
     isDefault: false,
-    isActive: true
+    isActive: true,
+    requiresApproval: false
   });
 
   // Redirect to home if not authenticated or not admin
@@ -175,10 +184,12 @@ export default function ManageAuthorityLetter() {
       const response = await apiRequest('PUT', `/api/authority-letter-templates/${id}`, data);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (template: { version: { versionNumber: number; status: string } | null }) => {
       toast({
         title: "Success",
-        description: "Template updated successfully.",
+        description: template.version?.status === 'draft'
+          ? `Template saved. The new layout is draft version ${template.version.versionNumber}; publish it from the version history.`
+          : "Template updated successfully.",
       });
       refetchTemplates();
       setShowEditForm(false);
@@ -220,6 +231,10 @@ export default function ManageAuthorityLetter() {
     mutationFn: async ({ templateId, file }: { templateId: number; file: File }) => {
       const formData = new FormData();
       formData.append('wordTemplate', file);
+      formData.append('publish', publishChange ? 'true' : 'false');
+      if (changeNote.trim()) {
+        formData.append('changeNote', changeNote.trim());
+      }
 
       const token = localStorage.getItem('auth_token');
       const response = await fetch(`/api/authority-templates/${templateId}/upload-word`, {
@@ -237,10 +252,10 @@ export default function ManageAuthorityLetter() {
 
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result: { message: string }) => {
       toast({
         title: "Success",
-        description: "Word template uploaded successfully.",
+        description: result.message || "Word template uploaded successfully.",
       });
       refetchTemplates();
       setShowWordUploadForm(false);
@@ -363,7 +378,8 @@ export default function ManageAuthorityLetter() {
       templateDescription: '',
       templateContent: '<p>Default authority letter template content. Replace with your template.</p>',
       isDefault: false,
-      isActive: true
+      isActive: true,
+      requiresApproval: false
     });
     setSelectedDepartments([]);
     setWordFile(null);
@@ -399,6 +415,8 @@ export default function ManageAuthorityLetter() {
 
   const handleEditTemplate = (template: AuthorityTemplate) => {
     setEditingTemplate(template);
+    setPublishChange(true);
+    setChangeNote("");
     setShowEditForm(true);
   };
 
@@ -412,7 +430,10 @@ export default function ManageAuthorityLetter() {
         templateDescription: editingTemplate.templateDescription,
         templateContent: editingTemplate.templateContent,
         isDefault: editingTemplate.isDefault,
-        isActive: editingTemplate.isActive
+        isActive: editingTemplate.isActive,
+        requiresApproval: editingTemplate.requiresApproval,
+        publish: publishChange,
+        changeNote: changeNote.trim() || undefined
       }
     });
   };
@@ -434,6 +455,8 @@ export default function ManageAuthorityLetter() {
     setUploadingWordTemplate(template);
     setShowWordUploadForm(true);
     setWordFile(null);
+    setPublishChange(true);
+    setChangeNote("");
   };
 
   const openFieldsManager = (template: AuthorityTemplate) => {
@@ -576,6 +599,11 @@ export default function ManageAuthorityLetter() {
                                   Default
                                 </span>
                               )}
+                              {template.requiresApproval && (
+                                <span className="px-2 py-1 text-xs bg-amber-100 text-amber-800 rounded-full">
+                                  Approval
+                                </span>
+                              )}
                               <span className={`px-2 py-1 text-xs rounded-full ${
                                 template.isActive 
                                   ? 'bg-green-100 text-green-800' 
@@ -622,6 +650,23 @@ export default function ManageAuthorityLetter() {
                                   </TooltipContent>
                                 </Tooltip>
                                 
+                                <Tooltip>
+                                  <TooltipTrigger asChild>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => setVersionsTemplate(template)}
+                                      className="h-8 w-8 p-0 text-purple-600 hover:text-purple-800"
+                                      data-testid={`button-versions-${template.id}`}
+                                    >
+                                      <History className="h-4 w-4" />
+                                    </Button>
+                                  </TooltipTrigger>
+                                  <TooltipContent>
+                                    <p>Version History</p>
+                                  </TooltipContent>
+                                </Tooltip>
+                                
                                 <Tooltip>
                                   <TooltipTrigger asChild>
                                     <Button
@@ -730,6 +775,19 @@ export default function ManageAuthorityLetter() {
                   data-testid="textarea-template-content"
                 />
               </div>
+
+              <div>
+                <Label htmlFor="requires-approval" className="flex items-center">
+                  <Checkbox
+                    id="requires-approval"
+                    checked={newTemplate.requiresApproval}
+                    onCheckedChange={(checked) => setNewTemplate({...newTemplate, requiresApproval: !!checked})}
+                    data-testid="checkbox-requires-approval"
+                    className="border-input"
+                  />
+                  <span className="ml-2">Letters require approval before download</span>
+                </Label>
+              </div>
               
               <div>
                 <Label>Assign to Departments</Label>
@@ -880,6 +938,44 @@ export default function ManageAuthorityLetter() {
                   <span className="ml-2">Template is active</span>
                 </Label>
               </div>
+
+              <div>
+                <Label htmlFor="edit-requires-approval">
+                  <Checkbox
+                    id="edit-requires-approval"
+                    checked={editingTemplate.requiresApproval}
+                    onCheckedChange={(checked) => setEditingTemplate({...editingTemplate, requiresApproval: !!checked})}
+                    data-testid="checkbox-edit-requires-approval"
+                  />
+                  <span className="ml-2">Letters require approval before download</span>
+                </Label>
+                <p className="text-xs text-slate-500 mt-1">
+                  Makers submit their letter to an approver of the department, and can only download it once approved.
+                </p>
+              </div>
+
+              <div className="space-y-2 border-t pt-4">
+                <Label htmlFor="edit-change-note">Change note</Label>
+                <Input
+                  id="edit-change-note"
+                  placeholder="What changed in the layout (optional)"
+                  value={changeNote}
+                  onChange={(e) => setChangeNote(e.target.value)}
+                  data-testid="input-edit-change-note"
+                />
+                <Label htmlFor="edit-publish">
+                  <Checkbox
+                    id="edit-publish"
+                    checked={publishChange}
+                    onCheckedChange={(checked) => setPublishChange(!!checked)}
+                    data-testid="checkbox-edit-publish"
+                  />
+                  <span className="ml-2">Publish the new layout now</span>
+                </Label>
+                <p className="text-xs text-slate-500">
+                  Applies when the content changes. Unpublished layouts are kept as drafts in the version history.
+                </p>
+              </div>
             </div>
             
             <DialogFooter>
@@ -965,10 +1061,33 @@ export default function ManageAuthorityLetter() {
                     <span className="text-sm font-medium">Current Word Template</span>
                   </div>
                   <p className="text-xs text-amber-700 mt-1">
-                    This template already has a Word document. Uploading a new one will replace the existing file.
+                    This template already has a Word document. The current one stays available in the version history.
                   </p>
                 </div>
               )}
+
+              <div className="space-y-2 border-t pt-4">
+                <Label htmlFor="word-upload-change-note">Change note</Label>
+                <Input
+                  id="word-upload-change-note"
+                  placeholder="What changed in the layout (optional)"
+                  value={changeNote}
+                  onChange={(e) => setChangeNote(e.target.value)}
+                  data-testid="input-word-upload-change-note"
+                />
+                <Label htmlFor="word-upload-publish">
+                  <Checkbox
+                    id="word-upload-publish"
+                    checked={publishChange}
+                    onCheckedChange={(checked) => setPublishChange(!!checked)}
+                    data-testid="checkbox-word-upload-publish"
+                  />
+                  <span className="ml-2">Publish the new layout now</span>
+                </Label>
+                <p className="text-xs text-slate-500">
+                  Unpublished uploads are kept as drafts in the version history.
+                </p>
+              </div>
             </div>
             
             <DialogFooter>
@@ -1469,6 +1588,9 @@ export default function ManageAuthorityLetter() {
           </DialogContent>
         </Dialog>
       )}
+
+      {/* Template Version History */}
+      <TemplateVersionsDialog template={versionsTemplate} onClose={() => setVersionsTemplate(null)} />
     </main>
   );
 }
\ No newline at end of file
@@ -2,7 +2,7 @@ import { useEffect, useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
-import { Plus, Mail, Eye, AlertTriangle, Edit2, Trash2 } from "lucide-react";
+import { Plus, Mail, Eye, AlertTriangle, Edit2, Trash2, Upload } from "lucide-react";
 import { Autocomplete } from "@/components/ui/autocomplete";
 import MultiEmailInput from "@/components/ui/multi-email-input";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
@@ -37,7 +37,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { CalendarIcon, Search } from "lucide-react";
+import { CalendarIcon, Search, ArrowUpDown, ArrowUp, ArrowDown, ChevronLeft, ChevronRight } from "lucide-react";
 import { 
   Select,
   SelectContent,
@@ -56,6 +56,8 @@ import { cn } from "@/lib/utils";
 import { format } from "date-fns";
 import type { ReceivedCourier, InsertReceivedCourier } from "@shared/schema";
 import { formatEntityId } from "@/lib/idUtils";
+import StatusTimeline from "@/components/couriers/status-timeline";
+import ImportCouriersDialog from "@/components/couriers/import-couriers-dialog";
 
 interface User {
   id: string;
@@ -69,14 +71,40 @@ interface Department {
   name: string;
 }
 
+type ReceivedSortKey = 'createdAt' | 'receivedDate' | 'podNumber' | 'fromLocation' | 'courierVendor' | 'receiverName' | 'status';
+
+interface ReceivedListFilters {
+  status: string;
+  vendor: string;
+  departmentId: string;
+  fromLocation: string;
+  startDate: string;
+  endDate: string;
+}
+
+const DEFAULT_LIST_FILTERS: ReceivedListFilters = {
+  status: 'all',
+  vendor: 'all',
+  departmentId: 'all',
+  fromLocation: '',
+  startDate: '',
+  endDate: '',
+};
+
+const RECEIVED_PAGE_SIZE = 25;
+
 export default function ReceivedCouriers() {
   const { toast } = useToast();
   const { user, isAuthenticated, isLoading } = useAuth();
   const queryClient = useQueryClient();
   const [showForm, setShowForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [editingCourier, setEditingCourier] = useState<ReceivedCourier | null>(null);
   const [deletingCourierId, setDeletingCourierId] = useState<number | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
+  const [listFilters, setListFilters] = useState<ReceivedListFilters>(DEFAULT_LIST_FILTERS);
+  const [sort, setSort] = useState<{ sortBy: ReceivedSortKey; sortOrder: 'asc' | 'desc' }>({ sortBy: 'createdAt', sortOrder: 'desc' });
+  const [currentPage, setCurrentPage] = useState(1);
   const [viewingCourier, setViewingCourier] = useState<any>(null);
   const [formData, setFormData] = useState<Partial<InsertReceivedCourier>>({
     podNumber: "",
@@ -116,24 +144,73 @@ export default function ReceivedCouriers() {
     }
   }, [isAuthenticated, isLoading, toast]);
 
-  const { data: allReceivedCouriers = [], isLoading: couriersLoading } = useQuery<ReceivedCourier[]>({
-    queryKey: ['/api/received-couriers'],
+  // Filtering, sorting and paging all happen on the server
+  const { data: couriersResult, isLoading: couriersLoading } = useQuery<{ couriers: ReceivedCourier[]; total: number }>({
+    queryKey: ['/api/received-couriers', searchTerm, listFilters, sort, currentPage],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (searchTerm) params.append('search', searchTerm);
+      if (listFilters.status !== 'all') params.append('status', listFilters.status);
+      if (listFilters.vendor !== 'all') params.append('vendor', listFilters.vendor);
+      if (listFilters.departmentId !== 'all') params.append('departmentId', listFilters.departmentId);
+      if (listFilters.fromLocation) params.append('fromLocation', listFilters.fromLocation);
+      if (listFilters.startDate) params.append('startDate', listFilters.startDate);
+      if (listFilters.endDate) params.append('endDate', listFilters.endDate);
+      params.append('sortBy', sort.sortBy);
+      params.append('sortOrder', sort.sortOrder);
+      params.append('limit', RECEIVED_PAGE_SIZE.toString());
+      params.append('offset', ((currentPage - 1) * RECEIVED_PAGE_SIZE).toString());
+
+      const response = await apiRequest('GET', `/api/received-couriers?${params.toString()}`);
+      return response.json();
+    },
     enabled: isAuthenticated,
   });
 
-  // Filter received couriers on the client side
-  const receivedCouriers = allReceivedCouriers.filter((courier) => {
-    if (!searchTerm) return true;
-    const searchLower = searchTerm.toLowerCase();
-    return (
-      courier.podNumber?.toLowerCase().includes(searchLower) ||
-      (courier as any).receiverName?.toLowerCase().includes(searchLower) ||
-      courier.courierVendor?.toLowerCase().includes(searchLower) ||
-      (courier as any).customVendor?.toLowerCase().includes(searchLower) ||
-      courier.fromLocation?.toLowerCase().includes(searchLower) ||
-      (courier as any).departmentName?.toLowerCase().includes(searchLower) ||
-      (courier as any).customDepartment?.toLowerCase().includes(searchLower)
-    );
+  const receivedCouriers = couriersResult?.couriers ?? [];
+  const totalCouriers = couriersResult?.total ?? 0;
+  const totalPages = Math.ceil(totalCouriers / RECEIVED_PAGE_SIZE);
+
+  const updateListFilter = (key: keyof ReceivedListFilters, value: string) => {
+    setListFilters(prev => ({ ...prev, [key]: value }));
+    setCurrentPage(1);
+  };
+
+  const toggleSort = (sortBy: ReceivedSortKey) => {
+    setSort(prev => ({
+      sortBy,
+      sortOrder: prev.sortBy === sortBy && prev.sortOrder === 'desc' ? 'asc' : 'desc',
+    }));
+    setCurrentPage(1);
+  };
+
+  const sortableHead = (sortBy: ReceivedSortKey, label: string) => (
+    <TableHead>
+      <button
+        type="button"
+        className="inline-flex items-center gap-1 hover:text-slate-900"
+        onClick={() => toggleSort(sortBy)}
+        data-testid={`sort-${sortBy}`}
+      >
+        {label}
+        {sort.sortBy !== sortBy ? (
+          <ArrowUpDown className="h-3 w-3 text-slate-400" />
+        ) : sort.sortOrder === 'asc' ? (
+          <ArrowUp className="h-3 w-3" />
+        ) : (
+          <ArrowDown className="h-3 w-3" />
+        )}
+      </button>
+    </TableHead>
+  );
+
+  const { data: vendorsData } = useQuery({
+    queryKey: ['/api/vendors', { limit: 1000 }],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/vendors?limit=1000');
+      return response.json();
+    },
+    enabled: isAuthenticated,
   });
 
   const { data: departments = [] } = useQuery<Department[]>({
@@ -414,7 +491,15 @@ export default function ReceivedCouriers() {
                 Manage and track all received courier shipments
               </p>
             </div>
-            <div className="mt-4 flex md:mt-0 md:ml-4">
+            <div className="mt-4 flex gap-2 md:mt-0 md:ml-4">
+              <Button
+                variant="outline"
+                onClick={() => setShowImport(true)}
+                data-testid="button-import-received-couriers"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Button>
               <Button 
                 onClick={() => {
                   setEditingCourier(null);
@@ -441,11 +526,73 @@ export default function ReceivedCouriers() {
                   <Input
                     placeholder="Search received couriers by POD number, receiver, or vendor..."
                     value={searchTerm}
-                    onChange={(e) => setSearchTerm(e.target.value)}
+                    onChange={(e) => {
+                      setSearchTerm(e.target.value);
+                      setCurrentPage(1);
+                    }}
                     className="pl-10"
                     data-testid="input-search-received-couriers"
                   />
                 </div>
+
+                {/* Filters */}
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-2 mt-3">
+                  <Select value={listFilters.status} onValueChange={(value) => updateListFilter('status', value)}>
+                    <SelectTrigger data-testid="filter-received-status">
+                      <SelectValue placeholder="Status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Statuses</SelectItem>
+                      <SelectItem value="received">Received</SelectItem>
+                      <SelectItem value="dispatched">Dispatched</SelectItem>
+                      <SelectItem value="completed">Completed</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select value={listFilters.vendor} onValueChange={(value) => updateListFilter('vendor', value)}>
+                    <SelectTrigger data-testid="filter-received-vendor">
+                      <SelectValue placeholder="Vendor" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Vendors</SelectItem>
+                      {(vendorsData?.vendors || []).map((vendor: any) => (
+                        <SelectItem key={vendor.id} value={vendor.vendorName}>{vendor.vendorName}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {isAdmin && (
+                    <Select value={listFilters.departmentId} onValueChange={(value) => updateListFilter('departmentId', value)}>
+                      <SelectTrigger data-testid="filter-received-department">
+                        <SelectValue placeholder="Department" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Departments</SelectItem>
+                        {departments.map((dept) => (
+                          <SelectItem key={dept.id} value={dept.id.toString()}>{dept.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <Input
+                    placeholder="From location"
+                    value={listFilters.fromLocation}
+                    onChange={(e) => updateListFilter('fromLocation', e.target.value)}
+                    data-testid="filter-received-from"
+                  />
+                  <Input
+                    type="date"
+                    value={listFilters.startDate}
+                    onChange={(e) => updateListFilter('startDate', e.target.value)}
+                    title="Received from"
+                    data-testid="filter-received-start-date"
+                  />
+                  <Input
+                    type="date"
+                    value={listFilters.endDate}
+                    onChange={(e) => updateListFilter('endDate', e.target.value)}
+                    title="Received to"
+                    data-testid="filter-received-end-date"
+                  />
+                </div>
               </CardHeader>
               <CardContent>
                 {couriersLoading ? (
@@ -454,22 +601,24 @@ export default function ReceivedCouriers() {
                   </div>
                 ) : receivedCouriers.length === 0 ? (
                   <div className="text-center py-8 text-slate-500">
-                    No received couriers found. Add your first received courier to get started.
+                    {searchTerm || JSON.stringify(listFilters) !== JSON.stringify(DEFAULT_LIST_FILTERS)
+                      ? "No received couriers match the current filters."
+                      : "No received couriers found. Add your first received courier to get started."}
                   </div>
                 ) : (
                   <div className="max-h-[600px] overflow-y-auto">
                     <Table>
                     <TableHeader>
                       <TableRow>
-                        <TableHead>POD Number</TableHead>
-                        <TableHead>Received Date</TableHead>
-                        <TableHead>From</TableHead>
+                        {sortableHead('podNumber', 'POD Number')}
+                        {sortableHead('receivedDate', 'Received Date')}
+                        {sortableHead('fromLocation', 'From')}
                         <TableHead>To User</TableHead>
                         <TableHead>Department</TableHead>
-                        <TableHead>Receiver</TableHead>
-                        <TableHead>Courier Vendor</TableHead>
+                        {sortableHead('receiverName', 'Receiver')}
+                        {sortableHead('courierVendor', 'Courier Vendor')}
                         <TableHead>Email</TableHead>
-                        <TableHead>Status</TableHead>
+                        {sortableHead('status', 'Status')}
                         <TableHead>Remarks</TableHead>
                         <TableHead>Actions</TableHead>
                       </TableRow>
@@ -579,6 +728,40 @@ export default function ReceivedCouriers() {
                   </Table>
                   </div>
                 )}
+
+                {/* Pagination */}
+                {totalPages > 1 && (
+                  <div className="flex items-center justify-between pt-4 mt-4 border-t border-slate-200">
+                    <p className="text-sm text-slate-700">
+                      Showing <span className="font-medium">{(currentPage - 1) * RECEIVED_PAGE_SIZE + 1}</span> to{' '}
+                      <span className="font-medium">{Math.min(currentPage * RECEIVED_PAGE_SIZE, totalCouriers)}</span>{' '}
+                      of <span className="font-medium">{totalCouriers}</span> results
+                    </p>
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
+                        disabled={currentPage === 1}
+                        data-testid="button-received-prev"
+                      >
+                        <ChevronLeft className="h-4 w-4" />
+                      </Button>
+                      <span className="text-sm text-slate-700">
+                        Page {currentPage} of {totalPages}
+                      </span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
+                        disabled={currentPage === totalPages}
+                        data-testid="button-received-next"
+                      >
+                        <ChevronRight className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -953,6 +1136,8 @@ export default function ReceivedCouriers() {
                 <span className="font-semibold text-sm text-slate-600">Remarks</span>
                 <p className="text-sm p-3 bg-slate-50 rounded-lg border">{viewingCourier.remarks || 'No remarks provided.'}</p>
               </div>
+              
+              <StatusTimeline courierType="received_courier" courierId={viewingCourier.id} />
             </div>
             <DialogFooter>
               <Button onClick={() => setViewingCourier(null)}>Close</Button>
@@ -960,6 +1145,8 @@ export default function ReceivedCouriers() {
           </DialogContent>
         </Dialog>
       )}
+
+      <ImportCouriersDialog kind="received_courier" open={showImport} onOpenChange={setShowImport} />
     </main>
   );
 }
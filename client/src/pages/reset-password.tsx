@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { usePasswordPolicy } from "@/hooks/usePasswordPolicy";
 import { KeyRound, CheckCircle } from "lucide-react";
 import { Link, useLocation } from "wouter";
 
@@ -16,6 +17,7 @@ export default function ResetPassword() {
   const [token, setToken] = useState("");
   const { toast } = useToast();
   const [location] = useLocation();
+  const { hint: passwordHint, getErrors: getPasswordErrors } = usePasswordPolicy();
 
   useEffect(() => {
     // Extract email and token from URL parameters
@@ -54,10 +56,11 @@ export default function ResetPassword() {
       return;
     }
 
-    if (newPassword.length < 6) {
+    const passwordErrors = getPasswordErrors(newPassword);
+    if (passwordErrors.length > 0) {
       toast({
         title: "Error",
-        description: "Password must be at least 6 characters long",
+        description: passwordErrors[0],
         variant: "destructive",
       });
       return;
@@ -158,6 +161,9 @@ export default function ResetPassword() {
                 placeholder="Enter new password"
                 data-testid="input-new-password"
               />
+              {passwordHint && (
+                <p className="text-xs text-slate-500" data-testid="text-password-policy">{passwordHint}</p>
+              )}
             </div>
 
             <div className="space-y-2">
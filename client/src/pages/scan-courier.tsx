@@ -0,0 +1,237 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Camera, CameraOff, Check, ScanLine } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDateDDMMYYYY } from "@/lib/utils";
+import { COURIER_STATUS_LABELS, type CourierStatus } from "@shared/courier-status";
+
+interface ScanResult {
+  courier: {
+    id: number;
+    podNo: string | null;
+    toBranch: string | null;
+    receiverName: string | null;
+    email: string | null;
+    vendor: string | null;
+    customVendor: string | null;
+    courierDate: string | null;
+    details: string | null;
+    status: CourierStatus | null;
+    department?: { name: string };
+  };
+  branch: { branchName: string; branchCode: string; address: string } | null;
+  canReceive: boolean;
+}
+
+// Camera scanning uses the browser's BarcodeDetector where available (Chrome, Edge, Android).
+// Handheld scanners type the code into the input like a keyboard.
+const supportsCameraScan = typeof window !== 'undefined' && 'BarcodeDetector' in window;
+
+export default function ScanCourier() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [code, setCode] = useState("");
+  const [remarks, setRemarks] = useState("");
+  const [result, setResult] = useState<ScanResult | null>(null);
+  const [cameraActive, setCameraActive] = useState(false);
+
+  const lookupMutation = useMutation({
+    mutationFn: async (scanCode: string) => {
+      const response = await apiRequest('POST', '/api/couriers/scan', { code: scanCode });
+      return response.json() as Promise<ScanResult>;
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      setRemarks("");
+    },
+    onError: (error: any) => {
+      setResult(null);
+      toast({ title: "Not found", description: error.message || "This code does not match any courier label", variant: "destructive" });
+    },
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/couriers/scan/receive', { code, remarks: remarks || undefined });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/couriers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+      toast({ title: "Success", description: `Courier ${result?.courier.podNo || ''} marked as received` });
+      setResult(null);
+      setCode("");
+      setRemarks("");
+      inputRef.current?.focus();
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to mark courier as received", variant: "destructive" });
+    },
+  });
+
+  const lookup = (scanCode: string) => {
+    if (scanCode.trim()) {
+      lookupMutation.mutate(scanCode.trim());
+    }
+  };
+
+  useEffect(() => {
+    if (!cameraActive || !videoRef.current) return;
+
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+    const detector = new (window as any).BarcodeDetector({ formats: ['qr_code'] });
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(async (mediaStream) => {
+        stream = mediaStream;
+        if (stopped || !videoRef.current) return;
+        videoRef.current.srcObject = mediaStream;
+        await videoRef.current.play();
+
+        timer = window.setInterval(async () => {
+          if (!videoRef.current) return;
+          const codes = await detector.detect(videoRef.current).catch(() => []);
+          if (codes.length > 0) {
+            const value = codes[0].rawValue as string;
+            setCode(value);
+            setCameraActive(false);
+            lookup(value);
+          }
+        }, 400);
+      })
+      .catch(() => {
+        toast({ title: "Camera unavailable", description: "Allow camera access or use a handheld scanner", variant: "destructive" });
+        setCameraActive(false);
+      });
+
+    return () => {
+      stopped = true;
+      if (timer) window.clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [cameraActive]);
+
+  const courier = result?.courier;
+  const vendorName = courier?.vendor === 'Others' ? courier?.customVendor : courier?.vendor;
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold tracking-tight">Scan Courier Label</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ScanLine className="h-5 w-5" />
+            Scan or Paste Code
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Textarea
+            ref={inputRef}
+            autoFocus
+            rows={3}
+            placeholder="Scan the QR code on the dispatch label, or paste its contents here"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            onKeyDown={(e) => {
+              // Handheld scanners finish with Enter
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                lookup(code);
+              }
+            }}
+            className="font-mono"
+            data-testid="input-scan-code"
+          />
+          <div className="flex gap-2">
+            <Button onClick={() => lookup(code)} disabled={!code.trim() || lookupMutation.isPending} data-testid="button-lookup-scan">
+              {lookupMutation.isPending ? "Looking up..." : "Find Courier"}
+            </Button>
+            {supportsCameraScan && (
+              <Button variant="outline" onClick={() => setCameraActive(!cameraActive)} data-testid="button-toggle-camera">
+                {cameraActive ? <CameraOff className="h-4 w-4 mr-2" /> : <Camera className="h-4 w-4 mr-2" />}
+                {cameraActive ? "Stop Camera" : "Use Camera"}
+              </Button>
+            )}
+          </div>
+          {cameraActive && (
+            <video ref={videoRef} className="w-full max-w-md rounded-md border" muted playsInline />
+          )}
+        </CardContent>
+      </Card>
+
+      {courier && (
+        <Card data-testid="scan-result">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>POD {courier.podNo || 'N/A'}</span>
+              {courier.status && <Badge variant="outline">{COURIER_STATUS_LABELS[courier.status]}</Badge>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+              <div>
+                <Label className="text-slate-600">Receiver</Label>
+                <p>{courier.receiverName || 'N/A'}{courier.email ? ` (${courier.email})` : ''}</p>
+              </div>
+              <div>
+                <Label className="text-slate-600">Destination</Label>
+                <p>{result?.branch ? `${result.branch.branchName} (${result.branch.branchCode})` : courier.toBranch || 'N/A'}</p>
+                {result?.branch?.address && <p className="text-slate-500">{result.branch.address}</p>}
+              </div>
+              <div>
+                <Label className="text-slate-600">From</Label>
+                <p>{courier.department?.name || 'N/A'}</p>
+              </div>
+              <div>
+                <Label className="text-slate-600">Vendor / Date</Label>
+                <p>{vendorName || 'N/A'} · {courier.courierDate ? formatDateDDMMYYYY(courier.courierDate) : 'N/A'}</p>
+              </div>
+              {courier.details && (
+                <div className="md:col-span-2">
+                  <Label className="text-slate-600">Details</Label>
+                  <p>{courier.details}</p>
+                </div>
+              )}
+            </div>
+
+            {result?.canReceive ? (
+              <div className="space-y-2 pt-4 border-t">
+                <Label htmlFor="scan-remarks">Remarks (optional)</Label>
+                <Input
+                  id="scan-remarks"
+                  value={remarks}
+                  onChange={(e) => setRemarks(e.target.value)}
+                  placeholder="e.g. Received at front desk"
+                  data-testid="input-scan-remarks"
+                />
+                <Button
+                  onClick={() => receiveMutation.mutate()}
+                  disabled={receiveMutation.isPending}
+                  className="bg-green-600 hover:bg-green-700"
+                  data-testid="button-scan-receive"
+                >
+                  <Check className="h-4 w-4 mr-2" />
+                  {receiveMutation.isPending ? "Saving..." : "Mark as Received"}
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-slate-500 pt-4 border-t">This courier cannot be marked as received from its current status.</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
@@ -7,16 +7,21 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
-import { Download, Plus, FileText, Trash2, Mail, User, Calendar, Search, Pencil, Settings as SettingsIcon } from "lucide-react";
+import { Download, Plus, FileText, Trash2, Mail, User, Calendar, Search, Pencil, ShieldCheck, Settings as SettingsIcon } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { ExportDialog } from "@/components/export-dialog";
 import { formatEntityId } from "@/lib/idUtils";
 import { formatDateDDMMYYYY, formatTimeHHMM } from "@/lib/utils";
+import { EMAIL_EVENTS, EMAIL_EVENT_KEYS, EMAIL_SAMPLE_DATA, renderEmailTemplate, type EmailEventKey } from "@shared/email-events";
+import { describePasswordPolicy, type PasswordPolicy } from "@shared/password-policy";
+import { DEFAULT_ESCALATION_STEPS, ESCALATION_ACTIONS, ESCALATION_ACTION_LABELS, type EscalationAction, type EscalationStep } from "@shared/escalation";
 
 interface User {
   id: string;
@@ -227,6 +232,986 @@ MIICXjCCAcegAwIBAgIBADANBgkqhkiG9w0BAQ0FADBLMQswCQYDVQQGEwJ1czEL...
   );
 }
 
+interface EmailOutboxMessage {
+  id: number;
+  eventKey: string | null;
+  toEmails: string;
+  ccEmails: string | null;
+  subject: string;
+  status: 'queued' | 'sending' | 'sent' | 'failed';
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  sentAt: string | null;
+  createdAt: string;
+}
+
+// Bodies are only shown to admins, one message at a time, as they can hold live links
+function EmailOutboxTable({ canViewBody }: { canViewBody: boolean }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [currentPage, setCurrentPage] = useState(1);
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [viewMessageId, setViewMessageId] = useState<number | null>(null);
+  const pageSize = 20;
+
+  const { data: viewedMessage, isLoading: viewedMessageLoading } = useQuery<EmailOutboxMessage & { html: string }>({
+    queryKey: ['/api/email-outbox', viewMessageId],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/email-outbox/${viewMessageId}`);
+      return response.json();
+    },
+    enabled: viewMessageId !== null,
+    gcTime: 0,
+  });
+
+  const { data: outbox, isLoading } = useQuery<{ messages: EmailOutboxMessage[]; total: number }>({
+    queryKey: ['/api/email-outbox', { status: statusFilter, page: currentPage }],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (statusFilter !== 'all') params.set('status', statusFilter);
+      params.set('limit', pageSize.toString());
+      params.set('offset', ((currentPage - 1) * pageSize).toString());
+
+      const response = await apiRequest('GET', `/api/email-outbox?${params.toString()}`);
+      return response.json();
+    },
+    refetchInterval: 30000,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('POST', `/api/email-outbox/${id}/retry`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/email-outbox'] });
+      toast({ title: "Success", description: "Email queued for another attempt" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to retry email", variant: "destructive" });
+    },
+  });
+
+  const messages = outbox?.messages || [];
+  const total = outbox?.total || 0;
+  const totalPages = Math.ceil(total / pageSize);
+
+  const getStatusBadge = (status: EmailOutboxMessage['status']) => {
+    switch (status) {
+      case 'sent': return <Badge className="bg-green-100 text-green-800">Sent</Badge>;
+      case 'failed': return <Badge className="bg-red-100 text-red-800">Failed</Badge>;
+      case 'sending': return <Badge className="bg-blue-100 text-blue-800">Sending</Badge>;
+      default: return <Badge className="bg-yellow-100 text-yellow-800">Queued</Badge>;
+    }
+  };
+
+  return (
+    <div className="border rounded-lg">
+      <div className="flex justify-between items-center p-4 border-b">
+        <h3 className="text-lg font-semibold">Email Outbox</h3>
+        <Select value={statusFilter} onValueChange={(value) => { setStatusFilter(value); setCurrentPage(1); }}>
+          <SelectTrigger className="w-40" data-testid="select-outbox-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All</SelectItem>
+            <SelectItem value="queued">Queued</SelectItem>
+            <SelectItem value="sent">Sent</SelectItem>
+            <SelectItem value="failed">Failed</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Subject</TableHead>
+            <TableHead>Recipients</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Attempts</TableHead>
+            <TableHead>Queued At</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {isLoading ? (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center py-8 text-slate-500">Loading emails...</TableCell>
+            </TableRow>
+          ) : messages.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center py-8 text-slate-500">No emails found</TableCell>
+            </TableRow>
+          ) : (
+            messages.map((message) => (
+              <TableRow key={message.id} data-testid={`outbox-message-${message.id}`}>
+                <TableCell>
+                  <div className="font-medium">{message.subject}</div>
+                  {message.lastError && message.status !== 'sent' && (
+                    <div className="text-xs text-red-600 mt-1">{message.lastError}</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {message.toEmails}
+                  {message.ccEmails && <div className="text-xs text-slate-500">CC: {message.ccEmails}</div>}
+                </TableCell>
+                <TableCell>
+                  {getStatusBadge(message.status)}
+                  {message.status === 'queued' && message.attempts > 0 && message.nextAttemptAt && (
+                    <div className="text-xs text-slate-500 mt-1">Retry at {formatTimeHHMM(message.nextAttemptAt)}</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm">{message.attempts}/{message.maxAttempts}</TableCell>
+                <TableCell className="text-sm">
+                  {formatDateDDMMYYYY(message.createdAt)}
+                  <div className="text-xs text-slate-500">{formatTimeHHMM(message.createdAt)}</div>
+                </TableCell>
+                <TableCell>
+                  {canViewBody && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setViewMessageId(message.id)}
+                      data-testid={`button-view-email-${message.id}`}
+                    >
+                      View
+                    </Button>
+                  )}
+                  {message.status === 'failed' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => retryMutation.mutate(message.id)}
+                      disabled={retryMutation.isPending}
+                      data-testid={`button-retry-email-${message.id}`}
+                    >
+                      Retry
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between px-4 py-3 border-t">
+          <div className="text-sm text-slate-500">
+            Showing {Math.min((currentPage - 1) * pageSize + 1, total)} to {Math.min(currentPage * pageSize, total)} of {total} emails
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" size="sm" onClick={() => setCurrentPage(Math.max(1, currentPage - 1))} disabled={currentPage === 1}>
+              Previous
+            </Button>
+            <span className="text-sm text-slate-600">Page {currentPage} of {totalPages}</span>
+            <Button variant="outline" size="sm" onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))} disabled={currentPage === totalPages}>
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={viewMessageId !== null} onOpenChange={(open) => !open && setViewMessageId(null)}>
+        <DialogContent className="sm:max-w-[760px]">
+          <DialogHeader>
+            <DialogTitle>{viewedMessage?.subject || 'Email'}</DialogTitle>
+          </DialogHeader>
+          {viewedMessageLoading || !viewedMessage ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="text-sm text-slate-600">To: {viewedMessage.toEmails}</div>
+              <iframe
+                title="Email body"
+                sandbox=""
+                srcDoc={viewedMessage.html}
+                className="w-full h-[420px] border rounded-md bg-white"
+                data-testid="iframe-outbox-message"
+              />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+interface EmailTemplateEntry {
+  eventKey: EmailEventKey;
+  label: string;
+  description: string;
+  variables: string[];
+  departmentId: number | null;
+  subject: string;
+  htmlBody: string;
+  isCustomized: boolean;
+  source: 'department' | 'global' | 'default';
+  updatedAt: string | null;
+}
+
+interface DepartmentOption {
+  id: number;
+  name: string;
+}
+
+function EmailTemplatesSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const [selectedEvent, setSelectedEvent] = useState<EmailEventKey>(EMAIL_EVENT_KEYS[0]);
+  const [departmentScope, setDepartmentScope] = useState("all");
+  const [subject, setSubject] = useState("");
+  const [htmlBody, setHtmlBody] = useState("");
+  const [testEmail, setTestEmail] = useState("");
+
+  const departmentId = departmentScope === "all" ? null : parseInt(departmentScope);
+
+  const { data: departments = [] } = useQuery<DepartmentOption[]>({
+    queryKey: ['/api/departments'],
+  });
+
+  const { data: templates = [], isLoading } = useQuery<EmailTemplateEntry[]>({
+    queryKey: ['/api/email-templates', { departmentId }],
+    queryFn: async () => {
+      const url = departmentId ? `/api/email-templates?departmentId=${departmentId}` : '/api/email-templates';
+      const response = await apiRequest('GET', url);
+      return response.json();
+    },
+  });
+
+  const template = templates.find(entry => entry.eventKey === selectedEvent);
+
+  // Load the effective template whenever the event or department scope changes
+  useEffect(() => {
+    if (template) {
+      setSubject(template.subject);
+      setHtmlBody(template.htmlBody);
+    }
+  }, [template]);
+
+  const isDirty = !!template && (subject !== template.subject || htmlBody !== template.htmlBody);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PUT', `/api/email-templates/${selectedEvent}`, { subject, htmlBody, departmentId });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/email-templates'] });
+      toast({ title: "Success", description: "Email template saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save email template", variant: "destructive" });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const url = departmentId
+        ? `/api/email-templates/${selectedEvent}?departmentId=${departmentId}`
+        : `/api/email-templates/${selectedEvent}`;
+      const response = await apiRequest('DELETE', url);
+      return response.json();
+    },
+    onSuccess: (result: { message: string }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/email-templates'] });
+      toast({ title: "Success", description: result.message });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to reset email template", variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/smtp-settings/test', {
+        testEmail,
+        eventKey: selectedEvent,
+        subject,
+        htmlBody,
+        departmentId,
+      });
+      return response.json();
+    },
+    onSuccess: (result: { message: string }) => {
+      toast({ title: "Success", description: result.message });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to send test email", variant: "destructive" });
+    },
+  });
+
+  // Insert the placeholder at the cursor, or append it when the body has not been focused
+  const insertVariable = (variable: string) => {
+    const placeholder = `{{${variable}}}`;
+    const textarea = bodyRef.current;
+    if (!textarea) {
+      setHtmlBody(prev => prev + placeholder);
+      return;
+    }
+
+    const start = textarea.selectionStart ?? htmlBody.length;
+    const end = textarea.selectionEnd ?? htmlBody.length;
+    setHtmlBody(htmlBody.slice(0, start) + placeholder + htmlBody.slice(end));
+
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const getSourceBadge = (entry: EmailTemplateEntry) => {
+    if (entry.isCustomized) {
+      return <Badge className="bg-blue-100 text-blue-800">Customized</Badge>;
+    }
+    if (entry.source === 'global') {
+      return <Badge className="bg-slate-100 text-slate-800">Inherited from all departments</Badge>;
+    }
+    return <Badge className="bg-slate-100 text-slate-800">Default</Badge>;
+  };
+
+  if (isLoading) {
+    return <div className="text-center py-4">Loading email templates...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label>Email Event</Label>
+          <Select value={selectedEvent} onValueChange={(value) => setSelectedEvent(value as EmailEventKey)}>
+            <SelectTrigger data-testid="select-email-event">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EMAIL_EVENT_KEYS.map(eventKey => (
+                <SelectItem key={eventKey} value={eventKey}>{EMAIL_EVENTS[eventKey].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Department</Label>
+          <Select value={departmentScope} onValueChange={setDepartmentScope}>
+            <SelectTrigger data-testid="select-template-department">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All departments</SelectItem>
+              {departments.map(department => (
+                <SelectItem key={department.id} value={department.id.toString()}>{department.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {template && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-slate-500">{template.description}</p>
+          {getSourceBadge(template)}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="template-subject">Subject</Label>
+            <Input
+              id="template-subject"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              data-testid="input-template-subject"
+            />
+          </div>
+          <div>
+            <Label htmlFor="template-body">HTML Body</Label>
+            <Textarea
+              id="template-body"
+              ref={bodyRef}
+              value={htmlBody}
+              onChange={(e) => setHtmlBody(e.target.value)}
+              className="font-mono text-xs min-h-[360px]"
+              data-testid="textarea-template-body"
+            />
+          </div>
+          <div>
+            <Label>Variables</Label>
+            <p className="text-xs text-slate-500 mb-2">
+              Click to insert at the cursor. Use {'{{name|fallback}}'} for a default value and {'{{#name}}...{{/name}}'} to show a block only when the value is set.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {template?.variables.map(variable => (
+                <Badge
+                  key={variable}
+                  variant="outline"
+                  className="cursor-pointer font-mono hover:bg-slate-100"
+                  onClick={() => insertVariable(variable)}
+                  data-testid={`badge-variable-${variable}`}
+                >
+                  {variable}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Preview (sample data)</Label>
+          <div className="text-sm border rounded-t-md px-3 py-2 bg-slate-50">
+            <span className="text-slate-500">Subject: </span>
+            {renderEmailTemplate(subject, EMAIL_SAMPLE_DATA, false)}
+          </div>
+          <iframe
+            title="Email preview"
+            sandbox=""
+            srcDoc={renderEmailTemplate(htmlBody, EMAIL_SAMPLE_DATA)}
+            className="w-full h-[480px] border rounded-b-md bg-white"
+            data-testid="iframe-template-preview"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end justify-between gap-4 pt-4 border-t">
+        <div className="flex items-end gap-2">
+          <div>
+            <Label htmlFor="template-test-email">Send test to</Label>
+            <Input
+              id="template-test-email"
+              type="email"
+              placeholder="admin@company.com"
+              value={testEmail}
+              onChange={(e) => setTestEmail(e.target.value)}
+              className="w-64"
+              data-testid="input-template-test-email"
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => testMutation.mutate()}
+            disabled={!testEmail || testMutation.isPending}
+            data-testid="button-send-template-test"
+          >
+            <Mail className="h-4 w-4 mr-2" />
+            {testMutation.isPending ? "Sending..." : "Send Test"}
+          </Button>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => resetMutation.mutate()}
+            disabled={!template?.isCustomized || resetMutation.isPending}
+            data-testid="button-reset-template"
+          >
+            {departmentId ? "Remove Department Override" : "Reset to Default"}
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!isDirty || !subject.trim() || !htmlBody.trim() || saveMutation.isPending}
+            data-testid="button-save-template"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Template"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface EscalationRule {
+  id: number;
+  name: string;
+  departmentId: number | null;
+  vendorId: number | null;
+  steps: EscalationStep[];
+  isActive: boolean;
+}
+
+interface VendorOption {
+  id: number;
+  vendorName: string;
+}
+
+const emptyEscalationRule = {
+  name: "",
+  departmentId: "all",
+  vendorId: "all",
+  isActive: true,
+  steps: DEFAULT_ESCALATION_STEPS.map(step => ({ ...step, additionalEmails: step.additionalEmails.join(', ') })),
+};
+
+function EscalationRulesSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingRule, setEditingRule] = useState<EscalationRule | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [ruleForm, setRuleForm] = useState(emptyEscalationRule);
+
+  const { data: rules = [], isLoading } = useQuery<EscalationRule[]>({
+    queryKey: ['/api/escalation-rules'],
+  });
+
+  const { data: departments = [] } = useQuery<DepartmentOption[]>({
+    queryKey: ['/api/departments'],
+  });
+
+  const { data: vendorsData } = useQuery<{ vendors: VendorOption[] }>({
+    queryKey: ['/api/vendors', { limit: 1000 }],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/vendors?limit=1000');
+      return response.json();
+    },
+  });
+  const vendors = vendorsData?.vendors || [];
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        name: ruleForm.name,
+        departmentId: ruleForm.departmentId === "all" ? null : parseInt(ruleForm.departmentId),
+        vendorId: ruleForm.vendorId === "all" ? null : parseInt(ruleForm.vendorId),
+        isActive: ruleForm.isActive,
+        steps: ruleForm.steps.map(step => ({
+          afterHours: step.afterHours,
+          action: step.action,
+          additionalEmails: step.additionalEmails.split(',').map(email => email.trim()).filter(Boolean),
+        })),
+      };
+      const response = editingRule
+        ? await apiRequest('PUT', `/api/escalation-rules/${editingRule.id}`, payload)
+        : await apiRequest('POST', '/api/escalation-rules', payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/escalation-rules'] });
+      setIsDialogOpen(false);
+      toast({ title: "Success", description: editingRule ? "Escalation rule updated" : "Escalation rule created" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save escalation rule", variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (rule: EscalationRule) => {
+      const response = await apiRequest('PUT', `/api/escalation-rules/${rule.id}`, { isActive: !rule.isActive });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/escalation-rules'] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update escalation rule", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `/api/escalation-rules/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/escalation-rules'] });
+      toast({ title: "Success", description: "Escalation rule deleted" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to delete escalation rule", variant: "destructive" });
+    },
+  });
+
+  const openRuleDialog = (rule?: EscalationRule) => {
+    setEditingRule(rule || null);
+    setRuleForm(rule ? {
+      name: rule.name,
+      departmentId: rule.departmentId ? rule.departmentId.toString() : "all",
+      vendorId: rule.vendorId ? rule.vendorId.toString() : "all",
+      isActive: rule.isActive,
+      steps: rule.steps.map(step => ({ ...step, additionalEmails: (step.additionalEmails || []).join(', ') })),
+    } : emptyEscalationRule);
+    setIsDialogOpen(true);
+  };
+
+  const updateStep = (index: number, changes: Partial<typeof ruleForm.steps[number]>) => {
+    setRuleForm(prev => ({
+      ...prev,
+      steps: prev.steps.map((step, i) => i === index ? { ...step, ...changes } : step),
+    }));
+  };
+
+  const addStep = () => {
+    setRuleForm(prev => {
+      const lastHours = prev.steps[prev.steps.length - 1]?.afterHours || 0;
+      return {
+        ...prev,
+        steps: [...prev.steps, { afterHours: lastHours + 24, action: 'escalate_manager' as EscalationAction, additionalEmails: '' }],
+      };
+    });
+  };
+
+  const removeStep = (index: number) => {
+    setRuleForm(prev => ({ ...prev, steps: prev.steps.filter((_, i) => i !== index) }));
+  };
+
+  const getScopeLabel = (rule: EscalationRule) => {
+    const department = departments.find(d => d.id === rule.departmentId)?.name;
+    const vendor = vendors.find(v => v.id === rule.vendorId)?.vendorName;
+    if (department && vendor) return `${department} · ${vendor}`;
+    return department || vendor || "All couriers";
+  };
+
+  if (isLoading) {
+    return <div className="text-center py-4">Loading escalation rules...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-slate-500">
+          Couriers still on the way are checked every hour. The most specific active rule applies (department and vendor, then department, then vendor, then all couriers).
+          Without a matching rule the receiver is reminded once after 24 hours.
+        </p>
+        <Button onClick={() => openRuleDialog()} data-testid="button-add-escalation-rule">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>Applies To</TableHead>
+            <TableHead>Steps</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rules.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center py-8 text-slate-500">No escalation rules configured</TableCell>
+            </TableRow>
+          ) : (
+            rules.map(rule => (
+              <TableRow key={rule.id} data-testid={`escalation-rule-${rule.id}`}>
+                <TableCell className="font-medium">{rule.name}</TableCell>
+                <TableCell className="text-sm">{getScopeLabel(rule)}</TableCell>
+                <TableCell className="text-sm">
+                  {rule.steps.map((step, index) => (
+                    <div key={index}>{step.afterHours}h: {ESCALATION_ACTION_LABELS[step.action]}</div>
+                  ))}
+                </TableCell>
+                <TableCell>
+                  <Badge
+                    className={`cursor-pointer ${rule.isActive ? "bg-green-100 text-green-800" : "bg-slate-100 text-slate-800"}`}
+                    onClick={() => toggleMutation.mutate(rule)}
+                  >
+                    {rule.isActive ? "Active" : "Inactive"}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => openRuleDialog(rule)} data-testid={`button-edit-escalation-rule-${rule.id}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        if (confirm(`Are you sure you want to delete the escalation rule "${rule.name}"?`)) {
+                          deleteMutation.mutate(rule.id);
+                        }
+                      }}
+                      data-testid={`button-delete-escalation-rule-${rule.id}`}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? "Edit Escalation Rule" : "Add Escalation Rule"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="escalation-rule-name">Name</Label>
+              <Input
+                id="escalation-rule-name"
+                value={ruleForm.name}
+                onChange={(e) => setRuleForm(prev => ({ ...prev, name: e.target.value }))}
+                data-testid="input-escalation-rule-name"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Department</Label>
+                <Select value={ruleForm.departmentId} onValueChange={(value) => setRuleForm(prev => ({ ...prev, departmentId: value }))}>
+                  <SelectTrigger data-testid="select-escalation-department">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All departments</SelectItem>
+                    {departments.map(department => (
+                      <SelectItem key={department.id} value={department.id.toString()}>{department.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Vendor</Label>
+                <Select value={ruleForm.vendorId} onValueChange={(value) => setRuleForm(prev => ({ ...prev, vendorId: value }))}>
+                  <SelectTrigger data-testid="select-escalation-vendor">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All vendors</SelectItem>
+                    {vendors.map(vendor => (
+                      <SelectItem key={vendor.id} value={vendor.id.toString()}>{vendor.vendorName}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Steps</Label>
+              {ruleForm.steps.map((step, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <div className="col-span-2">
+                    <Input
+                      type="number"
+                      min={1}
+                      value={step.afterHours}
+                      onChange={(e) => updateStep(index, { afterHours: parseInt(e.target.value) || 0 })}
+                      data-testid={`input-escalation-hours-${index}`}
+                    />
+                  </div>
+                  <span className="col-span-1 text-sm text-slate-500">hours</span>
+                  <div className="col-span-4">
+                    <Select value={step.action} onValueChange={(value) => updateStep(index, { action: value as EscalationAction })}>
+                      <SelectTrigger data-testid={`select-escalation-action-${index}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ESCALATION_ACTIONS.map(action => (
+                          <SelectItem key={action} value={action}>{ESCALATION_ACTION_LABELS[action]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="col-span-4">
+                    <Input
+                      placeholder="Extra CC emails, comma separated"
+                      value={step.additionalEmails}
+                      onChange={(e) => updateStep(index, { additionalEmails: e.target.value })}
+                      data-testid={`input-escalation-emails-${index}`}
+                    />
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="col-span-1"
+                    onClick={() => removeStep(index)}
+                    disabled={ruleForm.steps.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={addStep} disabled={ruleForm.steps.length >= 10} data-testid="button-add-escalation-step">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Step
+              </Button>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!ruleForm.name.trim() || saveMutation.isPending}
+              data-testid="button-save-escalation-rule"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Rule"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+const TWO_FACTOR_ROLES = [
+  { value: 'admin', label: 'Admin' },
+  { value: 'sub_admin', label: 'Sub Admin' },
+];
+
+const PASSWORD_CHARACTER_RULES: { key: 'requireUppercase' | 'requireLowercase' | 'requireNumber' | 'requireSymbol'; label: string }[] = [
+  { key: 'requireUppercase', label: 'Uppercase letter' },
+  { key: 'requireLowercase', label: 'Lowercase letter' },
+  { key: 'requireNumber', label: 'Number' },
+  { key: 'requireSymbol', label: 'Symbol' },
+];
+
+interface SecuritySettingsData {
+  twoFactorRequiredRoles: string[];
+  passwordPolicy: PasswordPolicy;
+}
+
+function SecuritySettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings, isLoading } = useQuery<SecuritySettingsData>({
+    queryKey: ['/api/security-settings'],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: Partial<SecuritySettingsData>) => {
+      const response = await apiRequest('PUT', '/api/security-settings', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/security-settings'] });
+      toast({ title: "Success", description: "Security settings updated" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update security settings", variant: "destructive" });
+    },
+  });
+
+  const requiredRoles = settings?.twoFactorRequiredRoles || [];
+  const [passwordPolicy, setPasswordPolicy] = useState<PasswordPolicy | null>(null);
+
+  useEffect(() => {
+    if (settings) setPasswordPolicy(settings.passwordPolicy);
+  }, [settings]);
+
+  const toggleRole = (role: string, required: boolean) => {
+    const twoFactorRequiredRoles = required
+      ? [...requiredRoles, role]
+      : requiredRoles.filter(r => r !== role);
+    updateMutation.mutate({ ...settings!, twoFactorRequiredRoles });
+  };
+
+  const updatePolicyNumber = (key: 'minLength' | 'historyDepth' | 'maxAgeDays', value: string) => {
+    setPasswordPolicy(policy => policy && { ...policy, [key]: value === '' ? 0 : Number(value) });
+  };
+
+  if (isLoading || !passwordPolicy) {
+    return <div className="animate-pulse h-16 bg-slate-100 rounded" />;
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <div>
+          <h3 className="text-sm font-medium text-slate-900">Require two-factor authentication</h3>
+          <p className="text-sm text-slate-500">
+            Members of these roles must set up an authenticator app before they can sign in with a password.
+            Users who lose their device recover access through the password reset email.
+          </p>
+        </div>
+        {TWO_FACTOR_ROLES.map(role => (
+          <div key={role.value} className="flex items-center justify-between rounded-md border p-3">
+            <Label htmlFor={`two-factor-${role.value}`}>{role.label}</Label>
+            <Switch
+              id={`two-factor-${role.value}`}
+              checked={requiredRoles.includes(role.value)}
+              onCheckedChange={(checked) => toggleRole(role.value, checked)}
+              disabled={updateMutation.isPending}
+              data-testid={`switch-two-factor-${role.value}`}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <h3 className="text-sm font-medium text-slate-900">Password policy</h3>
+          <p className="text-sm text-slate-500">
+            Applies whenever a password is set: registration, password reset, password changes, and users created or bulk uploaded by admins.
+            Existing passwords are checked against the new rules the next time they are changed.
+          </p>
+        </div>
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="password-min-length">Minimum length</Label>
+            <Input
+              id="password-min-length"
+              type="number"
+              min={6}
+              max={128}
+              value={passwordPolicy.minLength}
+              onChange={(e) => updatePolicyNumber('minLength', e.target.value)}
+              data-testid="input-password-min-length"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="password-history-depth">Previous passwords blocked</Label>
+            <Input
+              id="password-history-depth"
+              type="number"
+              min={0}
+              max={24}
+              value={passwordPolicy.historyDepth}
+              onChange={(e) => updatePolicyNumber('historyDepth', e.target.value)}
+              data-testid="input-password-history-depth"
+            />
+            <p className="text-xs text-slate-500">0 allows reusing any earlier password</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="password-max-age">Maximum age (days)</Label>
+            <Input
+              id="password-max-age"
+              type="number"
+              min={0}
+              max={730}
+              value={passwordPolicy.maxAgeDays}
+              onChange={(e) => updatePolicyNumber('maxAgeDays', e.target.value)}
+              data-testid="input-password-max-age"
+            />
+            <p className="text-xs text-slate-500">0 means passwords never expire</p>
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          {PASSWORD_CHARACTER_RULES.map(rule => (
+            <div key={rule.key} className="flex items-center justify-between rounded-md border p-3">
+              <Label htmlFor={`password-${rule.key}`}>{rule.label}</Label>
+              <Switch
+                id={`password-${rule.key}`}
+                checked={passwordPolicy[rule.key]}
+                onCheckedChange={(checked) => setPasswordPolicy({ ...passwordPolicy, [rule.key]: checked })}
+                data-testid={`switch-password-${rule.key}`}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-slate-500" data-testid="text-password-policy-summary">{describePasswordPolicy(passwordPolicy)}</p>
+          <Button
+            onClick={() => updateMutation.mutate({ passwordPolicy })}
+            disabled={updateMutation.isPending}
+            data-testid="button-save-password-policy"
+          >
+            {updateMutation.isPending ? "Saving..." : "Save Password Policy"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function AuditLogsTable() {
   const { toast } = useToast();
   const [currentPage, setCurrentPage] = useState(1);
@@ -334,6 +1319,12 @@ function AuditLogsTable() {
       case 'CREATE': return 'bg-green-100 text-green-800';
       case 'UPDATE': return 'bg-blue-100 text-blue-800';
       case 'DELETE': return 'bg-red-100 text-red-800';
+      case 'LOGIN_FAILED':
+      case 'LOCKOUT': return 'bg-orange-100 text-orange-800';
+      case 'EMERGENCY_ACCESS_GRANTED':
+      case 'EMERGENCY_LOGIN':
+      case 'EMERGENCY_ACCESS': return 'bg-red-100 text-red-800';
+      case 'UNLOCK': return 'bg-green-100 text-green-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -838,8 +1829,12 @@ export default function Settings() {
             const newUrl = tab === "saml" ? "/settings?tab=saml" : "/settings";
             window.history.replaceState({}, '', newUrl);
           }} className="w-full">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-7">
               <TabsTrigger value="smtp" data-testid="tab-smtp-settings">SMTP Settings</TabsTrigger>
+              <TabsTrigger value="templates" data-testid="tab-email-templates">Email Templates</TabsTrigger>
+              <TabsTrigger value="outbox" data-testid="tab-email-outbox">Email Outbox</TabsTrigger>
+              <TabsTrigger value="escalation" data-testid="tab-escalation">Escalation</TabsTrigger>
+              <TabsTrigger value="security" data-testid="tab-security">Security</TabsTrigger>
               <TabsTrigger value="fields" data-testid="tab-fields">Fields</TabsTrigger>
               <TabsTrigger value="audit" data-testid="tab-audit-logs">Audit Logs</TabsTrigger>
             </TabsList>
@@ -1113,6 +2108,62 @@ export default function Settings() {
               </Card>
             </TabsContent>
 
+            <TabsContent value="templates" className="mt-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <FileText className="h-5 w-5" />
+                    Email Templates
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <EmailTemplatesSettings />
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="outbox" className="mt-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Mail className="h-5 w-5" />
+                    Email Outbox
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <EmailOutboxTable canViewBody={(user as any)?.role === 'admin'} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="escalation" className="mt-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Calendar className="h-5 w-5" />
+                    Overdue Courier Escalation
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <EscalationRulesSettings />
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="security" className="mt-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <ShieldCheck className="h-5 w-5" />
+                    Sign-in Security
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <SecuritySettings />
+                </CardContent>
+              </Card>
+            </TabsContent>
+
             <TabsContent value="audit" className="mt-6">
               <Card>
                 <CardHeader>
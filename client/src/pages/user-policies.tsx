@@ -6,6 +6,14 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Table,
   TableBody,
@@ -14,35 +22,44 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Shield, Users, Building2 } from "lucide-react";
+import { Shield, Users, Building2, RotateCcw } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import {
+  PERMISSIONS,
+  PERMISSION_KEYS,
+  USER_ROLE_LABELS,
+  resolvePermissions,
+  type Permission,
+  type PermissionGrantLike,
+  type UserRole,
+} from "@shared/permissions";
 
 interface Department {
   id: number;
   name: string;
 }
 
-interface UserPolicy {
+interface PermissionGrant extends PermissionGrantLike {
   id: number;
-  departmentId: number;
-  tabName: string;
-  isEnabled: boolean;
-  department?: Department;
+  updatedAt: string | null;
 }
 
-const AVAILABLE_TABS = [
-  { name: 'branches', label: 'Branch List', description: 'Manage branch locations and details' },
-  { name: 'authority-letter', label: 'Authority Letters', description: 'Generate and manage authority letters' },
-  { name: 'couriers', label: 'Courier Management', description: 'Send and track courier items' },
-  { name: 'received-couriers', label: 'Received Couriers', description: 'View received courier items' },
-  { name: 'view_all_couriers', label: 'View All Couriers', description: 'View couriers from all departments for tracking' },
-];
+// Admins always hold every permission, so only the other roles are configurable
+const EDITABLE_ROLES: UserRole[] = ['sub_admin', 'manager', 'user'];
+
+const PERMISSION_GROUPS = PERMISSION_KEYS.reduce<Record<string, Permission[]>>((groups, permission) => {
+  const group = PERMISSIONS[permission].group;
+  (groups[group] = groups[group] || []).push(permission);
+  return groups;
+}, {});
 
 export default function UserPolicies() {
   const { user, isAuthenticated, isLoading } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [role, setRole] = useState<UserRole>('user');
+  const [scope, setScope] = useState<string>('all');
 
   // Redirect if not authenticated or not admin
   useEffect(() => {
@@ -60,7 +77,7 @@ export default function UserPolicies() {
   }, [isAuthenticated, isLoading, user, toast]);
 
   // Fetch departments
-  const { data: departments = [] } = useQuery({
+  const { data: departments = [] } = useQuery<Department[]>({
     queryKey: ['/api/departments'],
     queryFn: async () => {
       const response = await apiRequest('GET', '/api/departments');
@@ -69,47 +86,60 @@ export default function UserPolicies() {
     enabled: isAuthenticated && (user as any)?.role === 'admin',
   });
 
-  // Fetch user policies
-  const { data: policies = [], refetch: refetchPolicies } = useQuery({
-    queryKey: ['/api/user-policies'],
+  // Fetch permission overrides
+  const { data: grants = [] } = useQuery<PermissionGrant[]>({
+    queryKey: ['/api/permission-grants'],
     queryFn: async () => {
-      const response = await apiRequest('GET', '/api/user-policies');
+      const response = await apiRequest('GET', '/api/permission-grants');
       return response.json();
     },
     enabled: isAuthenticated && (user as any)?.role === 'admin',
   });
 
-  // Update policy mutation
-  const updatePolicyMutation = useMutation({
-    mutationFn: async ({ departmentId, tabName, isEnabled }: { departmentId: number; tabName: string; isEnabled: boolean }) => {
-      const response = await apiRequest('POST', '/api/user-policies', {
-        departmentId,
-        tabName,
-        isEnabled
-      });
+  const departmentId = scope === 'all' ? null : parseInt(scope);
+
+  const onMutationError = (error: any) => {
+    if (isUnauthorizedError(error)) {
+      window.location.href = "/api/login";
+      return;
+    }
+    toast({ title: "Error", description: error.message || "Failed to update permission", variant: "destructive" });
+  };
+
+  const updateGrantMutation = useMutation({
+    mutationFn: async ({ permission, isGranted }: { permission: Permission; isGranted: boolean }) => {
+      const response = await apiRequest('PUT', '/api/permission-grants', { role, departmentId, permission, isGranted });
       return response.json();
     },
     onSuccess: () => {
-      toast({ title: "Success", description: "Policy updated successfully" });
-      refetchPolicies();
-    },
-    onError: (error: any) => {
-      if (isUnauthorizedError(error)) {
-        window.location.href = "/api/login";
-        return;
-      }
-      toast({ title: "Error", description: "Failed to update policy", variant: "destructive" });
+      queryClient.invalidateQueries({ queryKey: ['/api/permission-grants'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user-permissions'] });
+      toast({ title: "Success", description: "Permission updated successfully" });
     },
+    onError: onMutationError,
   });
 
-  const handlePolicyChange = (departmentId: number, tabName: string, isEnabled: boolean) => {
-    updatePolicyMutation.mutate({ departmentId, tabName, isEnabled });
-  };
+  const resetGrantMutation = useMutation({
+    mutationFn: async (permission: Permission) => {
+      const params = new URLSearchParams({ role, permission });
+      if (departmentId) params.set('departmentId', departmentId.toString());
+      const response = await apiRequest('DELETE', `/api/permission-grants?${params.toString()}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/permission-grants'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user-permissions'] });
+      toast({ title: "Success", description: "Permission reset to default" });
+    },
+    onError: onMutationError,
+  });
 
-  const getPolicyStatus = (departmentId: number, tabName: string): boolean => {
-    const policy = policies.find((p: UserPolicy) => p.departmentId === departmentId && p.tabName === tabName);
-    return policy?.isEnabled ?? true; // Default to enabled if no policy exists
-  };
+  // What a user with the selected role in the selected scope ends up with
+  const effectivePermissions = resolvePermissions(role, departmentId, grants);
+  const getOverride = (permission: Permission) =>
+    grants.find(grant => grant.role === role && grant.departmentId === departmentId && grant.permission === permission);
+  const departmentOverrideCount = grants.filter(grant => grant.departmentId !== null).length;
+  const isSaving = updateGrantMutation.isPending || resetGrantMutation.isPending;
 
   if (isLoading || !isAuthenticated) {
     return (
@@ -129,7 +159,7 @@ export default function UserPolicies() {
             User Policies
           </h1>
           <p className="text-slate-600 mt-1">
-            Configure which tabs are visible to each department's users and managers
+            Configure what each role can do, across the organisation or for a single department
           </p>
         </div>
       </div>
@@ -140,109 +170,135 @@ export default function UserPolicies() {
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-slate-600">Total Departments</p>
-                <p className="text-2xl font-bold text-slate-900">{departments.length}</p>
+                <p className="text-sm font-medium text-slate-600">Permissions</p>
+                <p className="text-2xl font-bold text-slate-900">{PERMISSION_KEYS.length}</p>
               </div>
-              <Building2 className="h-8 w-8 text-blue-600" />
+              <Shield className="h-8 w-8 text-green-600" />
             </div>
           </CardContent>
         </Card>
-        
+
         <Card>
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-slate-600">Available Tabs</p>
-                <p className="text-2xl font-bold text-slate-900">{AVAILABLE_TABS.length}</p>
+                <p className="text-sm font-medium text-slate-600">Role-wide Overrides</p>
+                <p className="text-2xl font-bold text-slate-900">{grants.length - departmentOverrideCount}</p>
               </div>
-              <Shield className="h-8 w-8 text-green-600" />
+              <Users className="h-8 w-8 text-purple-600" />
             </div>
           </CardContent>
         </Card>
-        
+
         <Card>
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-slate-600">Active Policies</p>
-                <p className="text-2xl font-bold text-slate-900">
-                  {policies.filter((p: UserPolicy) => p.isEnabled).length}
-                </p>
+                <p className="text-sm font-medium text-slate-600">Department Overrides</p>
+                <p className="text-2xl font-bold text-slate-900">{departmentOverrideCount}</p>
               </div>
-              <Users className="h-8 w-8 text-purple-600" />
+              <Building2 className="h-8 w-8 text-blue-600" />
             </div>
           </CardContent>
         </Card>
       </div>
 
-      {/* Policy Configuration */}
+      {/* Permission Configuration */}
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Shield className="h-5 w-5" />
-            Department Tab Permissions
+            Role Permissions
           </CardTitle>
-          <p className="text-sm text-slate-600">
-            Enable or disable specific tabs for each department. Users and managers in each department will only see enabled tabs.
-          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-2">
+            <div className="space-y-1">
+              <Label>Role</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as UserRole)}>
+                <SelectTrigger data-testid="select-policy-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EDITABLE_ROLES.map((editableRole) => (
+                    <SelectItem key={editableRole} value={editableRole}>{USER_ROLE_LABELS[editableRole]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Applies to</Label>
+              <Select value={scope} onValueChange={setScope}>
+                <SelectTrigger data-testid="select-policy-department">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All departments</SelectItem>
+                  {departments.map((department) => (
+                    <SelectItem key={department.id} value={department.id.toString()}>{department.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
         </CardHeader>
         <CardContent>
           <div className="overflow-x-auto">
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead className="w-64">Department</TableHead>
-                  {AVAILABLE_TABS.map((tab) => (
-                    <TableHead key={tab.name} className="text-center min-w-32">
-                      <div className="flex flex-col items-center gap-1">
-                        <span className="font-medium">{tab.label}</span>
-                        <span className="text-xs text-slate-500 text-center">{tab.description}</span>
-                      </div>
-                    </TableHead>
-                  ))}
+                  <TableHead className="w-48">Area</TableHead>
+                  <TableHead>Permission</TableHead>
+                  <TableHead className="text-center w-32">Allowed</TableHead>
+                  <TableHead className="text-center w-40">Source</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {departments.map((department: Department) => (
-                  <TableRow key={department.id}>
-                    <TableCell className="font-medium">
-                      <div className="flex items-center gap-2">
-                        <Building2 className="h-4 w-4 text-slate-400" />
-                        {department.name}
-                      </div>
-                    </TableCell>
-                    {AVAILABLE_TABS.map((tab) => {
-                      const isEnabled = getPolicyStatus(department.id, tab.name);
-                      return (
-                        <TableCell key={tab.name} className="text-center">
-                          <div className="flex flex-col items-center gap-2">
-                            <Switch
-                              checked={isEnabled}
-                              onCheckedChange={(checked) => 
-                                handlePolicyChange(department.id, tab.name, checked)
-                              }
-                              disabled={updatePolicyMutation.isPending}
-                              data-testid={`switch-${department.id}-${tab.name}`}
-                            />
-                            <Badge variant={isEnabled ? "default" : "secondary"} className="text-xs">
-                              {isEnabled ? "Enabled" : "Disabled"}
+                {Object.entries(PERMISSION_GROUPS).map(([group, permissions]) =>
+                  permissions.map((permission, index) => {
+                    const isGranted = effectivePermissions.includes(permission);
+                    const override = getOverride(permission);
+                    return (
+                      <TableRow key={permission}>
+                        <TableCell className="font-medium">{index === 0 ? group : ''}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{PERMISSIONS[permission].label}</div>
+                          <div className="text-xs text-slate-500">{PERMISSIONS[permission].description}</div>
+                        </TableCell>
+                        <TableCell className="text-center">
+                          <Switch
+                            checked={isGranted}
+                            onCheckedChange={(checked) => updateGrantMutation.mutate({ permission, isGranted: checked })}
+                            disabled={isSaving}
+                            data-testid={`switch-${role}-${scope}-${permission}`}
+                          />
+                        </TableCell>
+                        <TableCell className="text-center">
+                          {override ? (
+                            <div className="flex items-center justify-center gap-1">
+                              <Badge variant="default" className="text-xs">Override</Badge>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => resetGrantMutation.mutate(permission)}
+                                disabled={isSaving}
+                                title="Reset to default"
+                                data-testid={`button-reset-${permission}`}
+                              >
+                                <RotateCcw className="h-3 w-3" />
+                              </Button>
+                            </div>
+                          ) : (
+                            <Badge variant="secondary" className="text-xs">
+                              {departmentId ? 'Inherited' : 'Default'}
                             </Badge>
-                          </div>
+                          )}
                         </TableCell>
-                      );
-                    })}
-                  </TableRow>
-                ))}
+                      </TableRow>
+                    );
+                  })
+                )}
               </TableBody>
             </Table>
           </div>
-          
-          {departments.length === 0 && (
-            <div className="text-center py-8 text-slate-500">
-              <Building2 className="mx-auto h-12 w-12 text-slate-300 mb-3" />
-              <p>No departments found. Create departments first to manage policies.</p>
-            </div>
-          )}
         </CardContent>
       </Card>
 
@@ -253,14 +309,15 @@ export default function UserPolicies() {
         </CardHeader>
         <CardContent className="space-y-3">
           <div className="text-sm text-slate-600 space-y-2">
-            <p>• <strong>Enabled tabs</strong> will appear in the navigation for users and managers in that department</p>
-            <p>• <strong>Disabled tabs</strong> will be hidden from the navigation for that department</p>
-            <p>• <strong>View All Couriers</strong> allows departments to see couriers from all departments for tracking purposes</p>
-            <p>• <strong>Admin users</strong> always see all tabs and can view all departments regardless of these policies</p>
-            <p>• Changes take effect immediately for all logged-in users</p>
+            <p>• Every role starts with a <strong>default</strong> set of permissions</p>
+            <p>• Changes made for <strong>All departments</strong> override the default for that role everywhere</p>
+            <p>• Changes made for a <strong>single department</strong> win over the role-wide setting for users of that department</p>
+            <p>• <strong>View all departments</strong> lets a role see sent couriers from every department for tracking purposes</p>
+            <p>• <strong>Admin users</strong> always hold every permission regardless of these policies</p>
+            <p>• Permissions are checked by the server on every request, so changes take effect immediately</p>
           </div>
         </CardContent>
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
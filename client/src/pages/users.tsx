@@ -4,10 +4,12 @@ import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Plus, Download, Upload } from "lucide-react";
 import UserForm from "@/components/users/user-form";
-import UserTable from "@/components/users/user-table";
+import UserTable, { type AccountLockout } from "@/components/users/user-table";
 import UserDepartmentsDialog from "@/components/users/user-departments-dialog";
+import UserSessionsDialog from "@/components/users/user-sessions-dialog";
 import { Input } from "@/components/ui/input";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
 
 export default function Users() {
   const { toast } = useToast();
@@ -16,8 +18,29 @@ export default function Users() {
   const [showUserForm, setShowUserForm] = useState(false);
   const [editingUser, setEditingUser] = useState<any>(null);
   const [managingUser, setManagingUser] = useState<any>(null);
+  const [sessionsUser, setSessionsUser] = useState<any>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
 
+  const { data: lockouts = [] } = useQuery<AccountLockout[]>({
+    queryKey: ['/api/users/lockouts'],
+    enabled: user?.role === 'admin',
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest('POST', `/api/users/${userId}/unlock`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users/lockouts'] });
+      toast({ title: "Success", description: "Account unlocked" });
+    },
+    onError: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users/lockouts'] });
+      toast({ title: "Error", description: "Failed to unlock account", variant: "destructive" });
+    },
+  });
+
   const bulkUploadMutation = useMutation({
     mutationFn: async (file: File) => {
       const formData = new FormData();
@@ -196,6 +219,11 @@ export default function Users() {
               onManageDepartments={(user) => {
                 setManagingUser(user);
               }}
+              onManageSessions={(user) => {
+                setSessionsUser(user);
+              }}
+              lockouts={lockouts}
+              onUnlock={(user) => unlockMutation.mutate(user.id)}
             />
           </div>
         </div>
@@ -236,6 +264,16 @@ export default function Users() {
           }}
         />
       )}
+
+      {/* User Sessions Modal */}
+      {sessionsUser && (
+        <UserSessionsDialog
+          user={sessionsUser}
+          onClose={() => {
+            setSessionsUser(null);
+          }}
+        />
+      )}
     </main>
   );
 }
@@ -7,11 +7,13 @@ import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Plus, Search, Edit, Trash2 } from "lucide-react";
+import { Plus, Search, Edit, Trash2, Radar } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { formatEntityId } from "@/lib/idUtils";
 
@@ -21,10 +23,43 @@ const vendorSchema = z.object({
   email: z.string().email("Valid email is required").optional(),
   address: z.string().optional(),
   isActive: z.boolean().optional().default(true),
+  trackingAdapter: z.enum(['none', 'http_json', 'mock']).default('none'),
+  trackingConfig: z.string().optional().refine((value) => {
+    if (!value || !value.trim()) return true;
+    try {
+      const parsed = JSON.parse(value);
+      return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed);
+    } catch {
+      return false;
+    }
+  }, "Tracking config must be a JSON object"),
 });
 
+const TRACKING_CONFIG_EXAMPLES: Record<string, string> = {
+  http_json: JSON.stringify({
+    urlTemplate: "https://api.carrier.example/track/##podNo##",
+    method: "GET",
+    headers: { Authorization: "Bearer <token>" },
+    eventsPath: "data.events",
+    statusField: "status",
+    descriptionField: "description",
+    locationField: "location",
+    timeField: "timestamp",
+    deliveredValues: ["Delivered"],
+  }, null, 2),
+  mock: JSON.stringify({ deliverAfterHours: 24 }, null, 2),
+};
+
 type VendorFormData = z.infer<typeof vendorSchema>;
 
+function toVendorPayload(data: VendorFormData) {
+  const { trackingConfig, ...rest } = data;
+  return {
+    ...rest,
+    trackingConfig: data.trackingAdapter !== 'none' && trackingConfig?.trim() ? JSON.parse(trackingConfig) : null,
+  };
+}
+
 interface Vendor {
   id: number;
   vendorName: string;
@@ -32,6 +67,8 @@ interface Vendor {
   email?: string;
   address?: string;
   isActive: boolean;
+  trackingAdapter: 'none' | 'http_json' | 'mock';
+  trackingConfig: Record<string, unknown> | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -51,9 +88,14 @@ export default function Vendors() {
       email: "",
       address: "",
       isActive: true,
+      trackingAdapter: "none",
+      trackingConfig: "",
     },
   });
 
+  const trackingAdapter = form.watch("trackingAdapter");
+  const [testPodNo, setTestPodNo] = useState("");
+
   const { data: vendorsData, isLoading } = useQuery({
     queryKey: ['/api/vendors', { search: searchQuery }],
     queryFn: async () => {
@@ -67,7 +109,7 @@ export default function Vendors() {
 
   const createMutation = useMutation({
     mutationFn: async (data: VendorFormData) => {
-      const response = await apiRequest('POST', '/api/vendors', data);
+      const response = await apiRequest('POST', '/api/vendors', toVendorPayload(data));
       return response.json();
     },
     onSuccess: () => {
@@ -90,7 +132,7 @@ export default function Vendors() {
 
   const updateMutation = useMutation({
     mutationFn: async ({ id, data }: { id: number; data: VendorFormData }) => {
-      const response = await apiRequest('PUT', `/api/vendors/${id}`, data);
+      const response = await apiRequest('PUT', `/api/vendors/${id}`, toVendorPayload(data));
       return response.json();
     },
     onSuccess: () => {
@@ -153,6 +195,29 @@ export default function Vendors() {
     },
   });
 
+  const trackingTestMutation = useMutation({
+    mutationFn: async ({ id, podNo }: { id: number; podNo: string }) => {
+      const response = await apiRequest('POST', `/api/vendors/${id}/tracking/test`, { podNo });
+      return response.json();
+    },
+    onSuccess: (result: { events: Array<{ status: string; isDelivered: boolean }> }) => {
+      const latest = result.events[result.events.length - 1];
+      toast({
+        title: "Tracking test succeeded",
+        description: result.events.length > 0
+          ? `${result.events.length} event(s) found. Latest: ${latest.status}${latest.isDelivered ? " (delivered)" : ""}`
+          : "The carrier returned no events for this POD number",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Tracking test failed",
+        description: error.message || "Failed to test tracking",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleSubmit = (data: VendorFormData) => {
     if (editingVendor) {
       updateMutation.mutate({ id: editingVendor.id, data });
@@ -169,7 +234,10 @@ export default function Vendors() {
       email: vendor.email || "",
       address: vendor.address || "",
       isActive: vendor.isActive,
+      trackingAdapter: vendor.trackingAdapter || "none",
+      trackingConfig: vendor.trackingConfig ? JSON.stringify(vendor.trackingConfig, null, 2) : "",
     });
+    setTestPodNo("");
   };
 
   const handleDelete = (id: number) => {
@@ -304,6 +372,77 @@ export default function Vendors() {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="trackingAdapter"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Carrier Tracking</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-vendor-tracking-adapter">
+                            <SelectValue placeholder="Select tracking adapter" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">Disabled</SelectItem>
+                          <SelectItem value="http_json">HTTP/JSON endpoint</SelectItem>
+                          <SelectItem value="mock">Mock (testing)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {trackingAdapter !== 'none' && (
+                  <FormField
+                    control={form.control}
+                    name="trackingConfig"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Tracking Config (JSON)</FormLabel>
+                        <FormControl>
+                          <Textarea
+                            rows={8}
+                            className="font-mono text-xs"
+                            placeholder={TRACKING_CONFIG_EXAMPLES[trackingAdapter]}
+                            {...field}
+                            data-testid="textarea-vendor-tracking-config"
+                          />
+                        </FormControl>
+                        <div className="text-xs text-muted-foreground">
+                          {trackingAdapter === 'http_json'
+                            ? "Use ##podNo## in the URL, headers or body template. Field names are dot paths into each event."
+                            : "The mock adapter marks couriers delivered after the configured number of hours."}
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {editingVendor && editingVendor.trackingAdapter !== 'none' && (
+                  <div className="flex items-center space-x-2">
+                    <Input
+                      placeholder="POD number to test saved settings"
+                      value={testPodNo}
+                      onChange={(e) => setTestPodNo(e.target.value)}
+                      data-testid="input-vendor-tracking-test-pod"
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      disabled={!testPodNo.trim() || trackingTestMutation.isPending}
+                      onClick={() => trackingTestMutation.mutate({ id: editingVendor.id, podNo: testPodNo.trim() })}
+                      data-testid="button-vendor-tracking-test"
+                    >
+                      <Radar className="mr-2 h-4 w-4" />
+                      {trackingTestMutation.isPending ? "Testing..." : "Test"}
+                    </Button>
+                  </div>
+                )}
+
                 <div className="flex justify-end space-x-2">
                   <Button
                     type="button"
@@ -375,6 +514,11 @@ export default function Vendors() {
                       <strong>Address:</strong> {vendor.address}
                     </div>
                   )}
+                  {vendor.trackingAdapter && vendor.trackingAdapter !== 'none' && (
+                    <div className="text-sm text-muted-foreground">
+                      <strong>Tracking:</strong> {vendor.trackingAdapter === 'mock' ? 'Mock' : 'HTTP/JSON'}
+                    </div>
+                  )}
                   <div className="text-sm text-muted-foreground">
                     <strong>Created:</strong> {new Date(vendor.createdAt).toLocaleDateString()}
                   </div>
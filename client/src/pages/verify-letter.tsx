@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ShieldCheck, ShieldX, ShieldQuestion } from "lucide-react";
+import { useLocation, useParams } from "wouter";
+
+interface LetterVerificationResult {
+  referenceNumber: string;
+  issuedAt: string;
+  departmentName: string | null;
+  status: 'valid' | 'revoked' | 'cancelled';
+}
+
+// Public page opened from the QR code on an authority letter, or used to type in its code
+export default function VerifyLetter() {
+  const params = useParams<{ code?: string }>();
+  const [, setLocation] = useLocation();
+  const [codeInput, setCodeInput] = useState(params.code || "");
+  const code = params.code;
+
+  const { data: result, error, isLoading } = useQuery<LetterVerificationResult, Error>({
+    queryKey: ['/api/letters/verify', code],
+    enabled: !!code,
+    retry: false,
+    queryFn: async () => {
+      const response = await fetch(`/api/letters/verify/${encodeURIComponent(code!)}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to verify letter");
+      }
+      return data;
+    },
+  });
+
+  const handleVerify = () => {
+    const trimmed = codeInput.trim();
+    if (trimmed) {
+      setLocation(`/verify/${encodeURIComponent(trimmed)}`);
+    }
+  };
+
+  const isValid = result?.status === 'valid';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <Card className="shadow-xl border-0">
+          <CardHeader className="text-center pb-6">
+            <div className={`w-12 h-12 rounded-full flex items-center justify-center mx-auto mb-4 ${
+              !result ? 'bg-blue-100' : isValid ? 'bg-green-100' : 'bg-red-100'
+            }`}>
+              {!result ? (
+                <ShieldQuestion className="w-6 h-6 text-blue-600" />
+              ) : isValid ? (
+                <ShieldCheck className="w-6 h-6 text-green-600" />
+              ) : (
+                <ShieldX className="w-6 h-6 text-red-600" />
+              )}
+            </div>
+            <CardTitle className="text-2xl font-bold text-slate-900">
+              {!result ? 'Verify Authority Letter' : isValid ? 'Valid Letter' : `Letter ${result.status === 'revoked' ? 'Revoked' : 'Cancelled'}`}
+            </CardTitle>
+            {!result && (
+              <p className="text-slate-600 text-sm mt-2">
+                Enter the verification code printed next to the QR code on the letter
+              </p>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoading && (
+              <div className="flex justify-center py-4">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            )}
+
+            {result && (
+              <dl className="space-y-3 text-sm" data-testid="letter-verification-result">
+                <div className="flex justify-between gap-4">
+                  <dt className="text-slate-500">Letter number</dt>
+                  <dd className="font-mono font-medium text-slate-900">{result.referenceNumber}</dd>
+                </div>
+                <div className="flex justify-between gap-4">
+                  <dt className="text-slate-500">Issued on</dt>
+                  <dd className="text-slate-900">{new Date(result.issuedAt).toLocaleDateString('en-GB')}</dd>
+                </div>
+                <div className="flex justify-between gap-4">
+                  <dt className="text-slate-500">Department</dt>
+                  <dd className="text-slate-900">{result.departmentName || '-'}</dd>
+                </div>
+                {!isValid && (
+                  <p className="text-red-700 bg-red-50 border border-red-200 rounded-md p-3">
+                    This letter has been withdrawn by the issuer and must not be relied on.
+                  </p>
+                )}
+              </dl>
+            )}
+
+            {error && (
+              <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-3" data-testid="letter-verification-error">
+                {error.message}
+              </p>
+            )}
+
+            {!result && !isLoading && (
+              <div className="space-y-2">
+                <Label htmlFor="verification-code">Verification code</Label>
+                <Input
+                  id="verification-code"
+                  placeholder="XXXXX-XXXXX"
+                  value={codeInput}
+                  onChange={(e) => setCodeInput(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleVerify()}
+                  className="font-mono uppercase"
+                  data-testid="input-verification-code"
+                />
+                <Button className="w-full" onClick={handleVerify} disabled={!codeInput.trim()} data-testid="button-verify-letter">
+                  Verify
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,44 @@
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
 import type { RequestHandler } from 'express';
 import { storage } from './storage';
+import { resolvePermissions, type Permission } from '@shared/permissions';
+import type { AuthSession } from '@shared/schema';
+import type { SamlSessionInfo } from './saml';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'supersecretjwt';
+// Never sign tokens with a guessable secret. Development falls back to a random per-process
+// secret; access tokens then end on restart but refresh tokens (stored server-side) keep working.
+const JWT_SECRET = process.env.JWT_SECRET || (() => {
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET environment variable must be set in production');
+  }
+  console.warn('JWT_SECRET is not set; using a random secret for this process');
+  return crypto.randomBytes(32).toString('hex');
+})();
+
+const ACCESS_TOKEN_TTL = '15m';
+const REFRESH_TOKEN_TTL_DAYS = 30;
+const TWO_FACTOR_CHALLENGE_TTL = '10m';
 
 export interface JWTPayload {
   userId: string;
   email: string;
   role: string;
+  sessionId: string;
+}
+
+// Issued after a correct password when another sign-in step is still needed (a second
+// factor, or replacing an expired password). It carries no session, so authenticateToken
+// rejects it; only the route for its purpose accepts it.
+export interface TwoFactorChallenge {
+  userId: string;
+  purpose: 'two_factor_login' | 'two_factor_enrollment' | 'password_change';
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
 }
 
 export const hashPassword = async (password: string): Promise<string> => {
@@ -19,8 +49,13 @@ export const comparePassword = async (password: string, hash: string): Promise<b
   return await bcrypt.compare(password, hash);
 };
 
+// Break-glass accounts carry an expiry; once it passes they can neither sign in nor keep a session
+export const hasEmergencyAccessExpired = (user: { emergencyAccessExpiresAt?: Date | null }): boolean => {
+  return !!user.emergencyAccessExpiresAt && user.emergencyAccessExpiresAt <= new Date();
+};
+
 export const generateToken = (payload: JWTPayload): string => {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: '7d' });
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
 };
 
 export const verifyToken = (token: string): JWTPayload | null => {
@@ -31,6 +66,95 @@ export const verifyToken = (token: string): JWTPayload | null => {
   }
 };
 
+export const createTwoFactorChallenge = (challenge: TwoFactorChallenge): string => {
+  return jwt.sign(challenge, JWT_SECRET, { expiresIn: TWO_FACTOR_CHALLENGE_TTL, jwtid: crypto.randomUUID() });
+};
+
+export type VerifiedTwoFactorChallenge = TwoFactorChallenge & { jti: string; exp: number };
+
+export const verifyTwoFactorChallenge = (token: string, purpose: TwoFactorChallenge['purpose']): VerifiedTwoFactorChallenge | null => {
+  try {
+    const challenge = jwt.verify(token, JWT_SECRET) as VerifiedTwoFactorChallenge;
+    return challenge.purpose === purpose && challenge.userId && challenge.jti ? challenge : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Mark a challenge as used once its step succeeds. False when it was already used.
+export const consumeTwoFactorChallenge = async (challenge: VerifiedTwoFactorChallenge): Promise<boolean> => {
+  return await storage.consumeAuthChallenge(challenge.jti, new Date(challenge.exp * 1000));
+};
+
+// Kept in a short-lived cookie between the redirect to an OpenID Connect provider and its
+// callback, so the callback only completes a login that this browser started
+export interface OidcLoginState {
+  purpose: 'oidc_login';
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+export const createOidcLoginState = (loginState: Omit<OidcLoginState, 'purpose'>): string => {
+  return jwt.sign({ ...loginState, purpose: 'oidc_login' }, JWT_SECRET, { expiresIn: TWO_FACTOR_CHALLENGE_TTL });
+};
+
+export const verifyOidcLoginState = (token: string): OidcLoginState | null => {
+  try {
+    const loginState = jwt.verify(token, JWT_SECRET) as OidcLoginState;
+    return loginState.purpose === 'oidc_login' ? loginState : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Only a hash of each refresh token is stored
+const hashRefreshToken = (refreshToken: string): string => {
+  return crypto.createHash('sha256').update(refreshToken).digest('hex');
+};
+
+// Resolved by Express from the trusted proxies only (the "trust proxy" setting in index.ts)
+export const getClientIp = (req: any): string | null => {
+  const ipAddress = req.ip || req.socket?.remoteAddress || null;
+  return ipAddress ? ipAddress.slice(0, 64) : null;
+};
+
+const getClientInfo = (req: any): { userAgent: string | null; ipAddress: string | null } => {
+  return {
+    userAgent: req.headers['user-agent']?.slice(0, 500) || null,
+    ipAddress: getClientIp(req),
+  };
+};
+
+// Start a server-side session for a user who just authenticated and issue its token pair.
+// SAML SSO logins pass the IdP session so single logout can revoke it later.
+export const createSessionTokens = async (user: { id: string; email: string | null; role: string | null }, req: any, saml?: SamlSessionInfo): Promise<SessionTokens> => {
+  const refreshToken = crypto.randomBytes(48).toString('hex');
+  const session = await storage.createAuthSession({
+    userId: user.id,
+    refreshTokenHash: hashRefreshToken(refreshToken),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+    ...getClientInfo(req),
+    ...(saml ? { samlNameId: saml.nameId, samlNameIdFormat: saml.nameIdFormat, samlSessionIndex: saml.sessionIndex } : {}),
+  });
+
+  return {
+    token: generateToken({ userId: user.id, email: user.email!, role: user.role || 'user', sessionId: session.id }),
+    refreshToken,
+  };
+};
+
+/**
+ * Rotate a refresh token. Returns the session and its new refresh token, or null when the
+ * token is unknown, already rotated, revoked or expired. The caller issues the access token
+ * so it carries the user's current role.
+ */
+export const rotateRefreshToken = async (refreshToken: string, req: any): Promise<{ session: AuthSession; refreshToken: string } | null> => {
+  const newRefreshToken = crypto.randomBytes(48).toString('hex');
+  const session = await storage.rotateAuthSessionToken(hashRefreshToken(refreshToken), hashRefreshToken(newRefreshToken), getClientInfo(req));
+  return session ? { session, refreshToken: newRefreshToken } : null;
+};
+
 export const authenticateToken: RequestHandler = async (req: any, res, next) => {
   const authHeader = req.headers.authorization;
   const token = authHeader && authHeader.split(' ')[1];
@@ -39,37 +163,51 @@ export const authenticateToken: RequestHandler = async (req: any, res, next) =>
     return res.status(401).json({ message: 'Access token required' });
   }
 
-  const payload = verifyToken(token);
-  if (!payload) {
+  let payload: JWTPayload;
+  try {
+    payload = jwt.verify(token, JWT_SECRET) as JWTPayload;
+  } catch (error) {
+    // The client refreshes on TOKEN_EXPIRED; anything else needs a new login
+    if (error instanceof jwt.TokenExpiredError) {
+      return res.status(401).json({ message: 'Access token expired', code: 'TOKEN_EXPIRED' });
+    }
     return res.status(403).json({ message: 'Invalid or expired token' });
   }
 
   try {
-    let user;
-    
-    // Check if it's a temporary user ID
-    if (payload.userId.startsWith('temp_')) {
-      // For temp users, create a user object from the token payload
-      user = {
-        id: payload.userId,
-        email: payload.email,
-        role: payload.role,
-        name: payload.email.split('@')[0], // Use email prefix as name
-        firstName: null,
-        lastName: null,
-        departmentId: null,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
-    } else {
-      // For regular users, fetch from database
-      user = await storage.getUser(payload.userId);
-      if (!user) {
-        return res.status(403).json({ message: 'User not found' });
+    // Every token must belong to a live session so logout and revocation apply immediately
+    const session = payload.sessionId ? await storage.getActiveAuthSession(payload.sessionId) : undefined;
+    if (!session || session.userId !== payload.userId) {
+      return res.status(401).json({ message: 'Session has ended', code: 'SESSION_REVOKED' });
+    }
+
+    const user = await storage.getUser(payload.userId);
+    if (!user) {
+      return res.status(403).json({ message: 'User not found' });
+    }
+
+    if (user.emergencyAccessExpiresAt) {
+      if (hasEmergencyAccessExpired(user)) {
+        await storage.revokeAuthSession(session.id);
+        return res.status(401).json({ message: 'Emergency access has expired', code: 'SESSION_REVOKED' });
+      }
+      // Every change made with emergency access is audited, on top of the entity's own history.
+      // If the entry cannot be written the request is refused rather than left unrecorded.
+      if (!['GET', 'HEAD', 'OPTIONS'].includes(req.method)) {
+        await storage.createAuditLog({
+          userId: user.id,
+          action: 'EMERGENCY_ACCESS',
+          entityType: 'request',
+          entityId: req.originalUrl.split('?')[0].slice(0, 100),
+          emailId: user.email,
+          details: `${req.method} ${req.originalUrl} by emergency account ${user.email}`,
+          entityData: null,
+        });
       }
     }
-    
+
     req.user = user;
+    req.sessionId = session.id;
     next();
   } catch (error) {
     return res.status(403).json({ message: 'Authentication failed' });
@@ -90,4 +228,102 @@ export const requireRole = (allowedRoles: string[]) => {
       res.status(500).json({ message: 'Authorization error' });
     }
   };
-};
\ No newline at end of file
+};
+
+// Resolve and cache the permissions of the authenticated user on the request
+// Permissions the user holds in any of their departments (primary or additional), cached on the request
+export const getUserPermissions = async (req: any): Promise<Permission[]> => {
+  if (!req.permissions) {
+    const user = req.user;
+    if (!user || user.role === 'admin') {
+      req.permissions = resolvePermissions(user?.role, user?.departmentId, []);
+    } else {
+      const departmentIds = await getUserDepartmentIds(req);
+      const grants = await storage.getPermissionGrantsForUser(user.role, departmentIds);
+      const resolved = (departmentIds.length > 0 ? departmentIds : [null]).flatMap(departmentId => resolvePermissions(user.role, departmentId, grants));
+      req.permissions = Array.from(new Set(resolved));
+    }
+  }
+  return req.permissions;
+};
+
+// Primary department plus any additional assignments from userDepartments, cached on the request
+export const getUserDepartmentIds = async (req: any): Promise<number[]> => {
+  if (!req.departmentIds) {
+    const user = req.user;
+    const assigned = user ? await storage.getUserDepartments(user.id) : [];
+    const primary = user?.departmentId ? [user.departmentId] : [];
+    req.departmentIds = Array.from(new Set([...primary, ...assigned]));
+  }
+  return req.departmentIds;
+};
+
+/**
+ * Department filter for scoped queries. Returns undefined when every department is
+ * visible (admins, or holders of `viewAllPermission`), otherwise the user's departments.
+ * A requested department (explicit, or the X-Department-Id header sent by the department
+ * switcher) narrows the result; one outside the user's departments yields an empty scope.
+ */
+export const getDepartmentScope = async (
+  req: any,
+  options: { viewAllPermission?: Permission; departmentId?: number } = {}
+): Promise<number[] | undefined> => {
+  const header = parseInt(req.headers['x-department-id']);
+  const requested = options.departmentId || (Number.isInteger(header) && header > 0 ? header : undefined);
+
+  const viewsAll = req.user?.role === 'admin'
+    || (options.viewAllPermission ? await hasPermission(req, options.viewAllPermission) : false);
+  if (viewsAll) {
+    return requested ? [requested] : undefined;
+  }
+
+  const departmentIds = await getUserDepartmentIds(req);
+  if (!requested) return departmentIds;
+  return departmentIds.includes(requested) ? [requested] : [];
+};
+
+// Department new records are filed under: the one picked in the department switcher
+// when the user belongs to it, otherwise the user's primary department
+export const getActiveDepartmentId = async (req: any): Promise<number | null> => {
+  const header = parseInt(req.headers['x-department-id']);
+  const departmentIds = await getUserDepartmentIds(req);
+  if (departmentIds.includes(header)) return header;
+  return req.user?.departmentId ?? departmentIds[0] ?? null;
+};
+
+// Whether the user belongs to the given department (admins belong everywhere)
+export const canAccessDepartment = async (req: any, departmentId: number | null | undefined): Promise<boolean> => {
+  if (req.user?.role === 'admin') return true;
+  if (!departmentId) return false;
+  return (await getUserDepartmentIds(req)).includes(departmentId);
+};
+
+// Whether a record of the department falls inside the user's scope, by the same rule as getDepartmentScope
+export const isInDepartmentScope = async (req: any, departmentId: number | null | undefined, viewAllPermission?: Permission): Promise<boolean> => {
+  if (viewAllPermission && await hasPermission(req, viewAllPermission)) return true;
+  return await canAccessDepartment(req, departmentId);
+};
+
+export const hasPermission = async (req: any, permission: Permission): Promise<boolean> => {
+  return (await getUserPermissions(req)).includes(permission);
+};
+
+export const requirePermission = (...requiredPermissions: Permission[]) => {
+  return async (req: any, res: any, next: any) => {
+    try {
+      if (!req.user) {
+        return res.status(403).json({ message: 'Insufficient permissions' });
+      }
+
+      const permissions = await getUserPermissions(req);
+      const missing = requiredPermissions.filter(permission => !permissions.includes(permission));
+      if (missing.length > 0) {
+        return res.status(403).json({ message: 'Insufficient permissions', missingPermissions: missing });
+      }
+
+      next();
+    } catch (error) {
+      res.status(500).json({ message: 'Authorization error' });
+    }
+  };
+};
@@ -0,0 +1,261 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import { InvalidStatusTransitionError } from "@shared/courier-status";
+import type { Courier, CourierTrackingEvent, Vendor } from "@shared/schema";
+
+export interface CarrierTrackingEventData {
+  status: string;
+  description?: string | null;
+  location?: string | null;
+  eventTime: Date;
+  isDelivered: boolean;
+  rawData?: unknown;
+}
+
+export interface CarrierTrackingAdapter {
+  fetchEvents(podNo: string, courier: Courier): Promise<CarrierTrackingEventData[]>;
+}
+
+export const TRACKING_ADAPTERS = ['none', 'http_json', 'mock'] as const;
+export type TrackingAdapterName = typeof TRACKING_ADAPTERS[number];
+
+export const httpJsonTrackingConfigSchema = z.object({
+  urlTemplate: z.string().min(1, "Endpoint URL is required").refine(value => value.includes('##podNo##'), "Endpoint URL must contain the ##podNo## placeholder"),
+  method: z.enum(['GET', 'POST']).default('GET'),
+  headers: z.record(z.string()).default({}),
+  bodyTemplate: z.string().optional(),
+  eventsPath: z.string().optional(), // Dot path to the events array, e.g. "data.scans"
+  statusField: z.string().min(1).default('status'),
+  descriptionField: z.string().optional(),
+  locationField: z.string().optional(),
+  timeField: z.string().min(1).default('time'),
+  deliveredValues: z.array(z.string().min(1)).min(1).default(['delivered']),
+  timeoutMs: z.number().int().min(1000).max(60000).default(15000),
+});
+
+export const mockTrackingConfigSchema = z.object({
+  deliverAfterHours: z.number().min(0).default(24),
+});
+
+export type HttpJsonTrackingConfig = z.infer<typeof httpJsonTrackingConfigSchema>;
+export type MockTrackingConfig = z.infer<typeof mockTrackingConfigSchema>;
+
+/**
+ * Validate the tracking settings submitted for a vendor. Throws a ZodError
+ * when the config does not match the selected adapter.
+ */
+export function parseVendorTrackingConfig(adapter: unknown, config: unknown): { trackingAdapter: TrackingAdapterName; trackingConfig: Record<string, unknown> | null } {
+  const trackingAdapter = z.enum(TRACKING_ADAPTERS).parse(adapter ?? 'none', { path: ['trackingAdapter'] });
+
+  switch (trackingAdapter) {
+    case 'http_json':
+      return { trackingAdapter, trackingConfig: httpJsonTrackingConfigSchema.parse(config ?? {}, { path: ['trackingConfig'] }) };
+    case 'mock':
+      return { trackingAdapter, trackingConfig: mockTrackingConfigSchema.parse(config ?? {}, { path: ['trackingConfig'] }) };
+    default:
+      return { trackingAdapter, trackingConfig: null };
+  }
+}
+
+function getPath(source: unknown, path?: string): unknown {
+  if (!path) return source;
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value === null || value === undefined || typeof value !== 'object') return undefined;
+    return (value as Record<string, unknown>)[key];
+  }, source);
+}
+
+/**
+ * Calls a carrier's HTTP endpoint and maps the JSON response to tracking events.
+ * ##podNo## in the URL, headers and body template is replaced with the POD number.
+ */
+export class HttpJsonTrackingAdapter implements CarrierTrackingAdapter {
+  constructor(private config: HttpJsonTrackingConfig) {}
+
+  async fetchEvents(podNo: string): Promise<CarrierTrackingEventData[]> {
+    const { config } = this;
+    const fill = (template: string, encode: (value: string) => string) => template.replace(/##podNo##/g, encode(podNo));
+
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    Object.entries(config.headers).forEach(([key, value]) => {
+      headers[key] = fill(value, v => v);
+    });
+
+    let body: string | undefined;
+    if (config.method === 'POST' && config.bodyTemplate) {
+      body = fill(config.bodyTemplate, v => JSON.stringify(v).slice(1, -1));
+      headers['Content-Type'] = headers['Content-Type'] || 'application/json';
+    }
+
+    const response = await fetch(fill(config.urlTemplate, encodeURIComponent), {
+      method: config.method,
+      headers,
+      body,
+      signal: AbortSignal.timeout(config.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Carrier endpoint responded with ${response.status} ${response.statusText}`);
+    }
+
+    const payload = await response.json();
+    const rawEvents = getPath(payload, config.eventsPath);
+    if (!Array.isArray(rawEvents)) {
+      throw new Error(`Carrier response has no events array at "${config.eventsPath || '(root)'}"`);
+    }
+
+    const deliveredValues = config.deliveredValues.map(value => value.toLowerCase());
+
+    return rawEvents.flatMap((raw): CarrierTrackingEventData[] => {
+      const status = getPath(raw, config.statusField);
+      const eventTime = new Date(getPath(raw, config.timeField) as any);
+      if (status === null || status === undefined || String(status).trim() === '' || isNaN(eventTime.getTime())) {
+        return [];
+      }
+
+      const description = config.descriptionField ? getPath(raw, config.descriptionField) : undefined;
+      const location = config.locationField ? getPath(raw, config.locationField) : undefined;
+
+      return [{
+        status: String(status).trim().slice(0, 100),
+        description: description !== null && description !== undefined ? String(description) : null,
+        location: location !== null && location !== undefined ? String(location).slice(0, 200) : null,
+        eventTime,
+        isDelivered: deliveredValues.includes(String(status).trim().toLowerCase()),
+        rawData: raw,
+      }];
+    });
+  }
+}
+
+/**
+ * Local adapter for testing without a carrier account. Produces a fixed event
+ * trail based on the courier's creation time and delivers after the configured delay.
+ */
+export class MockTrackingAdapter implements CarrierTrackingAdapter {
+  constructor(private config: MockTrackingConfig) {}
+
+  async fetchEvents(podNo: string, courier: Courier): Promise<CarrierTrackingEventData[]> {
+    const start = courier.createdAt ? new Date(courier.createdAt).getTime() : Date.now();
+    const deliverAfterMs = this.config.deliverAfterHours * 60 * 60 * 1000;
+
+    const trail: CarrierTrackingEventData[] = [
+      { status: 'Picked Up', description: `Shipment ${podNo} picked up`, location: 'Origin Hub', eventTime: new Date(start), isDelivered: false },
+      { status: 'In Transit', description: 'Shipment in transit', location: 'Sorting Facility', eventTime: new Date(start + deliverAfterMs / 2), isDelivered: false },
+      { status: 'Delivered', description: 'Shipment delivered', location: courier.toBranch || 'Destination', eventTime: new Date(start + deliverAfterMs), isDelivered: true },
+    ];
+
+    const now = Date.now();
+    return trail.filter(event => event.eventTime.getTime() <= now);
+  }
+}
+
+type TrackingAdapterFactory = (config: unknown) => CarrierTrackingAdapter;
+
+const adapterFactories = new Map<string, TrackingAdapterFactory>([
+  ['http_json', config => new HttpJsonTrackingAdapter(httpJsonTrackingConfigSchema.parse(config ?? {}))],
+  ['mock', config => new MockTrackingAdapter(mockTrackingConfigSchema.parse(config ?? {}))],
+]);
+
+export function registerTrackingAdapter(name: string, factory: TrackingAdapterFactory): void {
+  adapterFactories.set(name, factory);
+}
+
+export function getTrackingAdapter(vendor: Vendor): CarrierTrackingAdapter | null {
+  if (!vendor.isActive || !vendor.trackingAdapter || vendor.trackingAdapter === 'none') return null;
+  const factory = adapterFactories.get(vendor.trackingAdapter);
+  return factory ? factory(vendor.trackingConfig) : null;
+}
+
+export async function getCourierTrackingVendor(courier: Courier): Promise<Vendor | undefined> {
+  const vendorName = courier.vendor === 'Others' ? courier.customVendor : courier.vendor;
+  if (!vendorName || vendorName === 'Others') return undefined;
+  return await storage.getVendorByName(vendorName);
+}
+
+/**
+ * Fetch the latest carrier events for a courier, store any new ones and move the
+ * courier to delivered when the carrier reports delivery.
+ */
+export async function refreshCourierTracking(courier: Courier, vendor?: Vendor): Promise<{ newEvents: CourierTrackingEvent[]; delivered: boolean }> {
+  const trackingVendor = vendor ?? await getCourierTrackingVendor(courier);
+  const adapter = trackingVendor ? getTrackingAdapter(trackingVendor) : null;
+  const podNo = courier.podNo?.trim();
+
+  if (!trackingVendor || !adapter || !podNo) {
+    return { newEvents: [], delivered: false };
+  }
+
+  const events = await adapter.fetchEvents(podNo, courier);
+  await storage.markCourierTrackingChecked(courier.id);
+
+  const newEvents = await storage.addCourierTrackingEvents(events.map(event => ({
+    courierId: courier.id,
+    vendorId: trackingVendor.id,
+    status: event.status,
+    description: event.description ?? null,
+    location: event.location ?? null,
+    eventTime: event.eventTime,
+    isDelivered: event.isDelivered,
+    rawData: event.rawData ?? null,
+  })));
+
+  const deliveredEvent = events.find(event => event.isDelivered);
+  if (!deliveredEvent || courier.status !== 'on_the_way') {
+    return { newEvents, delivered: false };
+  }
+
+  try {
+    await storage.transitionCourierStatus(courier.id, 'delivered', {
+      remarks: `Delivered per ${trackingVendor.vendorName} tracking on ${deliveredEvent.eventTime.toLocaleString('en-GB')}${deliveredEvent.location ? ` at ${deliveredEvent.location}` : ''}`,
+    });
+    return { newEvents, delivered: true };
+  } catch (error) {
+    // The courier was moved on by someone else since it was loaded
+    if (error instanceof InvalidStatusTransitionError) {
+      return { newEvents, delivered: false };
+    }
+    throw error;
+  }
+}
+
+let pollInProgress = false;
+
+/**
+ * Poll carrier tracking for every in-transit courier whose vendor has an adapter configured.
+ */
+export async function pollCarrierTracking(): Promise<void> {
+  if (pollInProgress) return;
+  pollInProgress = true;
+
+  try {
+    const pendingCouriers = await storage.getCouriersForTrackingPoll();
+    const vendorCache = new Map<string, Vendor | undefined>();
+    let deliveredCount = 0;
+
+    for (const courier of pendingCouriers) {
+      const vendorName = (courier.vendor === 'Others' ? courier.customVendor : courier.vendor)?.trim().toLowerCase() || '';
+      if (!vendorCache.has(vendorName)) {
+        vendorCache.set(vendorName, await getCourierTrackingVendor(courier));
+      }
+
+      const vendor = vendorCache.get(vendorName);
+      if (!vendor || vendor.trackingAdapter === 'none') continue;
+
+      try {
+        const result = await refreshCourierTracking(courier, vendor);
+        if (result.delivered) deliveredCount++;
+      } catch (error) {
+        console.error(`Failed to poll tracking for courier ${courier.id}:`, error);
+      }
+    }
+
+    if (deliveredCount > 0) {
+      console.log(`Carrier tracking marked ${deliveredCount} courier(s) as delivered`);
+    }
+  } catch (error) {
+    console.error('Error polling carrier tracking:', error);
+  } finally {
+    pollInProgress = false;
+  }
+}
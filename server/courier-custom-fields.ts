@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { storage } from "./storage";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse the custom field values submitted with a courier and validate them against
+ * the fields configured for the courier's department.
+ *
+ * Values are keyed by field id. Multipart requests send them as a JSON string.
+ * Empty values are dropped, so clearing a field removes its stored value.
+ * Throws a ZodError when a value does not match its field type.
+ */
+export async function parseCourierCustomFieldValues(
+  departmentId: number | null | undefined,
+  raw: unknown
+): Promise<Array<{ fieldId: number; value: string }>> {
+  let input: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      input = raw.trim() ? JSON.parse(raw) : {};
+    } catch {
+      throw new z.ZodError([{ code: 'custom', path: ['customFieldValues'], message: 'Custom field values must be valid JSON' }]);
+    }
+  }
+
+  if (input === null || input === undefined) return [];
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new z.ZodError([{ code: 'custom', path: ['customFieldValues'], message: 'Custom field values must be an object keyed by field ID' }]);
+  }
+
+  // Normalise to trimmed strings and drop empty entries
+  const cleaned: Record<string, string> = {};
+  Object.entries(input as Record<string, unknown>).forEach(([fieldId, value]) => {
+    if (value === null || value === undefined) return;
+    const text = String(value).trim();
+    if (text) cleaned[fieldId] = text;
+  });
+
+  if (Object.keys(cleaned).length === 0) return [];
+
+  const departmentFields = departmentId ? await storage.getDepartmentFields(departmentId) : [];
+
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const field of departmentFields) {
+    const label = field.name || `Field ${field.id}`;
+    let schema: z.ZodTypeAny;
+
+    switch (field.type) {
+      case 'calendar':
+        schema = z.string()
+          .regex(DATE_PATTERN, `${label} must be a date in YYYY-MM-DD format`)
+          .refine(value => !isNaN(new Date(`${value}T00:00:00`).getTime()), `${label} must be a valid date`);
+        break;
+      case 'dropdown': {
+        const options = await storage.getFieldDropdownOptions(field.id);
+        const allowed = options
+          .filter(option => !option.departmentId || option.departmentId === departmentId)
+          .map(option => option.optionValue as string);
+        schema = z.string().refine(value => allowed.includes(value), `${label} must be one of the configured options`);
+        break;
+      }
+      default:
+        schema = z.string().max(1000, `${label} must be less than 1000 characters`);
+    }
+
+    shape[String(field.id)] = schema.optional();
+  }
+
+  const parsed = z.object(shape).strict("Field is not configured for this department").parse(cleaned, { path: ['customFieldValues'] });
+
+  return Object.entries(parsed)
+    .filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    .map(([fieldId, value]) => ({ fieldId: parseInt(fieldId), value }));
+}
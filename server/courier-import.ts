@@ -0,0 +1,417 @@
+import fs from "fs";
+import path from "path";
+import Papa from "papaparse";
+import { z } from "zod";
+import { storage } from "./storage";
+import {
+  insertCourierSchema,
+  insertReceivedCourierSchema,
+  type Branch,
+  type InsertCourier,
+  type InsertReceivedCourier,
+  type Vendor,
+} from "@shared/schema";
+
+export type CourierImportKind = 'courier' | 'received_courier';
+
+export const MAX_IMPORT_ROWS = 2000;
+
+interface ImportColumn {
+  field: string;
+  label: string;
+  required?: boolean;
+  aliases: string[];
+}
+
+// Columns accepted in the import file. Headers are matched case-insensitively,
+// ignoring spaces and punctuation, against the field name, label and aliases.
+export const IMPORT_COLUMNS: Record<CourierImportKind, ImportColumn[]> = {
+  courier: [
+    { field: 'toBranch', label: 'To Branch', required: true, aliases: ['branch', 'branchCode', 'branchName', 'destination'] },
+    { field: 'courierDate', label: 'Courier Date', required: true, aliases: ['date', 'sentDate', 'dispatchDate'] },
+    { field: 'vendor', label: 'Vendor', required: true, aliases: ['courierVendor', 'courierCompany'] },
+    { field: 'customVendor', label: 'Custom Vendor', aliases: ['otherVendor'] },
+    { field: 'podNo', label: 'POD No', aliases: ['pod', 'podNumber', 'awb', 'awbNo'] },
+    { field: 'receiverName', label: 'Receiver Name', aliases: ['receiver', 'toName'] },
+    { field: 'email', label: 'Email', aliases: ['receiverEmail', 'emailId'] },
+    { field: 'ccEmails', label: 'CC Emails', aliases: ['cc'] },
+    { field: 'contactDetails', label: 'Contact Details', aliases: ['contact', 'mobile', 'phone'] },
+    { field: 'details', label: 'Details', aliases: ['description', 'contents'] },
+    { field: 'remarks', label: 'Remarks', aliases: ['notes'] },
+    { field: 'department', label: 'Department', aliases: ['departmentName'] },
+  ],
+  received_courier: [
+    { field: 'podNumber', label: 'POD Number', required: true, aliases: ['pod', 'podNo', 'awb', 'awbNo'] },
+    { field: 'receivedDate', label: 'Received Date', required: true, aliases: ['date'] },
+    { field: 'fromLocation', label: 'From Location', required: true, aliases: ['from', 'fromBranch', 'sender'] },
+    { field: 'toUser', label: 'To User', aliases: ['to', 'addressee'] },
+    { field: 'courierVendor', label: 'Vendor', required: true, aliases: ['vendor', 'courierCompany'] },
+    { field: 'customVendor', label: 'Custom Vendor', aliases: ['otherVendor'] },
+    { field: 'receiverName', label: 'Receiver Name', aliases: ['receiver'] },
+    { field: 'emailId', label: 'Email', aliases: ['email', 'receiverEmail'] },
+    { field: 'ccEmails', label: 'CC Emails', aliases: ['cc'] },
+    { field: 'customDepartment', label: 'Custom Department', aliases: [] },
+    { field: 'remarks', label: 'Remarks', aliases: ['notes'] },
+    { field: 'department', label: 'Department', aliases: ['departmentName'] },
+  ],
+};
+
+export interface CourierImportRow {
+  row: number; // Spreadsheet row number; the header is row 1
+  errors: string[];
+  warnings: string[];
+  preview: Record<string, string | null>;
+}
+
+export interface CourierImportReport {
+  totalRows: number;
+  validCount: number;
+  errorCount: number;
+  rows: CourierImportRow[];
+}
+
+type ImportRecord<K extends CourierImportKind> = K extends 'courier' ? InsertCourier : InsertReceivedCourier;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function formatDateValue(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function cellToString(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  // Spreadsheet dates carry no time zone and are read as UTC midnight
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+  if (typeof value === 'object') {
+    const cell = value as { text?: unknown; result?: unknown; richText?: Array<{ text: string }>; hyperlink?: string };
+    if (cell.richText) return cell.richText.map(part => part.text).join('').trim();
+    if (cell.text !== undefined) return cellToString(cell.text);
+    if (cell.result !== undefined) return cellToString(cell.result);
+    if (cell.hyperlink) return cell.hyperlink.replace(/^mailto:/i, '');
+  }
+  return String(value).trim();
+}
+
+/**
+ * Read a CSV or XLSX upload into rows keyed by header. Only the first worksheet of a
+ * workbook is read. Throws a ZodError when the file cannot be parsed.
+ */
+export async function readImportFile(file: { path: string; originalname: string }): Promise<Record<string, string>[]> {
+  const extension = path.extname(file.originalname).toLowerCase();
+
+  if (extension === '.xlsx') {
+    const ExcelJS = (await import('exceljs')).default;
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(file.path);
+    const worksheet = workbook.worksheets[0];
+    if (!worksheet) return [];
+
+    const headers: string[] = [];
+    worksheet.getRow(1).eachCell({ includeEmpty: true }, (cell, column) => {
+      headers[column] = cellToString(cell.value);
+    });
+
+    const rows: Record<string, string>[] = [];
+    for (let rowNumber = 2; rowNumber <= worksheet.rowCount; rowNumber++) {
+      const row = worksheet.getRow(rowNumber);
+      const record: Record<string, string> = {};
+      headers.forEach((header, column) => {
+        if (header) record[header] = cellToString(row.getCell(column).value);
+      });
+      rows.push(record);
+    }
+
+    // Formatted but empty rows at the end of a sheet still count towards rowCount
+    while (rows.length > 0 && Object.values(rows[rows.length - 1]).every(value => value === '')) {
+      rows.pop();
+    }
+    return rows;
+  }
+
+  const content = fs.readFileSync(file.path, 'utf-8').replace(/^\uFEFF/, '');
+  const parsed = Papa.parse<Record<string, string>>(content, {
+    header: true,
+    skipEmptyLines: 'greedy',
+    transformHeader: (header: string) => header.trim(),
+  });
+
+  if (parsed.errors.length > 0) {
+    throw new z.ZodError(parsed.errors.slice(0, 10).map(error => ({
+      code: 'custom' as const,
+      path: ['file', error.row ?? 0],
+      message: error.message,
+    })));
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Parse a date cell as YYYY-MM-DD, DD-MM-YYYY or DD/MM/YYYY.
+ */
+export function parseImportDate(value: string): string | null {
+  let match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value);
+  const [year, month, day] = match
+    ? [match[1], match[2], match[3]]
+    : (match = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/.exec(value)) ? [match[3], match[2], match[1]] : [];
+  if (!year) return null;
+
+  const date = new Date(Number(year), Number(month) - 1, Number(day));
+  if (date.getFullYear() !== Number(year) || date.getMonth() !== Number(month) - 1 || date.getDate() !== Number(day)) {
+    return null;
+  }
+  return formatDateValue(date);
+}
+
+function mapRowColumns(kind: CourierImportKind, row: Record<string, string>): Record<string, string> {
+  const lookup = new Map<string, string>();
+  for (const column of IMPORT_COLUMNS[kind]) {
+    [column.field, column.label, ...column.aliases].forEach(name => lookup.set(normalizeHeader(name), column.field));
+  }
+
+  const mapped: Record<string, string> = {};
+  Object.entries(row).forEach(([header, value]) => {
+    const field = lookup.get(normalizeHeader(header));
+    const text = (value ?? '').toString().trim();
+    if (field && text && !mapped[field]) mapped[field] = text;
+  });
+  return mapped;
+}
+
+function findBranch(value: string, branchList: Branch[]): Branch | undefined {
+  const key = value.trim().toLowerCase();
+  return branchList.find(branch => branch.branchCode.toLowerCase() === key)
+    ?? branchList.find(branch => branch.branchName.toLowerCase() === key);
+}
+
+function resolveVendor(value: string, customVendor: string | undefined, vendorList: Vendor[], errors: string[]): { vendor: string; customVendor: string | null } | null {
+  if (value.toLowerCase() === 'others') {
+    if (!customVendor) {
+      errors.push('Custom Vendor is required when Vendor is "Others"');
+      return null;
+    }
+    return { vendor: 'Others', customVendor };
+  }
+
+  const vendor = vendorList.find(v => v.vendorName.trim().toLowerCase() === value.toLowerCase());
+  if (!vendor) {
+    errors.push(`Vendor "${value}" is not in the vendor master; use "Others" with a Custom Vendor instead`);
+    return null;
+  }
+  if (!vendor.isActive) {
+    errors.push(`Vendor "${vendor.vendorName}" is inactive`);
+    return null;
+  }
+  return { vendor: vendor.vendorName, customVendor: null };
+}
+
+function checkEmails(label: string, value: string | undefined, errors: string[]) {
+  if (!value) return;
+  const invalid = value.split(',').map(email => email.trim()).filter(email => email && !EMAIL_PATTERN.test(email));
+  if (invalid.length > 0) {
+    errors.push(`${label} has invalid address(es): ${invalid.join(', ')}`);
+  }
+}
+
+/**
+ * Validate import rows and build the records to insert. Every row is checked so the
+ * report lists all problems at once; records are only usable when errorCount is 0.
+ */
+export async function validateCourierImport<K extends CourierImportKind>(
+  kind: K,
+  rows: Record<string, string>[],
+  user: { id: string; role: string; departmentId?: number | null }
+): Promise<{ report: CourierImportReport; records: ImportRecord<K>[] }> {
+  const [{ branches: branchList }, { vendors: vendorList }, departmentList] = await Promise.all([
+    storage.getAllBranches(),
+    storage.getAllVendors(),
+    storage.getAllDepartments(),
+  ]);
+
+  const podField = kind === 'courier' ? 'podNo' : 'podNumber';
+  const podNumbers = rows.map(row => mapRowColumns(kind, row)[podField]).filter(Boolean);
+  const existingPods = new Set((await storage.findExistingPodNumbers(kind, podNumbers)).map(pod => pod.toLowerCase()));
+  const seenPods = new Map<string, number>();
+
+  const canChooseDepartment = user.role === 'admin' || user.role === 'sub_admin';
+
+  const reportRows: CourierImportRow[] = [];
+  const records: ImportRecord<K>[] = [];
+
+  rows.forEach((raw, index) => {
+    const rowNumber = index + 2;
+    const values = mapRowColumns(kind, raw);
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    for (const column of IMPORT_COLUMNS[kind]) {
+      if (column.required && !values[column.field]) {
+        errors.push(`${column.label} is required`);
+      }
+    }
+
+    let departmentId = user.departmentId ?? null;
+    if (values.department) {
+      const department = departmentList.find(d => d.name.trim().toLowerCase() === values.department.toLowerCase());
+      if (!canChooseDepartment) {
+        warnings.push('Department column ignored; couriers are added to your own department');
+      } else if (!department) {
+        errors.push(`Department "${values.department}" not found`);
+      } else {
+        departmentId = department.id;
+      }
+    }
+
+    const pod = values[podField];
+    if (pod) {
+      const key = pod.toLowerCase();
+      if (seenPods.has(key)) {
+        warnings.push(`POD number also appears on row ${seenPods.get(key)}`);
+      } else {
+        seenPods.set(key, rowNumber);
+      }
+      if (existingPods.has(key)) {
+        warnings.push('A courier with this POD number already exists');
+      }
+    }
+
+    let record: Record<string, unknown> | null = null;
+
+    if (kind === 'courier') {
+      const branch = values.toBranch ? findBranch(values.toBranch, branchList) : undefined;
+      if (values.toBranch && !branch) {
+        errors.push(`Branch "${values.toBranch}" not found by branch code or name`);
+      } else if (branch?.status === 'closed') {
+        warnings.push(`Branch "${branch.branchName}" is closed`);
+      }
+
+      const courierDate = values.courierDate ? parseImportDate(values.courierDate) : null;
+      if (values.courierDate && !courierDate) errors.push(`Courier Date "${values.courierDate}" is not a valid date`);
+
+      const vendor = values.vendor ? resolveVendor(values.vendor, values.customVendor, vendorList, errors) : null;
+      checkEmails('Email', values.email, errors);
+      checkEmails('CC Emails', values.ccEmails, errors);
+
+      if (branch && vendor && courierDate) {
+        record = {
+          departmentId,
+          createdBy: user.id,
+          toBranch: branch.branchName,
+          email: values.email || null,
+          ccEmails: values.ccEmails || null,
+          courierDate,
+          vendor: vendor.vendor,
+          customVendor: vendor.customVendor,
+          podNo: values.podNo || null,
+          details: values.details || null,
+          contactDetails: values.contactDetails || null,
+          receiverName: values.receiverName || null,
+          remarks: values.remarks || null,
+          status: 'on_the_way',
+        };
+      }
+    } else {
+      // The sender may be a branch or an outside party, so an unmatched location is kept as entered
+      const fromBranch = values.fromLocation ? findBranch(values.fromLocation, branchList) : undefined;
+
+      const receivedDate = values.receivedDate ? parseImportDate(values.receivedDate) : null;
+      if (values.receivedDate && !receivedDate) errors.push(`Received Date "${values.receivedDate}" is not a valid date`);
+
+      const vendor = values.courierVendor ? resolveVendor(values.courierVendor, values.customVendor, vendorList, errors) : null;
+      checkEmails('Email', values.emailId, errors);
+      checkEmails('CC Emails', values.ccEmails, errors);
+
+      if (values.podNumber && values.fromLocation && vendor && receivedDate) {
+        record = {
+          departmentId,
+          createdBy: user.id,
+          podNumber: values.podNumber,
+          receivedDate,
+          fromLocation: fromBranch ? fromBranch.branchName : values.fromLocation,
+          toUser: values.toUser || null,
+          courierVendor: vendor.vendor,
+          customVendor: vendor.customVendor,
+          receiverName: values.receiverName || null,
+          emailId: values.emailId || null,
+          ccEmails: values.ccEmails || null,
+          customDepartment: values.customDepartment || null,
+          remarks: values.remarks || null,
+          sendEmailNotification: false,
+          status: 'received',
+        };
+      }
+    }
+
+    if (record && errors.length === 0) {
+      const schema = kind === 'courier' ? insertCourierSchema : insertReceivedCourierSchema;
+      const parsed = schema.safeParse(record);
+      if (parsed.success) {
+        records.push(parsed.data as ImportRecord<K>);
+      } else {
+        parsed.error.errors.forEach(error => errors.push(`${error.path.join('.')}: ${error.message}`));
+      }
+    }
+
+    reportRows.push({
+      row: rowNumber,
+      errors,
+      warnings,
+      preview: kind === 'courier'
+        ? { pod: values.podNo || null, branch: values.toBranch || null, vendor: values.vendor || null, date: values.courierDate || null, receiver: values.receiverName || null }
+        : { pod: values.podNumber || null, branch: values.fromLocation || null, vendor: values.courierVendor || null, date: values.receivedDate || null, receiver: values.receiverName || values.toUser || null },
+    });
+  });
+
+  const errorCount = reportRows.filter(row => row.errors.length > 0).length;
+  return {
+    report: {
+      totalRows: rows.length,
+      validCount: rows.length - errorCount,
+      errorCount,
+      rows: reportRows,
+    },
+    records,
+  };
+}
+
+/**
+ * Sample CSV with the accepted headers and one example row.
+ */
+export function getImportTemplateCsv(kind: CourierImportKind): string {
+  const sample: Record<CourierImportKind, Record<string, string>> = {
+    courier: {
+      'To Branch': 'BR001',
+      'Courier Date': '15-01-2024',
+      'Vendor': 'Blue Dart',
+      'Custom Vendor': '',
+      'POD No': 'POD123456',
+      'Receiver Name': 'Priya Sharma',
+      'Email': 'priya.sharma@example.com',
+      'CC Emails': '',
+      'Contact Details': '9876543210',
+      'Details': 'Signed agreement documents',
+      'Remarks': '',
+      'Department': '',
+    },
+    received_courier: {
+      'POD Number': 'POD654321',
+      'Received Date': '15-01-2024',
+      'From Location': 'BR002',
+      'To User': 'Rahul Verma',
+      'Vendor': 'Others',
+      'Custom Vendor': 'Local Courier',
+      'Receiver Name': 'Front Desk',
+      'Email': 'rahul.verma@example.com',
+      'CC Emails': '',
+      'Custom Department': '',
+      'Remarks': '',
+      'Department': '',
+    },
+  };
+
+  return Papa.unparse([sample[kind]], { header: true });
+}
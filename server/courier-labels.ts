@@ -0,0 +1,137 @@
+import crypto from "crypto";
+import QRCode from "qrcode";
+import { PDFGenerator } from "./pdf-generator";
+import type { Branch, Courier, Department } from "@shared/schema";
+
+// Never sign labels with a guessable secret. Without COURIER_LABEL_SECRET the key is derived from
+// JWT_SECRET under its own context, so label signatures can't stand in for anything auth signs.
+// Development falls back to a random per-process secret; printed labels then stop scanning on restart.
+const LABEL_SECRET = process.env.COURIER_LABEL_SECRET || (() => {
+  if (process.env.JWT_SECRET) {
+    return crypto.createHmac('sha256', process.env.JWT_SECRET).update('courier-label-signing').digest('hex');
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('COURIER_LABEL_SECRET or JWT_SECRET environment variable must be set in production');
+  }
+  console.warn('COURIER_LABEL_SECRET is not set; using a random secret for this process');
+  return crypto.randomBytes(32).toString('hex');
+})();
+
+// Signed references look like "CRR1.<courierId>.<signature>" so a scanned code
+// cannot be edited to point at another courier.
+const REFERENCE_PREFIX = 'CRR1';
+const REFERENCE_PATTERN = /CRR1\.(\d+)\.([A-Za-z0-9_-]{22})/;
+
+function signCourierId(courierId: number): string {
+  return crypto.createHmac('sha256', LABEL_SECRET)
+    .update(`${REFERENCE_PREFIX}.${courierId}`)
+    .digest('base64url')
+    .slice(0, 22);
+}
+
+export function createCourierReference(courierId: number): string {
+  return `${REFERENCE_PREFIX}.${courierId}.${signCourierId(courierId)}`;
+}
+
+/**
+ * Find and verify a courier reference in scanned or pasted text. The whole QR
+ * payload can be passed; the branch address lines around the reference are ignored.
+ * Returns the courier ID, or null when there is no valid reference.
+ */
+export function parseCourierReference(text: string): number | null {
+  const match = REFERENCE_PATTERN.exec(text || '');
+  if (!match) return null;
+
+  const courierId = parseInt(match[1]);
+  const expected = Buffer.from(signCourierId(courierId));
+  const actual = Buffer.from(match[2]);
+  return crypto.timingSafeEqual(expected, actual) ? courierId : null;
+}
+
+export function formatBranchAddress(branch: Branch): string {
+  return [branch.branchAddress, branch.state, branch.pincode].filter(Boolean).join(', ');
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const LABEL_TEMPLATE = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8" />
+<style>
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: Arial, Helvetica, sans-serif; color: #111827; }
+  .label { width: 100mm; height: 150mm; padding: 6mm; display: flex; flex-direction: column; border: 1px dashed #9ca3af; }
+  .header { font-size: 13pt; font-weight: bold; border-bottom: 2px solid #111827; padding-bottom: 2mm; margin-bottom: 3mm; }
+  .section { margin-bottom: 3mm; }
+  .caption { font-size: 7pt; text-transform: uppercase; color: #6b7280; letter-spacing: 0.5px; }
+  .value { font-size: 10pt; }
+  .large { font-size: 14pt; font-weight: bold; }
+  .qr { text-align: center; margin-top: auto; }
+  .qr img { width: 48mm; height: 48mm; }
+  .reference { font-family: monospace; font-size: 7pt; word-break: break-all; }
+</style>
+</head>
+<body>
+  <div class="label">
+    <div class="header">COURIER DISPATCH SLIP</div>
+    <div class="section">
+      <div class="caption">To</div>
+      <div class="large">##receiver##</div>
+      <div class="value">##branch##</div>
+      <div class="value">##address##</div>
+    </div>
+    <div class="section">
+      <div class="caption">From</div>
+      <div class="value">##department##</div>
+    </div>
+    <div class="section">
+      <div class="caption">POD No. / Vendor</div>
+      <div class="value">##pod_no## · ##vendor##</div>
+    </div>
+    <div class="section">
+      <div class="caption">Courier Date</div>
+      <div class="value">##courier_date##</div>
+    </div>
+    <div class="qr">
+      <img src="##qr_code##" alt="Courier QR code" />
+      <div class="reference">##reference##</div>
+    </div>
+  </div>
+</body>
+</html>`;
+
+/**
+ * Render a 100 x 150 mm dispatch label for a sent courier. The QR code carries the
+ * signed courier reference followed by the destination branch and its address.
+ */
+export async function generateCourierLabel(courier: Courier & { department?: Department }, branch?: Branch): Promise<Buffer> {
+  const reference = createCourierReference(courier.id);
+  const address = branch ? formatBranchAddress(branch) : '';
+  const qrPayload = [reference, branch?.branchName || courier.toBranch, address].filter(Boolean).join('\n');
+  const qrCode = await QRCode.toDataURL(qrPayload, { errorCorrectionLevel: 'M', margin: 1, width: 400 });
+
+  const vendor = courier.vendor === 'Others' && courier.customVendor ? courier.customVendor : courier.vendor;
+
+  return await PDFGenerator.generatePDF({
+    templateContent: LABEL_TEMPLATE,
+    fieldValues: {
+      receiver: escapeHtml(courier.receiverName || courier.toBranch || 'N/A'),
+      branch: escapeHtml(branch ? `${branch.branchName} (${branch.branchCode})` : courier.toBranch || ''),
+      address: escapeHtml(address),
+      department: escapeHtml(courier.department?.name || 'N/A'),
+      pod_no: escapeHtml(courier.podNo || 'N/A'),
+      vendor: escapeHtml(vendor || 'N/A'),
+      courier_date: escapeHtml(courier.courierDate ? new Date(courier.courierDate).toLocaleDateString('en-GB') : 'N/A'),
+      qr_code: qrCode,
+      reference,
+    },
+    page: { width: '100mm', height: '150mm' },
+  });
+}
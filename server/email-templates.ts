@@ -0,0 +1,805 @@
+import type { EmailEventKey } from "@shared/email-events";
+
+// Built-in email templates. Admins can override the subject and body per event;
+// these are used whenever no override is saved.
+
+export interface EmailTemplateContent {
+  subject: string;
+  html: string;
+}
+
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailEventKey, EmailTemplateContent> = {
+  courier_dispatch: {
+    subject: 'Courier Dispatch Notification - Courier Management System',
+    html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width" />
+  <title>Courier Sent</title>
+</head>
+<body style="margin:0;padding:0;background:#f4f6f8;">
+  <table role="presentation" cellpadding="0" cellspacing="0" width="100%" style="background:#f4f6f8;">
+    <tr>
+      <td align="center" style="padding:24px 12px;">
+        <table role="presentation" cellpadding="0" cellspacing="0" width="600" style="max-width:600px;background:#ffffff;border-radius:12px;overflow:hidden;font-family:Segoe UI,Arial,Helvetica,sans-serif;">
+
+          <!-- Header -->
+          <tr>
+            <td style="background:#0b5fff;color:#fff;padding:18px 24px;font-size:18px;font-weight:600;">
+              {{department.name|N/A}} • Courier Sent
+            </td>
+          </tr>
+
+          <!-- Intro -->
+          <tr>
+            <td style="padding:20px 24px;color:#111827;font-size:14px;line-height:1.5;">
+              {{greeting}},<br><br>
+              This is to notify you that a courier has been 
+              <strong>sent to you from {{vendorName|N/A}} courier services</strong>.
+              {{#vendorContactInfo}}<br><br>{{vendorContactInfo}}{{/vendorContactInfo}}
+            </td>
+          </tr>
+
+          <!-- Details Table -->
+          <tr>
+            <td style="padding:0 24px 12px;">
+              <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border:1px solid #e5e7eb;border-radius:10px;">
+                <tr>
+                  <td style="padding:12px 16px;background:#f9fafb;font-weight:600;font-size:13px;">
+                    Courier Details
+                  </td>
+                </tr>
+                <tr>
+                  <td style="padding:12px 16px;">
+                    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="font-size:13px;color:#374151;">
+                      <tr>
+                        <td style="padding:6px 0;width:180px;">Courier ID</td>
+                        <td style="padding:6px 0;"><strong>{{podNo|N/A}}</strong></td>
+                      </tr>
+                      <tr>
+                        <td style="padding:6px 0;">From</td>
+                        <td style="padding:6px 0;"><strong>{{sender.name}}</strong></td>
+                      </tr>
+                      <tr>
+                        <td style="padding:6px 0;">To</td>
+                        <td style="padding:6px 0;"><strong>{{toBranch|N/A}}</strong></td>
+                      </tr>
+                      <tr>
+                        <td style="padding:6px 0;">Contact Details</td>
+                        <td style="padding:6px 0;"><strong>{{contactDetails|N/A}}</strong></td>
+                      </tr>
+                      <tr>
+                        <td style="padding:6px 0;">Related Department</td>
+                        <td style="padding:6px 0;"><strong>{{department.name|N/A}}</strong></td>
+                      </tr>
+                      <tr>
+                        <td style="padding:6px 0;">Sent Date</td>
+                        <td style="padding:6px 0;"><strong>{{courierDate|N/A}}</strong></td>
+                      </tr>
+                      <tr>
+                        <td style="padding:6px 0;">Remarks</td>
+                        <td style="padding:6px 0;"><strong>{{remarks|N/A}}</strong></td>
+                      </tr>
+                      <tr>
+                        <td style="padding:6px 0;">Status</td>
+                        <td style="padding:6px 0;">
+                          <span style="display:inline-block;padding:2px 8px;border-radius:999px;background:#eef2ff;color:#1f3bb3;font-weight:600;">Sent</span>
+                        </td>
+                      </tr>
+                    </table>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+
+          <!-- Received Button -->
+          <tr>
+            <td style="padding:20px 24px;text-align:center;">
+              <a href="{{confirmUrl}}" 
+                 style="display:inline-block;background:#16a34a;color:#fff;padding:12px 32px;text-decoration:none;border-radius:8px;font-weight:600;font-size:16px;">
+                ✅ Click Here to Confirm Received
+              </a>
+              <br><br>
+              <p style="color:#6b7280;font-size:12px;margin:0;">
+                Click the button above when you have received the courier to update the status automatically.
+              </p>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding:14px 24px;color:#6b7280;font-size:12px;border-top:1px solid #e5e7eb;">
+              For discrepancies, please update the record or contact the Courier Desk. <br><br>
+              Thanks And Regards,<br>
+              {{sender.name}}<br>
+              {{department.name|N/A}}<br><br>
+              © {{year}} Courier Management System
+            </td>
+          </tr>
+
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`,
+  },
+  courier_received_confirmation: {
+    subject: 'Courier Received Confirmation - Courier Management System',
+    html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width" />
+  <title>Courier Received Confirmation</title>
+</head>
+<body style="margin:0;padding:0;background:#f4f6f8;">
+  <table role="presentation" cellpadding="0" cellspacing="0" width="100%" style="background:#f4f6f8;">
+    <tr>
+      <td align="center" style="padding:24px 12px;">
+        <table role="presentation" cellpadding="0" cellspacing="0" width="600" style="max-width:600px;background:#ffffff;border-radius:12px;overflow:hidden;font-family:Segoe UI,Arial,Helvetica,sans-serif;">
+
+          <!-- Header -->
+          <tr>
+            <td style="background:#16a34a;color:#fff;padding:18px 24px;font-size:18px;font-weight:600;">
+              ✅ Courier Received Successfully
+            </td>
+          </tr>
+
+          <!-- Intro -->
+          <tr>
+            <td style="padding:20px 24px;color:#111827;font-size:14px;line-height:1.5;">
+              This is to confirm that the courier has been <strong>successfully received</strong> and acknowledged by the recipient.
+            </td>
+          </tr>
+
+          <!-- Details Table -->
+          <tr>
+            <td style="padding:0 24px 12px;">
+              <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border:1px solid #e5e7eb;border-radius:10px;">
+                <tr>
+                  <td style="padding:12px 16px;background:#f9fafb;font-weight:600;font-size:13px;">
+                    Confirmation Details
+                  </td>
+                </tr>
+                <tr>
+                  <td style="padding:12px 16px;">
+                    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="font-size:13px;color:#374151;">
+                      <tr>
+                        <td style="padding:4px 0;font-weight:600;">POD Number:</td>
+                        <td style="padding:4px 0;">{{podNo}}</td>
+                      </tr>
+                      <tr>
+                        <td style="padding:4px 0;font-weight:600;">To Branch:</td>
+                        <td style="padding:4px 0;">{{toBranch}}</td>
+                      </tr>
+                      <tr>
+                        <td style="padding:4px 0;font-weight:600;">Courier Vendor:</td>
+                        <td style="padding:4px 0;">{{vendorName}}</td>
+                      </tr>
+                      <tr>
+                        <td style="padding:4px 0;font-weight:600;">Courier Date:</td>
+                        <td style="padding:4px 0;">{{courierDate|N/A}}</td>
+                      </tr>
+                      <tr>
+                        <td style="padding:4px 0;font-weight:600;">Status:</td>
+                        <td style="padding:4px 0;"><span style="background:#dcfce7;color:#166534;padding:2px 8px;border-radius:4px;font-size:12px;">RECEIVED</span></td>
+                      </tr>
+                      <tr>
+                        <td style="padding:4px 0;font-weight:600;">Confirmed At:</td>
+                        <td style="padding:4px 0;">{{confirmedAt}}</td>
+                      </tr>
+                    </table>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+
+          <!-- Note -->
+          <tr>
+            <td style="padding:20px 24px;color:#111827;font-size:14px;line-height:1.5;">
+              <em>This confirmation was generated automatically when the recipient clicked the confirmation link. The courier status has been updated in the system.</em>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding:20px 24px;color:#6b7280;font-size:12px;border-top:1px solid #e5e7eb;">
+              This is an automated confirmation from the Courier Management System.<br>
+              For any queries, please contact the courier desk.
+            </td>
+          </tr>
+
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`,
+  },
+  courier_reminder: {
+    subject: 'Courier Status Reminder - {{hoursOverdue|24}} Hours Overdue',
+    html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width" />
+  <title>Courier Status Reminder</title>
+</head>
+<body style="margin:0;padding:0;background:#f4f6f8;">
+  <table role="presentation" cellpadding="0" cellspacing="0" width="100%" style="background:#f4f6f8;">
+    <tr>
+      <td align="center" style="padding:24px 12px;">
+        <table role="presentation" cellpadding="0" cellspacing="0" width="600" style="max-width:600px;background:#ffffff;border-radius:12px;overflow:hidden;font-family:Segoe UI,Arial,Helvetica,sans-serif;">
+          <tr>
+            <td style="background:#dc2626;color:#fff;padding:18px 24px;font-size:18px;font-weight:600;">
+              Courier Management System • Status Update Reminder
+            </td>
+          </tr>
+          <tr>
+            <td style="padding:20px 24px;color:#111827;font-size:14px;line-height:1.5;">
+              Dear {{receiverName|Team}},<br><br>
+              This is a reminder that a courier sent to you <strong>{{hoursOverdue|24}} hours ago</strong> has not been marked as delivered yet.
+              <br><br>
+              <strong>Courier Details:</strong><br>
+              POD Number: {{podNo}}<br>
+              Sent Date: {{courierDate}}<br>
+              From: {{department.name|N/A}}<br>
+              Details: {{details}}<br>
+              <br>
+              Please confirm receipt or contact us if there are any issues with the delivery.
+              <br><br>
+              Thank you for your cooperation.
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`,
+  },
+  courier_escalation: {
+    subject: 'Courier Escalation - POD {{podNo}} Undelivered for {{hoursOverdue}} Hours',
+    html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width" />
+  <title>Courier Escalation</title>
+</head>
+<body style="margin:0;padding:0;background:#f4f6f8;">
+  <table role="presentation" cellpadding="0" cellspacing="0" width="100%" style="background:#f4f6f8;">
+    <tr>
+      <td align="center" style="padding:24px 12px;">
+        <table role="presentation" cellpadding="0" cellspacing="0" width="600" style="max-width:600px;background:#ffffff;border-radius:12px;overflow:hidden;font-family:Segoe UI,Arial,Helvetica,sans-serif;">
+          <tr>
+            <td style="background:#dc2626;color:#fff;padding:18px 24px;font-size:18px;font-weight:600;">
+              Courier Management System • Escalation
+            </td>
+          </tr>
+          <tr>
+            <td style="padding:20px 24px;color:#111827;font-size:14px;line-height:1.5;">
+              Dear Manager,<br><br>
+              A courier sent by {{department.name|your department}} <strong>{{hoursOverdue}} hours ago</strong> has still not been confirmed as delivered and has been escalated to you (escalation level {{escalationLevel}}).
+              <br><br>
+              <strong>Courier Details:</strong><br>
+              POD Number: {{podNo}}<br>
+              Sent Date: {{courierDate}}<br>
+              To: {{receiverName|N/A}} ({{toBranch|N/A}})<br>
+              Receiver Email: {{email|N/A}}<br>
+              Vendor: {{vendorName|N/A}}<br>
+              Sent By: {{sender.name|N/A}} {{#sender.email}}({{sender.email}}){{/sender.email}}<br>
+              Details: {{details}}<br>
+              <br>
+              Please follow up with the receiver and the courier vendor.
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`,
+  },
+  received_courier_notification: {
+    subject: 'Courier Received Notification - Courier Management System',
+    html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width" />
+  <title>Courier Received</title>
+</head>
+<body style="margin:0;padding:0;background:#f4f6f8;">
+  <table role="presentation" cellpadding="0" cellspacing="0" width="100%" style="background:#f4f6f8;">
+    <tr>
+      <td align="center" style="padding:24px 12px;">
+        <table role="presentation" cellpadding="0" cellspacing="0" width="600" style="max-width:600px;background:#ffffff;border-radius:12px;overflow:hidden;font-family:Segoe UI,Arial,Helvetica,sans-serif;">
+
+          <!-- Header -->
+          <tr>
+            <td style="background:#16a34a;color:#fff;padding:18px 24px;font-size:18px;font-weight:600;">
+              Courier Management System • Courier Received
+            </td>
+          </tr>
+
+          <!-- Intro -->
+          <tr>
+            <td style="padding:20px 24px;color:#111827;font-size:14px;line-height:1.5;">
+              Dear {{receiverName|Team}},<br><br>
+              This is to notify you that a courier has been 
+              <strong>received from {{fromLocation|N/A}} via {{vendorName|N/A}} courier services</strong>.
+            </td>
+          </tr>
+
+          <!-- Details Table -->
+          <tr>
+            <td style="padding:0 24px 12px;">
+              <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border:1px solid #e5e7eb;border-radius:10px;">
+                <tr>
+                  <td style="padding:12px 16px;background:#f9fafb;font-weight:600;font-size:13px;">
+                    Courier Details
+                  </td>
+                </tr>
+                <tr>
+                  <td style="padding:12px 16px;">
+                    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="font-size:13px;color:#374151;">
+                      <tr>
+                        <td style="padding:6px 0;width:180px;">POD Number</td>
+                        <td style="padding:6px 0;"><strong>{{podNo|N/A}}</strong></td>
+                      </tr>
+                      <tr>
+                        <td style="padding:6px 0;">From Location</td>
+                        <td style="padding:6px 0;"><strong>{{fromLocation|N/A}}</strong></td>
+                      </tr>
+                      <tr>
+                        <td style="padding:6px 0;">Courier Vendor</td>
+                        <td style="padding:6px 0;"><strong>{{vendorName|N/A}}</strong></td>
+                      </tr>
+                      <tr>
+                        <td style="padding:6px 0;">Receiver Name</td>
+                        <td style="padding:6px 0;"><strong>{{receiverName|N/A}}</strong></td>
+                      </tr>
+                      <tr>
+                        <td style="padding:6px 0;">Received Date</td>
+                        <td style="padding:6px 0;"><strong>{{receivedDate|N/A}}</strong></td>
+                      </tr>
+                      <tr>
+                        <td style="padding:6px 0;">Remarks</td>
+                        <td style="padding:6px 0;"><strong>{{remarks|N/A}}</strong></td>
+                      </tr>
+                      <tr>
+                        <td style="padding:6px 0;">Status</td>
+                        <td style="padding:6px 0;">
+                          <span style="display:inline-block;padding:2px 8px;border-radius:999px;background:#dcfce7;color:#166534;font-weight:600;">Received</span>
+                        </td>
+                      </tr>
+                    </table>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+
+          <!-- Action Note -->
+          <tr>
+            <td style="padding:20px 24px;color:#111827;font-size:14px;line-height:1.5;">
+              <em>Please collect the courier from your designated department at your earliest convenience.</em>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding:14px 24px;color:#6b7280;font-size:12px;border-top:1px solid #e5e7eb;">
+              For any discrepancies or questions, please contact the Courier Desk immediately. <br><br>
+              © {{year}} Courier Management System
+            </td>
+          </tr>
+
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`,
+  },
+  received_courier_dispatch: {
+    subject: 'Courier Dispatched - Courier Management System',
+    html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width" />
+  <title>Courier Dispatched</title>
+</head>
+<body style="margin:0;padding:0;background:#f4f6f8;">
+  <table role="presentation" cellpadding="0" cellspacing="0" width="100%" style="background:#f4f6f8;">
+    <tr>
+      <td align="center" style="padding:24px 12px;">
+        <table role="presentation" cellpadding="0" cellspacing="0" width="600" style="max-width:600px;background:#ffffff;border-radius:12px;overflow:hidden;font-family:Segoe UI,Arial,Helvetica,sans-serif;">
+
+          <!-- Header -->
+          <tr>
+            <td style="background:#16a34a;color:#fff;padding:18px 24px;font-size:18px;font-weight:600;">
+              Courier Dispatched ✅
+            </td>
+          </tr>
+
+          <!-- Intro -->
+          <tr>
+            <td style="padding:20px 24px;color:#111827;font-size:14px;line-height:1.5;">
+              Dear {{receiverName|Team}},<br><br>
+              This is to notify you that the courier with POD Number <strong>{{podNo}}</strong> 
+              has been <strong>dispatched back</strong> from our office.
+            </td>
+          </tr>
+
+          <!-- Details Table -->
+          <tr>
+            <td style="padding:0 24px 12px;">
+              <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border:1px solid #e5e7eb;border-radius:10px;">
+                <tr>
+                  <td style="padding:12px 16px;background:#f9fafb;font-weight:600;font-size:13px;">
+                    Dispatch Details
+                  </td>
+                </tr>
+                <tr>
+                  <td style="padding:12px 16px;">
+                    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="font-size:13px;color:#374151;">
+                      <tr>
+                        <td style="padding:4px 0;font-weight:600;">POD Number:</td>
+                        <td style="padding:4px 0;">{{podNo}}</td>
+                      </tr>
+                      <tr>
+                        <td style="padding:4px 0;font-weight:600;">Received Date:</td>
+                        <td style="padding:4px 0;">{{receivedDate|N/A}}</td>
+                      </tr>
+                      <tr>
+                        <td style="padding:4px 0;font-weight:600;">From Location:</td>
+                        <td style="padding:4px 0;">{{fromLocation}}</td>
+                      </tr>
+                      <tr>
+                        <td style="padding:4px 0;font-weight:600;">Courier Vendor:</td>
+                        <td style="padding:4px 0;">{{vendorName}}</td>
+                      </tr>
+                      <tr>
+                        <td style="padding:4px 0;font-weight:600;">Status:</td>
+                        <td style="padding:4px 0;"><span style="background:#dcfce7;color:#166534;padding:2px 8px;border-radius:4px;font-size:12px;">DISPATCHED</span></td>
+                      </tr>
+                    </table>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+
+          <!-- Received Button -->
+          <tr>
+            <td style="padding:20px 24px;text-align:center;">
+              <a href="{{confirmUrl}}" 
+                 style="display:inline-block;background:#16a34a;color:#fff;padding:12px 32px;text-decoration:none;border-radius:8px;font-weight:600;font-size:16px;">
+                ✅ Click Here to Confirm Received
+              </a>
+              <br><br>
+              <p style="color:#6b7280;font-size:12px;margin:0;">
+                Click the button above when you have received the courier to update the status automatically.
+              </p>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding:20px 24px;color:#6b7280;font-size:12px;border-top:1px solid #e5e7eb;">
+              This is an automated message from the Courier Management System.<br>
+              Please contact us if you have any questions.
+            </td>
+          </tr>
+
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`,
+  },
+  received_courier_confirmation: {
+    subject: 'Courier Received Confirmation - Courier Management System',
+    html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width" />
+  <title>Courier Received Confirmation</title>
+</head>
+<body style="margin:0;padding:0;background:#f4f6f8;">
+  <table role="presentation" cellpadding="0" cellspacing="0" width="100%" style="background:#f4f6f8;">
+    <tr>
+      <td align="center" style="padding:24px 12px;">
+        <table role="presentation" cellpadding="0" cellspacing="0" width="600" style="max-width:600px;background:#ffffff;border-radius:12px;overflow:hidden;font-family:Segoe UI,Arial,Helvetica,sans-serif;">
+
+          <!-- Header -->
+          <tr>
+            <td style="background:#16a34a;color:#fff;padding:18px 24px;font-size:18px;font-weight:600;">
+              ✅ Courier Received Successfully
+            </td>
+          </tr>
+
+          <!-- Intro -->
+          <tr>
+            <td style="padding:20px 24px;color:#111827;font-size:14px;line-height:1.5;">
+              This is to confirm that the courier has been <strong>successfully received</strong> and acknowledged by the recipient.
+            </td>
+          </tr>
+
+          <!-- Details Table -->
+          <tr>
+            <td style="padding:0 24px 12px;">
+              <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border:1px solid #e5e7eb;border-radius:10px;">
+                <tr>
+                  <td style="padding:12px 16px;background:#f9fafb;font-weight:600;font-size:13px;">
+                    Confirmation Details
+                  </td>
+                </tr>
+                <tr>
+                  <td style="padding:12px 16px;">
+                    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="font-size:13px;color:#374151;">
+                      <tr>
+                        <td style="padding:4px 0;font-weight:600;">POD Number:</td>
+                        <td style="padding:4px 0;">{{podNo}}</td>
+                      </tr>
+                      <tr>
+                        <td style="padding:4px 0;font-weight:600;">Received Date:</td>
+                        <td style="padding:4px 0;">{{receivedDate|N/A}}</td>
+                      </tr>
+                      <tr>
+                        <td style="padding:4px 0;font-weight:600;">From Location:</td>
+                        <td style="padding:4px 0;">{{fromLocation}}</td>
+                      </tr>
+                      <tr>
+                        <td style="padding:4px 0;font-weight:600;">Courier Vendor:</td>
+                        <td style="padding:4px 0;">{{vendorName}}</td>
+                      </tr>
+                      <tr>
+                        <td style="padding:4px 0;font-weight:600;">Department:</td>
+                        <td style="padding:4px 0;">{{department.name|N/A}}</td>
+                      </tr>
+                      <tr>
+                        <td style="padding:4px 0;font-weight:600;">Status:</td>
+                        <td style="padding:4px 0;"><span style="background:#dcfce7;color:#166534;padding:2px 8px;border-radius:4px;font-size:12px;">RECEIVED</span></td>
+                      </tr>
+                      <tr>
+                        <td style="padding:4px 0;font-weight:600;">Confirmed At:</td>
+                        <td style="padding:4px 0;">{{confirmedAt}}</td>
+                      </tr>
+                    </table>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+
+          <!-- Note -->
+          <tr>
+            <td style="padding:20px 24px;color:#111827;font-size:14px;line-height:1.5;">
+              <em>This confirmation was generated automatically when the recipient clicked the confirmation link. The courier status has been updated in the system.</em>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding:20px 24px;color:#6b7280;font-size:12px;border-top:1px solid #e5e7eb;">
+              This is an automated confirmation from the Courier Management System.<br>
+              For any queries, please contact the courier desk.
+            </td>
+          </tr>
+
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`,
+  },
+  user_welcome: {
+    subject: 'Welcome to Courier Management System - Account Created',
+    html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width" />
+  <title>Account Created</title>
+</head>
+<body style="margin:0;padding:0;background:#f4f6f8;">
+  <table role="presentation" cellpadding="0" cellspacing="0" width="100%" style="background:#f4f6f8;">
+    <tr>
+      <td align="center" style="padding:24px 12px;">
+        <table role="presentation" cellpadding="0" cellspacing="0" width="100%" style="max-width:600px;background:#fff;border-radius:12px;box-shadow:0 4px 12px rgba(0,0,0,0.1);">
+
+          <!-- Header -->
+          <tr>
+            <td style="background:#0b5fff;color:#fff;padding:18px 24px;font-size:18px;font-weight:600;border-radius:12px 12px 0 0;">
+              <span style="font-size:24px;">🔐</span> Account Created Successfully
+            </td>
+          </tr>
+
+          <!-- Welcome Message -->
+          <tr>
+            <td style="padding:24px 24px 20px;color:#111827;font-size:14px;line-height:1.6;">
+              <h2 style="margin:0 0 16px;color:#111827;font-size:20px;">Welcome, {{name}}!</h2>
+              <p style="margin:0 0 16px;">Your account has been successfully created in the Courier Management System. Below are your login credentials:</p>
+            </td>
+          </tr>
+
+          <!-- Account Details -->
+          <tr>
+            <td style="padding:0 24px 20px;">
+              <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border:1px solid #e5e7eb;border-radius:8px;background:#f9fafb;">
+                <tr>
+                  <td style="padding:16px;">
+                    <div style="margin-bottom:12px;">
+                      <span style="font-weight:600;color:#374151;">Email:</span>
+                      <span style="color:#0b5fff;margin-left:8px;">{{email}}</span>
+                    </div>
+                    <div style="margin-bottom:12px;">
+                      <span style="font-weight:600;color:#374151;">Employee Code:</span>
+                      <span style="margin-left:8px;">{{employeeCode|Not assigned}}</span>
+                    </div>
+                    <div style="margin-bottom:12px;">
+                      <span style="font-weight:600;color:#374151;">Role:</span>
+                      <span style="margin-left:8px;text-transform:capitalize;">{{role}}</span>
+                    </div>
+                    <div>
+                      <span style="font-weight:600;color:#374151;">Password:</span>
+                      <span style="margin-left:8px;font-family:monospace;background:#fff;padding:4px 8px;border-radius:4px;border:1px solid #d1d5db;">{{password}}</span>
+                    </div>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+
+          <!-- Login Button -->
+          <tr>
+            <td style="padding:0 24px 24px;text-align:center;">
+              <a href="{{loginUrl}}" style="display:inline-block;background:#0b5fff;color:#fff;padding:12px 24px;border-radius:6px;text-decoration:none;font-weight:600;font-size:14px;">
+                🔗 Access Your Account
+              </a>
+            </td>
+          </tr>
+
+          <!-- Security Note -->
+          <tr>
+            <td style="padding:0 24px 20px;color:#6b7280;font-size:13px;line-height:1.5;">
+              <div style="background:#f3f4f6;padding:16px;border-radius:8px;border-left:4px solid #f59e0b;">
+                <p style="margin:0 0 8px;font-weight:600;color:#92400e;">🔒 Security Reminder:</p>
+                <p style="margin:0;">Please change your password after your first login. Keep your login credentials secure and do not share them with anyone.</p>
+              </div>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding:20px 24px;text-align:center;border-top:1px solid #e5e7eb;color:#6b7280;font-size:12px;">
+              <p style="margin:0;">This is an automated message from the Courier Management System.</p>
+              <p style="margin:4px 0 0;">If you didn't expect this email, please contact your administrator.</p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`,
+  },
+  password_reset: {
+    subject: 'Password Reset Link - Courier Management System',
+    html: `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+  <h2 style="color: #333;">Password Reset Request</h2>
+  <p>You have requested to reset your password for the Courier Management System.</p>
+  <p>Click the button below to reset your password:</p>
+  <div style="text-align: center; margin: 30px 0;">
+    <a href="{{resetUrl}}" style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 8px; display: inline-block; font-weight: bold;">Reset Password</a>
+  </div>
+  <p>Or copy and paste this link in your browser:</p>
+  <p style="word-break: break-all; background-color: #f8f9fa; padding: 10px; border-radius: 4px;">{{resetUrl}}</p>
+  <p><strong>Important:</strong></p>
+  <ul>
+    <li>This link will expire in 1 hour</li>
+    <li>If you didn't request this reset, please ignore this email</li>
+    <li>Do not share this link with anyone</li>
+  </ul>
+  <p>Thank you!</p>
+</div>`,
+  },
+  letter_approval_requested: {
+    subject: 'Authority Letter Awaiting Approval - {{templateName}} (Request #{{requestId}})',
+    html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width" />
+  <title>Letter Awaiting Approval</title>
+</head>
+<body style="margin:0;padding:0;background:#f4f6f8;">
+  <table role="presentation" cellpadding="0" cellspacing="0" width="100%" style="background:#f4f6f8;">
+    <tr>
+      <td align="center" style="padding:24px 12px;">
+        <table role="presentation" cellpadding="0" cellspacing="0" width="600" style="max-width:600px;background:#ffffff;border-radius:12px;overflow:hidden;font-family:Segoe UI,Arial,Helvetica,sans-serif;">
+          <tr>
+            <td style="background:#0b5fff;color:#fff;padding:18px 24px;font-size:18px;font-weight:600;">
+              Courier Management System • Letter Approval
+            </td>
+          </tr>
+          <tr>
+            <td style="padding:20px 24px;color:#111827;font-size:14px;line-height:1.5;">
+              Dear Approver,<br><br>
+              {{maker.name|A user}} {{#maker.email}}({{maker.email}}){{/maker.email}} has submitted an authority letter for your approval.
+              <br><br>
+              <strong>Request Details:</strong><br>
+              Request: #{{requestId}}<br>
+              Template: {{templateName}}<br>
+              Department: {{department.name|N/A}}<br>
+              <br>
+              Review the draft and approve or reject it from the dashboard.
+            </td>
+          </tr>
+          <tr>
+            <td style="padding:0 24px 24px;text-align:center;">
+              <a href="{{reviewUrl}}" style="display:inline-block;background:#0b5fff;color:#fff;padding:12px 24px;border-radius:6px;text-decoration:none;font-weight:600;font-size:14px;">
+                Open Dashboard
+              </a>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`,
+  },
+  letter_approval_decided: {
+    subject: 'Authority Letter {{decision}} - {{templateName}} (Request #{{requestId}})',
+    html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width" />
+  <title>Letter Approval Decision</title>
+</head>
+<body style="margin:0;padding:0;background:#f4f6f8;">
+  <table role="presentation" cellpadding="0" cellspacing="0" width="100%" style="background:#f4f6f8;">
+    <tr>
+      <td align="center" style="padding:24px 12px;">
+        <table role="presentation" cellpadding="0" cellspacing="0" width="600" style="max-width:600px;background:#ffffff;border-radius:12px;overflow:hidden;font-family:Segoe UI,Arial,Helvetica,sans-serif;">
+          <tr>
+            <td style="background:#0b5fff;color:#fff;padding:18px 24px;font-size:18px;font-weight:600;">
+              Courier Management System • Letter Approval
+            </td>
+          </tr>
+          <tr>
+            <td style="padding:20px 24px;color:#111827;font-size:14px;line-height:1.5;">
+              Your authority letter request #{{requestId}} ({{templateName}}) has been <strong>{{decision}}</strong> by {{reviewer.name|the approver}}.
+              <br><br>
+              {{#comment}}<strong>Comment:</strong><br>{{comment}}<br><br>{{/comment}}
+              Approved letters can be downloaded from the dashboard. Rejected requests can be corrected and submitted again from the Authority Letter page.
+            </td>
+          </tr>
+          <tr>
+            <td style="padding:0 24px 24px;text-align:center;">
+              <a href="{{reviewUrl}}" style="display:inline-block;background:#0b5fff;color:#fff;padding:12px 24px;border-radius:6px;text-decoration:none;font-weight:600;font-size:14px;">
+                Open Dashboard
+              </a>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`,
+  },
+};
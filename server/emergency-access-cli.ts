@@ -0,0 +1,74 @@
+// Break-glass account management, run against the configured database:
+//   npm run emergency-access -- grant <email> [--hours 4] [--role admin] [--reason "..."]
+//   npm run emergency-access -- revoke <email>
+//   npm run emergency-access -- list
+//   npm run emergency-access -- hash    (credential for EMERGENCY_ACCESS_PASSWORD_HASH)
+import { storage } from "./storage";
+import { generateEmergencyPassword, grantEmergencyAccess, revokeEmergencyAccess, MAX_EMERGENCY_ACCESS_HOURS } from "./emergency-access";
+
+const DEFAULT_HOURS = 4;
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+  const email = args[0] && !args[0].startsWith('--') ? args[0] : undefined;
+
+  switch (command) {
+    case 'grant': {
+      if (!email) throw new Error('Usage: grant <email> [--hours N] [--role ROLE] [--reason TEXT]');
+      const hours = Number(getOption(args, 'hours') ?? DEFAULT_HOURS);
+      if (!(hours > 0 && hours <= MAX_EMERGENCY_ACCESS_HOURS)) {
+        throw new Error(`--hours must be between 0 and ${MAX_EMERGENCY_ACCESS_HOURS}`);
+      }
+
+      const { password, passwordHash } = await generateEmergencyPassword();
+      const user = await grantEmergencyAccess({
+        email,
+        passwordHash,
+        role: getOption(args, 'role'),
+        expiresAt: new Date(Date.now() + hours * 60 * 60 * 1000),
+        source: 'cli',
+        reason: getOption(args, 'reason'),
+      });
+      console.log(`Emergency ${user.role} access for ${user.email} until ${user.emergencyAccessExpiresAt!.toISOString()}`);
+      console.log(`Password (shown once): ${password}`);
+      break;
+    }
+    case 'revoke': {
+      if (!email) throw new Error('Usage: revoke <email>');
+      const user = await revokeEmergencyAccess(email, 'cli');
+      console.log(`Emergency access for ${user.email} revoked`);
+      break;
+    }
+    case 'list': {
+      const accounts = await storage.getEmergencyAccounts();
+      if (accounts.length === 0) {
+        console.log('No emergency access accounts');
+      }
+      for (const account of accounts) {
+        const expiresAt = account.emergencyAccessExpiresAt!;
+        console.log(`${account.email}\t${account.role}\t${expiresAt > new Date() ? 'active until' : 'expired'} ${expiresAt.toISOString()}`);
+      }
+      break;
+    }
+    case 'hash': {
+      const { password, passwordHash } = await generateEmergencyPassword();
+      console.log(`Password (shown once): ${password}`);
+      console.log(`EMERGENCY_ACCESS_PASSWORD_HASH=${passwordHash}`);
+      break;
+    }
+    default:
+      throw new Error('Commands: grant, revoke, list, hash');
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error.message);
+    process.exit(1);
+  });
@@ -0,0 +1,139 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { hashPassword } from "./auth";
+import type { User } from "@shared/schema";
+
+// Longest window a single grant may open; a longer outage needs a fresh grant
+export const MAX_EMERGENCY_ACCESS_HOURS = 72;
+
+const EMERGENCY_ROLES = ['admin', 'sub_admin', 'manager', 'user'];
+const BCRYPT_HASH_PATTERN = /^\$2[aby]\$\d{2}\$[./A-Za-z0-9]{53}$/;
+
+export interface EmergencyAccessGrant {
+  email: string;
+  name?: string;
+  passwordHash: string;
+  role?: string;
+  expiresAt: Date;
+  // Where the grant came from, for the audit trail: 'cli' or 'environment'
+  source: string;
+  reason?: string;
+}
+
+// Random credential for a new grant; it is shown once and only its hash is kept
+export async function generateEmergencyPassword(): Promise<{ password: string; passwordHash: string }> {
+  const password = crypto.randomBytes(18).toString('base64url');
+  return { password, passwordHash: await hashPassword(password) };
+}
+
+/**
+ * Create a break-glass account or renew an existing one with new credentials and a new
+ * expiry. Regular accounts are never converted. Renewing ends the account's open sessions.
+ */
+export async function grantEmergencyAccess(grant: EmergencyAccessGrant): Promise<User> {
+  const email = grant.email.trim().toLowerCase();
+  const role = grant.role || 'admin';
+
+  if (!email.includes('@')) {
+    throw new Error(`Invalid email address: ${grant.email}`);
+  }
+  if (!EMERGENCY_ROLES.includes(role)) {
+    throw new Error(`Invalid role: ${role}`);
+  }
+  if (!BCRYPT_HASH_PATTERN.test(grant.passwordHash)) {
+    throw new Error('The password must be given as a bcrypt hash');
+  }
+  if (isNaN(grant.expiresAt.getTime()) || grant.expiresAt <= new Date()) {
+    throw new Error('The expiry must be in the future');
+  }
+  if (grant.expiresAt.getTime() - Date.now() > MAX_EMERGENCY_ACCESS_HOURS * 60 * 60 * 1000) {
+    throw new Error(`Emergency access cannot last longer than ${MAX_EMERGENCY_ACCESS_HOURS} hours`);
+  }
+
+  const existing = await storage.getUserByEmail(email);
+  if (existing && !existing.emergencyAccessExpiresAt) {
+    throw new Error(`${email} belongs to a regular account and cannot be used for emergency access`);
+  }
+
+  const user = await storage.saveEmergencyAccount({
+    email,
+    name: grant.name || existing?.name || 'Emergency Access',
+    password: grant.passwordHash,
+    role,
+    expiresAt: grant.expiresAt,
+  });
+  if (existing) {
+    await storage.revokeAllAuthSessions(user.id);
+  }
+
+  await storage.createAuditLog({
+    userId: null,
+    action: 'EMERGENCY_ACCESS_GRANTED',
+    entityType: 'user',
+    entityId: user.id,
+    emailId: email,
+    details: `Emergency ${role} access for ${email} granted from ${grant.source} until ${grant.expiresAt.toISOString()}${grant.reason ? `: ${grant.reason}` : ''}`,
+    entityData: null,
+  });
+  return user;
+}
+
+// Close a break-glass account's window now and end its sessions
+export async function revokeEmergencyAccess(email: string, source: string): Promise<User> {
+  const existing = await storage.getUserByEmail(email.trim().toLowerCase());
+  if (!existing || !existing.emergencyAccessExpiresAt) {
+    throw new Error(`No emergency access account found for ${email}`);
+  }
+
+  const user = (await storage.setEmergencyAccessExpiry(existing.id, new Date()))!;
+  const revokedSessions = await storage.revokeAllAuthSessions(user.id);
+
+  await storage.createAuditLog({
+    userId: null,
+    action: 'EMERGENCY_ACCESS_REVOKED',
+    entityType: 'user',
+    entityId: user.id,
+    emailId: user.email,
+    details: `Emergency access for ${user.email} revoked from ${source}; ${revokedSessions} session(s) ended`,
+    entityData: null,
+  });
+  return user;
+}
+
+/**
+ * Grant configured through EMERGENCY_ACCESS_EMAIL, EMERGENCY_ACCESS_PASSWORD_HASH and
+ * EMERGENCY_ACCESS_EXPIRES_AT (plus an optional EMERGENCY_ACCESS_ROLE), applied at startup.
+ * Issuing new access from the environment means setting a new password hash.
+ */
+export async function applyEmergencyAccessFromEnv(): Promise<void> {
+  const email = process.env.EMERGENCY_ACCESS_EMAIL;
+  const passwordHash = process.env.EMERGENCY_ACCESS_PASSWORD_HASH;
+  const expiresAt = process.env.EMERGENCY_ACCESS_EXPIRES_AT;
+  if (!email && !passwordHash && !expiresAt) {
+    return;
+  }
+  if (!email || !passwordHash || !expiresAt) {
+    console.error('Emergency access needs EMERGENCY_ACCESS_EMAIL, EMERGENCY_ACCESS_PASSWORD_HASH and EMERGENCY_ACCESS_EXPIRES_AT; ignoring partial configuration');
+    return;
+  }
+
+  // Each hash is applied once, so a grant revoked from the CLI stays revoked across restarts
+  const existing = await storage.getUserByEmail(email.trim().toLowerCase());
+  if (existing?.password === passwordHash) {
+    return;
+  }
+  const expiry = new Date(expiresAt);
+  if (expiry <= new Date()) {
+    console.warn(`Emergency access for ${email} from the environment expired at ${expiresAt}; not applied`);
+    return;
+  }
+
+  await grantEmergencyAccess({
+    email,
+    passwordHash,
+    role: process.env.EMERGENCY_ACCESS_ROLE,
+    expiresAt: expiry,
+    source: 'environment',
+  });
+  console.log(`Emergency access for ${email} enabled until ${expiry.toISOString()}`);
+}
@@ -0,0 +1,203 @@
+import path from "path";
+import { storage } from "./storage";
+import { mailService } from "./mail-service";
+import {
+  DEFAULT_ESCALATION_STEPS,
+  ESCALATION_ACTION_LABELS,
+  escalationStepsSchema,
+  type EscalationStep,
+} from "@shared/escalation";
+import type { Courier, Department, EscalationRule, User } from "@shared/schema";
+
+type OverdueCourier = Courier & { department?: Department; creator?: User };
+
+interface ResolvedRule {
+  rule: EscalationRule | null;
+  steps: EscalationStep[];
+}
+
+function getCourierVendorName(courier: Courier): string {
+  return ((courier.vendor === 'Others' ? courier.customVendor : courier.vendor) || '').trim().toLowerCase();
+}
+
+/**
+ * Pick the most specific active rule for a courier: department and vendor, then
+ * department only, then vendor only, then a rule with neither. Falls back to the
+ * built-in single reminder when no rule applies.
+ */
+export function resolveEscalationRule(courier: Courier, rules: EscalationRule[], vendorNames: Map<number, string>): ResolvedRule {
+  const vendorName = getCourierVendorName(courier);
+  let best: { rule: EscalationRule; score: number } | null = null;
+
+  for (const rule of rules) {
+    if (!rule.isActive) continue;
+    if (rule.departmentId && rule.departmentId !== courier.departmentId) continue;
+    if (rule.vendorId && vendorNames.get(rule.vendorId) !== vendorName) continue;
+
+    const score = (rule.departmentId ? 2 : 0) + (rule.vendorId ? 1 : 0);
+    if (!best || score > best.score) {
+      best = { rule, score };
+    }
+  }
+
+  if (!best) {
+    return { rule: null, steps: DEFAULT_ESCALATION_STEPS };
+  }
+
+  const steps = escalationStepsSchema.safeParse(best.rule.steps);
+  return { rule: best.rule, steps: steps.success ? steps.data : DEFAULT_ESCALATION_STEPS };
+}
+
+function getReminderAttachments(courier: Courier) {
+  return courier.podCopyPath ? [{
+    filename: courier.podCopyPath,
+    path: path.join(process.cwd(), 'uploads', courier.podCopyPath),
+    contentType: 'application/pdf'
+  }] : [];
+}
+
+async function getStepRecipients(courier: OverdueCourier, step: EscalationStep): Promise<{ to: string[]; cc: string[] }> {
+  const to: string[] = [];
+  const cc: string[] = [...step.additionalEmails];
+
+  switch (step.action) {
+    case 'remind_receiver':
+      if (courier.email) to.push(courier.email);
+      if (courier.contactDetails) cc.push(courier.contactDetails);
+      break;
+    case 'cc_branch': {
+      if (courier.email) to.push(courier.email);
+      if (courier.contactDetails) cc.push(courier.contactDetails);
+      const branch = courier.toBranch ? await storage.getBranchByName(courier.toBranch) : undefined;
+      if (branch?.email) {
+        // Address the branch directly when the courier has no receiver email
+        (to.length > 0 ? cc : to).push(branch.email);
+      }
+      break;
+    }
+    case 'escalate_manager': {
+      const managers = courier.departmentId ? await storage.getDepartmentManagers(courier.departmentId) : [];
+      managers.forEach(manager => manager.email && to.push(manager.email));
+      if (courier.creator?.email) cc.push(courier.creator.email);
+      break;
+    }
+  }
+
+  // Extra addresses still go out when the step itself has no recipient
+  if (to.length === 0 && cc.length > 0) {
+    return { to: cc, cc: [] };
+  }
+  return { to, cc };
+}
+
+async function sendEscalationStep(courier: OverdueCourier, step: EscalationStep, level: number, hoursOverdue: number, recipients: { to: string[]; cc: string[] }) {
+  const data = {
+    ...courier,
+    department: { name: courier.department?.name },
+    vendorName: courier.vendor === 'Others' && courier.customVendor ? courier.customVendor : courier.vendor,
+    sender: { name: courier.creator?.name, email: courier.creator?.email },
+    hoursOverdue,
+    escalationLevel: level,
+  };
+
+  return await mailService.sendTemplate(step.action === 'escalate_manager' ? 'courier_escalation' : 'courier_reminder', data, {
+    to: recipients.to,
+    cc: recipients.cc,
+    replyTo: courier.creator?.email,
+    attachments: step.action === 'escalate_manager' ? [] : getReminderAttachments(courier),
+    departmentId: courier.departmentId,
+    entityType: 'courier',
+    entityId: courier.id
+  });
+}
+
+let escalationInProgress = false;
+
+/**
+ * Take the next due escalation step for every in-transit courier. When several
+ * steps are due at once (for example after a rule is added), only the latest
+ * one is sent and the skipped levels are not recorded.
+ */
+export async function processCourierEscalations(): Promise<{ escalated: number }> {
+  if (escalationInProgress) return { escalated: 0 };
+  escalationInProgress = true;
+
+  let escalated = 0;
+  try {
+    const rules = (await storage.getEscalationRules()).filter(rule => rule.isActive);
+    const stepHours = rules.flatMap(rule => {
+      const steps = escalationStepsSchema.safeParse(rule.steps);
+      return steps.success ? steps.data.map(step => step.afterHours) : [];
+    });
+    const minAgeHours = Math.min(...DEFAULT_ESCALATION_STEPS.map(step => step.afterHours), ...stepHours);
+
+    const vendorNames = new Map<number, string>();
+    for (const rule of rules) {
+      if (rule.vendorId && !vendorNames.has(rule.vendorId)) {
+        const vendor = await storage.getVendorById(rule.vendorId);
+        vendorNames.set(rule.vendorId, vendor ? vendor.vendorName.trim().toLowerCase() : '');
+      }
+    }
+
+    const overdueCouriers = await storage.getOverdueCouriers(minAgeHours);
+    console.log(`Checking overdue couriers for escalation: ${overdueCouriers.length} found`);
+
+    for (const courier of overdueCouriers) {
+      try {
+        const { rule, steps } = resolveEscalationRule(courier, rules, vendorNames);
+        const hoursOverdue = Math.floor((Date.now() - new Date(courier.createdAt!).getTime()) / (60 * 60 * 1000));
+
+        // Couriers reminded before escalation levels existed count as having taken the first step
+        const currentLevel = Math.max(courier.escalationLevel, courier.reminderEmailSent ? 1 : 0);
+
+        let dueIndex = -1;
+        steps.forEach((step, index) => {
+          if (index >= currentLevel && step.afterHours <= hoursOverdue) dueIndex = index;
+        });
+        if (dueIndex === -1) continue;
+
+        const step = steps[dueIndex];
+        const level = dueIndex + 1;
+        const recipients = await getStepRecipients(courier, step);
+
+        const claimed = await storage.recordCourierEscalation(courier.escalationLevel, {
+          courierId: courier.id,
+          ruleId: rule?.id ?? null,
+          level,
+          action: step.action,
+          recipients: [...recipients.to, ...recipients.cc].join(', ') || null,
+        });
+        if (!claimed) continue;
+
+        const queued = recipients.to.length > 0
+          ? await sendEscalationStep(courier, step, level, hoursOverdue, recipients)
+          : null;
+
+        await storage.createAuditLog({
+          userId: null,
+          action: 'ESCALATE',
+          entityType: 'courier',
+          entityId: String(courier.id),
+          emailId: recipients.to[0] || null,
+          details: `Level ${level}: ${ESCALATION_ACTION_LABELS[step.action]} after ${hoursOverdue}h (${rule ? `rule "${rule.name}"` : 'default rule'})` +
+            (queued ? ` - sent to ${[...recipients.to, ...recipients.cc].join(', ')}` : ' - no recipients found'),
+          entityData: { podNo: courier.podNo, level, action: step.action, ruleId: rule?.id ?? null },
+        });
+
+        escalated++;
+      } catch (error) {
+        console.error(`Failed to escalate courier ID ${courier.id}:`, error);
+      }
+    }
+
+    if (escalated > 0) {
+      console.log(`Escalated ${escalated} overdue courier(s)`);
+    }
+  } catch (error) {
+    console.error('Error processing courier escalations:', error);
+  } finally {
+    escalationInProgress = false;
+  }
+
+  return { escalated };
+}
@@ -1,11 +1,22 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { seedDatabase } from "./seed";
+import { applyEmergencyAccessFromEnv } from "./emergency-access";
+import { backfillTemplateVersions } from "./template-versions";
+import { processBulkLetterJobs, relocateBulkLetterJobFiles } from "./letter-bulk-jobs";
+import { relocateIssuedLetterFiles } from "./letter-register";
+import { storage } from "./storage";
 import { setupVite, serveStatic, log } from "./vite";
 import { setupAuth } from "./replitAuth";
 import path from "path";
 
 const app = express();
+
+// Proxies in front of the app (a hop count, or their addresses), so req.ip is the client's
+// address and not something the client put in X-Forwarded-For. Replit runs one proxy; set
+// TRUST_PROXY=false when the app is reached directly.
+const trustProxy = process.env.TRUST_PROXY?.trim() || '1';
+app.set('trust proxy', trustProxy === 'false' ? false : /^\d+$/.test(trustProxy) ? parseInt(trustProxy) : trustProxy);
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -49,6 +60,57 @@ app.use((req, res, next) => {
     // Initialize database with default data
     await seedDatabase();
 
+    try {
+      await applyEmergencyAccessFromEnv();
+    } catch (error) {
+      console.error('Error applying emergency access from the environment:', error);
+    }
+
+    // Carry department tab toggles over to permission grants
+    try {
+      const converted = await storage.convertLegacyUserPolicies();
+      if (converted > 0) {
+        console.log(`Converted ${converted} legacy user policies to permission grants`);
+      }
+    } catch (error) {
+      console.error('Error converting legacy user policies:', error);
+    }
+
+    // Record the layout of templates created before versioning as their first version
+    try {
+      const versioned = await backfillTemplateVersions();
+      if (versioned > 0) {
+        console.log(`Recorded version 1 for ${versioned} authority letter templates`);
+      }
+    } catch (error) {
+      console.error('Error recording authority letter template versions:', error);
+    }
+
+    // Take issued letters out of the publicly served uploads folder
+    try {
+      const relocated = await relocateIssuedLetterFiles();
+      if (relocated > 0) {
+        console.log(`Moved ${relocated} issued letters out of the uploads folder`);
+      }
+    } catch (error) {
+      console.error('Error moving issued letters out of the uploads folder:', error);
+    }
+
+    // Bulk letter jobs cut off by the restart are failed, not re-run, so no letter is issued twice
+    try {
+      const interrupted = await storage.failInterruptedLetterBulkJobs();
+      if (interrupted > 0) {
+        console.log(`Marked ${interrupted} interrupted bulk letter jobs as failed`);
+      }
+      const relocated = await relocateBulkLetterJobFiles();
+      if (relocated > 0) {
+        console.log(`Moved the results of ${relocated} bulk letter jobs out of the uploads folder`);
+      }
+      void processBulkLetterJobs();
+    } catch (error) {
+      console.error('Error recovering bulk letter jobs:', error);
+    }
+
     app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
       const status = err.status || err.statusCode || 500;
       const message = err.message || "Internal Server Error";
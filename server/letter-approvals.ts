@@ -0,0 +1,71 @@
+import { storage } from "./storage";
+import { hasEmergencyAccessExpired } from "./auth";
+import { mailService } from "./mail-service";
+import { resolvePermissions } from "@shared/permissions";
+import type { AuthorityLetterTemplate, LetterApprovalRequest, User } from "@shared/schema";
+
+// Printed across previews of letters that have not been approved yet
+export const DRAFT_WATERMARK = 'DRAFT';
+
+/**
+ * Users who may approve letters of the department: its members (primary or additional)
+ * holding letter.approve there, or the admins for templates without a department.
+ */
+export async function getLetterApprovers(departmentId: number | null): Promise<User[]> {
+  const candidates = departmentId
+    ? await storage.getDepartmentMembers(departmentId)
+    : (await storage.getAllUsers()).filter(user => user.role === 'admin');
+  const grants = await storage.getPermissionGrants();
+  return candidates.filter(user =>
+    !hasEmergencyAccessExpired(user) && resolvePermissions(user.role, departmentId ?? user.departmentId, grants).includes('letter.approve')
+  );
+}
+
+async function getLetterApprovalEmailData(request: LetterApprovalRequest, template: AuthorityLetterTemplate, applicationUrl: string) {
+  const department = request.departmentId ? await storage.getDepartmentById(request.departmentId) : undefined;
+  return {
+    requestId: request.id,
+    templateName: template.templateName,
+    department: { name: department?.name },
+    reviewUrl: `${applicationUrl.replace(/\/+$/, '')}/`,
+  };
+}
+
+// Tell the department's approvers, other than the maker, that a letter is waiting for them
+export async function notifyLetterApprovers(request: LetterApprovalRequest, template: AuthorityLetterTemplate, maker: User, applicationUrl: string) {
+  const approvers = await getLetterApprovers(request.departmentId);
+  const to = approvers.filter(user => user.id !== maker.id && user.email).map(user => user.email!);
+  if (to.length === 0) return null;
+
+  const data = await getLetterApprovalEmailData(request, template, applicationUrl);
+  return await mailService.sendTemplate('letter_approval_requested', {
+    ...data,
+    maker: { name: maker.name, email: maker.email },
+  }, {
+    to,
+    replyTo: maker.email,
+    departmentId: request.departmentId,
+    entityType: 'letter_approval',
+    entityId: request.id,
+  });
+}
+
+// Tell the maker what the approver decided
+export async function notifyLetterMaker(request: LetterApprovalRequest, template: AuthorityLetterTemplate, reviewer: User, applicationUrl: string) {
+  const maker = await storage.getUser(request.requestedBy);
+  if (!maker?.email) return null;
+
+  const data = await getLetterApprovalEmailData(request, template, applicationUrl);
+  return await mailService.sendTemplate('letter_approval_decided', {
+    ...data,
+    decision: request.status,
+    comment: request.reviewComment,
+    reviewer: { name: reviewer.name },
+  }, {
+    to: maker.email,
+    replyTo: reviewer.email,
+    departmentId: request.departmentId,
+    entityType: 'letter_approval',
+    entityId: request.id,
+  });
+}
@@ -0,0 +1,289 @@
+import fs from "fs";
+import path from "path";
+import Papa from "papaparse";
+import JSZip from "jszip";
+import { z } from "zod";
+import { storage } from "./storage";
+import { PDFGenerator } from "./pdf-generator";
+import { normalizeHeader, parseImportDate } from "./courier-import";
+import { reserveLetterReference, withLetterNumber, recordIssuedLetter, type LetterVerification } from "./letter-register";
+import { renderTemplatePdf, getTemplateFieldConfigs, DEPARTMENT_LETTER_TEMPLATE } from "./letter-rendering";
+import type { AuthorityLetterField, AuthorityLetterTemplate, Department, LetterBulkJob } from "@shared/schema";
+
+export const MAX_BULK_LETTER_ROWS = 1000;
+
+// Outside uploads/, which is served statically: results are only handed out through the job endpoints
+const JOBS_DIR = path.join(process.cwd(), 'data', 'letter-bulk-jobs');
+const LEGACY_JOBS_DIR = path.join(process.cwd(), 'uploads', 'letter-bulk-jobs');
+
+// What the client sees of a job: progress and whether there is anything to download
+export type LetterBulkJobStatus = Omit<LetterBulkJob, 'rows' | 'applicationUrl' | 'resultPath' | 'errorReportPath'> & {
+  hasResult: boolean;
+  hasErrorReport: boolean;
+};
+
+export interface BulkLetterRowError {
+  // 1-based data row, as counted in a spreadsheet below the header
+  row: number;
+  errors: string[];
+  values: Record<string, string>;
+}
+
+let processing = false;
+
+export function toBulkJobStatus(job: Omit<LetterBulkJob, 'rows'> & { rows?: unknown }): LetterBulkJobStatus {
+  const { rows, applicationUrl, resultPath, errorReportPath, ...status } = job;
+  return { ...status, hasResult: !!resultPath, hasErrorReport: !!errorReportPath };
+}
+
+/**
+ * Read an uploaded CSV into rows keyed by trimmed header. Throws a ZodError when the file
+ * cannot be parsed.
+ */
+export function parseBulkLetterCsv(buffer: Buffer): Record<string, string>[] {
+  const parsed = Papa.parse<Record<string, string>>(buffer.toString('utf8').replace(/^\uFEFF/, ''), {
+    header: true,
+    skipEmptyLines: 'greedy',
+    transformHeader: (header: string) => header.trim(),
+  });
+
+  if (parsed.errors.length > 0) {
+    throw new z.ZodError(parsed.errors.slice(0, 10).map(error => ({
+      code: 'custom' as const,
+      path: ['csvFile', error.row ?? 0],
+      message: error.message,
+    })));
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Map a CSV row onto the letter's fields by field name or label, and check it against
+ * isRequired and fieldType. Dates come back as YYYY-MM-DD and numbers without separators,
+ * so the field's own format is applied when the letter is rendered. Without any
+ * configured fields the row is used as it is.
+ */
+export function validateBulkLetterRow(row: Record<string, string>, fields: AuthorityLetterField[]): { values: Record<string, string>; errors: string[] } {
+  const trimmed: Record<string, string> = {};
+  Object.entries(row).forEach(([header, value]) => {
+    if (header) trimmed[header] = (value ?? '').toString().trim();
+  });
+  if (fields.length === 0) return { values: trimmed, errors: [] };
+
+  const lookup = new Map<string, string>();
+  Object.entries(trimmed).forEach(([header, value]) => {
+    const key = normalizeHeader(header);
+    if (!lookup.has(key) || (!lookup.get(key) && value)) lookup.set(key, value);
+  });
+
+  const values: Record<string, string> = { ...trimmed };
+  const errors: string[] = [];
+
+  for (const field of fields) {
+    const label = field.fieldLabel.replace(/^##|##$/g, '') || field.fieldName;
+    const raw = lookup.get(normalizeHeader(field.fieldName)) ?? lookup.get(normalizeHeader(label)) ?? '';
+
+    if (!raw) {
+      if (field.isRequired) errors.push(`${label} is required`);
+      values[field.fieldName] = '';
+      continue;
+    }
+
+    if (field.fieldType === 'number') {
+      const number = raw.replace(/,/g, '');
+      if (!/^-?\d+(\.\d+)?$/.test(number)) {
+        errors.push(`${label} must be a number`);
+        continue;
+      }
+      values[field.fieldName] = number;
+    } else if (field.fieldType === 'date') {
+      const date = parseImportDate(raw);
+      if (!date) {
+        errors.push(`${label} must be a date (YYYY-MM-DD, DD-MM-YYYY or DD/MM/YYYY)`);
+        continue;
+      }
+      values[field.fieldName] = date;
+    } else {
+      values[field.fieldName] = raw;
+    }
+  }
+
+  return { values, errors };
+}
+
+// Fields the rows of a job are checked against: the template's, or the department's own
+export async function getBulkLetterFields(templateId: number | null, departmentId: number | null): Promise<AuthorityLetterField[]> {
+  if (templateId) return (await getTemplateFieldConfigs(templateId)).fields;
+  if (!departmentId) return [];
+  return (await storage.getAllAuthorityLetterFields(departmentId)).filter(field => !field.templateId);
+}
+
+function letterFileName(row: number, referenceNumber: string): string {
+  return `${String(row).padStart(4, '0')}_${referenceNumber.replace(/[^A-Za-z0-9-]/g, '_')}.pdf`;
+}
+
+// Render a department letter with the department's field formatting
+async function renderDepartmentPdf(fields: AuthorityLetterField[], fieldValues: Record<string, any>, verification: LetterVerification) {
+  const fieldConfigs: Record<string, any> = {};
+  fields.forEach(field => {
+    fieldConfigs[field.fieldName] = {
+      fieldType: field.fieldType,
+      textTransform: field.textTransform,
+      numberFormat: field.numberFormat,
+      dateFormat: field.dateFormat
+    };
+  });
+  return await PDFGenerator.generatePDF({
+    templateContent: DEPARTMENT_LETTER_TEMPLATE,
+    fieldValues,
+    fieldConfigs,
+    verification,
+  });
+}
+
+/**
+ * Generate every row of a claimed job. Each letter is issued into the register on its own,
+ * so a row that fails validation or rendering only ends up in the error report.
+ */
+async function runBulkLetterJob(job: LetterBulkJob) {
+  let template: AuthorityLetterTemplate | undefined;
+  let department: Department | undefined;
+
+  if (job.templateId) {
+    template = await storage.getAuthorityLetterTemplate(job.templateId);
+    if (!template) throw new Error('The template was deleted');
+  } else if (job.departmentId) {
+    department = await storage.getDepartmentById(job.departmentId);
+    if (!department) throw new Error('The department was deleted');
+  } else {
+    throw new Error('The job has neither a template nor a department');
+  }
+
+  const fields = await getBulkLetterFields(job.templateId, job.departmentId);
+  const zip = new JSZip();
+  const rowErrors: BulkLetterRowError[] = [];
+  let succeededRows = 0;
+
+  for (let index = 0; index < job.rows.length; index++) {
+    const row = job.rows[index];
+    const { values, errors } = validateBulkLetterRow(row, fields);
+
+    if (errors.length === 0) {
+      try {
+        const reference = await reserveLetterReference(job.departmentId, job.applicationUrl);
+        const letterFieldValues = withLetterNumber(values, reference);
+        const file = template
+          ? await renderTemplatePdf(template, letterFieldValues, { verification: reference.verification })
+          : await renderDepartmentPdf(fields, letterFieldValues, reference.verification);
+        const fileName = letterFileName(index + 1, reference.referenceNumber);
+
+        await recordIssuedLetter({
+          reference,
+          templateId: template?.id ?? null,
+          templateVersionId: template?.publishedVersionId ?? null,
+          templateName: template?.templateName ?? `${department!.name} authority document`,
+          fieldValues: letterFieldValues,
+          file,
+          fileName,
+          mimeType: 'application/pdf',
+          issuedBy: job.createdBy,
+        });
+        zip.file(fileName, file);
+        succeededRows++;
+      } catch (error) {
+        console.error(`Error generating row ${index + 1} of bulk letter job ${job.id}:`, error);
+        errors.push(`Letter could not be generated: ${error instanceof Error ? error.message : 'unknown error'}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      rowErrors.push({ row: index + 1, errors, values: row });
+    }
+
+    await storage.updateLetterBulkJob(job.id, {
+      processedRows: index + 1,
+      succeededRows,
+      failedRows: rowErrors.length,
+    });
+  }
+
+  await fs.promises.mkdir(JOBS_DIR, { recursive: true });
+
+  let resultPath: string | null = null;
+  if (succeededRows > 0) {
+    resultPath = path.join(JOBS_DIR, `job-${job.id}.zip`);
+    await fs.promises.writeFile(resultPath, await zip.generateAsync({ type: 'nodebuffer' }));
+  }
+
+  let errorReportPath: string | null = null;
+  if (rowErrors.length > 0) {
+    const columns = Array.from(new Set(job.rows.flatMap(row => Object.keys(row))));
+    errorReportPath = path.join(JOBS_DIR, `job-${job.id}-errors.csv`);
+    await fs.promises.writeFile(errorReportPath, Papa.unparse({
+      fields: ['Row', 'Errors', ...columns],
+      data: rowErrors.map(({ row, errors, values }) => [row, errors.join('; '), ...columns.map(column => values[column] ?? '')]),
+    }));
+  }
+
+  await storage.updateLetterBulkJob(job.id, {
+    status: 'completed',
+    rows: [],
+    resultPath,
+    errorReportPath,
+    completedAt: new Date(),
+  });
+
+  const user = await storage.getUser(job.createdBy);
+  await storage.createAuditLog({
+    userId: job.createdBy,
+    action: 'CREATE',
+    entityType: template ? 'bulk_authority_letters' : 'bulk_authority_letters_dept',
+    entityId: job.id.toString(),
+    emailId: user?.email || null,
+    details: `Bulk letter job ${job.id}: ${succeededRows} of ${job.totalRows} letters issued from ${template ? template.templateName : department!.name}`,
+  });
+}
+
+// Move results written under the public uploads folder by earlier versions into the private one
+export async function relocateBulkLetterJobFiles(): Promise<number> {
+  if (!fs.existsSync(LEGACY_JOBS_DIR)) return 0;
+
+  await fs.promises.mkdir(JOBS_DIR, { recursive: true });
+  const files = await fs.promises.readdir(LEGACY_JOBS_DIR);
+  for (const file of files) {
+    await fs.promises.rename(path.join(LEGACY_JOBS_DIR, file), path.join(JOBS_DIR, file));
+  }
+  await fs.promises.rmdir(LEGACY_JOBS_DIR);
+  return await storage.moveLetterBulkJobFiles(LEGACY_JOBS_DIR + path.sep, JOBS_DIR + path.sep);
+}
+
+/**
+ * Work through queued bulk letter jobs one at a time. Called right after a job is queued
+ * and every minute, so jobs left behind by a busy worker are still picked up.
+ */
+export async function processBulkLetterJobs() {
+  if (processing) return;
+  processing = true;
+
+  try {
+    let job: LetterBulkJob | undefined;
+    while ((job = await storage.claimNextLetterBulkJob())) {
+      try {
+        await runBulkLetterJob(job);
+      } catch (error) {
+        console.error(`Bulk letter job ${job.id} failed:`, error);
+        await storage.updateLetterBulkJob(job.id, {
+          status: 'failed',
+          rows: [],
+          errorMessage: error instanceof Error ? error.message : 'Bulk generation failed',
+          completedAt: new Date(),
+        });
+      }
+    }
+  } catch (error) {
+    console.error('Error processing bulk letter jobs:', error);
+  } finally {
+    processing = false;
+  }
+}
@@ -0,0 +1,142 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import QRCode from "qrcode";
+import { storage } from "./storage";
+import type { IssuedLetter } from "@shared/schema";
+
+// Outside uploads/, which is served statically: letters are only handed out through the register
+const ISSUED_LETTERS_DIR = path.join(process.cwd(), 'data', 'issued-letters');
+const LEGACY_ISSUED_LETTERS_DIR = path.join(process.cwd(), 'uploads', 'issued-letters');
+
+// Fields that templates print the reference number and verification code through,
+// as ##letterNo## and ##verificationCode##
+export const LETTER_NUMBER_FIELD = 'letterNo';
+export const VERIFICATION_CODE_FIELD = 'verificationCode';
+
+// Crockford base32: no I, L, O or U, so codes survive being read out over the phone
+const VERIFICATION_CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const VERIFICATION_CODE_LENGTH = 10;
+
+// What the generators print on a letter so anyone holding it can check it
+export interface LetterVerification {
+  code: string;
+  url: string;
+  // PNG of a QR code that opens `url`
+  qrCode: Buffer;
+}
+
+export interface LetterReference {
+  departmentId: number | null;
+  letterNumber: number;
+  referenceNumber: string;
+  verification: LetterVerification;
+}
+
+export interface IssuedLetterInput {
+  reference: LetterReference;
+  templateId: number | null;
+  // Published version the letter was rendered from
+  templateVersionId: number | null;
+  templateName: string;
+  fieldValues: Record<string, unknown>;
+  file: Buffer;
+  fileName: string;
+  mimeType: string;
+  issuedBy: string;
+}
+
+function generateVerificationCode(): string {
+  const bytes = crypto.randomBytes(VERIFICATION_CODE_LENGTH);
+  const code = Array.from(bytes, byte => VERIFICATION_CODE_ALPHABET[byte % VERIFICATION_CODE_ALPHABET.length]).join('');
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+// Canonical form of a code typed in by hand: case, spacing and look-alike letters don't matter
+export function normalizeVerificationCode(input: string): string | null {
+  const code = input.toUpperCase().replace(/[^0-9A-Z]/g, '').replace(/O/g, '0').replace(/[IL]/g, '1');
+  if (code.length !== VERIFICATION_CODE_LENGTH || code.split('').some(char => !VERIFICATION_CODE_ALPHABET.includes(char))) {
+    return null;
+  }
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+/**
+ * Take the next number in the department's running sequence, with a random verification
+ * code for the public check at `<applicationUrl>/verify/<code>`. Numbers are reserved before
+ * rendering so the letter can print its own reference; a failed render leaves a gap.
+ */
+export async function reserveLetterReference(departmentId: number | null, applicationUrl: string): Promise<LetterReference> {
+  const letterNumber = await storage.nextLetterNumber(departmentId ? `department:${departmentId}` : 'general');
+  const code = generateVerificationCode();
+  const url = `${applicationUrl.replace(/\/+$/, '')}/verify/${code}`;
+  return {
+    departmentId,
+    letterNumber,
+    referenceNumber: `AL/${departmentId ?? 'GEN'}/${String(letterNumber).padStart(6, '0')}`,
+    verification: {
+      code,
+      url,
+      qrCode: await QRCode.toBuffer(url, { errorCorrectionLevel: 'M', margin: 1, width: 300 }),
+    },
+  };
+}
+
+// Field values with the reserved reference filled in for ##letterNo## and ##verificationCode##
+export function withLetterNumber(fieldValues: Record<string, any> | undefined, reference: LetterReference): Record<string, any> {
+  return {
+    ...(fieldValues || {}),
+    [LETTER_NUMBER_FIELD]: reference.referenceNumber,
+    [VERIFICATION_CODE_FIELD]: reference.verification.code,
+  };
+}
+
+// Keep the rendered file and its inputs in the register
+export async function recordIssuedLetter(input: IssuedLetterInput): Promise<IssuedLetter> {
+  const { reference } = input;
+  const safeReference = reference.referenceNumber.replace(/[^A-Za-z0-9-]/g, '_');
+  const filePath = path.join(ISSUED_LETTERS_DIR, `${safeReference}${path.extname(input.fileName)}`);
+
+  await fs.promises.mkdir(ISSUED_LETTERS_DIR, { recursive: true });
+  await fs.promises.writeFile(filePath, input.file);
+
+  return await storage.createIssuedLetter({
+    referenceNumber: reference.referenceNumber,
+    letterNumber: reference.letterNumber,
+    verificationCode: reference.verification.code,
+    departmentId: reference.departmentId,
+    templateId: input.templateId,
+    templateVersionId: input.templateVersionId,
+    templateName: input.templateName,
+    fieldValues: Object.fromEntries(Object.entries(input.fieldValues).map(([key, value]) => [key, value == null ? '' : String(value)])),
+    fileName: input.fileName,
+    filePath,
+    mimeType: input.mimeType,
+    fileHash: crypto.createHash('sha256').update(input.file).digest('hex'),
+    issuedBy: input.issuedBy,
+  });
+}
+
+export async function readIssuedLetterFile(letter: IssuedLetter): Promise<Buffer> {
+  return await fs.promises.readFile(letter.filePath);
+}
+
+// Move letters stored under the public uploads folder by earlier versions into the private one
+export async function relocateIssuedLetterFiles(): Promise<number> {
+  const letters = await storage.getIssuedLetterFilesUnder(LEGACY_ISSUED_LETTERS_DIR + path.sep);
+  if (letters.length === 0) return 0;
+
+  await fs.promises.mkdir(ISSUED_LETTERS_DIR, { recursive: true });
+  let moved = 0;
+  for (const letter of letters) {
+    const filePath = path.join(ISSUED_LETTERS_DIR, path.basename(letter.filePath));
+    try {
+      await fs.promises.rename(letter.filePath, filePath);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+    await storage.updateIssuedLetterFilePath(letter.id, filePath);
+    moved++;
+  }
+  return moved;
+}
@@ -0,0 +1,244 @@
+import fs from "fs";
+import mammoth from "mammoth";
+import { storage } from "./storage";
+import { PDFGenerator, type PDFGenerationOptions } from "./pdf-generator";
+import { WordGenerator } from "./word-generator";
+import { FieldTransformations } from "./field-transformations";
+import type { AuthorityLetterTemplate } from "@shared/schema";
+
+// Layout used for templates that have neither a Word file nor their own HTML yet
+export function generateHTMLFromFields(
+  templateName: string,
+  fields: Array<{ fieldName: string; fieldLabel: string; fieldType: string }>,
+  fieldValues: Record<string, any>,
+  processedValues: Record<string, any>
+): string {
+  const currentDate = new Date().toLocaleDateString('en-GB');
+  
+  let fieldRows = '';
+  fields.forEach(field => {
+    const value = processedValues[field.fieldName] ?? fieldValues[field.fieldName] ?? `<span style="color:#999">##${field.fieldName}##</span>`;
+    fieldRows += `
+    <tr>
+      <td style="font-weight:bold; width:35%; padding:8px; border:1px solid #ccc;">${field.fieldLabel.replace(/^##|##$/g, '') || field.fieldName}</td>
+      <td style="padding:8px; border:1px solid #ccc;">${value}</td>
+    </tr>`;
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<style>
+  body {
+    font-family: 'Times New Roman', serif;
+    font-size: 12pt;
+    line-height: 1.6;
+    margin: 0;
+    padding: 40px 60px;
+    color: #000;
+  }
+  h1 { font-size: 16pt; text-align: center; margin-bottom: 20px; font-weight: bold; text-decoration: underline; }
+  .date { text-align: right; margin-bottom: 20px; }
+  table { width: 100%; border-collapse: collapse; margin: 20px 0; }
+  td { padding: 8px; border: 1px solid #ccc; vertical-align: top; }
+  .footer { margin-top: 40px; }
+  .note { color: #666; font-size: 10pt; margin-top: 20px; font-style: italic; }
+</style>
+</head>
+<body>
+  <h1>${templateName}</h1>
+  <div class="date">${currentDate}</div>
+  <table>${fieldRows}
+  </table>
+  <div class="note">Please upload a Word template (.docx) in the Manage Authority Letters page for a formatted letter layout.</div>
+</body>
+</html>`;
+}
+
+// Letter printed for departments that generate from their own fields instead of a template
+export const DEPARTMENT_LETTER_TEMPLATE = `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <title>Authority Letter</title>
+    <style>
+        body {
+            font-family: 'Times New Roman', serif;
+            font-size: 14px;
+            line-height: 1.6;
+            margin: 30px;
+            max-width: 800px;
+            color: #000;
+        }
+        .header {
+            text-align: center;
+            font-weight: bold;
+            font-size: 18px;
+            margin-bottom: 30px;
+        }
+        .date {
+            text-align: right;
+            margin-bottom: 30px;
+        }
+        .subject {
+            font-weight: bold;
+            margin: 20px 0;
+            text-decoration: underline;
+        }
+        .content {
+            margin-bottom: 30px;
+            text-align: justify;
+        }
+        .note {
+            font-weight: bold;
+            margin: 20px 0;
+        }
+        .signature {
+            margin-top: 40px;
+        }
+    </style>
+</head>
+<body>
+    <div class="date">
+        Date: ##Currunt Date##
+    </div>
+    
+    <div class="header">
+        SUB- LETTER AUTHORISING M/S MARUTI COURIER
+    </div>
+    
+    <div class="content">
+        <p>Dear Sir/Ma'am,</p>
+        
+        <p>We hereby authorize M/s. Maruti Courier to provide the services of transporting the System of Light Microfinance Pvt. Ltd. from Head Office Ahmedabad to its branch office Light Microfinance "##Address##" said authority is only for transporting the computer system to the above-mentioned branch address and not any other purpose.</p>
+        
+        <div class="note">
+            *NOTE: - NOT FOR SALE THIS ##Asset Name## ARE FOR ONLY OFFICE USE. (Asset Value ##Value## /-)
+        </div>
+        
+        <p>Thanking you,</p>
+        
+        <div class="signature">
+            <p>FOR LIGHT MICROFINANCE PVT. LTD</p>
+            <br><br>
+            <p>_____________________________</p>
+            <p>Jigar Jodhani</p>
+            <p>[Manager - IT]</p>
+        </div>
+    </div>
+</body>
+</html>`;
+
+// Transformation settings of a template's fields, keyed by field name
+export async function getTemplateFieldConfigs(templateId: number) {
+  const fields = await storage.getAllAuthorityLetterFields(undefined, templateId);
+  const fieldConfigs: Record<string, any> = {};
+  fields.forEach(field => {
+    fieldConfigs[field.fieldName] = {
+      fieldType: field.fieldType,
+      textTransform: field.textTransform,
+      numberFormat: field.numberFormat,
+      dateFormat: field.dateFormat
+    };
+  });
+  return { fields, fieldConfigs };
+}
+
+/**
+ * Render an authority letter to PDF: through its Word layout when it has one, otherwise
+ * from the HTML content, or from a layout built out of the fields while that is still the default.
+ */
+export async function renderTemplatePdf(
+  template: AuthorityLetterTemplate,
+  fieldValues: Record<string, any>,
+  options: Pick<PDFGenerationOptions, 'verification' | 'watermark'> = {}
+): Promise<Buffer> {
+  const { fields, fieldConfigs } = await getTemplateFieldConfigs(template.id);
+  
+  let htmlForPdf = '';
+  
+  if (template.wordTemplateUrl && fs.existsSync(template.wordTemplateUrl)) {
+    try {
+      const wordBuffer = await WordGenerator.generateWordDocument({
+        templatePath: template.wordTemplateUrl,
+        fieldValues: fieldValues,
+        fieldConfigs: fieldConfigs
+      });
+      
+      const mammothResult = await mammoth.convertToHtml(
+        { buffer: wordBuffer },
+        {
+          styleMap: [
+            "p[style-name='Title'] => h1:fresh",
+            "p[style-name='Heading 1'] => h1:fresh",
+            "p[style-name='Heading 2'] => h2:fresh",
+            "p[style-name='Heading 3'] => h3:fresh",
+            "b => strong",
+            "i => em",
+            "u => u",
+            "table => table.word-table"
+          ]
+        }
+      );
+      
+      htmlForPdf = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<style>
+  body {
+    font-family: 'Times New Roman', serif;
+    font-size: 12pt;
+    line-height: 1.6;
+    margin: 0;
+    padding: 40px 60px;
+    color: #000;
+  }
+  h1 { font-size: 18pt; text-align: center; margin-bottom: 20px; }
+  h2 { font-size: 14pt; margin-bottom: 10px; }
+  h3 { font-size: 12pt; margin-bottom: 8px; }
+  p { margin: 6px 0; }
+  table, table.word-table { width: 100%; border-collapse: collapse; margin: 10px 0; }
+  table td, table th, table.word-table td, table.word-table th {
+    border: 1px solid #000;
+    padding: 6px 8px;
+    text-align: left;
+    vertical-align: top;
+  }
+  table th, table.word-table th { background-color: #f0f0f0; font-weight: bold; }
+  strong, b { font-weight: bold; }
+  em, i { font-style: italic; }
+  u { text-decoration: underline; }
+  img { max-width: 100%; height: auto; }
+</style>
+</head>
+<body>
+${mammothResult.value}
+</body>
+</html>`;
+    } catch (wordError) {
+      console.error('Error generating PDF from Word template:', wordError);
+      htmlForPdf = template.templateContent;
+    }
+  } else {
+    const isDefaultContent = !template.templateContent || 
+      template.templateContent.includes('Default authority letter template content');
+    
+    if (isDefaultContent && fields.length > 0) {
+      const processedValues = FieldTransformations.transformAllFields(fieldValues, fieldConfigs);
+      htmlForPdf = generateHTMLFromFields(template.templateName, fields, fieldValues, processedValues);
+    } else {
+      htmlForPdf = template.templateContent;
+    }
+  }
+  
+  return await PDFGenerator.generatePDF({
+    templateContent: htmlForPdf,
+    fieldValues: fieldValues,
+    fieldConfigs: fieldConfigs,
+    fileName: `authority_letter_${Date.now()}.pdf`,
+    ...options
+  });
+}
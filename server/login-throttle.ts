@@ -0,0 +1,51 @@
+import { storage } from "./storage";
+
+export interface ThrottleRule {
+  maxAttempts: number;
+  windowMinutes: number;
+  lockMinutes: number;
+}
+
+// Failed sign-ins (wrong password or two-factor code) per account and per client address.
+// The address limit is higher because offices share one public address.
+export const LOGIN_ACCOUNT_RULE: ThrottleRule = { maxAttempts: 5, windowMinutes: 15, lockMinutes: 15 };
+export const LOGIN_IP_RULE: ThrottleRule = { maxAttempts: 20, windowMinutes: 15, lockMinutes: 15 };
+
+// Public endpoints count every request, not just failures
+export const FORGOT_PASSWORD_RULE: ThrottleRule = { maxAttempts: 5, windowMinutes: 15, lockMinutes: 15 };
+export const CONFIRM_RECEIVED_RULE: ThrottleRule = { maxAttempts: 30, windowMinutes: 15, lockMinutes: 15 };
+export const VERIFY_LETTER_RULE: ThrottleRule = { maxAttempts: 30, windowMinutes: 15, lockMinutes: 15 };
+
+export const ACCOUNT_THROTTLE_PREFIX = 'login:account:';
+
+export const accountThrottleKey = (email: string): string => {
+  return `${ACCOUNT_THROTTLE_PREFIX}${email.trim().toLowerCase()}`;
+};
+
+export const ipThrottleKey = (scope: string, ipAddress: string | null): string => {
+  return `${scope}:ip:${ipAddress || 'unknown'}`;
+};
+
+// Latest lock among the keys, or null when none of them is locked
+export async function getLockedUntil(keys: string[]): Promise<Date | null> {
+  const now = Date.now();
+  const locks = (await storage.getAuthThrottles(keys))
+    .map(throttle => throttle.lockedUntil?.getTime() ?? 0)
+    .filter(lockedUntil => lockedUntil > now);
+  return locks.length > 0 ? new Date(Math.max(...locks)) : null;
+}
+
+// Count an attempt against a key. Returns when the lock ends if this attempt started one.
+export async function recordAttempt(key: string, rule: ThrottleRule): Promise<Date | null> {
+  const throttle = await storage.recordAuthThrottleAttempt(key, rule);
+  return throttle.attempts === rule.maxAttempts ? throttle.lockedUntil : null;
+}
+
+export function getRetryAfterSeconds(lockedUntil: Date): number {
+  return Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000));
+}
+
+export function getLockedMessage(lockedUntil: Date): string {
+  const minutes = Math.ceil(getRetryAfterSeconds(lockedUntil) / 60);
+  return `Too many attempts. Please try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+}
@@ -0,0 +1,255 @@
+import nodemailer from "nodemailer";
+import type { Transporter } from "nodemailer";
+import fs from "fs";
+import { storage } from "./storage";
+import { DEFAULT_EMAIL_TEMPLATES } from "./email-templates";
+import { renderEmailTemplate, type EmailEventKey } from "@shared/email-events";
+import type { EmailOutboxMessage, SmtpSettings } from "@shared/schema";
+
+export interface MailAttachment {
+  filename: string;
+  path: string;
+  contentType?: string;
+}
+
+export interface MailRecipients {
+  to: string | string[];
+  cc?: string | string[] | null;
+  replyTo?: string | null;
+  attachments?: MailAttachment[];
+  // Links the message to the record it is about, e.g. ('courier', 12)
+  entityType?: string;
+  entityId?: string | number;
+  // Clear the stored body once delivered, for messages that carry credentials or reset links
+  redactOnSend?: boolean;
+  // Use this department's template override when one exists
+  departmentId?: number | null;
+}
+
+export type EmailTemplateSource = 'department' | 'global' | 'default';
+
+const BATCH_SIZE = 20;
+const BASE_RETRY_DELAY_MS = 2 * 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const REDACTED_BODY = '<p>[Content removed after delivery]</p>';
+const REDACTED_FAILED_BODY = '<p>[Content removed after the last delivery attempt failed]</p>';
+
+function toAddressList(value?: string | string[] | null): string[] {
+  if (!value) return [];
+  const list = Array.isArray(value) ? value : value.split(',');
+  return Array.from(new Set(list.map(email => email.trim()).filter(email => email.includes('@'))));
+}
+
+export function isSmtpConfigured(settings?: SmtpSettings): settings is SmtpSettings {
+  return !!(settings && settings.host && settings.username && settings.password);
+}
+
+/**
+ * Sends all application email. Messages are rendered from the event templates,
+ * written to the email_outbox table and delivered by processOutbox(), which
+ * retries failed sends with exponential backoff.
+ */
+export class MailService {
+  private transporter: Transporter | null = null;
+  private transporterKey = '';
+  private processing = false;
+  private rerunRequested = false;
+
+  private getFromAddress(settings: SmtpSettings): string {
+    const address = settings.fromEmail || settings.username || 'noreply@courier-system.com';
+    return settings.fromName ? `${settings.fromName} <${address}>` : address;
+  }
+
+  private getTransporter(settings: SmtpSettings): Transporter {
+    // Rebuild only when the SMTP settings change
+    const key = JSON.stringify([settings.host, settings.port, settings.username, settings.password, settings.useSSL, settings.useTLS]);
+    if (this.transporter && this.transporterKey === key) {
+      return this.transporter;
+    }
+
+    const transportConfig: any = {
+      host: settings.host,
+      port: settings.port || 587,
+      auth: {
+        user: settings.username,
+        pass: settings.password,
+      }
+    };
+
+    if (settings.useSSL) {
+      transportConfig.secure = true;
+    } else if (settings.useTLS) {
+      transportConfig.secure = false;
+      transportConfig.requireTLS = true;
+    } else {
+      transportConfig.secure = false;
+    }
+
+    this.transporter = nodemailer.createTransport(transportConfig);
+    this.transporterKey = key;
+    return this.transporter;
+  }
+
+  /**
+   * Find the template for an event: the department override first, then the
+   * global override, then the built-in default.
+   */
+  async resolveTemplate(eventKey: EmailEventKey, departmentId?: number | null): Promise<{ subject: string; html: string; source: EmailTemplateSource }> {
+    if (departmentId) {
+      const departmentOverride = await storage.getEmailTemplate(eventKey, departmentId);
+      if (departmentOverride) {
+        return { subject: departmentOverride.subject, html: departmentOverride.htmlBody, source: 'department' };
+      }
+    }
+
+    const globalOverride = await storage.getEmailTemplate(eventKey);
+    if (globalOverride) {
+      return { subject: globalOverride.subject, html: globalOverride.htmlBody, source: 'global' };
+    }
+
+    return { ...DEFAULT_EMAIL_TEMPLATES[eventKey], source: 'default' };
+  }
+
+  /**
+   * Render the subject and body for an event.
+   */
+  async renderTemplate(eventKey: EmailEventKey, data: Record<string, unknown>, departmentId?: number | null): Promise<{ subject: string; html: string }> {
+    const template = await this.resolveTemplate(eventKey, departmentId);
+    return {
+      subject: renderEmailTemplate(template.subject, data, false),
+      html: renderEmailTemplate(template.html, data),
+    };
+  }
+
+  /**
+   * Render an event template and queue it for delivery.
+   * Returns null when there is no valid recipient.
+   */
+  async sendTemplate(eventKey: EmailEventKey, data: Record<string, unknown>, recipients: MailRecipients): Promise<EmailOutboxMessage | null> {
+    const { subject, html } = await this.renderTemplate(eventKey, data, recipients.departmentId);
+    return this.queue({ eventKey, subject, html, ...recipients });
+  }
+
+  /**
+   * Queue a message and trigger delivery in the background.
+   */
+  async queue(message: MailRecipients & { subject: string; html: string; eventKey?: string }): Promise<EmailOutboxMessage | null> {
+    const to = toAddressList(message.to);
+    if (to.length === 0) return null;
+
+    const cc = toAddressList(message.cc).filter(email => !to.includes(email));
+    const attachments = (message.attachments || []).filter(attachment => fs.existsSync(attachment.path));
+
+    const queued = await storage.createEmailOutboxMessage({
+      eventKey: message.eventKey || null,
+      toEmails: to.join(','),
+      ccEmails: cc.length > 0 ? cc.join(',') : null,
+      replyTo: message.replyTo || null,
+      subject: message.subject,
+      html: message.html,
+      attachments: attachments.length > 0 ? attachments : null,
+      redactOnSend: message.redactOnSend ?? false,
+      entityType: message.entityType || null,
+      entityId: message.entityId !== undefined ? String(message.entityId) : null,
+    });
+
+    void this.processOutbox();
+    return queued;
+  }
+
+  /**
+   * Send immediately without queueing, verifying the connection first.
+   * Used by the SMTP test so configuration errors are reported to the admin directly.
+   */
+  async sendNow(message: { to: string; subject: string; html: string }): Promise<void> {
+    const settings = await storage.getSmtpSettings();
+    if (!isSmtpConfigured(settings)) {
+      throw new Error('SMTP settings incomplete. Please configure host, username, and password.');
+    }
+
+    const transporter = this.getTransporter(settings);
+    await transporter.verify();
+    await transporter.sendMail({
+      from: this.getFromAddress(settings),
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+    });
+  }
+
+  /**
+   * Deliver due messages from the outbox. Safe to call often; overlapping calls
+   * are folded into a single run.
+   */
+  async processOutbox(): Promise<void> {
+    if (this.processing) {
+      this.rerunRequested = true;
+      return;
+    }
+    this.processing = true;
+
+    try {
+      do {
+        this.rerunRequested = false;
+
+        // Leave messages queued until SMTP is configured rather than burning their attempts
+        const settings = await storage.getSmtpSettings();
+        if (!isSmtpConfigured(settings)) return;
+
+        const transporter = this.getTransporter(settings);
+        let batch = await storage.claimDueEmailOutboxMessages(BATCH_SIZE);
+
+        while (batch.length > 0) {
+          for (const message of batch) {
+            await this.deliver(transporter, settings, message);
+          }
+          batch = await storage.claimDueEmailOutboxMessages(BATCH_SIZE);
+        }
+      } while (this.rerunRequested);
+    } catch (error) {
+      console.error('Error processing email outbox:', error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async deliver(transporter: Transporter, settings: SmtpSettings, message: EmailOutboxMessage): Promise<void> {
+    try {
+      const attachments = ((message.attachments as MailAttachment[] | null) || [])
+        .filter(attachment => fs.existsSync(attachment.path));
+
+      await transporter.sendMail({
+        from: this.getFromAddress(settings),
+        to: message.toEmails,
+        cc: message.ccEmails || undefined,
+        replyTo: message.replyTo || undefined,
+        subject: message.subject,
+        html: message.html,
+        attachments: attachments.length > 0 ? attachments : undefined,
+      });
+
+      await storage.updateEmailOutboxMessage(message.id, {
+        status: 'sent',
+        sentAt: new Date(),
+        nextAttemptAt: null,
+        lastError: null,
+        ...(message.redactOnSend ? { html: REDACTED_BODY } : {}),
+      });
+      console.log(`📧 Email ${message.id} (${message.eventKey || 'message'}) sent to ${message.toEmails}`);
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+      const exhausted = message.attempts >= message.maxAttempts;
+      const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (message.attempts - 1), MAX_RETRY_DELAY_MS);
+
+      await storage.updateEmailOutboxMessage(message.id, {
+        status: exhausted ? 'failed' : 'queued',
+        nextAttemptAt: exhausted ? null : new Date(Date.now() + delay),
+        lastError,
+        ...(exhausted && message.redactOnSend ? { html: REDACTED_FAILED_BODY } : {}),
+      });
+      console.error(`❌ Email ${message.id} attempt ${message.attempts}/${message.maxAttempts} failed: ${lastError}`);
+    }
+  }
+}
+
+export const mailService = new MailService();
@@ -0,0 +1,123 @@
+import * as client from "openid-client";
+import { storage } from "./storage";
+import { createOidcLoginState, verifyOidcLoginState } from "./auth";
+import type { OidcSettings } from "@shared/schema";
+
+const LOGIN_STATE_COOKIE = 'oidc_login';
+const LOGIN_STATE_MAX_AGE_MS = 10 * 60 * 1000;
+const DISCOVERY_CACHE_MS = 60 * 60 * 1000;
+
+// Discovery documents are cached per provider configuration so each login does not refetch them
+const discoveryCache = new Map<string, { config: Promise<client.Configuration>; expiresAt: number }>();
+
+async function getOidcConfiguration(settings: OidcSettings): Promise<client.Configuration> {
+  const cacheKey = JSON.stringify([settings.issuerUrl, settings.clientId, settings.clientSecret, settings.updatedAt]);
+  const cached = discoveryCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.config;
+  }
+
+  const issuer = new URL(settings.issuerUrl!);
+  // Plain http is only allowed for a provider on this machine, such as a local mock IdP
+  const isLocal = ['localhost', '127.0.0.1', '[::1]'].includes(issuer.hostname);
+  const config = client.discovery(
+    issuer,
+    settings.clientId!,
+    undefined,
+    settings.clientSecret ? client.ClientSecretPost(settings.clientSecret) : client.None(),
+    { timeout: 10, execute: isLocal && issuer.protocol === 'http:' ? [client.allowInsecureRequests] : [] },
+  );
+  discoveryCache.clear();
+  discoveryCache.set(cacheKey, { config, expiresAt: Date.now() + DISCOVERY_CACHE_MS });
+  config.catch(() => discoveryCache.delete(cacheKey));
+  return config;
+}
+
+async function getEnabledOidcSettings(): Promise<OidcSettings> {
+  const settings = await storage.getOidcSettings();
+  if (!settings || !settings.enabled) {
+    throw new Error('OpenID Connect login is not enabled');
+  }
+  if (!settings.issuerUrl || !settings.clientId) {
+    throw new Error('OpenID Connect issuer or client ID is not configured');
+  }
+  return settings;
+}
+
+function getCallbackUrl(req: any): string {
+  const protocol = req.get('x-forwarded-proto') || req.protocol;
+  return `${protocol}://${req.get('host')}/api/oidc/callback`;
+}
+
+function readCookie(req: any, name: string): string | undefined {
+  const cookies: string = req.headers.cookie || '';
+  for (const cookie of cookies.split(';')) {
+    const [key, ...value] = cookie.trim().split('=');
+    if (key === name) return decodeURIComponent(value.join('='));
+  }
+  return undefined;
+}
+
+export function clearOidcLoginState(res: any) {
+  res.clearCookie(LOGIN_STATE_COOKIE, { path: '/api/oidc' });
+}
+
+// Authorization URL for the provider. State, nonce and PKCE verifier go into a signed cookie.
+export async function startOidcLogin(req: any, res: any): Promise<string> {
+  const settings = await getEnabledOidcSettings();
+  const config = await getOidcConfiguration(settings);
+
+  const codeVerifier = client.randomPKCECodeVerifier();
+  const state = client.randomState();
+  const nonce = client.randomNonce();
+
+  res.cookie(LOGIN_STATE_COOKIE, createOidcLoginState({ state, nonce, codeVerifier }), {
+    httpOnly: true,
+    secure: req.secure || req.get('x-forwarded-proto') === 'https',
+    // Lax so the cookie comes back on the provider's top-level redirect
+    sameSite: 'lax',
+    path: '/api/oidc',
+    maxAge: LOGIN_STATE_MAX_AGE_MS,
+  });
+
+  return client.buildAuthorizationUrl(config, {
+    redirect_uri: getCallbackUrl(req),
+    scope: settings.scopes || 'openid email profile',
+    code_challenge: await client.calculatePKCECodeChallenge(codeVerifier),
+    code_challenge_method: 'S256',
+    state,
+    nonce,
+  }).href;
+}
+
+/**
+ * Exchange the authorization code from the provider's redirect and return the verified
+ * ID token claims merged with the userinfo response, along with the settings used.
+ */
+export async function completeOidcLogin(req: any, res: any): Promise<{ claims: Record<string, unknown>; settings: OidcSettings }> {
+  const loginStateToken = readCookie(req, LOGIN_STATE_COOKIE);
+  clearOidcLoginState(res);
+
+  const loginState = loginStateToken ? verifyOidcLoginState(loginStateToken) : null;
+  if (!loginState) {
+    throw new Error('Sign-in has expired, please try again');
+  }
+
+  const settings = await getEnabledOidcSettings();
+  const config = await getOidcConfiguration(settings);
+
+  const currentUrl = new URL(req.originalUrl, getCallbackUrl(req));
+  const tokens = await client.authorizationCodeGrant(config, currentUrl, {
+    pkceCodeVerifier: loginState.codeVerifier,
+    expectedState: loginState.state,
+    expectedNonce: loginState.nonce,
+    idTokenExpected: true,
+  });
+
+  const idTokenClaims = tokens.claims()!;
+  // Group and profile claims are often only in the userinfo response
+  const userInfo = config.serverMetadata().userinfo_endpoint
+    ? await client.fetchUserInfo(config, tokens.access_token, idTokenClaims.sub)
+    : {};
+  return { claims: { ...userInfo, ...idTokenClaims }, settings };
+}
@@ -0,0 +1,42 @@
+import { storage } from "./storage";
+import { comparePassword } from "./auth";
+import { DEFAULT_PASSWORD_POLICY, getPasswordPolicyErrors, isPasswordExpired, type PasswordPolicy } from "@shared/password-policy";
+
+export async function getPasswordPolicy(): Promise<PasswordPolicy> {
+  const settings = await storage.getSecuritySettings();
+  return settings?.passwordPolicy ?? DEFAULT_PASSWORD_POLICY;
+}
+
+/**
+ * Problems with a new password under the current policy; empty when it can be used.
+ * For an existing user the current password and, with a history depth of N, the
+ * N - 1 passwords before it may not be reused.
+ */
+export async function validateNewPassword(password: string, user?: { id: string; password: string | null }): Promise<string[]> {
+  const policy = await getPasswordPolicy();
+  const errors = getPasswordPolicyErrors(password, policy);
+  if (errors.length > 0 || !user || policy.historyDepth === 0) {
+    return errors;
+  }
+
+  const previousHashes = [
+    ...(user.password ? [user.password] : []),
+    ...(await storage.getPasswordHistory(user.id, policy.historyDepth - 1)),
+  ];
+  for (const hash of previousHashes) {
+    if (await comparePassword(password, hash)) {
+      return [`Password must not match any of your last ${policy.historyDepth} passwords`];
+    }
+  }
+  return [];
+}
+
+// Response body for a password rejected by the policy
+export function passwordPolicyError(errors: string[]) {
+  return { message: errors.join('. '), code: 'PASSWORD_POLICY', errors };
+}
+
+// Whether a user signing in with a password must change it first
+export async function isPasswordChangeRequired(user: { passwordChangedAt?: Date | null; createdAt?: Date | null }): Promise<boolean> {
+  return isPasswordExpired(user.passwordChangedAt ?? user.createdAt, await getPasswordPolicy());
+}
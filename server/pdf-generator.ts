@@ -2,12 +2,20 @@ import puppeteer from 'puppeteer';
 import fs from 'fs';
 import path from 'path';
 import { FieldTransformations, FieldTransformOptions } from './field-transformations';
+import type { LetterVerification } from './letter-register';
 
 export interface PDFGenerationOptions {
   templateContent: string;
   fieldValues: Record<string, any>;
   fieldConfigs?: Record<string, FieldTransformOptions>;
   fileName?: string;
+  // Custom page size such as a shipping label; defaults to A4
+  page?: { width: string; height: string; margin?: string };
+  // QR code and code for the public letter check. Printed at ##verificationQr## when the
+  // template has that placeholder, otherwise as a block at the end of the letter.
+  verification?: LetterVerification;
+  // Text printed diagonally across every page, e.g. "DRAFT" on letters awaiting approval
+  watermark?: string;
 }
 
 export class PDFGenerator {
@@ -35,6 +43,33 @@ export class PDFGenerator {
     return result;
   }
 
+  private static addVerificationBlock(html: string, verification: LetterVerification): string {
+    const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    const qrImage = `<img src="data:image/png;base64,${verification.qrCode.toString('base64')}" alt="Letter verification QR code" style="width: 22mm; height: 22mm;" />`;
+
+    if (html.includes('##verificationQr##')) {
+      return html.replace(/##verificationQr##/g, () => qrImage);
+    }
+
+    const block = `
+    <div style="display: flex; align-items: center; gap: 10px; margin-top: 20px; page-break-inside: avoid; font-family: Arial, sans-serif; font-size: 9px; color: #333;">
+        ${qrImage}
+        <div>
+            <div>Verification code: <strong>${escape(verification.code)}</strong></div>
+            <div>Scan the code or visit ${escape(verification.url)} to check this letter.</div>
+        </div>
+    </div>`;
+    return html.includes('</body>') ? html.replace('</body>', () => `${block}\n</body>`) : html + block;
+  }
+
+  // A fixed element is repeated on every printed page
+  private static addWatermark(html: string, text: string): string {
+    const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    const overlay = `
+    <div style="position: fixed; top: 50%; left: 50%; transform: translate(-50%, -50%) rotate(-35deg); font-family: Arial, sans-serif; font-size: 120px; font-weight: bold; letter-spacing: 12px; color: rgba(220, 38, 38, 0.18); white-space: nowrap; pointer-events: none; z-index: 9999;">${escaped}</div>`;
+    return html.includes('</body>') ? html.replace('</body>', () => `${overlay}\n</body>`) : html + overlay;
+  }
+
   private static getDefaultHTMLTemplate(): string {
     return `
 <!DOCTYPE html>
@@ -191,7 +226,13 @@ We hereby authorize M/s. ##courier_company## to provide the services of transpor
       const template = options.templateContent || this.getDefaultHTMLTemplate();
       
       // Replace placeholders with actual values using field configurations
-      const htmlContent = this.replacePlaceholders(template, options.fieldValues, options.fieldConfigs || {});
+      let htmlContent = this.replacePlaceholders(template, options.fieldValues, options.fieldConfigs || {});
+      if (options.verification) {
+        htmlContent = this.addVerificationBlock(htmlContent, options.verification);
+      }
+      if (options.watermark) {
+        htmlContent = this.addWatermark(htmlContent, options.watermark);
+      }
       
       // Launch Puppeteer with system Chromium
       browser = await puppeteer.launch({
@@ -216,7 +257,17 @@ We hereby authorize M/s. ##courier_company## to provide the services of transpor
       // Set content and generate PDF
       await page.setContent(htmlContent);
       
-      const pdfBuffer = await page.pdf({
+      const pdfBuffer = await page.pdf(options.page ? {
+        width: options.page.width,
+        height: options.page.height,
+        printBackground: true,
+        margin: {
+          top: options.page.margin || '0',
+          right: options.page.margin || '0',
+          bottom: options.page.margin || '0',
+          left: options.page.margin || '0'
+        }
+      } : {
         format: 'A4',
         printBackground: true,
         margin: {
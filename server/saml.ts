@@ -0,0 +1,119 @@
+import crypto from "crypto";
+import { SAML, generateServiceProviderMetadata, ValidateInResponseTo, type SamlConfig } from "@node-saml/node-saml";
+import { storage } from "./storage";
+import type { SamlSettings } from "@shared/schema";
+
+// Identifies the IdP session behind a local session, so single logout can find it again
+export interface SamlSessionInfo {
+  nameId: string;
+  nameIdFormat: string | null;
+  sessionIndex: string | null;
+}
+
+const toPemCertificate = (value: string): string => {
+  const cert = value.trim();
+  return cert.includes('-----BEGIN CERTIFICATE-----') ? cert : `-----BEGIN CERTIFICATE-----\n${cert}\n-----END CERTIFICATE-----`;
+};
+
+function getSamlUrls(req: any, settings?: SamlSettings | null) {
+  const protocol = req.get('x-forwarded-proto') || req.protocol;
+  const baseUrl = `${protocol}://${req.get('host')}`;
+  return {
+    baseUrl,
+    callbackUrl: settings?.callbackUrl || `${baseUrl}/api/saml/callback`,
+    logoutCallbackUrl: `${baseUrl}/api/saml/logout/callback`,
+    issuer: settings?.entityId || `${baseUrl}/api/saml/metadata`,
+  };
+}
+
+// Requests are only signed once both halves of the SP key pair are stored
+const getSigningOptions = (settings: SamlSettings) => {
+  if (!settings.signRequests || !settings.spPrivateKey || !settings.spCertificate) {
+    return {};
+  }
+  return { privateKey: settings.spPrivateKey, publicCert: toPemCertificate(settings.spCertificate), signatureAlgorithm: 'sha256' as const };
+};
+
+/**
+ * Problem with an SP key pair pasted into the settings, or null when the key parses and
+ * belongs to the certificate.
+ */
+export function getSpKeyPairError(privateKey: string, certificate: string): string | null {
+  try {
+    const key = crypto.createPrivateKey(privateKey);
+    const cert = new crypto.X509Certificate(toPemCertificate(certificate));
+    if (!cert.checkPrivateKey(key)) {
+      return 'The private key does not match the SP certificate';
+    }
+    if (new Date(cert.validTo) < new Date()) {
+      return 'The SP certificate has expired';
+    }
+    return null;
+  } catch (error: any) {
+    return `Invalid SP key or certificate: ${error.message}`;
+  }
+}
+
+// Signature validation can only be skipped (unverified = true) while test mode is on
+export async function createSamlInstance(req: any, unverified = false) {
+  const settings = await storage.getSamlSettings();
+  if (!settings || !settings.enabled) {
+    throw new Error('SAML SSO is not enabled');
+  }
+  if (!settings.ssoUrl && !settings.entryPoint) {
+    throw new Error('SAML SSO URL or Entry Point is not configured');
+  }
+  if (unverified && !settings.testMode) {
+    throw new Error('SAML test mode is not enabled');
+  }
+  if (!settings.x509Certificate && !settings.testMode) {
+    throw new Error('SAML IdP certificate is not configured');
+  }
+
+  const { callbackUrl, logoutCallbackUrl, issuer } = getSamlUrls(req, settings);
+  const entryPoint = settings.entryPoint || settings.ssoUrl || '';
+
+  const samlOptions: SamlConfig = {
+    callbackUrl,
+    entryPoint,
+    issuer,
+    // Without a separate logout URL the IdP is expected to accept logout requests at its login URL
+    logoutUrl: settings.sloUrl || entryPoint,
+    logoutCallbackUrl,
+    wantAssertionsSigned: false,
+    wantAuthnResponseSigned: false,
+    disableRequestedAuthnContext: true,
+    validateInResponseTo: ValidateInResponseTo.never,
+    allowCreate: true,
+    maxAssertionAgeMs: 0,
+    idpCert: settings.x509Certificate && !unverified ? [toPemCertificate(settings.x509Certificate)] : 'none',
+    ...getSigningOptions(settings),
+  };
+
+  return { saml: new SAML(samlOptions), settings };
+}
+
+// SP metadata for the IdP: ACS and single logout endpoints, plus the signing certificate when requests are signed
+export function generateSamlMetadata(req: any, settings: SamlSettings | undefined): string {
+  const { callbackUrl, logoutCallbackUrl, issuer } = getSamlUrls(req, settings);
+  const signing = settings ? getSigningOptions(settings) : {};
+  return generateServiceProviderMetadata({
+    issuer,
+    callbackUrl,
+    logoutCallbackUrl,
+    identifierFormat: settings?.nameIdFormat || 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress',
+    wantAssertionsSigned: false,
+    ...(signing.privateKey && signing.publicCert ? { ...signing, publicCerts: signing.publicCert } : {}),
+  });
+}
+
+// Sign-out URL at the IdP for a local session that was started by SAML SSO
+export async function getSamlLogoutUrl(req: any, session: SamlSessionInfo): Promise<string> {
+  const { saml, settings } = await createSamlInstance(req);
+  return saml.getLogoutUrlAsync({
+    issuer: settings.ssoUrl || '',
+    nameID: session.nameId,
+    nameIDFormat: session.nameIdFormat || 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress',
+    sessionIndex: session.sessionIndex ?? undefined,
+  }, '', {});
+}
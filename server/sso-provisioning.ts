@@ -0,0 +1,92 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { hashPassword } from "./auth";
+import { OIDC_DEFAULT_CLAIMS, SAML_DEFAULT_ATTRIBUTES, parseSsoAttributeMapping, resolveSsoUser, type SsoUserAttributes } from "@shared/sso-mapping";
+import type { OidcSettings, SamlSettings, User } from "@shared/schema";
+
+export interface SsoProvisioningResult {
+  user: User;
+  created: boolean;
+  // Human-readable list of fields re-synced from the IdP, for the audit log
+  changes: string[];
+}
+
+// node-saml puts assertion attributes both on the profile and under profile.attributes
+function getProfileAttributes(profile: Record<string, any>): Record<string, unknown> {
+  return { ...profile, ...(profile.attributes ?? {}) };
+}
+
+/**
+ * Find or create the local user for a validated SAML profile and re-sync name, role
+ * and departments from it. Returns null when the assertion carries no email address.
+ */
+export async function provisionSamlUser(profile: Record<string, any>, settings: SamlSettings): Promise<SsoProvisioningResult | null> {
+  const mapping = parseSsoAttributeMapping(settings.attributeMapping);
+  return provisionSsoUser(resolveSsoUser(getProfileAttributes(profile), profile.nameID, mapping, SAML_DEFAULT_ATTRIBUTES), mapping.defaultRole);
+}
+
+// Same as provisionSamlUser for the verified ID token and userinfo claims of an OpenID Connect login
+export async function provisionOidcUser(claims: Record<string, unknown>, settings: OidcSettings): Promise<SsoProvisioningResult | null> {
+  const mapping = parseSsoAttributeMapping(settings.claimMapping);
+  return provisionSsoUser(resolveSsoUser(claims, undefined, mapping, OIDC_DEFAULT_CLAIMS), mapping.defaultRole);
+}
+
+async function provisionSsoUser(attributes: SsoUserAttributes, defaultRole: string): Promise<SsoProvisioningResult | null> {
+  if (!attributes.email) {
+    return null;
+  }
+
+  // Departments removed since the mapping was saved are skipped
+  let departmentIds = attributes.departmentIds;
+  if (departmentIds && departmentIds.length > 0) {
+    const activeIds = new Set((await storage.getAllDepartments()).map(department => department.id));
+    departmentIds = departmentIds.filter(id => activeIds.has(id));
+  }
+
+  let user = await storage.getUserByEmail(attributes.email);
+  const changes: string[] = [];
+  // Break-glass accounts only sign in with their own credentials, never through an IdP
+  if (user?.emergencyAccessExpiresAt) {
+    throw new Error('This account can only sign in with its emergency access credentials');
+  }
+
+  if (!user) {
+    // SSO users never sign in with this password; it only fills the column
+    const hashedPassword = await hashPassword(crypto.randomBytes(32).toString('hex'));
+    user = await storage.createUser({
+      name: attributes.name || attributes.email.split('@')[0],
+      email: attributes.email,
+      password: hashedPassword,
+      role: attributes.role ?? defaultRole,
+      departmentId: departmentIds?.[0] ?? null,
+    });
+    if (departmentIds && departmentIds.length > 0) {
+      await storage.assignUserToDepartments(user.id, departmentIds);
+    }
+    return { user, created: true, changes };
+  }
+
+  const update: { name?: string; role?: string; departmentId?: number | null } = {};
+  if (attributes.name && attributes.name !== user.name) {
+    update.name = attributes.name;
+    changes.push(`Name: "${user.name || 'None'}" → "${attributes.name}"`);
+  }
+  if (attributes.role && attributes.role !== user.role) {
+    update.role = attributes.role;
+    changes.push(`Role: "${user.role || 'None'}" → "${attributes.role}"`);
+  }
+  if (departmentIds) {
+    const currentIds = await storage.getUserDepartments(user.id);
+    const unchanged = currentIds.length === departmentIds.length && departmentIds.every(id => currentIds.includes(id));
+    if (!unchanged) {
+      await storage.assignUserToDepartments(user.id, departmentIds);
+      update.departmentId = departmentIds[0] ?? null;
+      changes.push(`Departments: [${currentIds.join(', ')}] → [${departmentIds.join(', ')}]`);
+    }
+  }
+
+  if (Object.keys(update).length > 0) {
+    user = (await storage.updateUser(user.id, update)) ?? user;
+  }
+  return { user, created: false, changes };
+}
@@ -1,27 +1,49 @@
 import {
   users,
+  issuedLetters,
+  letterSequences,
+  letterApprovalRequests,
+  letterBulkJobs,
   departments,
   couriers,
+  courierCustomFieldValues,
+  courierStatusHistory,
   receivedCouriers,
   fields,
   departmentFields,
   smtpSettings,
   samlSettings,
+  oidcSettings,
   auditLogs,
   authorityLetterTemplates,
+  authorityLetterTemplateVersions,
   authorityLetterFields,
   fieldDropdownOptions,
   branches,
   userPolicies,
+  permissionGrants,
+  authSessions,
+  userTwoFactor,
+  authThrottles,
+  consumedAuthChallenges,
+  passwordHistory,
+  securitySettings,
   userDepartments,
   passwordResetTokens,
   vendors,
+  courierTrackingEvents,
+  emailTemplates,
+  emailOutbox,
+  escalationRules,
+  courierEscalations,
   type User,
   type UpsertUser,
   type Department,
   type InsertDepartment,
   type Courier,
   type InsertCourier,
+  type CourierCustomFieldValueDetail,
+  type CourierStatusHistory,
   type ReceivedCourier,
   type InsertReceivedCourier,
   type Field,
@@ -30,21 +52,149 @@ import {
   type InsertSmtpSettings,
   type SamlSettings,
   type InsertSamlSettings,
+  type OidcSettings,
+  type InsertOidcSettings,
   type AuditLog,
   type InsertAuditLog,
   type AuthorityLetterTemplate,
   type InsertAuthorityLetterTemplate,
+  type AuthorityLetterTemplateVersion,
+  type InsertAuthorityLetterTemplateVersion,
   type AuthorityLetterField,
+  type IssuedLetter,
+  type InsertIssuedLetter,
+  type LetterApprovalRequest,
+  type InsertLetterApprovalRequest,
+  type LetterBulkJob,
+  type InsertLetterBulkJob,
   type InsertAuthorityLetterField,
   type Branch,
   type InsertBranch,
-  type UserPolicy,
-  type InsertUserPolicy,
+  type PermissionGrant,
+  type InsertPermissionGrant,
+  type AuthSession,
+  type InsertAuthSession,
+  type UserTwoFactor,
+  type AuthThrottle,
+  type SecuritySettings,
+  type SecuritySettingsUpdate,
   type Vendor,
   type InsertVendor,
+  type CourierTrackingEvent,
+  type InsertCourierTrackingEvent,
+  type EmailTemplate,
+  type InsertEmailTemplate,
+  type EmailOutboxMessage,
+  type InsertEmailOutboxMessage,
+  type EscalationRule,
+  type InsertEscalationRule,
+  type CourierEscalation,
+  type InsertCourierEscalation,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, ilike, or, sql, lt, gt, inArray, isNull, isNotNull } from "drizzle-orm";
+import { MAX_PASSWORD_HISTORY } from "@shared/password-policy";
+import { canTransitionCourierStatus, isConfirmationTokenExpired, ConfirmationTokenUsedError, InvalidStatusTransitionError, type CourierStatus, type CourierType } from "@shared/courier-status";
+import { eq, and, desc, asc, ilike, or, sql, lt, lte, gt, inArray, isNull, isNotNull, notInArray, getTableColumns, type AnyColumn } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+
+export const RECEIVED_COURIER_SORT_KEYS = ['createdAt', 'receivedDate', 'podNumber', 'fromLocation', 'courierVendor', 'receiverName', 'status'] as const;
+export type ReceivedCourierSortKey = typeof RECEIVED_COURIER_SORT_KEYS[number];
+
+// A Map, so a client-supplied key such as "constructor" finds nothing rather than an object property
+const RECEIVED_COURIER_SORT_COLUMNS = new Map<string, AnyColumn>([
+  ['createdAt', receivedCouriers.createdAt],
+  ['receivedDate', receivedCouriers.receivedDate],
+  ['podNumber', receivedCouriers.podNumber],
+  ['fromLocation', receivedCouriers.fromLocation],
+  ['courierVendor', receivedCouriers.courierVendor],
+  ['receiverName', receivedCouriers.receiverName],
+  ['status', receivedCouriers.status],
+]);
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type CourierCustomFieldValueInput = { fieldId: number; value: string };
+
+/**
+ * Save a courier's custom field values inside its write. Submitted values replace the
+ * stored set; without them a department change still drops the values of fields the new
+ * department doesn't have.
+ */
+async function writeCourierCustomFieldValues(
+  tx: DbTransaction,
+  courierId: number,
+  departmentId: number | null | undefined,
+  values?: CourierCustomFieldValueInput[]
+) {
+  if (values) {
+    await tx.delete(courierCustomFieldValues).where(eq(courierCustomFieldValues.courierId, courierId));
+    if (values.length > 0) {
+      await tx.insert(courierCustomFieldValues).values(
+        values.map(({ fieldId, value }) => ({ courierId, fieldId, value }))
+      );
+    }
+  } else if (departmentId !== undefined) {
+    await tx.delete(courierCustomFieldValues).where(and(
+      eq(courierCustomFieldValues.courierId, courierId),
+      departmentId === null ? undefined : notInArray(
+        courierCustomFieldValues.fieldId,
+        tx.select({ fieldId: departmentFields.fieldId }).from(departmentFields).where(eq(departmentFields.departmentId, departmentId))
+      )
+    ));
+  }
+}
+
+export interface ReceivedCourierFilters {
+  status?: string;
+  departmentIds?: number[];
+  vendor?: string;
+  fromLocation?: string;
+  search?: string;
+  limit?: number;
+  offset?: number;
+  startDate?: string;
+  endDate?: string;
+  sortBy?: ReceivedCourierSortKey;
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface IssuedLetterFilters {
+  status?: string;
+  departmentIds?: number[];
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export type IssuedLetterListItem = IssuedLetter & { issuerName: string | null; departmentName: string | null; templateVersionNumber: number | null };
+
+export interface LetterApprovalFilters {
+  status?: string;
+  departmentIds?: number[];
+  requestedBy?: string;
+  limit?: number;
+}
+
+export type LetterApprovalListItem = LetterApprovalRequest & {
+  templateName: string | null;
+  departmentName: string | null;
+  requesterName: string | null;
+  reviewerName: string | null;
+  referenceNumber: string | null;
+};
+
+// Version history rows leave the content out; it is only loaded for a single version or a diff
+export type TemplateVersionListItem = Omit<AuthorityLetterTemplateVersion, 'templateContent'> & { createdByName: string | null };
+
+export interface CourierTransitionOptions<T> {
+  changedBy?: string | null;
+  remarks?: string | null;
+  changes?: Partial<T>;
+  // Only apply the transition while the row still holds this unexpired confirmation token
+  confirmationToken?: string;
+  // Sent couriers only: replaces the custom field values in the same transaction
+  customFieldValues?: CourierCustomFieldValueInput[];
+}
 
 export interface IStorage {
   // User operations
@@ -55,8 +205,12 @@ export interface IStorage {
   createUser(user: { name: string; email: string; employeeCode?: string | null; mobileNumber?: string | null; password: string; role: string; departmentId?: number | null }): Promise<User>;
   updateUser(id: string, userData: { name?: string; email?: string; employeeCode?: string | null; mobileNumber?: string | null; role?: string; departmentId?: number | null; password?: string; profileImageUrl?: string | null; firstName?: string | null; lastName?: string | null }): Promise<User | undefined>;
   updateUserPassword(email: string, hashedPassword: string): Promise<boolean>;
+  getPasswordHistory(userId: string, limit: number): Promise<string[]>;
   deleteUser(id: string): Promise<boolean>;
   upsertUser(user: UpsertUser): Promise<User>;
+  getEmergencyAccounts(): Promise<User[]>;
+  saveEmergencyAccount(account: { email: string; name: string; password: string; role: string; expiresAt: Date }): Promise<User>;
+  setEmergencyAccessExpiry(id: string, expiresAt: Date): Promise<User | undefined>;
   getUserDepartments(userId: string): Promise<number[]>;
   assignUserToDepartments(userId: string, departmentIds: number[]): Promise<void>;
   
@@ -72,32 +226,38 @@ export interface IStorage {
   // Courier operations
   getAllCouriers(filters?: {
     status?: string;
-    departmentId?: number;
+    departmentIds?: number[];
     search?: string;
     limit?: number;
     offset?: number;
     startDate?: string;
     endDate?: string;
-  }): Promise<{ couriers: (Courier & { department?: Department; creator?: User })[]; total: number }>;
-  getCourierById(id: number): Promise<(Courier & { department?: Department; creator?: User }) | undefined>;
-  createCourier(courier: InsertCourier): Promise<Courier>;
-  updateCourier(id: number, courier: Partial<InsertCourier>): Promise<Courier | undefined>;
-  deleteCourier(id: number): Promise<boolean>;
-  restoreCourier(id: number): Promise<boolean>;
+  }): Promise<{ couriers: (Courier & { department?: Department; creator?: User; customFieldValues: CourierCustomFieldValueDetail[] })[]; total: number }>;
+  getCourierById(id: number): Promise<(Courier & { department?: Department; creator?: User; customFieldValues: CourierCustomFieldValueDetail[] }) | undefined>;
+  createCourier(courier: InsertCourier, customFieldValues?: CourierCustomFieldValueInput[]): Promise<Courier>;
+  createBulkCouriers(courierList: InsertCourier[]): Promise<Courier[]>;
+  updateCourier(id: number, courier: Partial<InsertCourier>, customFieldValues?: CourierCustomFieldValueInput[]): Promise<Courier | undefined>;
+  deleteCourier(id: number, changedBy?: string | null): Promise<boolean>;
+  restoreCourier(id: number, changedBy?: string | null): Promise<boolean>;
+  transitionCourierStatus(id: number, toStatus: CourierStatus, options?: CourierTransitionOptions<InsertCourier>): Promise<Courier | undefined>;
+  getCourierByConfirmationToken(token: string): Promise<Courier | undefined>;
+  
+  // Courier custom field value operations
+  getCourierCustomFieldValues(courierIds: number[]): Promise<Map<number, CourierCustomFieldValueDetail[]>>;
   
   // Received Courier operations
-  getAllReceivedCouriers(filters?: {
-    departmentId?: number;
-    search?: string;
-    limit?: number;
-    offset?: number;
-    startDate?: string;
-    endDate?: string;
-  }): Promise<(ReceivedCourier & { department?: Department; creator?: User })[]>;
+  getAllReceivedCouriers(filters?: ReceivedCourierFilters): Promise<{ couriers: (ReceivedCourier & { department?: Department; creator?: User })[]; total: number }>;
   getReceivedCourierById(id: number): Promise<ReceivedCourier | undefined>;
   createReceivedCourier(courier: InsertReceivedCourier): Promise<ReceivedCourier>;
+  createBulkReceivedCouriers(courierList: InsertReceivedCourier[]): Promise<ReceivedCourier[]>;
+  findExistingPodNumbers(courierType: CourierType, podNumbers: string[]): Promise<string[]>;
   updateReceivedCourier(id: number, courier: Partial<InsertReceivedCourier>): Promise<ReceivedCourier | undefined>;
   deleteReceivedCourier(id: number): Promise<boolean>;
+  transitionReceivedCourierStatus(id: number, toStatus: CourierStatus, options?: CourierTransitionOptions<InsertReceivedCourier>): Promise<ReceivedCourier | undefined>;
+  getReceivedCourierByConfirmationToken(token: string): Promise<ReceivedCourier | undefined>;
+  
+  // Courier status history operations
+  getCourierStatusHistory(courierType: CourierType, courierId: number): Promise<(CourierStatusHistory & { changedByUser?: User })[]>;
   
   // Field operations
   getAllFields(): Promise<Field[]>;
@@ -114,16 +274,32 @@ export interface IStorage {
   getSmtpSettings(): Promise<SmtpSettings | undefined>;
   updateSmtpSettings(settings: InsertSmtpSettings): Promise<SmtpSettings>;
   
+  // Email template operations
+  getEmailTemplates(): Promise<EmailTemplate[]>;
+  getEmailTemplate(eventKey: string, departmentId?: number | null): Promise<EmailTemplate | undefined>;
+  upsertEmailTemplate(template: InsertEmailTemplate): Promise<EmailTemplate>;
+  deleteEmailTemplate(eventKey: string, departmentId?: number | null): Promise<boolean>;
+  
+  // Email outbox operations
+  createEmailOutboxMessage(message: InsertEmailOutboxMessage): Promise<EmailOutboxMessage>;
+  getEmailOutboxMessages(filters?: { status?: string; limit?: number; offset?: number }): Promise<{ messages: Omit<EmailOutboxMessage, 'html'>[]; total: number }>;
+  getEmailOutboxMessage(id: number): Promise<EmailOutboxMessage | undefined>;
+  claimDueEmailOutboxMessages(limit: number): Promise<EmailOutboxMessage[]>;
+  updateEmailOutboxMessage(id: number, data: Partial<EmailOutboxMessage>): Promise<EmailOutboxMessage | undefined>;
+  requeueEmailOutboxMessage(id: number): Promise<EmailOutboxMessage | undefined>;
+  
   // SAML SSO operations
   getSamlSettings(): Promise<SamlSettings | undefined>;
   updateSamlSettings(settings: InsertSamlSettings): Promise<SamlSettings>;
+  getOidcSettings(): Promise<OidcSettings | undefined>;
+  updateOidcSettings(settings: InsertOidcSettings, updatedBy: string | null): Promise<OidcSettings>;
   
   // Audit log operations
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
   getAuditLogs(limit?: number, offset?: number, startDate?: string, endDate?: string): Promise<{ logs: (AuditLog & { user?: User })[]; total: number }>;
   
   // Statistics
-  getCourierStats(departmentId?: number): Promise<{
+  getCourierStats(departmentIds?: number[]): Promise<{
     total: number;
     onTheWay: number;
     completed: number;
@@ -132,32 +308,65 @@ export interface IStorage {
     thisMonthCompleted: number;
   }>;
   
-  getMonthlyStats(departmentId?: number): Promise<Array<{
+  getMonthlyStats(departmentIds?: number[]): Promise<Array<{
     month: string;
     onTheWay: number;
     completed: number;
   }>>;
   
-  getBranchStats(departmentId?: number): Promise<Array<{
+  getBranchStats(departmentIds?: number[]): Promise<Array<{
     name: string;
     count: number;
     recentActivity: string;
   }>>;
   
   // Authority Letter Template operations
-  getAllAuthorityLetterTemplates(departmentId?: number): Promise<AuthorityLetterTemplate[]>;
+  getAllAuthorityLetterTemplates(departmentId?: number | number[]): Promise<AuthorityLetterTemplate[]>;
   getAuthorityLetterTemplate(id: number): Promise<AuthorityLetterTemplate | undefined>;
-  createAuthorityLetterTemplate(template: InsertAuthorityLetterTemplate): Promise<AuthorityLetterTemplate>;
+  createAuthorityLetterTemplate(template: InsertAuthorityLetterTemplate, createdBy: string | null): Promise<AuthorityLetterTemplate>;
   updateAuthorityLetterTemplate(id: number, template: Partial<InsertAuthorityLetterTemplate>): Promise<AuthorityLetterTemplate | undefined>;
   deleteAuthorityLetterTemplate(id: number): Promise<boolean>;
+  getUnversionedAuthorityLetterTemplates(): Promise<AuthorityLetterTemplate[]>;
+  
+  // Authority Letter Template version operations
+  getAuthorityLetterTemplateVersions(templateId: number): Promise<TemplateVersionListItem[]>;
+  getAuthorityLetterTemplateVersion(id: number): Promise<AuthorityLetterTemplateVersion | undefined>;
+  createAuthorityLetterTemplateVersion(version: InsertAuthorityLetterTemplateVersion): Promise<AuthorityLetterTemplateVersion>;
+  publishAuthorityLetterTemplateVersion(id: number, publishedBy: string | null): Promise<{ template: AuthorityLetterTemplate; version: AuthorityLetterTemplateVersion } | undefined>;
   
   // Authority Letter Field operations
-  getAllAuthorityLetterFields(departmentId?: number): Promise<AuthorityLetterField[]>;
+  getAllAuthorityLetterFields(departmentId?: number | number[], templateId?: number): Promise<AuthorityLetterField[]>;
   getAuthorityLetterField(id: number): Promise<AuthorityLetterField | undefined>;
   createAuthorityLetterField(field: InsertAuthorityLetterField): Promise<AuthorityLetterField>;
   updateAuthorityLetterField(id: number, field: Partial<InsertAuthorityLetterField>): Promise<AuthorityLetterField | undefined>;
   deleteAuthorityLetterField(id: number): Promise<boolean>;
   
+  // Issued letter register operations
+  nextLetterNumber(scope: string): Promise<number>;
+  createIssuedLetter(letter: InsertIssuedLetter): Promise<IssuedLetter>;
+  getIssuedLetter(id: number): Promise<IssuedLetter | undefined>;
+  getIssuedLetterByVerificationCode(code: string): Promise<(IssuedLetter & { departmentName: string | null }) | undefined>;
+  getIssuedLetters(filters?: IssuedLetterFilters): Promise<{ letters: IssuedLetterListItem[]; total: number }>;
+  updateIssuedLetterStatus(id: number, status: string, reason: string, changedBy: string): Promise<IssuedLetter | undefined>;
+  getIssuedLetterFilesUnder(directory: string): Promise<Pick<IssuedLetter, 'id' | 'filePath'>[]>;
+  updateIssuedLetterFilePath(id: number, filePath: string): Promise<void>;
+
+  // Letter approval (maker-checker) operations
+  createLetterApprovalRequest(request: InsertLetterApprovalRequest & { templateVersionId: number | null; departmentId: number | null; requestedBy: string }): Promise<LetterApprovalRequest>;
+  getLetterApprovalRequest(id: number): Promise<LetterApprovalRequest | undefined>;
+  getLetterApprovalRequests(filters?: LetterApprovalFilters): Promise<LetterApprovalListItem[]>;
+  decideLetterApprovalRequest(id: number, status: 'approved' | 'rejected', comment: string | null, reviewedBy: string): Promise<LetterApprovalRequest | undefined>;
+  setLetterApprovalIssuedLetter(id: number, issuedLetterId: number): Promise<LetterApprovalRequest | undefined>;
+
+  // Bulk letter job operations
+  createLetterBulkJob(job: InsertLetterBulkJob): Promise<LetterBulkJob>;
+  getLetterBulkJob(id: number): Promise<LetterBulkJob | undefined>;
+  getLetterBulkJobs(createdBy: string, limit?: number): Promise<Omit<LetterBulkJob, 'rows'>[]>;
+  claimNextLetterBulkJob(): Promise<LetterBulkJob | undefined>;
+  updateLetterBulkJob(id: number, data: Partial<LetterBulkJob>): Promise<LetterBulkJob | undefined>;
+  failInterruptedLetterBulkJobs(): Promise<number>;
+  moveLetterBulkJobFiles(fromDirectory: string, toDirectory: string): Promise<number>;
+  
   // Field Dropdown Options operations
   getFieldDropdownOptions(fieldId: number): Promise<any[]>;
   createFieldDropdownOption(option: { fieldId: number; departmentId: number; optionValue: string; optionLabel: string; sortOrder?: number }): Promise<any>;
@@ -192,6 +401,50 @@ export interface IStorage {
   updateVendor(id: number, vendor: Partial<InsertVendor>): Promise<Vendor | undefined>;
   deleteVendor(id: number): Promise<boolean>;
   updateVendorStatus(id: number, isActive: boolean): Promise<Vendor | undefined>;
+
+  // Escalation rule operations
+  getEscalationRules(): Promise<EscalationRule[]>;
+  getEscalationRuleById(id: number): Promise<EscalationRule | undefined>;
+  createEscalationRule(rule: InsertEscalationRule): Promise<EscalationRule>;
+  updateEscalationRule(id: number, rule: Partial<InsertEscalationRule>): Promise<EscalationRule | undefined>;
+  deleteEscalationRule(id: number): Promise<boolean>;
+  getCourierEscalations(courierId: number): Promise<CourierEscalation[]>;
+
+  // Permission grant operations
+  getPermissionGrants(): Promise<PermissionGrant[]>;
+  getPermissionGrantsForUser(role: string, departmentIds: number[]): Promise<PermissionGrant[]>;
+  setPermissionGrant(grant: InsertPermissionGrant): Promise<PermissionGrant>;
+  deletePermissionGrant(role: string, departmentId: number | null, permission: string): Promise<boolean>;
+
+  // Auth session operations
+  createAuthSession(session: InsertAuthSession): Promise<AuthSession>;
+  getActiveAuthSession(id: string): Promise<AuthSession | undefined>;
+  rotateAuthSessionToken(refreshTokenHash: string, newRefreshTokenHash: string, client: { userAgent?: string | null; ipAddress?: string | null }): Promise<AuthSession | undefined>;
+  getActiveAuthSessions(userId: string): Promise<AuthSession[]>;
+  revokeAuthSession(id: string, userId?: string): Promise<boolean>;
+  revokeAllAuthSessions(userId: string, exceptSessionId?: string): Promise<number>;
+  revokeSamlAuthSessions(nameId: string, sessionIndex?: string): Promise<{ id: string; userId: string }[]>;
+
+  // Two-factor authentication operations
+  getUserTwoFactor(userId: string): Promise<UserTwoFactor | undefined>;
+  setPendingTwoFactorSecret(userId: string, secret: string): Promise<void>;
+  enableTwoFactor(userId: string, secret: string, backupCodeHashes: string[], usedStep: number): Promise<boolean>;
+  recordTwoFactorStep(userId: string, step: number): Promise<boolean>;
+  consumeBackupCode(userId: string, codeHash: string): Promise<boolean>;
+  replaceBackupCodes(userId: string, backupCodeHashes: string[]): Promise<boolean>;
+  disableTwoFactor(userId: string): Promise<boolean>;
+
+  // Login throttling operations
+  getAuthThrottles(keys: string[]): Promise<AuthThrottle[]>;
+  recordAuthThrottleAttempt(key: string, rule: { maxAttempts: number; windowMinutes: number; lockMinutes: number }): Promise<AuthThrottle>;
+  clearAuthThrottle(key: string): Promise<AuthThrottle | undefined>;
+  getLockedAuthThrottles(keyPrefix: string): Promise<AuthThrottle[]>;
+  consumeAuthChallenge(jti: string, expiresAt: Date): Promise<boolean>;
+  deleteExpiredAuthChallenges(): Promise<number>;
+
+  // Security settings operations
+  getSecuritySettings(): Promise<SecuritySettings | undefined>;
+  updateSecuritySettings(settings: SecuritySettingsUpdate, updatedBy: string): Promise<SecuritySettings>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -267,6 +520,40 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getEmergencyAccounts(): Promise<User[]> {
+    return await db.select().from(users)
+      .where(isNotNull(users.emergencyAccessExpiresAt))
+      .orderBy(desc(users.emergencyAccessExpiresAt));
+  }
+
+  // Create a break-glass account, or issue new credentials and a new window to an existing one
+  async saveEmergencyAccount(account: { email: string; name: string; password: string; role: string; expiresAt: Date }): Promise<User> {
+    const values = {
+      name: account.name,
+      email: account.email,
+      password: account.password,
+      passwordChangedAt: new Date(),
+      role: account.role as any,
+      emergencyAccessExpiresAt: account.expiresAt,
+    };
+    const [user] = await db.insert(users)
+      .values(values)
+      .onConflictDoUpdate({
+        target: users.email,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+    return user;
+  }
+
+  async setEmergencyAccessExpiry(id: string, expiresAt: Date): Promise<User | undefined> {
+    const [user] = await db.update(users)
+      .set({ emergencyAccessExpiresAt: expiresAt, updatedAt: new Date() })
+      .where(and(eq(users.id, id), isNotNull(users.emergencyAccessExpiresAt)))
+      .returning();
+    return user;
+  }
+
   async getUserDepartments(userId: string): Promise<number[]> {
     const departments = await db.select({ departmentId: userDepartments.departmentId })
       .from(userDepartments)
@@ -465,13 +752,13 @@ export class DatabaseStorage implements IStorage {
   // Courier operations
   async getAllCouriers(filters: {
     status?: string;
-    departmentId?: number;
+    departmentIds?: number[];
     search?: string;
     limit?: number;
     offset?: number;
     startDate?: string;
     endDate?: string;
-  } = {}): Promise<{ couriers: (Courier & { department?: Department; creator?: User })[]; total: number }> {
+  } = {}): Promise<{ couriers: (Courier & { department?: Department; creator?: User; customFieldValues: CourierCustomFieldValueDetail[] })[]; total: number }> {
     let query = db
       .select({
         id: couriers.id,
@@ -493,8 +780,12 @@ export class DatabaseStorage implements IStorage {
         receivedRemarks: couriers.receivedRemarks,
         podCopyPath: couriers.podCopyPath,
         confirmationToken: couriers.confirmationToken,
+        confirmationTokenExpiresAt: couriers.confirmationTokenExpiresAt,
         reminderEmailSent: couriers.reminderEmailSent,
         reminderEmailSentAt: couriers.reminderEmailSentAt,
+        trackingLastCheckedAt: couriers.trackingLastCheckedAt,
+        escalationLevel: couriers.escalationLevel,
+        lastEscalatedAt: couriers.lastEscalatedAt,
         createdAt: couriers.createdAt,
         updatedAt: couriers.updatedAt,
         department: departments,
@@ -510,8 +801,8 @@ export class DatabaseStorage implements IStorage {
       conditions.push(eq(couriers.status, filters.status as any));
     }
 
-    if (filters.departmentId && filters.departmentId !== 0) {
-      conditions.push(eq(couriers.departmentId, filters.departmentId));
+    if (filters.departmentIds) {
+      conditions.push(inArray(couriers.departmentId, filters.departmentIds));
     }
 
     if (filters.search) {
@@ -521,7 +812,8 @@ export class DatabaseStorage implements IStorage {
           ilike(couriers.podNo, `%${filters.search}%`),
           ilike(couriers.vendor, `%${filters.search}%`),
           ilike(couriers.toBranch, `%${filters.search}%`),
-          ilike(couriers.email, `%${filters.search}%`)
+          ilike(couriers.email, `%${filters.search}%`),
+          sql`EXISTS (SELECT 1 FROM ${courierCustomFieldValues} WHERE ${courierCustomFieldValues.courierId} = ${couriers.id} AND ${courierCustomFieldValues.value} ILIKE ${'%' + filters.search + '%'})`
         )
       );
     }
@@ -558,17 +850,20 @@ export class DatabaseStorage implements IStorage {
     const countResult = await countQuery;
     const count = countResult[0]?.count || 0;
 
+    const customValues = await this.getCourierCustomFieldValues(results.map(r => r.id));
+
     return {
       couriers: results.map(r => ({
         ...r,
         department: r.department || undefined,
-        creator: r.creator || undefined
+        creator: r.creator || undefined,
+        customFieldValues: customValues.get(r.id) || []
       })),
       total: Number(count),
     };
   }
 
-  async getCourierById(id: number): Promise<(Courier & { department?: Department; creator?: User }) | undefined> {
+  async getCourierById(id: number): Promise<(Courier & { department?: Department; creator?: User; customFieldValues: CourierCustomFieldValueDetail[] }) | undefined> {
     const [result] = await db
       .select({
         id: couriers.id,
@@ -590,8 +885,12 @@ export class DatabaseStorage implements IStorage {
         receivedRemarks: couriers.receivedRemarks,
         podCopyPath: couriers.podCopyPath,
         confirmationToken: couriers.confirmationToken,
+        confirmationTokenExpiresAt: couriers.confirmationTokenExpiresAt,
         reminderEmailSent: couriers.reminderEmailSent,
         reminderEmailSentAt: couriers.reminderEmailSentAt,
+        trackingLastCheckedAt: couriers.trackingLastCheckedAt,
+        escalationLevel: couriers.escalationLevel,
+        lastEscalatedAt: couriers.lastEscalatedAt,
         createdAt: couriers.createdAt,
         updatedAt: couriers.updatedAt,
         department: departments,
@@ -602,45 +901,171 @@ export class DatabaseStorage implements IStorage {
       .leftJoin(users, eq(couriers.createdBy, users.id))
       .where(eq(couriers.id, id));
     
-    return result ? {
+    if (!result) return undefined;
+
+    const customValues = await this.getCourierCustomFieldValues([result.id]);
+
+    return {
       ...result,
       department: result.department || undefined,
-      creator: result.creator || undefined
-    } : undefined;
+      creator: result.creator || undefined,
+      customFieldValues: customValues.get(result.id) || []
+    };
   }
 
-  async createCourier(courier: InsertCourier): Promise<Courier> {
-    const [newCourier] = await db.insert(couriers).values(courier).returning();
-    return newCourier;
+  async createCourier(courier: InsertCourier, customFieldValues?: CourierCustomFieldValueInput[]): Promise<Courier> {
+    return await db.transaction(async (tx) => {
+      const [newCourier] = await tx.insert(couriers).values(courier).returning();
+      await writeCourierCustomFieldValues(tx, newCourier.id, undefined, customFieldValues);
+      await tx.insert(courierStatusHistory).values({
+        courierType: 'courier',
+        courierId: newCourier.id,
+        fromStatus: null,
+        toStatus: newCourier.status || 'on_the_way',
+        changedBy: newCourier.createdBy,
+        remarks: 'Courier created',
+      });
+      return newCourier;
+    });
   }
 
-  async updateCourier(id: number, courier: Partial<InsertCourier>): Promise<Courier | undefined> {
-    const [updatedCourier] = await db
-      .update(couriers)
-      .set({ ...courier, updatedAt: new Date() })
-      .where(eq(couriers.id, id))
-      .returning();
-    return updatedCourier;
+  async createBulkCouriers(courierList: InsertCourier[]): Promise<Courier[]> {
+    if (courierList.length === 0) return [];
+
+    return await db.transaction(async (tx) => {
+      const newCouriers = await tx.insert(couriers).values(courierList).returning();
+      await tx.insert(courierStatusHistory).values(newCouriers.map(courier => ({
+        courierType: 'courier',
+        courierId: courier.id,
+        fromStatus: null,
+        toStatus: courier.status || 'on_the_way',
+        changedBy: courier.createdBy,
+        remarks: 'Courier imported',
+      })));
+      return newCouriers;
+    });
   }
 
-  async deleteCourier(id: number): Promise<boolean> {
-    const [updatedCourier] = await db
-      .update(couriers)
-      .set({ status: 'deleted', updatedAt: new Date() })
-      .where(eq(couriers.id, id))
-      .returning();
+  async updateCourier(id: number, courier: Partial<InsertCourier>, customFieldValues?: CourierCustomFieldValueInput[]): Promise<Courier | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updatedCourier] = await tx
+        .update(couriers)
+        .set({ ...courier, updatedAt: new Date() })
+        .where(eq(couriers.id, id))
+        .returning();
+      if (updatedCourier) {
+        await writeCourierCustomFieldValues(tx, id, courier.departmentId, customFieldValues);
+      }
+      return updatedCourier;
+    });
+  }
+
+  async deleteCourier(id: number, changedBy?: string | null): Promise<boolean> {
+    const updatedCourier = await this.transitionCourierStatus(id, 'deleted', { changedBy, remarks: 'Courier deleted' });
     return !!updatedCourier;
   }
 
-  async restoreCourier(id: number): Promise<boolean> {
-    const [updatedCourier] = await db
-      .update(couriers)
-      .set({ status: 'on_the_way', updatedAt: new Date() })
-      .where(eq(couriers.id, id))
-      .returning();
+  async restoreCourier(id: number, changedBy?: string | null): Promise<boolean> {
+    const updatedCourier = await this.transitionCourierStatus(id, 'on_the_way', { changedBy, remarks: 'Courier restored' });
     return !!updatedCourier;
   }
 
+  async transitionCourierStatus(id: number, toStatus: CourierStatus, options: CourierTransitionOptions<InsertCourier> = {}): Promise<Courier | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock the row so concurrent updates cannot skip a transition check
+      const [current] = await tx
+        .select({ status: couriers.status, confirmationToken: couriers.confirmationToken, confirmationTokenExpiresAt: couriers.confirmationTokenExpiresAt })
+        .from(couriers)
+        .where(eq(couriers.id, id))
+        .for('update');
+      if (!current) return undefined;
+
+      if (options.confirmationToken !== undefined &&
+          (current.confirmationToken !== options.confirmationToken || isConfirmationTokenExpired(current.confirmationTokenExpiresAt))) {
+        throw new ConfirmationTokenUsedError();
+      }
+
+      if (!canTransitionCourierStatus(current.status, toStatus)) {
+        throw new InvalidStatusTransitionError(current.status, toStatus);
+      }
+
+      const [updatedCourier] = await tx
+        .update(couriers)
+        .set({ ...options.changes, status: toStatus, updatedAt: new Date() })
+        .where(eq(couriers.id, id))
+        .returning();
+      await writeCourierCustomFieldValues(tx, id, options.changes?.departmentId, options.customFieldValues);
+
+      await tx.insert(courierStatusHistory).values({
+        courierType: 'courier',
+        courierId: id,
+        fromStatus: current.status,
+        toStatus,
+        changedBy: options.changedBy || null,
+        remarks: options.remarks || null,
+      });
+
+      return updatedCourier;
+    });
+  }
+
+  async getCourierByConfirmationToken(token: string): Promise<Courier | undefined> {
+    const [courier] = await db.select().from(couriers).where(eq(couriers.confirmationToken, token));
+    return courier;
+  }
+
+  // Courier status history operations
+  async getCourierStatusHistory(courierType: CourierType, courierId: number): Promise<(CourierStatusHistory & { changedByUser?: User })[]> {
+    const results = await db
+      .select({
+        id: courierStatusHistory.id,
+        courierType: courierStatusHistory.courierType,
+        courierId: courierStatusHistory.courierId,
+        fromStatus: courierStatusHistory.fromStatus,
+        toStatus: courierStatusHistory.toStatus,
+        changedBy: courierStatusHistory.changedBy,
+        remarks: courierStatusHistory.remarks,
+        changedAt: courierStatusHistory.changedAt,
+        changedByUser: users,
+      })
+      .from(courierStatusHistory)
+      .leftJoin(users, eq(courierStatusHistory.changedBy, users.id))
+      .where(and(eq(courierStatusHistory.courierType, courierType), eq(courierStatusHistory.courierId, courierId)))
+      .orderBy(courierStatusHistory.changedAt, courierStatusHistory.id);
+
+    return results.map(r => ({
+      ...r,
+      changedByUser: r.changedByUser || undefined
+    }));
+  }
+
+  // Courier custom field value operations
+  async getCourierCustomFieldValues(courierIds: number[]): Promise<Map<number, CourierCustomFieldValueDetail[]>> {
+    const valuesByCourier = new Map<number, CourierCustomFieldValueDetail[]>();
+    if (courierIds.length === 0) return valuesByCourier;
+
+    const rows = await db
+      .select({
+        courierId: courierCustomFieldValues.courierId,
+        fieldId: courierCustomFieldValues.fieldId,
+        fieldName: fields.name,
+        fieldType: fields.type,
+        value: courierCustomFieldValues.value,
+      })
+      .from(courierCustomFieldValues)
+      .innerJoin(fields, eq(courierCustomFieldValues.fieldId, fields.id))
+      .where(inArray(courierCustomFieldValues.courierId, courierIds))
+      .orderBy(fields.name);
+
+    rows.forEach(({ courierId, ...value }) => {
+      const list = valuesByCourier.get(courierId) || [];
+      list.push(value);
+      valuesByCourier.set(courierId, list);
+    });
+
+    return valuesByCourier;
+  }
+
   // Field operations
   async getAllFields(): Promise<Field[]> {
     return await db.select().from(fields).orderBy(fields.name);
@@ -692,6 +1117,119 @@ export class DatabaseStorage implements IStorage {
     return newSettings;
   }
 
+  // Email template operations
+  async getEmailTemplates(): Promise<EmailTemplate[]> {
+    return await db.select().from(emailTemplates).orderBy(emailTemplates.eventKey, emailTemplates.departmentId);
+  }
+
+  // Returns the override saved for exactly this scope; a null department is the global override
+  async getEmailTemplate(eventKey: string, departmentId: number | null = null): Promise<EmailTemplate | undefined> {
+    const [template] = await db.select().from(emailTemplates).where(and(
+      eq(emailTemplates.eventKey, eventKey),
+      departmentId ? eq(emailTemplates.departmentId, departmentId) : isNull(emailTemplates.departmentId)
+    ));
+    return template;
+  }
+
+  async upsertEmailTemplate(template: InsertEmailTemplate): Promise<EmailTemplate> {
+    return await db.transaction(async (tx) => {
+      const departmentId = template.departmentId ?? null;
+      const [existing] = await tx.select({ id: emailTemplates.id }).from(emailTemplates).where(and(
+        eq(emailTemplates.eventKey, template.eventKey),
+        departmentId ? eq(emailTemplates.departmentId, departmentId) : isNull(emailTemplates.departmentId)
+      )).for('update');
+
+      if (existing) {
+        const [updated] = await tx.update(emailTemplates)
+          .set({ ...template, departmentId, updatedAt: new Date() })
+          .where(eq(emailTemplates.id, existing.id))
+          .returning();
+        return updated;
+      }
+
+      const [created] = await tx.insert(emailTemplates).values({ ...template, departmentId }).returning();
+      return created;
+    });
+  }
+
+  async deleteEmailTemplate(eventKey: string, departmentId: number | null = null): Promise<boolean> {
+    const result = await db.delete(emailTemplates).where(and(
+      eq(emailTemplates.eventKey, eventKey),
+      departmentId ? eq(emailTemplates.departmentId, departmentId) : isNull(emailTemplates.departmentId)
+    )).returning({ id: emailTemplates.id });
+    return result.length > 0;
+  }
+
+  // Email outbox operations
+  async createEmailOutboxMessage(message: InsertEmailOutboxMessage): Promise<EmailOutboxMessage> {
+    const [created] = await db.insert(emailOutbox).values(message).returning();
+    return created;
+  }
+
+  // Bodies are left out: they can hold live links such as password resets
+  async getEmailOutboxMessages(filters: { status?: string; limit?: number; offset?: number } = {}): Promise<{ messages: Omit<EmailOutboxMessage, 'html'>[]; total: number }> {
+    const condition = filters.status ? eq(emailOutbox.status, filters.status) : undefined;
+    const { html, ...listColumns } = getTableColumns(emailOutbox);
+
+    let query = db.select(listColumns).from(emailOutbox).orderBy(desc(emailOutbox.createdAt)) as any;
+    if (condition) query = query.where(condition);
+    if (filters.limit) query = query.limit(filters.limit);
+    if (filters.offset) query = query.offset(filters.offset);
+    const messages: Omit<EmailOutboxMessage, 'html'>[] = await query;
+
+    let countQuery = db.select({ count: sql`count(*)` }).from(emailOutbox) as any;
+    if (condition) countQuery = countQuery.where(condition);
+    const [countResult] = await countQuery;
+
+    return { messages, total: Number(countResult?.count || 0) };
+  }
+
+  async getEmailOutboxMessage(id: number): Promise<EmailOutboxMessage | undefined> {
+    const [message] = await db.select().from(emailOutbox).where(eq(emailOutbox.id, id));
+    return message;
+  }
+
+  // Marks due messages as sending so concurrent workers do not pick them up twice
+  async claimDueEmailOutboxMessages(limit: number): Promise<EmailOutboxMessage[]> {
+    const now = new Date();
+
+    // Messages left in "sending" by a crashed worker become due again after 10 minutes
+    await db.update(emailOutbox)
+      .set({ status: 'queued', updatedAt: now })
+      .where(and(
+        eq(emailOutbox.status, 'sending'),
+        lt(emailOutbox.updatedAt, new Date(now.getTime() - 10 * 60 * 1000))
+      ));
+
+    const due = db.select({ id: emailOutbox.id })
+      .from(emailOutbox)
+      .where(and(eq(emailOutbox.status, 'queued'), lte(emailOutbox.nextAttemptAt, now)))
+      .orderBy(asc(emailOutbox.nextAttemptAt))
+      .limit(limit)
+      .for('update', { skipLocked: true });
+
+    return await db.update(emailOutbox)
+      .set({ status: 'sending', attempts: sql`${emailOutbox.attempts} + 1`, updatedAt: now })
+      .where(inArray(emailOutbox.id, due))
+      .returning();
+  }
+
+  async updateEmailOutboxMessage(id: number, data: Partial<EmailOutboxMessage>): Promise<EmailOutboxMessage | undefined> {
+    const [updated] = await db.update(emailOutbox)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(emailOutbox.id, id))
+      .returning();
+    return updated;
+  }
+
+  async requeueEmailOutboxMessage(id: number): Promise<EmailOutboxMessage | undefined> {
+    const [updated] = await db.update(emailOutbox)
+      .set({ status: 'queued', attempts: 0, nextAttemptAt: new Date(), lastError: null, updatedAt: new Date() })
+      .where(and(eq(emailOutbox.id, id), eq(emailOutbox.status, 'failed'), eq(emailOutbox.redactOnSend, false)))
+      .returning();
+    return updated;
+  }
+
   // SAML SSO operations
   async getSamlSettings(): Promise<SamlSettings | undefined> {
     const [settings] = await db.select().from(samlSettings).limit(1);
@@ -705,6 +1243,24 @@ export class DatabaseStorage implements IStorage {
     return newSettings;
   }
 
+  async getOidcSettings(): Promise<OidcSettings | undefined> {
+    const [settings] = await db.select().from(oidcSettings).limit(1);
+    return settings;
+  }
+
+  async updateOidcSettings(settings: InsertOidcSettings, updatedBy: string | null): Promise<OidcSettings> {
+    const existing = await this.getOidcSettings();
+    if (existing) {
+      const [updated] = await db.update(oidcSettings)
+        .set({ ...settings, updatedBy, updatedAt: new Date() })
+        .where(eq(oidcSettings.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [created] = await db.insert(oidcSettings).values({ ...settings, updatedBy }).returning();
+    return created;
+  }
+
   // Password reset token operations
   async createPasswordResetToken(email: string, token: string, expiresAt: Date): Promise<void> {
     // Clean up expired tokens for this email first
@@ -748,16 +1304,308 @@ export class DatabaseStorage implements IStorage {
       ));
   }
 
+  // Replace a user's password, keeping the previous hash for the policy's reuse check
   async updateUserPassword(email: string, hashedPassword: string): Promise<boolean> {
-    const result = await db
-      .update(users)
-      .set({ password: hashedPassword, updatedAt: new Date() })
-      .where(eq(users.email, email))
-      .returning({ id: users.id });
-    
+    return await db.transaction(async (tx) => {
+      const [user] = await tx.select({ id: users.id, password: users.password })
+        .from(users)
+        .where(eq(users.email, email))
+        .for('update');
+      if (!user) return false;
+
+      if (user.password) {
+        await tx.insert(passwordHistory).values({ userId: user.id, passwordHash: user.password });
+        // Keep only as many entries as the largest history depth the policy allows
+        await tx.delete(passwordHistory).where(and(
+          eq(passwordHistory.userId, user.id),
+          sql`${passwordHistory.id} NOT IN (
+            SELECT ${passwordHistory.id} FROM ${passwordHistory}
+            WHERE ${passwordHistory.userId} = ${user.id}
+            ORDER BY ${passwordHistory.createdAt} DESC, ${passwordHistory.id} DESC
+            LIMIT ${MAX_PASSWORD_HISTORY}
+          )`
+        ));
+      }
+
+      await tx.update(users)
+        .set({ password: hashedPassword, passwordChangedAt: new Date(), updatedAt: new Date() })
+        .where(eq(users.id, user.id));
+      return true;
+    });
+  }
+
+  // Most recent previous password hashes, newest first
+  async getPasswordHistory(userId: string, limit: number): Promise<string[]> {
+    if (limit <= 0) return [];
+    const entries = await db.select({ passwordHash: passwordHistory.passwordHash })
+      .from(passwordHistory)
+      .where(eq(passwordHistory.userId, userId))
+      .orderBy(desc(passwordHistory.createdAt), desc(passwordHistory.id))
+      .limit(limit);
+    return entries.map(entry => entry.passwordHash);
+  }
+
+  // Auth session operations
+  async createAuthSession(session: InsertAuthSession): Promise<AuthSession> {
+    const [created] = await db.insert(authSessions).values(session).returning();
+    return created;
+  }
+
+  async getActiveAuthSession(id: string): Promise<AuthSession | undefined> {
+    const [session] = await db.select().from(authSessions).where(and(
+      eq(authSessions.id, id),
+      isNull(authSessions.revokedAt),
+      gt(authSessions.expiresAt, new Date())
+    ));
+    return session;
+  }
+
+  // Swap the refresh token of an active session. The row is locked so two refreshes with
+  // the same token cannot both succeed; the loser gets undefined.
+  async rotateAuthSessionToken(refreshTokenHash: string, newRefreshTokenHash: string, client: { userAgent?: string | null; ipAddress?: string | null }): Promise<AuthSession | undefined> {
+    return await db.transaction(async (tx) => {
+      const [session] = await tx.select().from(authSessions)
+        .where(and(
+          eq(authSessions.refreshTokenHash, refreshTokenHash),
+          isNull(authSessions.revokedAt),
+          gt(authSessions.expiresAt, new Date())
+        ))
+        .for('update');
+      if (!session) return undefined;
+
+      const [rotated] = await tx.update(authSessions)
+        .set({
+          refreshTokenHash: newRefreshTokenHash,
+          userAgent: client.userAgent ?? session.userAgent,
+          ipAddress: client.ipAddress ?? session.ipAddress,
+          lastSeenAt: new Date()
+        })
+        .where(eq(authSessions.id, session.id))
+        .returning();
+      return rotated;
+    });
+  }
+
+  async getActiveAuthSessions(userId: string): Promise<AuthSession[]> {
+    return await db.select().from(authSessions)
+      .where(and(
+        eq(authSessions.userId, userId),
+        isNull(authSessions.revokedAt),
+        gt(authSessions.expiresAt, new Date())
+      ))
+      .orderBy(desc(authSessions.lastSeenAt));
+  }
+
+  async revokeAuthSession(id: string, userId?: string): Promise<boolean> {
+    const result = await db.update(authSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(authSessions.id, id),
+        userId ? eq(authSessions.userId, userId) : undefined,
+        isNull(authSessions.revokedAt)
+      ))
+      .returning({ id: authSessions.id });
+    return result.length > 0;
+  }
+
+  async revokeAllAuthSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    const result = await db.update(authSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(authSessions.userId, userId),
+        exceptSessionId ? sql`${authSessions.id} <> ${exceptSessionId}` : undefined,
+        isNull(authSessions.revokedAt)
+      ))
+      .returning({ id: authSessions.id });
+    return result.length;
+  }
+
+  // IdP-initiated single logout: without a session index every SSO session of the subject ends
+  async revokeSamlAuthSessions(nameId: string, sessionIndex?: string): Promise<{ id: string; userId: string }[]> {
+    return await db.update(authSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(authSessions.samlNameId, nameId),
+        sessionIndex ? eq(authSessions.samlSessionIndex, sessionIndex) : undefined,
+        isNull(authSessions.revokedAt)
+      ))
+      .returning({ id: authSessions.id, userId: authSessions.userId });
+  }
+
+  // Remove sessions that can no longer be used (daily job in routes.ts)
+  async deleteStaleAuthSessions(): Promise<number> {
+    const result = await db.delete(authSessions)
+      .where(or(
+        lt(authSessions.expiresAt, new Date()),
+        isNotNull(authSessions.revokedAt)
+      ))
+      .returning({ id: authSessions.id });
+    return result.length;
+  }
+
+  // Two-factor authentication operations
+  async getUserTwoFactor(userId: string): Promise<UserTwoFactor | undefined> {
+    const [twoFactor] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    return twoFactor;
+  }
+
+  // Start (or restart) enrollment. An already enabled secret stays active until the new one is confirmed.
+  async setPendingTwoFactorSecret(userId: string, secret: string): Promise<void> {
+    await db.insert(userTwoFactor)
+      .values({ userId, pendingSecret: secret })
+      .onConflictDoUpdate({
+        target: userTwoFactor.userId,
+        set: { pendingSecret: secret, updatedAt: new Date() }
+      });
+  }
+
+  // Promote the pending secret once the user has proved they can generate codes from it
+  async enableTwoFactor(userId: string, secret: string, backupCodeHashes: string[], usedStep: number): Promise<boolean> {
+    const result = await db.update(userTwoFactor)
+      .set({
+        secret,
+        pendingSecret: null,
+        backupCodeHashes,
+        lastUsedStep: usedStep,
+        enabledAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(and(eq(userTwoFactor.userId, userId), eq(userTwoFactor.pendingSecret, secret)))
+      .returning({ userId: userTwoFactor.userId });
+    return result.length > 0;
+  }
+
+  // Record the time step of an accepted code. Fails when that step (or a later one) was
+  // already used, so concurrent submissions of one code cannot both succeed.
+  async recordTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    const result = await db.update(userTwoFactor)
+      .set({ lastUsedStep: step, updatedAt: new Date() })
+      .where(and(
+        eq(userTwoFactor.userId, userId),
+        or(isNull(userTwoFactor.lastUsedStep), lt(userTwoFactor.lastUsedStep, step))
+      ))
+      .returning({ userId: userTwoFactor.userId });
     return result.length > 0;
   }
 
+  // Remove a backup code in a single statement so it can only be redeemed once
+  async consumeBackupCode(userId: string, codeHash: string): Promise<boolean> {
+    const result = await db.update(userTwoFactor)
+      .set({
+        backupCodeHashes: sql`${userTwoFactor.backupCodeHashes} - ${codeHash}::text`,
+        updatedAt: new Date()
+      })
+      .where(and(
+        eq(userTwoFactor.userId, userId),
+        isNotNull(userTwoFactor.enabledAt),
+        sql`${userTwoFactor.backupCodeHashes} @> ${JSON.stringify([codeHash])}::jsonb`
+      ))
+      .returning({ userId: userTwoFactor.userId });
+    return result.length > 0;
+  }
+
+  async replaceBackupCodes(userId: string, backupCodeHashes: string[]): Promise<boolean> {
+    const result = await db.update(userTwoFactor)
+      .set({ backupCodeHashes, updatedAt: new Date() })
+      .where(and(eq(userTwoFactor.userId, userId), isNotNull(userTwoFactor.enabledAt)))
+      .returning({ userId: userTwoFactor.userId });
+    return result.length > 0;
+  }
+
+  async disableTwoFactor(userId: string): Promise<boolean> {
+    const result = await db.delete(userTwoFactor)
+      .where(eq(userTwoFactor.userId, userId))
+      .returning({ userId: userTwoFactor.userId });
+    return result.length > 0;
+  }
+
+  // Login throttling operations
+  async getAuthThrottles(keys: string[]): Promise<AuthThrottle[]> {
+    if (keys.length === 0) return [];
+    return await db.select().from(authThrottles).where(inArray(authThrottles.key, keys));
+  }
+
+  // Count an attempt in a single upsert so concurrent requests cannot undercount. The count
+  // restarts once the window has passed, and reaching the limit locks the key.
+  async recordAuthThrottleAttempt(key: string, rule: { maxAttempts: number; windowMinutes: number; lockMinutes: number }): Promise<AuthThrottle> {
+    const windowExpired = sql`${authThrottles.windowStartedAt} < now() - make_interval(mins => ${rule.windowMinutes})`;
+    const attempts = sql`CASE WHEN ${windowExpired} THEN 1 ELSE ${authThrottles.attempts} + 1 END`;
+
+    const [throttle] = await db.insert(authThrottles)
+      .values({ key, attempts: 1 })
+      .onConflictDoUpdate({
+        target: authThrottles.key,
+        set: {
+          attempts,
+          windowStartedAt: sql`CASE WHEN ${windowExpired} THEN now() ELSE ${authThrottles.windowStartedAt} END`,
+          lockedUntil: sql`CASE WHEN ${attempts} >= ${rule.maxAttempts} THEN now() + make_interval(mins => ${rule.lockMinutes}) ELSE ${authThrottles.lockedUntil} END`,
+          updatedAt: new Date()
+        }
+      })
+      .returning();
+    return throttle;
+  }
+
+  async clearAuthThrottle(key: string): Promise<AuthThrottle | undefined> {
+    const [cleared] = await db.delete(authThrottles).where(eq(authThrottles.key, key)).returning();
+    return cleared;
+  }
+
+  async getLockedAuthThrottles(keyPrefix: string): Promise<AuthThrottle[]> {
+    return await db.select().from(authThrottles)
+      .where(and(
+        ilike(authThrottles.key, `${keyPrefix}%`),
+        gt(authThrottles.lockedUntil, new Date())
+      ))
+      .orderBy(desc(authThrottles.lockedUntil));
+  }
+
+  // Remove counters whose window and lock have both run out (daily job in routes.ts)
+  async deleteExpiredAuthThrottles(): Promise<number> {
+    const result = await db.delete(authThrottles)
+      .where(and(
+        lt(authThrottles.windowStartedAt, new Date(Date.now() - 24 * 60 * 60 * 1000)),
+        or(isNull(authThrottles.lockedUntil), lt(authThrottles.lockedUntil, new Date()))
+      ))
+      .returning({ key: authThrottles.key });
+    return result.length;
+  }
+
+  // Record a challenge token as used. False when it was used before, also by a concurrent request.
+  async consumeAuthChallenge(jti: string, expiresAt: Date): Promise<boolean> {
+    const inserted = await db.insert(consumedAuthChallenges)
+      .values({ jti, expiresAt })
+      .onConflictDoNothing()
+      .returning({ jti: consumedAuthChallenges.jti });
+    return inserted.length > 0;
+  }
+
+  async deleteExpiredAuthChallenges(): Promise<number> {
+    const result = await db.delete(consumedAuthChallenges)
+      .where(lt(consumedAuthChallenges.expiresAt, new Date()))
+      .returning({ jti: consumedAuthChallenges.jti });
+    return result.length;
+  }
+
+  // Security settings operations
+  async getSecuritySettings(): Promise<SecuritySettings | undefined> {
+    const [settings] = await db.select().from(securitySettings).limit(1);
+    return settings;
+  }
+
+  async updateSecuritySettings(settings: SecuritySettingsUpdate, updatedBy: string): Promise<SecuritySettings> {
+    const existing = await this.getSecuritySettings();
+    if (existing) {
+      const [updated] = await db.update(securitySettings)
+        .set({ ...settings, updatedBy, updatedAt: new Date() })
+        .where(eq(securitySettings.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [created] = await db.insert(securitySettings).values({ ...settings, updatedBy }).returning();
+    return created;
+  }
+
   // Audit log operations
   async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
     const [newLog] = await db.insert(auditLogs).values(log).returning();
@@ -857,7 +1705,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Statistics
-  async getCourierStats(departmentId?: number): Promise<{
+  async getCourierStats(departmentIds?: number[]): Promise<{
     total: number;
     onTheWay: number;
     completed: number;
@@ -886,9 +1734,9 @@ export class DatabaseStorage implements IStorage {
     ];
 
     // Add department filter if specified
-    if (departmentId) {
-      onTheWayConditions.push(eq(couriers.departmentId, departmentId));
-      completedConditions.push(eq(couriers.departmentId, departmentId));
+    if (departmentIds) {
+      onTheWayConditions.push(inArray(couriers.departmentId, departmentIds));
+      completedConditions.push(inArray(couriers.departmentId, departmentIds));
     }
 
     // Get on the way count
@@ -903,8 +1751,8 @@ export class DatabaseStorage implements IStorage {
 
     // Get received couriers count (these are also "completed")
     let receivedConditions = [];
-    if (departmentId) {
-      receivedConditions.push(eq(receivedCouriers.departmentId, departmentId));
+    if (departmentIds) {
+      receivedConditions.push(inArray(receivedCouriers.departmentId, departmentIds));
     }
 
     const [receivedResult] = await db.select({ count: sql`count(*)` })
@@ -935,8 +1783,8 @@ export class DatabaseStorage implements IStorage {
     let thisMonthReceivedConditions = [
       sql`${receivedCouriers.receivedDate} >= ${startOfMonth.toISOString()}`
     ];
-    if (departmentId) {
-      thisMonthReceivedConditions.push(eq(receivedCouriers.departmentId, departmentId));
+    if (departmentIds) {
+      thisMonthReceivedConditions.push(inArray(receivedCouriers.departmentId, departmentIds));
     }
     
     const [thisMonthReceivedResult] = await db.select({ count: sql`count(*)` })
@@ -970,7 +1818,7 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async getMonthlyStats(departmentId?: number): Promise<Array<{
+  async getMonthlyStats(departmentIds?: number[]): Promise<Array<{
     month: string;
     onTheWay: number;
     completed: number;
@@ -1003,9 +1851,9 @@ export class DatabaseStorage implements IStorage {
       ];
       
       // Add department filter if specified
-      if (departmentId) {
-        onTheWayConditions.push(eq(couriers.departmentId, departmentId));
-        completedConditions.push(eq(couriers.departmentId, departmentId));
+      if (departmentIds) {
+        onTheWayConditions.push(inArray(couriers.departmentId, departmentIds));
+        completedConditions.push(inArray(couriers.departmentId, departmentIds));
       }
       
       // Get counts for this month
@@ -1023,8 +1871,8 @@ export class DatabaseStorage implements IStorage {
         sql`${receivedCouriers.receivedDate} < ${nextDate.toISOString()}`
       ];
       
-      if (departmentId) {
-        receivedConditions.push(eq(receivedCouriers.departmentId, departmentId));
+      if (departmentIds) {
+        receivedConditions.push(inArray(receivedCouriers.departmentId, departmentIds));
       }
       
       const [receivedResult] = await db.select({ count: sql`count(*)` })
@@ -1048,7 +1896,7 @@ export class DatabaseStorage implements IStorage {
     return monthlyData;
   }
 
-  async getBranchStats(departmentId?: number): Promise<Array<{
+  async getBranchStats(departmentIds?: number[]): Promise<Array<{
     name: string;
     count: number;
     recentActivity: string;
@@ -1060,8 +1908,8 @@ export class DatabaseStorage implements IStorage {
     ];
     
     // Add department filter if specified
-    if (departmentId) {
-      conditions.push(eq(couriers.departmentId, departmentId));
+    if (departmentIds) {
+      conditions.push(inArray(couriers.departmentId, departmentIds));
     }
     
     // Get branch statistics
@@ -1082,8 +1930,8 @@ export class DatabaseStorage implements IStorage {
       sql`${receivedCouriers.fromLocation} != ''`
     ];
     
-    if (departmentId) {
-      receivedConditions.push(eq(receivedCouriers.departmentId, departmentId));
+    if (departmentIds) {
+      receivedConditions.push(inArray(receivedCouriers.departmentId, departmentIds));
     }
     
     const receivedBranchStats = await db
@@ -1144,14 +1992,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Received Courier operations
-  async getAllReceivedCouriers(filters?: {
-    departmentId?: number;
-    search?: string;
-    limit?: number;
-    offset?: number;
-    startDate?: string;
-    endDate?: string;
-  }): Promise<(ReceivedCourier & { department?: Department; creator?: User })[]> {
+  async getAllReceivedCouriers(filters?: ReceivedCourierFilters): Promise<{ couriers: (ReceivedCourier & { department?: Department; creator?: User })[]; total: number }> {
     let query = db
       .select({
         id: receivedCouriers.id,
@@ -1171,6 +2012,7 @@ export class DatabaseStorage implements IStorage {
         remarks: receivedCouriers.remarks,
         status: receivedCouriers.status,
         confirmationToken: receivedCouriers.confirmationToken,
+        confirmationTokenExpiresAt: receivedCouriers.confirmationTokenExpiresAt,
         createdAt: receivedCouriers.createdAt,
         updatedAt: receivedCouriers.updatedAt,
         department: departments,
@@ -1182,8 +2024,26 @@ export class DatabaseStorage implements IStorage {
     
     const conditions = [];
     
-    if (filters?.departmentId) {
-      conditions.push(eq(receivedCouriers.departmentId, filters.departmentId));
+    if (filters?.status) {
+      conditions.push(eq(receivedCouriers.status, filters.status as any));
+    }
+
+    if (filters?.departmentIds) {
+      conditions.push(inArray(receivedCouriers.departmentId, filters.departmentIds));
+    }
+
+    if (filters?.vendor) {
+      // "Others" entries are matched on the vendor name that was typed in
+      conditions.push(
+        or(
+          ilike(receivedCouriers.courierVendor, filters.vendor),
+          and(eq(receivedCouriers.courierVendor, 'Others'), ilike(receivedCouriers.customVendor, filters.vendor))
+        )
+      );
+    }
+
+    if (filters?.fromLocation) {
+      conditions.push(ilike(receivedCouriers.fromLocation, `%${filters.fromLocation}%`));
     }
 
     if (filters?.search) {
@@ -1192,7 +2052,13 @@ export class DatabaseStorage implements IStorage {
           sql`CAST(${receivedCouriers.id} AS TEXT) ILIKE ${'%' + filters.search + '%'}`,
           ilike(receivedCouriers.podNumber, `%${filters.search}%`),
           ilike(receivedCouriers.fromLocation, `%${filters.search}%`),
-          ilike(receivedCouriers.courierVendor, `%${filters.search}%`)
+          ilike(receivedCouriers.toUser, `%${filters.search}%`),
+          ilike(receivedCouriers.courierVendor, `%${filters.search}%`),
+          ilike(receivedCouriers.customVendor, `%${filters.search}%`),
+          ilike(receivedCouriers.receiverName, `%${filters.search}%`),
+          ilike(receivedCouriers.emailId, `%${filters.search}%`),
+          ilike(receivedCouriers.customDepartment, `%${filters.search}%`),
+          ilike(departments.name, `%${filters.search}%`)
         )
       );
     }
@@ -1209,7 +2075,10 @@ export class DatabaseStorage implements IStorage {
       query = query.where(and(...conditions)) as any;
     }
 
-    query = query.orderBy(desc(receivedCouriers.createdAt)) as any;
+    const sortColumn = (filters?.sortBy && RECEIVED_COURIER_SORT_COLUMNS.get(filters.sortBy)) || receivedCouriers.createdAt;
+    const sortDirection = filters?.sortOrder === 'asc' ? asc : desc;
+    // Tie-break on id so pages stay stable when the sort column has duplicates
+    query = query.orderBy(sortDirection(sortColumn), sortDirection(receivedCouriers.id)) as any;
 
     if (filters?.limit) {
       query = query.limit(filters.limit) as any;
@@ -1220,12 +2089,26 @@ export class DatabaseStorage implements IStorage {
     }
 
     const results = await query;
-    
-    return results.map(r => ({
-      ...r,
-      department: r.department || undefined,
-      creator: r.creator || undefined
-    }));
+
+    // Get total count; the department join is needed for the search condition
+    let countQuery = db
+      .select({ count: sql`count(*)` })
+      .from(receivedCouriers)
+      .leftJoin(departments, eq(receivedCouriers.departmentId, departments.id));
+    if (conditions.length > 0) {
+      countQuery = countQuery.where(and(...conditions)) as any;
+    }
+    const countResult = await countQuery;
+    const count = countResult[0]?.count || 0;
+
+    return {
+      couriers: results.map(r => ({
+        ...r,
+        department: r.department || undefined,
+        creator: r.creator || undefined
+      })),
+      total: Number(count),
+    };
   }
 
   async getReceivedCourierById(id: number): Promise<ReceivedCourier | undefined> {
@@ -1233,9 +2116,56 @@ export class DatabaseStorage implements IStorage {
     return courier;
   }
 
+  async getReceivedCourierByConfirmationToken(token: string): Promise<ReceivedCourier | undefined> {
+    const [courier] = await db.select().from(receivedCouriers).where(eq(receivedCouriers.confirmationToken, token));
+    return courier;
+  }
+
   async createReceivedCourier(courier: InsertReceivedCourier): Promise<ReceivedCourier> {
-    const [newCourier] = await db.insert(receivedCouriers).values(courier).returning();
-    return newCourier;
+    return await db.transaction(async (tx) => {
+      const [newCourier] = await tx.insert(receivedCouriers).values(courier).returning();
+      await tx.insert(courierStatusHistory).values({
+        courierType: 'received_courier',
+        courierId: newCourier.id,
+        fromStatus: null,
+        toStatus: newCourier.status || 'received',
+        changedBy: newCourier.createdBy,
+        remarks: 'Received courier created',
+      });
+      return newCourier;
+    });
+  }
+
+  async createBulkReceivedCouriers(courierList: InsertReceivedCourier[]): Promise<ReceivedCourier[]> {
+    if (courierList.length === 0) return [];
+
+    return await db.transaction(async (tx) => {
+      const newCouriers = await tx.insert(receivedCouriers).values(courierList).returning();
+      await tx.insert(courierStatusHistory).values(newCouriers.map(courier => ({
+        courierType: 'received_courier',
+        courierId: courier.id,
+        fromStatus: null,
+        toStatus: courier.status || 'received',
+        changedBy: courier.createdBy,
+        remarks: 'Received courier imported',
+      })));
+      return newCouriers;
+    });
+  }
+
+  async findExistingPodNumbers(courierType: CourierType, podNumbers: string[]): Promise<string[]> {
+    const lowered = Array.from(new Set(podNumbers.map(pod => pod.trim().toLowerCase()).filter(Boolean)));
+    if (lowered.length === 0) return [];
+
+    if (courierType === 'courier') {
+      const rows = await db.select({ pod: couriers.podNo }).from(couriers)
+        .where(and(inArray(sql`lower(${couriers.podNo})`, lowered), sql`${couriers.status} <> 'deleted'`));
+      return rows.map(row => row.pod!).filter(Boolean);
+    }
+
+    const rows = await db.select({ pod: receivedCouriers.podNumber }).from(receivedCouriers)
+      .where(and(inArray(sql`lower(${receivedCouriers.podNumber})`, lowered), sql`${receivedCouriers.status} <> 'deleted'`));
+    return rows.map(row => row.pod);
   }
 
   async updateReceivedCourier(id: number, courier: Partial<InsertReceivedCourier>): Promise<ReceivedCourier | undefined> {
@@ -1248,13 +2178,59 @@ export class DatabaseStorage implements IStorage {
 
   async deleteReceivedCourier(id: number): Promise<boolean> {
     const result = await db.delete(receivedCouriers).where(eq(receivedCouriers.id, id)).returning({ id: receivedCouriers.id });
+    if (result.length > 0) {
+      await db.delete(courierStatusHistory)
+        .where(and(eq(courierStatusHistory.courierType, 'received_courier'), eq(courierStatusHistory.courierId, id)));
+    }
     return result.length > 0;
   }
 
+  async transitionReceivedCourierStatus(id: number, toStatus: CourierStatus, options: CourierTransitionOptions<InsertReceivedCourier> = {}): Promise<ReceivedCourier | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock the row so concurrent updates cannot skip a transition check
+      const [current] = await tx
+        .select({ status: receivedCouriers.status, confirmationToken: receivedCouriers.confirmationToken, confirmationTokenExpiresAt: receivedCouriers.confirmationTokenExpiresAt })
+        .from(receivedCouriers)
+        .where(eq(receivedCouriers.id, id))
+        .for('update');
+      if (!current) return undefined;
+
+      if (options.confirmationToken !== undefined &&
+          (current.confirmationToken !== options.confirmationToken || isConfirmationTokenExpired(current.confirmationTokenExpiresAt))) {
+        throw new ConfirmationTokenUsedError();
+      }
+
+      if (!canTransitionCourierStatus(current.status, toStatus)) {
+        throw new InvalidStatusTransitionError(current.status, toStatus);
+      }
+
+      const [updatedCourier] = await tx
+        .update(receivedCouriers)
+        .set({ ...options.changes, status: toStatus, updatedAt: new Date() })
+        .where(eq(receivedCouriers.id, id))
+        .returning();
+
+      await tx.insert(courierStatusHistory).values({
+        courierType: 'received_courier',
+        courierId: id,
+        fromStatus: current.status,
+        toStatus,
+        changedBy: options.changedBy || null,
+        remarks: options.remarks || null,
+      });
+
+      return updatedCourier;
+    });
+  }
+
   // Authority Letter Template methods
-  async getAllAuthorityLetterTemplates(departmentId?: number): Promise<AuthorityLetterTemplate[]> {
+  async getAllAuthorityLetterTemplates(departmentId?: number | number[]): Promise<AuthorityLetterTemplate[]> {
     const query = db.select().from(authorityLetterTemplates);
     
+    if (Array.isArray(departmentId)) {
+      return await query.where(inArray(authorityLetterTemplates.departmentId, departmentId));
+    }
+    
     if (departmentId) {
       return await query.where(eq(authorityLetterTemplates.departmentId, departmentId));
     }
@@ -1267,9 +2243,26 @@ export class DatabaseStorage implements IStorage {
     return template;
   }
 
-  async createAuthorityLetterTemplate(template: InsertAuthorityLetterTemplate): Promise<AuthorityLetterTemplate> {
-    const [newTemplate] = await db.insert(authorityLetterTemplates).values(template).returning();
-    return newTemplate;
+  // A new template starts with its layout published as version 1, in the same transaction
+  async createAuthorityLetterTemplate(template: InsertAuthorityLetterTemplate, createdBy: string | null): Promise<AuthorityLetterTemplate> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(authorityLetterTemplates).values(template).returning();
+      const [version] = await tx.insert(authorityLetterTemplateVersions).values({
+        templateId: created.id,
+        versionNumber: 1,
+        templateContent: created.templateContent,
+        wordTemplateUrl: created.wordTemplateUrl,
+        status: 'published',
+        createdBy,
+        publishedBy: createdBy,
+        publishedAt: new Date(),
+      }).returning();
+      const [newTemplate] = await tx.update(authorityLetterTemplates)
+        .set({ publishedVersionId: version.id })
+        .where(eq(authorityLetterTemplates.id, created.id))
+        .returning();
+      return newTemplate;
+    });
   }
 
   async updateAuthorityLetterTemplate(id: number, template: Partial<InsertAuthorityLetterTemplate>): Promise<AuthorityLetterTemplate | undefined> {
@@ -1285,14 +2278,89 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
+  async getUnversionedAuthorityLetterTemplates(): Promise<AuthorityLetterTemplate[]> {
+    return await db.select().from(authorityLetterTemplates).where(isNull(authorityLetterTemplates.publishedVersionId));
+  }
+
+  // Authority Letter Template version methods
+  async getAuthorityLetterTemplateVersions(templateId: number): Promise<TemplateVersionListItem[]> {
+    const { templateContent, ...summaryColumns } = getTableColumns(authorityLetterTemplateVersions);
+    return await db
+      .select({ ...summaryColumns, createdByName: users.name })
+      .from(authorityLetterTemplateVersions)
+      .leftJoin(users, eq(authorityLetterTemplateVersions.createdBy, users.id))
+      .where(eq(authorityLetterTemplateVersions.templateId, templateId))
+      .orderBy(desc(authorityLetterTemplateVersions.versionNumber));
+  }
+
+  async getAuthorityLetterTemplateVersion(id: number): Promise<AuthorityLetterTemplateVersion | undefined> {
+    const [version] = await db.select().from(authorityLetterTemplateVersions).where(eq(authorityLetterTemplateVersions.id, id));
+    return version;
+  }
+
+  // Numbers are handed out under a lock on the template so concurrent saves don't collide
+  async createAuthorityLetterTemplateVersion(version: InsertAuthorityLetterTemplateVersion): Promise<AuthorityLetterTemplateVersion> {
+    return await db.transaction(async (tx) => {
+      await tx.select({ id: authorityLetterTemplates.id }).from(authorityLetterTemplates)
+        .where(eq(authorityLetterTemplates.id, version.templateId))
+        .for('update');
+      const [{ lastNumber }] = await tx
+        .select({ lastNumber: sql<number>`coalesce(max(${authorityLetterTemplateVersions.versionNumber}), 0)` })
+        .from(authorityLetterTemplateVersions)
+        .where(eq(authorityLetterTemplateVersions.templateId, version.templateId));
+      const [created] = await tx.insert(authorityLetterTemplateVersions)
+        .values({ ...version, versionNumber: Number(lastNumber) + 1 })
+        .returning();
+      return created;
+    });
+  }
+
+  // Make a version the one letters are rendered from; the previously published one is superseded
+  async publishAuthorityLetterTemplateVersion(id: number, publishedBy: string | null): Promise<{ template: AuthorityLetterTemplate; version: AuthorityLetterTemplateVersion } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [target] = await tx.select().from(authorityLetterTemplateVersions).where(eq(authorityLetterTemplateVersions.id, id));
+      if (!target) {
+        return undefined;
+      }
+      await tx.select({ id: authorityLetterTemplates.id }).from(authorityLetterTemplates)
+        .where(eq(authorityLetterTemplates.id, target.templateId))
+        .for('update');
+
+      await tx.update(authorityLetterTemplateVersions)
+        .set({ status: 'superseded' })
+        .where(and(
+          eq(authorityLetterTemplateVersions.templateId, target.templateId),
+          eq(authorityLetterTemplateVersions.status, 'published')
+        ));
+      const [version] = await tx.update(authorityLetterTemplateVersions)
+        .set({ status: 'published', publishedBy, publishedAt: new Date() })
+        .where(eq(authorityLetterTemplateVersions.id, id))
+        .returning();
+      const [template] = await tx.update(authorityLetterTemplates)
+        .set({
+          templateContent: version.templateContent,
+          wordTemplateUrl: version.wordTemplateUrl,
+          publishedVersionId: version.id,
+          updatedAt: new Date(),
+        })
+        .where(eq(authorityLetterTemplates.id, target.templateId))
+        .returning();
+      return { template, version };
+    });
+  }
+
   // Authority Letter Field methods
-  async getAllAuthorityLetterFields(departmentId?: number, templateId?: number): Promise<AuthorityLetterField[]> {
+  async getAllAuthorityLetterFields(departmentId?: number | number[], templateId?: number): Promise<AuthorityLetterField[]> {
     const query = db.select().from(authorityLetterFields);
     
     if (templateId) {
       return await query.where(eq(authorityLetterFields.templateId, templateId)).orderBy(authorityLetterFields.sortOrder);
     }
     
+    if (Array.isArray(departmentId)) {
+      return await query.where(inArray(authorityLetterFields.departmentId, departmentId)).orderBy(authorityLetterFields.sortOrder);
+    }
+    
     if (departmentId) {
       return await query.where(eq(authorityLetterFields.departmentId, departmentId)).orderBy(authorityLetterFields.sortOrder);
     }
@@ -1323,6 +2391,252 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
+  // Issued letter register methods
+  async nextLetterNumber(scope: string): Promise<number> {
+    // Single upsert so concurrent generations never share a number
+    const [sequence] = await db.insert(letterSequences)
+      .values({ scope, lastNumber: 1 })
+      .onConflictDoUpdate({
+        target: letterSequences.scope,
+        set: { lastNumber: sql`${letterSequences.lastNumber} + 1`, updatedAt: new Date() },
+      })
+      .returning();
+    return sequence.lastNumber;
+  }
+
+  async createIssuedLetter(letter: InsertIssuedLetter): Promise<IssuedLetter> {
+    const [created] = await db.insert(issuedLetters).values(letter as any).returning();
+    return created;
+  }
+
+  async getIssuedLetter(id: number): Promise<IssuedLetter | undefined> {
+    const [letter] = await db.select().from(issuedLetters).where(eq(issuedLetters.id, id));
+    return letter;
+  }
+
+  async getIssuedLetterFilesUnder(directory: string): Promise<Pick<IssuedLetter, 'id' | 'filePath'>[]> {
+    return await db.select({ id: issuedLetters.id, filePath: issuedLetters.filePath })
+      .from(issuedLetters)
+      .where(sql`starts_with(${issuedLetters.filePath}, ${directory})`);
+  }
+
+  async updateIssuedLetterFilePath(id: number, filePath: string): Promise<void> {
+    await db.update(issuedLetters).set({ filePath }).where(eq(issuedLetters.id, id));
+  }
+
+  async getIssuedLetterByVerificationCode(code: string): Promise<(IssuedLetter & { departmentName: string | null }) | undefined> {
+    const [row] = await db
+      .select({ letter: issuedLetters, departmentName: departments.name })
+      .from(issuedLetters)
+      .leftJoin(departments, eq(issuedLetters.departmentId, departments.id))
+      .where(eq(issuedLetters.verificationCode, code));
+    return row ? { ...row.letter, departmentName: row.departmentName } : undefined;
+  }
+
+  async getIssuedLetters(filters?: IssuedLetterFilters): Promise<{ letters: IssuedLetterListItem[]; total: number }> {
+    const conditions: any[] = [];
+
+    if (filters?.status) {
+      conditions.push(eq(issuedLetters.status, filters.status));
+    }
+
+    if (filters?.departmentIds) {
+      conditions.push(filters.departmentIds.length > 0 ? inArray(issuedLetters.departmentId, filters.departmentIds) : sql`false`);
+    }
+
+    if (filters?.search) {
+      conditions.push(
+        or(
+          ilike(issuedLetters.referenceNumber, `%${filters.search}%`),
+          ilike(issuedLetters.templateName, `%${filters.search}%`),
+          sql`${issuedLetters.fieldValues}::text ILIKE ${'%' + filters.search + '%'}`,
+          ilike(users.name, `%${filters.search}%`)
+        )
+      );
+    }
+
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+    let query = db
+      .select({ letter: issuedLetters, issuerName: users.name, departmentName: departments.name, templateVersionNumber: authorityLetterTemplateVersions.versionNumber })
+      .from(issuedLetters)
+      .leftJoin(users, eq(issuedLetters.issuedBy, users.id))
+      .leftJoin(departments, eq(issuedLetters.departmentId, departments.id))
+      .leftJoin(authorityLetterTemplateVersions, eq(issuedLetters.templateVersionId, authorityLetterTemplateVersions.id))
+      .where(whereClause)
+      .orderBy(desc(issuedLetters.issuedAt), desc(issuedLetters.id));
+
+    if (filters?.limit) {
+      query = query.limit(filters.limit) as any;
+    }
+
+    if (filters?.offset) {
+      query = query.offset(filters.offset) as any;
+    }
+
+    const countQuery = db
+      .select({ count: sql`count(*)` })
+      .from(issuedLetters)
+      .leftJoin(users, eq(issuedLetters.issuedBy, users.id))
+      .where(whereClause);
+
+    const [rows, countResult] = await Promise.all([query, countQuery]);
+
+    return {
+      letters: rows.map(row => ({ ...row.letter, issuerName: row.issuerName, departmentName: row.departmentName, templateVersionNumber: row.templateVersionNumber })),
+      total: Number((countResult[0] as any).count),
+    };
+  }
+
+  // Only a letter that still stands can be revoked or cancelled
+  async updateIssuedLetterStatus(id: number, status: string, reason: string, changedBy: string): Promise<IssuedLetter | undefined> {
+    const [letter] = await db.update(issuedLetters)
+      .set({ status, statusReason: reason, statusChangedBy: changedBy, statusChangedAt: new Date() })
+      .where(and(eq(issuedLetters.id, id), eq(issuedLetters.status, 'issued')))
+      .returning();
+    return letter;
+  }
+
+  async createLetterApprovalRequest(request: InsertLetterApprovalRequest & { templateVersionId: number | null; departmentId: number | null; requestedBy: string }): Promise<LetterApprovalRequest> {
+    const [created] = await db.insert(letterApprovalRequests).values(request as any).returning();
+    return created;
+  }
+
+  async getLetterApprovalRequest(id: number): Promise<LetterApprovalRequest | undefined> {
+    const [request] = await db.select().from(letterApprovalRequests).where(eq(letterApprovalRequests.id, id));
+    return request;
+  }
+
+  async getLetterApprovalRequests(filters?: LetterApprovalFilters): Promise<LetterApprovalListItem[]> {
+    const conditions: any[] = [];
+
+    if (filters?.status) {
+      conditions.push(eq(letterApprovalRequests.status, filters.status));
+    }
+
+    if (filters?.departmentIds) {
+      conditions.push(filters.departmentIds.length > 0 ? inArray(letterApprovalRequests.departmentId, filters.departmentIds) : sql`false`);
+    }
+
+    if (filters?.requestedBy) {
+      conditions.push(eq(letterApprovalRequests.requestedBy, filters.requestedBy));
+    }
+
+    const requesters = alias(users, 'requesters');
+    const reviewers = alias(users, 'reviewers');
+
+    let query = db
+      .select({
+        request: letterApprovalRequests,
+        templateName: authorityLetterTemplates.templateName,
+        departmentName: departments.name,
+        requesterName: requesters.name,
+        reviewerName: reviewers.name,
+        referenceNumber: issuedLetters.referenceNumber,
+      })
+      .from(letterApprovalRequests)
+      .leftJoin(authorityLetterTemplates, eq(letterApprovalRequests.templateId, authorityLetterTemplates.id))
+      .leftJoin(departments, eq(letterApprovalRequests.departmentId, departments.id))
+      .leftJoin(requesters, eq(letterApprovalRequests.requestedBy, requesters.id))
+      .leftJoin(reviewers, eq(letterApprovalRequests.reviewedBy, reviewers.id))
+      .leftJoin(issuedLetters, eq(letterApprovalRequests.issuedLetterId, issuedLetters.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(letterApprovalRequests.requestedAt), desc(letterApprovalRequests.id));
+
+    if (filters?.limit) {
+      query = query.limit(filters.limit) as any;
+    }
+
+    const rows = await query;
+    return rows.map(({ request, ...names }) => ({ ...request, ...names }));
+  }
+
+  // Only a pending request can be decided, so two approvers can't both act on it
+  async decideLetterApprovalRequest(id: number, status: 'approved' | 'rejected', comment: string | null, reviewedBy: string): Promise<LetterApprovalRequest | undefined> {
+    const [request] = await db.update(letterApprovalRequests)
+      .set({ status, reviewComment: comment, reviewedBy, reviewedAt: new Date() })
+      .where(and(eq(letterApprovalRequests.id, id), eq(letterApprovalRequests.status, 'pending')))
+      .returning();
+    return request;
+  }
+
+  // Link the letter issued for an approved request; fails when another download got there first
+  async setLetterApprovalIssuedLetter(id: number, issuedLetterId: number): Promise<LetterApprovalRequest | undefined> {
+    const [request] = await db.update(letterApprovalRequests)
+      .set({ issuedLetterId })
+      .where(and(
+        eq(letterApprovalRequests.id, id),
+        eq(letterApprovalRequests.status, 'approved'),
+        isNull(letterApprovalRequests.issuedLetterId)
+      ))
+      .returning();
+    return request;
+  }
+
+  async createLetterBulkJob(job: InsertLetterBulkJob): Promise<LetterBulkJob> {
+    const [created] = await db.insert(letterBulkJobs).values({ ...job, totalRows: job.rows?.length ?? 0 } as any).returning();
+    return created;
+  }
+
+  async getLetterBulkJob(id: number): Promise<LetterBulkJob | undefined> {
+    const [job] = await db.select().from(letterBulkJobs).where(eq(letterBulkJobs.id, id));
+    return job;
+  }
+
+  async getLetterBulkJobs(createdBy: string, limit = 10): Promise<Omit<LetterBulkJob, 'rows'>[]> {
+    const { rows, ...summaryColumns } = getTableColumns(letterBulkJobs);
+    return await db.select(summaryColumns)
+      .from(letterBulkJobs)
+      .where(eq(letterBulkJobs.createdBy, createdBy))
+      .orderBy(desc(letterBulkJobs.createdAt), desc(letterBulkJobs.id))
+      .limit(limit);
+  }
+
+  // Oldest queued job, marked running so no other worker picks it up
+  async claimNextLetterBulkJob(): Promise<LetterBulkJob | undefined> {
+    const next = db.select({ id: letterBulkJobs.id })
+      .from(letterBulkJobs)
+      .where(eq(letterBulkJobs.status, 'queued'))
+      .orderBy(asc(letterBulkJobs.createdAt), asc(letterBulkJobs.id))
+      .limit(1)
+      .for('update', { skipLocked: true });
+
+    const [job] = await db.update(letterBulkJobs)
+      .set({ status: 'running', startedAt: new Date() })
+      .where(inArray(letterBulkJobs.id, next))
+      .returning();
+    return job;
+  }
+
+  async updateLetterBulkJob(id: number, data: Partial<LetterBulkJob>): Promise<LetterBulkJob | undefined> {
+    const [job] = await db.update(letterBulkJobs).set(data).where(eq(letterBulkJobs.id, id)).returning();
+    return job;
+  }
+
+  // Jobs cut off by a restart are not resumed: their letters already have reference numbers
+  async failInterruptedLetterBulkJobs(): Promise<number> {
+    const failed = await db.update(letterBulkJobs)
+      .set({ status: 'failed', errorMessage: 'Interrupted by a server restart', rows: [], completedAt: new Date() })
+      .where(eq(letterBulkJobs.status, 'running'))
+      .returning({ id: letterBulkJobs.id });
+    return failed.length;
+  }
+
+  // Point stored result and error report paths at the directory their files were moved to
+  async moveLetterBulkJobFiles(fromDirectory: string, toDirectory: string): Promise<number> {
+    const moved = await db.update(letterBulkJobs)
+      .set({
+        resultPath: sql`replace(${letterBulkJobs.resultPath}, ${fromDirectory}, ${toDirectory})`,
+        errorReportPath: sql`replace(${letterBulkJobs.errorReportPath}, ${fromDirectory}, ${toDirectory})`,
+      })
+      .where(or(
+        sql`starts_with(${letterBulkJobs.resultPath}, ${fromDirectory})`,
+        sql`starts_with(${letterBulkJobs.errorReportPath}, ${fromDirectory})`,
+      ))
+      .returning({ id: letterBulkJobs.id });
+    return moved.length;
+  }
+
   // Field Dropdown Options methods
   async getFieldDropdownOptions(fieldId: number): Promise<any[]> {
     return await db.select().from(fieldDropdownOptions).where(eq(fieldDropdownOptions.fieldId, fieldId)).orderBy(fieldDropdownOptions.sortOrder);
@@ -1572,51 +2886,127 @@ export class DatabaseStorage implements IStorage {
     return updatedVendor;
   }
 
-  // User Policy operations
-  async getAllUserPolicies(): Promise<UserPolicy[]> {
-    const query = db.select({
-      id: userPolicies.id,
-      departmentId: userPolicies.departmentId,
-      tabName: userPolicies.tabName,
-      isEnabled: userPolicies.isEnabled,
-      createdAt: userPolicies.createdAt,
-      updatedAt: userPolicies.updatedAt,
-      department: {
-        id: departments.id,
-        name: departments.name
-      }
-    })
-    .from(userPolicies)
-    .leftJoin(departments, eq(userPolicies.departmentId, departments.id));
-    
-    return await query;
+  // Escalation rule operations
+  async getEscalationRules(): Promise<EscalationRule[]> {
+    return await db.select().from(escalationRules).orderBy(asc(escalationRules.id));
   }
 
-  async getUserPolicy(departmentId: number | null | undefined, tabName: string): Promise<UserPolicy | undefined> {
-    if (!departmentId) return undefined;
-    const [policy] = await db.select().from(userPolicies)
-      .where(and(eq(userPolicies.departmentId, departmentId), eq(userPolicies.tabName, tabName)));
-    return policy;
+  async getEscalationRuleById(id: number): Promise<EscalationRule | undefined> {
+    const [rule] = await db.select().from(escalationRules).where(eq(escalationRules.id, id));
+    return rule;
   }
 
-  async createOrUpdateUserPolicy(policy: InsertUserPolicy): Promise<UserPolicy> {
-    const existing = await this.getUserPolicy(policy.departmentId, policy.tabName);
-    
-    if (existing && policy.departmentId !== null && policy.departmentId !== undefined) {
-      const [updated] = await db.update(userPolicies)
-        .set({ isEnabled: policy.isEnabled, updatedAt: new Date() })
-        .where(and(eq(userPolicies.departmentId, policy.departmentId), eq(userPolicies.tabName, policy.tabName)))
-        .returning();
-      return updated;
-    } else {
-      const [created] = await db.insert(userPolicies).values(policy).returning();
+  async createEscalationRule(rule: InsertEscalationRule): Promise<EscalationRule> {
+    const [created] = await db.insert(escalationRules).values(rule).returning();
+    return created;
+  }
+
+  async updateEscalationRule(id: number, rule: Partial<InsertEscalationRule>): Promise<EscalationRule | undefined> {
+    const [updated] = await db.update(escalationRules)
+      .set({ ...rule, updatedAt: new Date() })
+      .where(eq(escalationRules.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteEscalationRule(id: number): Promise<boolean> {
+    const result = await db.delete(escalationRules).where(eq(escalationRules.id, id)).returning({ id: escalationRules.id });
+    return result.length > 0;
+  }
+
+  async getCourierEscalations(courierId: number): Promise<CourierEscalation[]> {
+    return await db.select().from(courierEscalations)
+      .where(eq(courierEscalations.courierId, courierId))
+      .orderBy(asc(courierEscalations.level));
+  }
+
+  // Permission grant operations
+  async getPermissionGrants(): Promise<PermissionGrant[]> {
+    return await db.select().from(permissionGrants).orderBy(asc(permissionGrants.role), asc(permissionGrants.permission));
+  }
+
+  // Role-wide grants plus those for any of the user's departments
+  async getPermissionGrantsForUser(role: string, departmentIds: number[]): Promise<PermissionGrant[]> {
+    return await db.select().from(permissionGrants).where(and(
+      eq(permissionGrants.role, role as any),
+      departmentIds.length > 0
+        ? or(isNull(permissionGrants.departmentId), inArray(permissionGrants.departmentId, departmentIds))
+        : isNull(permissionGrants.departmentId)
+    ));
+  }
+
+  async setPermissionGrant(grant: InsertPermissionGrant): Promise<PermissionGrant> {
+    return await db.transaction(async (tx) => {
+      const departmentCondition = grant.departmentId ? eq(permissionGrants.departmentId, grant.departmentId) : isNull(permissionGrants.departmentId);
+      const [existing] = await tx.select().from(permissionGrants)
+        .where(and(eq(permissionGrants.role, grant.role), departmentCondition, eq(permissionGrants.permission, grant.permission)))
+        .for('update');
+
+      if (existing) {
+        const [updated] = await tx.update(permissionGrants)
+          .set({ isGranted: grant.isGranted, updatedBy: grant.updatedBy, updatedAt: new Date() })
+          .where(eq(permissionGrants.id, existing.id))
+          .returning();
+        return updated;
+      }
+
+      const [created] = await tx.insert(permissionGrants).values(grant).returning();
       return created;
-    }
+    });
+  }
+
+  async deletePermissionGrant(role: string, departmentId: number | null, permission: string): Promise<boolean> {
+    const result = await db.delete(permissionGrants)
+      .where(and(
+        eq(permissionGrants.role, role as any),
+        departmentId ? eq(permissionGrants.departmentId, departmentId) : isNull(permissionGrants.departmentId),
+        eq(permissionGrants.permission, permission)
+      ))
+      .returning({ id: permissionGrants.id });
+    return result.length > 0;
+  }
+
+  // Convert department tab toggles from before the permission registry into
+  // department grants for managers and users, then remove them.
+  async convertLegacyUserPolicies(): Promise<number> {
+    const legacyPermissions: Record<string, string> = {
+      'branches': 'branch.view',
+      'couriers': 'courier.view',
+      'received_couriers': 'received_courier.view',
+      'received-couriers': 'received_courier.view',
+      'authority_letters': 'letter.view',
+      'authority-letter': 'letter.view',
+      'view_all_couriers': 'courier.view_all',
+    };
+
+    return await db.transaction(async (tx) => {
+      const policies = await tx.select().from(userPolicies);
+      let converted = 0;
+
+      for (const policy of policies) {
+        const permission = legacyPermissions[policy.tabName];
+        if (!permission || !policy.departmentId) continue;
+
+        for (const role of ['manager', 'user'] as const) {
+          const [existing] = await tx.select({ id: permissionGrants.id }).from(permissionGrants)
+            .where(and(eq(permissionGrants.role, role), eq(permissionGrants.departmentId, policy.departmentId), eq(permissionGrants.permission, permission)));
+          if (existing) continue;
+
+          await tx.insert(permissionGrants).values({ role, departmentId: policy.departmentId, permission, isGranted: policy.isEnabled });
+          converted++;
+        }
+      }
+
+      if (policies.length > 0) {
+        await tx.delete(userPolicies);
+      }
+      return converted;
+    });
   }
 
-  // Reminder Email operations
-  async getOverdueCouriers(): Promise<(Courier & { department?: Department; creator?: User })[]> {
-    const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  // Escalation operations
+  async getOverdueCouriers(minAgeHours = 24): Promise<(Courier & { department?: Department; creator?: User })[]> {
+    const cutoff = new Date(Date.now() - minAgeHours * 60 * 60 * 1000);
     
     const results = await db
       .select({
@@ -1639,8 +3029,12 @@ export class DatabaseStorage implements IStorage {
         receivedRemarks: couriers.receivedRemarks,
         podCopyPath: couriers.podCopyPath,
         confirmationToken: couriers.confirmationToken,
+        confirmationTokenExpiresAt: couriers.confirmationTokenExpiresAt,
         reminderEmailSent: couriers.reminderEmailSent,
         reminderEmailSentAt: couriers.reminderEmailSentAt,
+        trackingLastCheckedAt: couriers.trackingLastCheckedAt,
+        escalationLevel: couriers.escalationLevel,
+        lastEscalatedAt: couriers.lastEscalatedAt,
         createdAt: couriers.createdAt,
         updatedAt: couriers.updatedAt,
         department: departments,
@@ -1652,8 +3046,7 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(couriers.status, 'on_the_way'),
-          eq(couriers.reminderEmailSent, false),
-          sql`${couriers.createdAt} <= ${twentyFourHoursAgo.toISOString()}`
+          sql`${couriers.createdAt} <= ${cutoff.toISOString()}`
         )
       );
     
@@ -1664,9 +3057,110 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
-  async markReminderEmailSent(courierId: number): Promise<void> {
+  /**
+   * Record an escalation step and advance the courier's level. Returns false when the
+   * courier is no longer in transit or another run already moved it past fromLevel.
+   */
+  async recordCourierEscalation(fromLevel: number, escalation: InsertCourierEscalation): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select({ status: couriers.status, escalationLevel: couriers.escalationLevel })
+        .from(couriers)
+        .where(eq(couriers.id, escalation.courierId))
+        .for('update');
+
+      if (!current || current.status !== 'on_the_way' || current.escalationLevel !== fromLevel) {
+        return false;
+      }
+
+      const now = new Date();
+      await tx.update(couriers)
+        .set({
+          escalationLevel: escalation.level,
+          lastEscalatedAt: now,
+          // Keep the original reminder flag meaningful for existing reports
+          ...(escalation.action !== 'escalate_manager' ? { reminderEmailSent: true, reminderEmailSentAt: now } : {}),
+        })
+        .where(eq(couriers.id, escalation.courierId));
+
+      await tx.insert(courierEscalations).values(escalation);
+      return true;
+    });
+  }
+
+  async getDepartmentManagers(departmentId: number): Promise<User[]> {
+    return await db.select().from(users)
+      .where(
+        and(
+          eq(users.role, 'manager'),
+          or(
+            eq(users.departmentId, departmentId),
+            inArray(users.id, db.select({ userId: sql<string>`${userDepartments.userId}` })
+              .from(userDepartments)
+              .where(eq(userDepartments.departmentId, departmentId)))
+          )
+        )
+      );
+  }
+
+  // Users whose primary or additional department is the given one
+  async getDepartmentMembers(departmentId: number): Promise<User[]> {
+    return await db.select().from(users)
+      .where(
+        or(
+          eq(users.departmentId, departmentId),
+          inArray(users.id, db.select({ userId: sql<string>`${userDepartments.userId}` })
+            .from(userDepartments)
+            .where(eq(userDepartments.departmentId, departmentId)))
+        )
+      );
+  }
+
+  async getBranchByName(branchName: string): Promise<Branch | undefined> {
+    const [branch] = await db.select().from(branches)
+      .where(sql`lower(${branches.branchName}) = lower(${branchName.trim()})`)
+      .orderBy(asc(branches.status))
+      .limit(1);
+    return branch;
+  }
+
+  // Carrier tracking operations
+  async getCouriersForTrackingPoll(): Promise<Courier[]> {
+    return await db.select().from(couriers)
+      .where(
+        and(
+          eq(couriers.status, 'on_the_way'),
+          isNotNull(couriers.podNo),
+          sql`trim(${couriers.podNo}) <> ''`
+        )
+      )
+      .orderBy(sql`${couriers.trackingLastCheckedAt} ASC NULLS FIRST`);
+  }
+
+  async getVendorByName(vendorName: string): Promise<Vendor | undefined> {
+    const [vendor] = await db.select().from(vendors)
+      .where(sql`lower(${vendors.vendorName}) = lower(${vendorName.trim()})`)
+      .limit(1);
+    return vendor;
+  }
+
+  async getCourierTrackingEvents(courierId: number): Promise<CourierTrackingEvent[]> {
+    return await db.select().from(courierTrackingEvents)
+      .where(eq(courierTrackingEvents.courierId, courierId))
+      .orderBy(desc(courierTrackingEvents.eventTime));
+  }
+
+  // Returns only the events that were not already stored
+  async addCourierTrackingEvents(events: InsertCourierTrackingEvent[]): Promise<CourierTrackingEvent[]> {
+    if (events.length === 0) return [];
+    return await db.insert(courierTrackingEvents)
+      .values(events)
+      .onConflictDoNothing({ target: [courierTrackingEvents.courierId, courierTrackingEvents.eventTime, courierTrackingEvents.status] })
+      .returning();
+  }
+
+  async markCourierTrackingChecked(courierId: number): Promise<void> {
     await db.update(couriers)
-      .set({ reminderEmailSent: true, reminderEmailSentAt: new Date(), updatedAt: new Date() })
+      .set({ trackingLastCheckedAt: new Date() })
       .where(eq(couriers.id, courierId));
   }
 }
@@ -0,0 +1,171 @@
+import { storage } from "./storage";
+import type { AuthorityLetterTemplate, AuthorityLetterTemplateVersion, InsertAuthorityLetterTemplate, TemplateVersionOptions } from "@shared/schema";
+
+export interface TemplateLayout {
+  templateContent: string;
+  wordTemplateUrl: string | null;
+}
+
+export interface TemplateDiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+// Above this many line pairs the changed middle is shown as removed-then-added instead of aligned
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Add a version with a new layout for the template. It stays a draft unless `publish` is
+ * set, in which case letters are rendered from it straight away.
+ */
+export async function createTemplateVersion(
+  template: AuthorityLetterTemplate,
+  layout: TemplateLayout,
+  userId: string | null,
+  options: TemplateVersionOptions = {}
+): Promise<{ template: AuthorityLetterTemplate; version: AuthorityLetterTemplateVersion }> {
+  const version = await storage.createAuthorityLetterTemplateVersion({
+    templateId: template.id,
+    templateContent: layout.templateContent,
+    wordTemplateUrl: layout.wordTemplateUrl,
+    changeNote: options.changeNote || null,
+    createdBy: userId,
+  });
+
+  if (!options.publish) {
+    return { template, version };
+  }
+  return (await storage.publishAuthorityLetterTemplateVersion(version.id, userId))!;
+}
+
+/**
+ * Apply an edit to a template: name, description and flags change in place, while new
+ * content or a new Word file becomes a version. Returns the version when one was added.
+ */
+export async function applyTemplateChanges(
+  template: AuthorityLetterTemplate,
+  changes: Partial<InsertAuthorityLetterTemplate>,
+  userId: string,
+  options: TemplateVersionOptions = {}
+): Promise<{ template: AuthorityLetterTemplate; version?: AuthorityLetterTemplateVersion }> {
+  const { templateContent, wordTemplateUrl, ...details } = changes;
+
+  let updated = template;
+  if (Object.keys(details).length > 0) {
+    updated = (await storage.updateAuthorityLetterTemplate(template.id, details)) ?? template;
+  }
+
+  const contentChanged = templateContent !== undefined && templateContent !== template.templateContent;
+  const wordChanged = wordTemplateUrl !== undefined && wordTemplateUrl !== template.wordTemplateUrl;
+  if (!contentChanged && !wordChanged) {
+    return { template: updated };
+  }
+
+  return await createTemplateVersion(
+    updated,
+    {
+      templateContent: templateContent ?? template.templateContent,
+      wordTemplateUrl: wordTemplateUrl !== undefined ? wordTemplateUrl : template.wordTemplateUrl,
+    },
+    userId,
+    options
+  );
+}
+
+// Roll back by publishing a copy of an older version, so the history only ever grows
+export async function rollbackTemplateVersion(
+  template: AuthorityLetterTemplate,
+  target: AuthorityLetterTemplateVersion,
+  userId: string
+): Promise<{ template: AuthorityLetterTemplate; version: AuthorityLetterTemplateVersion }> {
+  return await createTemplateVersion(
+    template,
+    { templateContent: target.templateContent, wordTemplateUrl: target.wordTemplateUrl },
+    userId,
+    { publish: true, changeNote: `Rolled back to version ${target.versionNumber}` }
+  );
+}
+
+// Templates from before versioning get their current layout recorded as a published version 1
+export async function backfillTemplateVersions(): Promise<number> {
+  const templates = await storage.getUnversionedAuthorityLetterTemplates();
+  for (const template of templates) {
+    await createTemplateVersion(
+      template,
+      { templateContent: template.templateContent, wordTemplateUrl: template.wordTemplateUrl },
+      null,
+      { publish: true, changeNote: 'Layout in use when versioning was introduced' }
+    );
+  }
+  return templates.length;
+}
+
+// One line per block element, so a diff shows which paragraphs or rows changed
+function splitHtmlLines(html: string): string[] {
+  return html
+    .replace(/\r\n?/g, '\n')
+    .replace(/(<\/(?:p|h[1-6]|li|tr|table|thead|tbody|ul|ol|div|head|style|title|body)>|<br\s*\/?>)/gi, '$1\n')
+    .replace(/(<(?:html|head|body|table|thead|tbody|tr|ul|ol)(?:\s[^>]*)?>)/gi, '$1\n')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+}
+
+// Line diff of two template layouts (longest common subsequence)
+export function diffTemplateHtml(from: string, to: string): TemplateDiffLine[] {
+  const a = splitHtmlLines(from);
+  const b = splitHtmlLines(to);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const prefix = a.slice(0, start).map((text): TemplateDiffLine => ({ type: 'unchanged', text }));
+  const suffix = a.slice(endA).map((text): TemplateDiffLine => ({ type: 'unchanged', text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    return [
+      ...prefix,
+      ...midA.map((text): TemplateDiffLine => ({ type: 'removed', text })),
+      ...midB.map((text): TemplateDiffLine => ({ type: 'added', text })),
+      ...suffix,
+    ];
+  }
+
+  // lengths[i][j]: longest common subsequence of midA[i..] and midB[j..]
+  const width = midB.length + 1;
+  const lengths = new Uint32Array((midA.length + 1) * width);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = midA[i] === midB[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const middle: TemplateDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: 'unchanged', text: midA[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      middle.push({ type: 'removed', text: midA[i++] });
+    } else {
+      middle.push({ type: 'added', text: midB[j++] });
+    }
+  }
+  while (i < midA.length) middle.push({ type: 'removed', text: midA[i++] });
+  while (j < midB.length) middle.push({ type: 'added', text: midB[j++] });
+
+  return [...prefix, ...middle, ...suffix];
+}
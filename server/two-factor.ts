@@ -0,0 +1,163 @@
+import crypto from "crypto";
+import QRCode from "qrcode";
+import { storage } from "./storage";
+
+// RFC 6238 time-based one-time passwords with the parameters every authenticator app
+// supports: HMAC-SHA1, 6 digits, 30 second steps.
+const TOTP_DIGITS = 6;
+const TOTP_STEP_SECONDS = 30;
+// Accept the previous and next step to allow for clock drift on the phone
+const TOTP_WINDOW = 1;
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'Courier Management';
+
+const BACKUP_CODE_COUNT = 10;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[^A-Z2-7]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of cleaned) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function generateCode(secret: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', secret).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+// Codes from the authenticator app are six digits; anything else is treated as a backup code
+export function isTotpCodeFormat(code: string): boolean {
+  return /^\d{6}$/.test((code || '').replace(/\s/g, ''));
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+// otpauth:// URI understood by Google Authenticator, Microsoft Authenticator, Authy, etc.
+export function buildOtpAuthUrl(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: TOTP_DIGITS.toString(),
+    period: TOTP_STEP_SECONDS.toString(),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+export async function createEnrollmentQrCode(otpAuthUrl: string): Promise<string> {
+  return await QRCode.toDataURL(otpAuthUrl, { margin: 1, width: 200 });
+}
+
+/**
+ * Check a 6-digit code against a secret. Returns the time step the code belongs to, or
+ * null when it does not match. Steps at or before `lastUsedStep` are rejected so an
+ * intercepted code cannot be replayed; the caller records the returned step.
+ */
+export function verifyTotpCode(secret: string, code: string, lastUsedStep?: number | null): number | null {
+  if (!isTotpCodeFormat(code)) return null;
+  const normalized = code.replace(/\s/g, '');
+
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+  for (let step = currentStep - TOTP_WINDOW; step <= currentStep + TOTP_WINDOW; step++) {
+    if (lastUsedStep != null && step <= lastUsedStep) continue;
+    const expected = Buffer.from(generateCode(key, step));
+    if (crypto.timingSafeEqual(expected, Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// Single-use recovery codes shown once at enrollment, formatted "xxxxx-xxxxx"
+export function generateBackupCodes(): string[] {
+  return Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const code = crypto.randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+// Only hashes of backup codes are stored. Case, spaces and dashes are ignored.
+export function hashBackupCode(code: string): string {
+  const normalized = (code || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+// Whether members of a role must have two-factor authentication (Security settings)
+export async function isTwoFactorRequiredForRole(role: string | null | undefined): Promise<boolean> {
+  if (!role) return false;
+  const settings = await storage.getSecuritySettings();
+  return !!settings?.twoFactorRequiredRoles.includes(role);
+}
+
+// Generate a new secret for the user to scan. It only takes effect once confirmed.
+export async function startTwoFactorEnrollment(user: { id: string; email: string | null }) {
+  const secret = generateTotpSecret();
+  await storage.setPendingTwoFactorSecret(user.id, secret);
+  const otpAuthUrl = buildOtpAuthUrl(secret, user.email || user.id);
+  return { secret, otpAuthUrl, qrCode: await createEnrollmentQrCode(otpAuthUrl) };
+}
+
+// Confirm enrollment with a code from the pending secret. Returns the new backup codes,
+// or null when there is no pending enrollment or the code is wrong.
+export async function confirmTwoFactorEnrollment(userId: string, code: string): Promise<string[] | null> {
+  const twoFactor = await storage.getUserTwoFactor(userId);
+  if (!twoFactor?.pendingSecret) return null;
+
+  const step = verifyTotpCode(twoFactor.pendingSecret, code);
+  if (step === null) return null;
+
+  const backupCodes = generateBackupCodes();
+  const enabled = await storage.enableTwoFactor(userId, twoFactor.pendingSecret, backupCodes.map(hashBackupCode), step);
+  return enabled ? backupCodes : null;
+}
+
+/**
+ * Verify a second-factor code for a user with two-factor enabled. Accepts a code from the
+ * authenticator app or an unused backup code (which is then spent). Returns how the user
+ * verified, or null when the code is not accepted.
+ */
+export async function verifySecondFactor(userId: string, code: string): Promise<'totp' | 'backup_code' | null> {
+  const twoFactor = await storage.getUserTwoFactor(userId);
+  if (!twoFactor?.secret || !twoFactor.enabledAt) return null;
+
+  if (isTotpCodeFormat(code)) {
+    const step = verifyTotpCode(twoFactor.secret, code, twoFactor.lastUsedStep);
+    return step !== null && await storage.recordTwoFactorStep(userId, step) ? 'totp' : null;
+  }
+  return await storage.consumeBackupCode(userId, hashBackupCode(code)) ? 'backup_code' : null;
+}
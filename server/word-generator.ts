@@ -3,14 +3,22 @@ import PizZip from 'pizzip';
 import fs from 'fs';
 import path from 'path';
 import { FieldTransformations, FieldTransformOptions } from './field-transformations';
+import type { LetterVerification } from './letter-register';
 
 export interface WordGenerationOptions {
   templatePath: string;
   fieldValues: Record<string, any>;
   fieldConfigs?: Record<string, FieldTransformOptions>;
   fileName?: string;
+  // QR code and code for the public letter check, added at the end of the document
+  verification?: LetterVerification;
 }
 
+const VERIFICATION_QR_PATH = 'word/media/letter-verification-qr.png';
+const VERIFICATION_QR_REL_ID = 'rIdLetterVerificationQr';
+// 22 mm in EMUs (36,000 per millimetre)
+const VERIFICATION_QR_SIZE = 22 * 36000;
+
 export class WordGenerator {
   private static processFieldValues(fieldValues: Record<string, any>, fieldConfigs: Record<string, FieldTransformOptions> = {}): Record<string, any> {
     const result: Record<string, any> = {};
@@ -31,6 +39,56 @@ export class WordGenerator {
     return result;
   }
 
+  private static escapeXml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+
+  /**
+   * Append the verification QR code and code to a rendered document. Runs on the zip after
+   * docxtemplater has rendered it, so it also serves documents rendered outside this class.
+   */
+  static addVerificationBlock(zip: PizZip, verification: LetterVerification): void {
+    zip.file(VERIFICATION_QR_PATH, verification.qrCode);
+
+    const contentTypes = zip.file('[Content_Types].xml')!.asText();
+    if (!/Extension="png"/i.test(contentTypes)) {
+      zip.file('[Content_Types].xml', contentTypes.replace(/(<Types[^>]*>)/, '$1<Default Extension="png" ContentType="image/png"/>'));
+    }
+
+    const relsPath = 'word/_rels/document.xml.rels';
+    const rels = zip.file(relsPath)!.asText();
+    if (!rels.includes(VERIFICATION_QR_REL_ID)) {
+      zip.file(relsPath, rels.replace('</Relationships>', () =>
+        `<Relationship Id="${VERIFICATION_QR_REL_ID}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/letter-verification-qr.png"/></Relationships>`));
+    }
+
+    const small = '<w:rPr><w:sz w:val="16"/></w:rPr>';
+    const blockXml =
+      '<w:p><w:r><w:drawing>' +
+      `<wp:inline xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" distT="0" distB="0" distL="0" distR="0">` +
+      `<wp:extent cx="${VERIFICATION_QR_SIZE}" cy="${VERIFICATION_QR_SIZE}"/>` +
+      '<wp:docPr id="9001" name="Letter verification QR code"/>' +
+      '<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">' +
+      '<a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">' +
+      '<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">' +
+      '<pic:nvPicPr><pic:cNvPr id="9001" name="letter-verification-qr.png"/><pic:cNvPicPr/></pic:nvPicPr>' +
+      `<pic:blipFill><a:blip xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" r:embed="${VERIFICATION_QR_REL_ID}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+      `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${VERIFICATION_QR_SIZE}" cy="${VERIFICATION_QR_SIZE}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+      '</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r></w:p>' +
+      `<w:p><w:r>${small}<w:t xml:space="preserve">Verification code: ${this.escapeXml(verification.code)}</w:t></w:r></w:p>` +
+      `<w:p><w:r>${small}<w:t xml:space="preserve">Scan the code or visit ${this.escapeXml(verification.url)} to check this letter.</w:t></w:r></w:p>`;
+
+    // The body-level section properties must stay the last element of the body
+    const documentXml = zip.file('word/document.xml')!.asText();
+    const bodyEnd = documentXml.lastIndexOf('</w:body>');
+    const sectionStart = documentXml.lastIndexOf('<w:sectPr', bodyEnd);
+    const sectionEnd = documentXml.indexOf('</w:sectPr>', sectionStart);
+    const insertAt = sectionStart >= 0 && documentXml.slice(sectionEnd + '</w:sectPr>'.length, bodyEnd).trim() === ''
+      ? sectionStart
+      : bodyEnd;
+    zip.file('word/document.xml', documentXml.slice(0, insertAt) + blockXml + documentXml.slice(insertAt));
+  }
+
   static async generateWordDocument(options: WordGenerationOptions): Promise<Buffer> {
     try {
       // Read the Word template file
@@ -60,6 +118,10 @@ export class WordGenerator {
         throw new Error(`Template rendering failed: ${error.message}`);
       }
 
+      if (options.verification) {
+        this.addVerificationBlock(doc.getZip(), options.verification);
+      }
+
       // Generate the Word document buffer
       const buffer = doc.getZip().generate({
         type: 'nodebuffer',
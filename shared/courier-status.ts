@@ -0,0 +1,54 @@
+import type { Courier } from "./schema";
+
+// Courier lifecycle shared by sent couriers and received couriers.
+// Kept free of runtime schema imports so the client can use it too.
+
+export type CourierStatus = NonNullable<Courier['status']>;
+export type CourierType = 'courier' | 'received_courier';
+
+// Allowed status changes, keyed by the current status
+export const COURIER_STATUS_TRANSITIONS: Record<CourierStatus, CourierStatus[]> = {
+  on_the_way: ['delivered', 'received', 'deleted'],
+  delivered: ['received', 'completed', 'deleted'],
+  received: ['dispatched', 'completed', 'deleted'],
+  dispatched: ['received', 'delivered', 'completed', 'deleted'],
+  completed: ['deleted'],
+  deleted: ['on_the_way'],
+};
+
+export const COURIER_STATUS_LABELS: Record<CourierStatus, string> = {
+  on_the_way: 'On The Way',
+  delivered: 'Delivered',
+  received: 'Received',
+  dispatched: 'Dispatched',
+  completed: 'Completed',
+  deleted: 'Deleted',
+};
+
+export function canTransitionCourierStatus(from: CourierStatus | null | undefined, to: CourierStatus): boolean {
+  // Rows created before status tracking may have no status; allow any first transition
+  if (!from) return true;
+  return COURIER_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export class InvalidStatusTransitionError extends Error {
+  constructor(public from: CourierStatus | null, public to: CourierStatus) {
+    super(`Cannot change status from "${from ? COURIER_STATUS_LABELS[from] : 'None'}" to "${COURIER_STATUS_LABELS[to] || to}"`);
+    this.name = 'InvalidStatusTransitionError';
+  }
+}
+
+// Email confirmation links are single use and stop working after this many days
+export const CONFIRMATION_TOKEN_TTL_DAYS = 30;
+
+export function isConfirmationTokenExpired(expiresAt: Date | null | undefined): boolean {
+  // Tokens issued before expiry was tracked have no expiry
+  return !!expiresAt && new Date(expiresAt).getTime() <= Date.now();
+}
+
+export class ConfirmationTokenUsedError extends Error {
+  constructor() {
+    super('This confirmation link has already been used or has expired');
+    this.name = 'ConfirmationTokenUsedError';
+  }
+}
@@ -0,0 +1,169 @@
+// Notification events that send email. Each event has a built-in template on the
+// server which admins can override. Kept free of runtime imports so the client can use it too.
+
+export const EMAIL_EVENT_KEYS = [
+  'courier_dispatch',
+  'courier_received_confirmation',
+  'courier_reminder',
+  'courier_escalation',
+  'received_courier_notification',
+  'received_courier_dispatch',
+  'received_courier_confirmation',
+  'user_welcome',
+  'password_reset',
+  'letter_approval_requested',
+  'letter_approval_decided',
+] as const;
+
+export type EmailEventKey = typeof EMAIL_EVENT_KEYS[number];
+
+export interface EmailEventDefinition {
+  label: string;
+  description: string;
+  // Placeholders available to the template, e.g. "podNo" or "department.name"
+  variables: string[];
+}
+
+const SENT_COURIER_VARIABLES = ['podNo', 'toBranch', 'receiverName', 'email', 'contactDetails', 'courierDate', 'details', 'remarks', 'vendorName', 'department.name'];
+const RECEIVED_COURIER_VARIABLES = ['podNo', 'fromLocation', 'receiverName', 'emailId', 'receivedDate', 'remarks', 'vendorName', 'department.name'];
+
+export const EMAIL_EVENTS: Record<EmailEventKey, EmailEventDefinition> = {
+  courier_dispatch: {
+    label: 'Courier Dispatch',
+    description: 'Sent to the receiver when a courier is created with email notification enabled',
+    variables: [...SENT_COURIER_VARIABLES, 'greeting', 'vendorContactInfo', 'sender.name', 'sender.email', 'confirmUrl', 'year'],
+  },
+  courier_received_confirmation: {
+    label: 'Courier Receipt Confirmation',
+    description: 'Sent to the sender when the receiver confirms a sent courier',
+    variables: [...SENT_COURIER_VARIABLES, 'confirmedAt'],
+  },
+  courier_reminder: {
+    label: 'Overdue Reminder',
+    description: 'Sent to the receiver, optionally copying the branch, when a courier reaches an escalation step',
+    variables: [...SENT_COURIER_VARIABLES, 'hoursOverdue', 'escalationLevel'],
+  },
+  courier_escalation: {
+    label: 'Manager Escalation',
+    description: 'Sent to the department managers when an overdue courier is escalated to them',
+    variables: [...SENT_COURIER_VARIABLES, 'hoursOverdue', 'escalationLevel', 'sender.name', 'sender.email'],
+  },
+  received_courier_notification: {
+    label: 'Received Courier Notification',
+    description: 'Sent to the addressee when an inbound courier is logged',
+    variables: [...RECEIVED_COURIER_VARIABLES, 'year'],
+  },
+  received_courier_dispatch: {
+    label: 'Received Courier Dispatch',
+    description: 'Sent when an inbound courier is dispatched to its addressee',
+    variables: [...RECEIVED_COURIER_VARIABLES, 'confirmUrl'],
+  },
+  received_courier_confirmation: {
+    label: 'Received Courier Confirmation',
+    description: 'Sent when the addressee confirms a dispatched inbound courier',
+    variables: [...RECEIVED_COURIER_VARIABLES, 'confirmedAt'],
+  },
+  user_welcome: {
+    label: 'Account Created',
+    description: 'Sent to a new user with their login details',
+    variables: ['name', 'email', 'employeeCode', 'role', 'password', 'loginUrl'],
+  },
+  password_reset: {
+    label: 'Password Reset',
+    description: 'Sent when a user requests a password reset link',
+    variables: ['email', 'resetUrl'],
+  },
+  letter_approval_requested: {
+    label: 'Letter Approval Requested',
+    description: 'Sent to the approvers of the department when a letter is submitted for approval',
+    variables: ['requestId', 'templateName', 'department.name', 'maker.name', 'maker.email', 'reviewUrl'],
+  },
+  letter_approval_decided: {
+    label: 'Letter Approval Decision',
+    description: 'Sent to the maker when their letter is approved or rejected',
+    variables: ['requestId', 'templateName', 'department.name', 'decision', 'comment', 'reviewer.name', 'reviewUrl'],
+  },
+};
+
+// Example values used for template previews and test sends
+export const EMAIL_SAMPLE_DATA: Record<string, unknown> = {
+  podNo: 'POD123456',
+  toBranch: 'Mumbai Head Office',
+  fromLocation: 'Delhi Regional Office',
+  receiverName: 'Priya Sharma',
+  email: 'priya.sharma@example.com',
+  emailId: 'priya.sharma@example.com',
+  contactDetails: '+91 98765 43210',
+  courierDate: '2024-01-15',
+  receivedDate: '2024-01-15',
+  details: 'Signed agreement documents',
+  remarks: 'Handle with care',
+  vendorName: 'Blue Dart',
+  vendorContactInfo: 'Blue Dart customer care: 1860 233 1234',
+  department: { name: 'Finance' },
+  greeting: 'Dear Priya Sharma,',
+  sender: { name: 'Rahul Verma', email: 'rahul.verma@example.com' },
+  confirmUrl: 'https://example.com/confirm-received?token=sample',
+  confirmedAt: '15/01/2024, 14:30:00',
+  hoursOverdue: 72,
+  escalationLevel: 3,
+  year: new Date().getFullYear(),
+  name: 'Priya Sharma',
+  employeeCode: 'EMP001',
+  role: 'user',
+  password: 'Sample@123',
+  loginUrl: 'https://example.com/login',
+  resetUrl: 'https://example.com/reset-password?token=sample',
+  requestId: 42,
+  templateName: 'Cash Collection Authority',
+  maker: { name: 'Rahul Verma', email: 'rahul.verma@example.com' },
+  reviewer: { name: 'Priya Sharma' },
+  decision: 'approved',
+  comment: 'Checked against the branch request',
+  reviewUrl: 'https://example.com/',
+};
+
+export function isEmailEventKey(value: unknown): value is EmailEventKey {
+  return typeof value === 'string' && (EMAIL_EVENT_KEYS as readonly string[]).includes(value);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function lookup(data: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value === null || value === undefined || typeof value !== 'object') return undefined;
+    return (value as Record<string, unknown>)[key];
+  }, data);
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === false || String(value).trim() === '';
+}
+
+/**
+ * Render a template with {{placeholders}}.
+ *
+ * - {{podNo}} and {{department.name}} insert HTML-escaped values
+ * - {{remarks|N/A}} falls back to the text after the pipe when the value is empty
+ * - {{#vendorContactInfo}}...{{/vendorContactInfo}} keeps the block only when the value is set
+ *
+ * Pass escape = false for plain-text output such as subjects.
+ */
+export function renderEmailTemplate(template: string, data: Record<string, unknown>, escape = true): string {
+  const withSections = template.replace(/\{\{#\s*([\w.]+)\s*\}\}([\s\S]*?)\{\{\/\s*\1\s*\}\}/g, (_match, path: string, inner: string) =>
+    isBlank(lookup(data, path)) ? '' : inner
+  );
+
+  return withSections.replace(/\{\{\s*([\w.]+)\s*(?:\|([^}]*))?\}\}/g, (_match, path: string, fallback?: string) => {
+    const value = lookup(data, path);
+    const text = isBlank(value) ? (fallback ?? '') : String(value);
+    return escape ? escapeHtml(text) : text;
+  });
+}
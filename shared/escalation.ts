@@ -0,0 +1,41 @@
+import { z } from "zod";
+
+// Escalation steps for sent couriers that stay "on the way". Each rule lists its
+// steps in order; a courier's escalation level is the number of steps already taken.
+
+export const ESCALATION_ACTIONS = ['remind_receiver', 'cc_branch', 'escalate_manager'] as const;
+export type EscalationAction = typeof ESCALATION_ACTIONS[number];
+
+export const ESCALATION_ACTION_LABELS: Record<EscalationAction, string> = {
+  remind_receiver: 'Remind receiver',
+  cc_branch: 'Remind receiver and CC branch',
+  escalate_manager: 'Escalate to department manager',
+};
+
+export const escalationStepSchema = z.object({
+  afterHours: z.coerce.number().int().min(1, "Must be at least 1 hour").max(24 * 90, "Must be at most 90 days"),
+  action: z.enum(ESCALATION_ACTIONS),
+  additionalEmails: z.array(z.string().trim().email("Invalid email address")).max(10).default([]),
+});
+
+export const escalationStepsSchema = z.array(escalationStepSchema)
+  .min(1, "At least one step is required")
+  .max(10, "At most 10 steps are allowed")
+  .superRefine((steps, ctx) => {
+    steps.forEach((step, index) => {
+      if (index > 0 && step.afterHours <= steps[index - 1].afterHours) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, 'afterHours'],
+          message: "Each step must come later than the previous one",
+        });
+      }
+    });
+  });
+
+export type EscalationStep = z.infer<typeof escalationStepSchema>;
+
+// Used for couriers that no configured rule applies to; matches the original single 24-hour reminder
+export const DEFAULT_ESCALATION_STEPS: EscalationStep[] = [
+  { afterHours: 24, action: 'remind_receiver', additionalEmails: [] },
+];
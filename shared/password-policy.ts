@@ -0,0 +1,72 @@
+import { z } from "zod";
+
+// Password rules configured by admins in Settings > Security. The server enforces them
+// wherever a password is set; the client uses the same checks for early feedback.
+
+export const MAX_PASSWORD_HISTORY = 24;
+
+export const passwordPolicySchema = z.object({
+  minLength: z.coerce.number().int().min(6, "Must be at least 6").max(128, "Must be at most 128"),
+  requireUppercase: z.boolean(),
+  requireLowercase: z.boolean(),
+  requireNumber: z.boolean(),
+  requireSymbol: z.boolean(),
+  // Number of previous passwords that may not be reused (0 disables the check)
+  historyDepth: z.coerce.number().int().min(0).max(MAX_PASSWORD_HISTORY, `Must be at most ${MAX_PASSWORD_HISTORY}`),
+  // Days before a password must be changed at sign-in (0 means passwords never expire)
+  maxAgeDays: z.coerce.number().int().min(0).max(730, "Must be at most 730 days"),
+});
+
+export type PasswordPolicy = z.infer<typeof passwordPolicySchema>;
+
+// Matches the rules previously hard-coded in the user schemas
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumber: true,
+  requireSymbol: false,
+  historyDepth: 0,
+  maxAgeDays: 0,
+};
+
+// Problems with a password under the policy; empty when it is acceptable.
+// Reuse of earlier passwords is checked on the server only.
+export function getPasswordPolicyErrors(password: string, policy: PasswordPolicy): string[] {
+  const errors: string[] = [];
+  if (password.length < policy.minLength) {
+    errors.push(`Password must be at least ${policy.minLength} characters`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    errors.push('Password must contain an uppercase letter');
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    errors.push('Password must contain a lowercase letter');
+  }
+  if (policy.requireNumber && !/\d/.test(password)) {
+    errors.push('Password must contain a number');
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    errors.push('Password must contain a symbol');
+  }
+  return errors;
+}
+
+// One-line summary for hints under password fields
+export function describePasswordPolicy(policy: PasswordPolicy): string {
+  const classes = [
+    policy.requireUppercase && 'an uppercase letter',
+    policy.requireLowercase && 'a lowercase letter',
+    policy.requireNumber && 'a number',
+    policy.requireSymbol && 'a symbol',
+  ].filter(Boolean);
+
+  const summary = `At least ${policy.minLength} characters`;
+  return classes.length > 0 ? `${summary}, including ${classes.join(', ')}.` : `${summary}.`;
+}
+
+export function isPasswordExpired(changedAt: Date | string | null | undefined, policy: PasswordPolicy, now: Date = new Date()): boolean {
+  if (!policy.maxAgeDays || !changedAt) return false;
+  const expiresAt = new Date(changedAt).getTime() + policy.maxAgeDays * 24 * 60 * 60 * 1000;
+  return expiresAt <= now.getTime();
+}
@@ -0,0 +1,126 @@
+// Permission registry shared by the server (requirePermission) and the client
+// (navigation and the permissions editor). Kept free of runtime imports so the client can use it too.
+
+export const USER_ROLES = ['admin', 'sub_admin', 'manager', 'user'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  sub_admin: 'Sub Admin',
+  manager: 'Manager',
+  user: 'User',
+};
+
+export interface PermissionDefinition {
+  label: string;
+  description: string;
+  group: string;
+}
+
+export const PERMISSION_KEYS = [
+  'courier.view',
+  'courier.view_all',
+  'courier.create',
+  'courier.update',
+  'courier.delete',
+  'courier.import',
+  'courier.export',
+  'received_courier.view',
+  'received_courier.create',
+  'received_courier.update',
+  'received_courier.delete',
+  'received_courier.import',
+  'branch.view',
+  'branch.manage',
+  'branch.import',
+  'branch.export',
+  'vendor.manage',
+  'letter.view',
+  'letter.generate',
+  'letter.manage_templates',
+  'letter.register',
+  'letter.revoke',
+  'letter.approve',
+] as const;
+
+export type Permission = typeof PERMISSION_KEYS[number];
+
+export const PERMISSIONS: Record<Permission, PermissionDefinition> = {
+  'courier.view': { group: 'Sent Couriers', label: 'View', description: 'See sent couriers of their own department' },
+  'courier.view_all': { group: 'Sent Couriers', label: 'View all departments', description: 'See sent couriers of every department for tracking' },
+  'courier.create': { group: 'Sent Couriers', label: 'Create', description: 'Add sent couriers' },
+  'courier.update': { group: 'Sent Couriers', label: 'Edit', description: 'Edit sent couriers and change their status' },
+  'courier.delete': { group: 'Sent Couriers', label: 'Delete', description: 'Delete and restore sent couriers' },
+  'courier.import': { group: 'Sent Couriers', label: 'Import', description: 'Bulk import couriers from CSV or Excel' },
+  'courier.export': { group: 'Sent Couriers', label: 'Export', description: 'Export sent and received couriers to Excel' },
+  'received_courier.view': { group: 'Received Couriers', label: 'View', description: 'See received couriers' },
+  'received_courier.create': { group: 'Received Couriers', label: 'Create', description: 'Log received couriers and dispatch them to the addressee' },
+  'received_courier.update': { group: 'Received Couriers', label: 'Edit', description: 'Edit received couriers' },
+  'received_courier.delete': { group: 'Received Couriers', label: 'Delete', description: 'Delete received couriers' },
+  'received_courier.import': { group: 'Received Couriers', label: 'Import', description: 'Bulk import received couriers from CSV or Excel' },
+  'branch.view': { group: 'Branches', label: 'View', description: 'Open the branch list' },
+  'branch.manage': { group: 'Branches', label: 'Manage', description: 'Add, edit, close and delete branches' },
+  'branch.import': { group: 'Branches', label: 'Import', description: 'Bulk upload branches from CSV' },
+  'branch.export': { group: 'Branches', label: 'Export', description: 'Export the branch list' },
+  'vendor.manage': { group: 'Vendors', label: 'Manage', description: 'Add, edit and deactivate courier vendors' },
+  'letter.view': { group: 'Authority Letters', label: 'View', description: 'Open the authority letter page' },
+  'letter.generate': { group: 'Authority Letters', label: 'Generate', description: 'Preview and generate authority letters, including bulk generation' },
+  'letter.manage_templates': { group: 'Authority Letters', label: 'Manage templates', description: 'Edit authority letter templates and fields' },
+  'letter.register': { group: 'Authority Letters', label: 'Letter register', description: 'Search issued letters of their departments and download them again' },
+  'letter.revoke': { group: 'Authority Letters', label: 'Revoke', description: 'Revoke or cancel issued letters' },
+  'letter.approve': { group: 'Authority Letters', label: 'Approve', description: 'Approve or reject letters of their departments whose template requires approval' },
+};
+
+const ALL_PERMISSIONS: Permission[] = [...PERMISSION_KEYS];
+
+const STAFF_PERMISSIONS: Permission[] = [
+  'courier.view', 'courier.create', 'courier.update', 'courier.import',
+  'received_courier.view', 'received_courier.create', 'received_courier.import',
+  'letter.view', 'letter.generate', 'letter.register',
+];
+
+// Built-in grants per role. Admins always hold every permission; the other roles
+// can be adjusted role-wide or per department in User Policies.
+export const ROLE_DEFAULT_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: ALL_PERMISSIONS,
+  sub_admin: ALL_PERMISSIONS.filter(permission =>
+    !(['courier.view_all', 'received_courier.update', 'received_courier.delete', 'branch.export'] as Permission[]).includes(permission)
+  ),
+  manager: [...STAFF_PERMISSIONS, 'courier.delete', 'courier.export', 'branch.export', 'letter.revoke', 'letter.approve'],
+  user: STAFF_PERMISSIONS,
+};
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === 'string' && (PERMISSION_KEYS as readonly string[]).includes(value);
+}
+
+export interface PermissionGrantLike {
+  role: string;
+  departmentId: number | null;
+  permission: string;
+  isGranted: boolean;
+}
+
+/**
+ * Work out the permissions of a user from their role and department. A grant for
+ * the user's department wins over a role-wide grant, which wins over the built-in
+ * role defaults. Grants for other roles or departments are ignored.
+ */
+export function resolvePermissions(role: string | null | undefined, departmentId: number | null | undefined, grants: PermissionGrantLike[]): Permission[] {
+  if (role === 'admin') return [...ALL_PERMISSIONS];
+
+  const defaults = ROLE_DEFAULT_PERMISSIONS[role as UserRole] ?? [];
+  const roleGrants = grants.filter(grant => grant.role === role);
+
+  return ALL_PERMISSIONS.filter(permission => {
+    const departmentGrant = departmentId
+      ? roleGrants.find(grant => grant.permission === permission && grant.departmentId === departmentId)
+      : undefined;
+    if (departmentGrant) return departmentGrant.isGranted;
+
+    const roleWideGrant = roleGrants.find(grant => grant.permission === permission && grant.departmentId === null);
+    if (roleWideGrant) return roleWideGrant.isGranted;
+
+    return defaults.includes(permission);
+  });
+}
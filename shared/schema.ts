@@ -1,6 +1,8 @@
 import { sql, relations } from 'drizzle-orm';
 import {
   index,
+  uniqueIndex,
+  unique,
   jsonb,
   pgTable,
   timestamp,
@@ -11,9 +13,12 @@ import {
   integer,
   boolean,
   pgEnum,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { passwordPolicySchema, type PasswordPolicy } from "./password-policy";
+import { ssoAttributeMappingSchema, type SsoAttributeMapping } from "./sso-mapping";
 
 // Session storage table (required for Replit Auth)
 export const sessions = pgTable(
@@ -42,8 +47,10 @@ export const users = pgTable("users", {
   employeeCode: varchar("employee_code", { length: 50 }),
   mobileNumber: varchar("mobile_number", { length: 15 }),
   password: text("password"),
+  passwordChangedAt: timestamp("password_changed_at").defaultNow(), // Start of the password's maximum age
   role: roleEnum("role").default('user'),
   departmentId: integer("department_id").references(() => departments.id), // Keep for backward compatibility
+  emergencyAccessExpiresAt: timestamp("emergency_access_expires_at"), // Set only on break-glass accounts, which stop working at this time
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -99,11 +106,25 @@ export const couriers = pgTable("couriers", {
   receivedRemarks: text("received_remarks"),
   podCopyPath: varchar("pod_copy_path"),
   confirmationToken: varchar("confirmation_token", { length: 255 }), // For email confirmation
+  confirmationTokenExpiresAt: timestamp("confirmation_token_expires_at"),
   reminderEmailSent: boolean("reminder_email_sent").default(false), // Track if 24-hour reminder sent
   reminderEmailSentAt: timestamp("reminder_email_sent_at"), // When reminder was sent
+  trackingLastCheckedAt: timestamp("tracking_last_checked_at"), // Last carrier tracking poll
+  escalationLevel: integer("escalation_level").default(0).notNull(), // Number of escalation steps taken
+  lastEscalatedAt: timestamp("last_escalated_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [uniqueIndex("UQ_couriers_confirmation_token").on(table.confirmationToken)]);
+
+// Values captured for department custom fields on a sent courier
+export const courierCustomFieldValues = pgTable("courier_custom_field_values", {
+  id: serial("id").primaryKey(),
+  courierId: integer("courier_id").references(() => couriers.id, { onDelete: 'cascade' }).notNull(),
+  fieldId: integer("field_id").references(() => fields.id, { onDelete: 'cascade' }).notNull(),
+  value: text("value").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_courier_custom_field").on(table.courierId, table.fieldId)]);
 
 export const receivedCouriers = pgTable("received_couriers", {
   id: serial("id").primaryKey(),
@@ -123,9 +144,22 @@ export const receivedCouriers = pgTable("received_couriers", {
   remarks: text("remarks"),
   status: statusEnum("status").default('received'),
   confirmationToken: varchar("confirmation_token", { length: 255 }), // For email confirmation
+  confirmationTokenExpiresAt: timestamp("confirmation_token_expires_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [uniqueIndex("UQ_received_couriers_confirmation_token").on(table.confirmationToken)]);
+
+// Status change trail for sent and received couriers
+export const courierStatusHistory = pgTable("courier_status_history", {
+  id: serial("id").primaryKey(),
+  courierType: varchar("courier_type", { length: 20 }).notNull(), // 'courier' or 'received_courier'
+  courierId: integer("courier_id").notNull(),
+  fromStatus: statusEnum("from_status"),
+  toStatus: statusEnum("to_status").notNull(),
+  changedBy: varchar("changed_by").references(() => users.id),
+  remarks: text("remarks"),
+  changedAt: timestamp("changed_at").defaultNow(),
+}, (table) => [index("IDX_courier_status_history_courier").on(table.courierType, table.courierId)]);
 
 export const smtpSettings = pgTable("smtp_settings", {
   id: serial("id").primaryKey(),
@@ -140,6 +174,42 @@ export const smtpSettings = pgTable("smtp_settings", {
   applicationUrl: varchar("application_url", { length: 255 }), // Login link URL for emails
 });
 
+// Admin overrides of the built-in notification email templates, per event and
+// optionally per department. A null department is the global override.
+export const emailTemplates = pgTable("email_templates", {
+  id: serial("id").primaryKey(),
+  eventKey: varchar("event_key", { length: 50 }).notNull(),
+  departmentId: integer("department_id").references(() => departments.id, { onDelete: 'cascade' }),
+  subject: varchar("subject", { length: 255 }).notNull(),
+  htmlBody: text("html_body").notNull(),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [unique("UQ_email_template_event_department").on(table.eventKey, table.departmentId).nullsNotDistinct()]);
+
+// Outgoing email queue. Messages are retried with backoff until sent or out of attempts.
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  eventKey: varchar("event_key", { length: 50 }),
+  toEmails: text("to_emails").notNull(), // Comma-separated
+  ccEmails: text("cc_emails"), // Comma-separated
+  replyTo: varchar("reply_to", { length: 255 }),
+  subject: varchar("subject", { length: 500 }).notNull(),
+  html: text("html").notNull(),
+  attachments: jsonb("attachments"), // [{ filename, path, contentType }]
+  status: varchar("status", { length: 20 }).default('queued').notNull(), // 'queued', 'sending', 'sent' or 'failed'
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("max_attempts").default(5).notNull(),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+  lastError: text("last_error"),
+  redactOnSend: boolean("redact_on_send").default(false).notNull(), // Clear the body once sent, e.g. for credentials
+  entityType: varchar("entity_type", { length: 50 }),
+  entityId: varchar("entity_id", { length: 100 }),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_email_outbox_due").on(table.status, table.nextAttemptAt)]);
+
 export const samlSettings = pgTable("saml_settings", {
   id: serial("id").primaryKey(),
   enabled: boolean("enabled").default(false),
@@ -148,13 +218,32 @@ export const samlSettings = pgTable("saml_settings", {
   sloUrl: varchar("slo_url", { length: 500 }), // Single Logout URL
   entryPoint: varchar("entry_point", { length: 500 }), // SAML Entry Point (Login URL)
   x509Certificate: text("x509_certificate"), // IdP X.509 Certificate
-  attributeMapping: jsonb("attribute_mapping"), // Map SAML attributes to user fields
+  attributeMapping: jsonb("attribute_mapping").$type<SsoAttributeMapping>(), // Just-in-time provisioning rules, see shared/sso-mapping.ts
   nameIdFormat: varchar("name_id_format", { length: 200 }).default('urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress'),
-  signRequests: boolean("sign_requests").default(false),
+  signRequests: boolean("sign_requests").default(false), // Sign AuthnRequests and logout messages with the SP key
+  spPrivateKey: text("sp_private_key"), // SP signing key (PEM); never sent to the browser
+  spCertificate: text("sp_certificate"), // SP signing certificate (PEM), published in the SP metadata
   wantAssertionsSigned: boolean("want_assertions_signed").default(true),
   skillmineIntegration: boolean("skillmine_integration").default(false), // Skillmine SSO specific
   callbackUrl: varchar("callback_url", { length: 500 }), // ACS URL
   metadataUrl: varchar("metadata_url", { length: 500 }), // SP Metadata URL
+  testMode: boolean("test_mode").default(false), // Accept responses that fail signature validation; every such login is audited
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// OpenID Connect login (authorization code + PKCE), offered next to SAML SSO. Users are
+// provisioned with the same mapping rules as SAML, applied to the ID token and userinfo claims.
+export const oidcSettings = pgTable("oidc_settings", {
+  id: serial("id").primaryKey(),
+  enabled: boolean("enabled").default(false),
+  displayName: varchar("display_name", { length: 100 }).default('OpenID Connect'), // Shown on the sign-in button
+  issuerUrl: varchar("issuer_url", { length: 500 }), // Discovery via /.well-known/openid-configuration
+  clientId: varchar("client_id", { length: 255 }),
+  clientSecret: text("client_secret"), // Never sent to the browser; empty for public clients
+  scopes: varchar("scopes", { length: 500 }).default('openid email profile'),
+  claimMapping: jsonb("claim_mapping").$type<SsoAttributeMapping>(),
+  updatedBy: varchar("updated_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -189,7 +278,7 @@ export const branches = pgTable("branches", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-// User policies for department-based tab permissions
+// Legacy department tab toggles. Rows are converted to permission grants on startup.
 export const userPolicies = pgTable("user_policies", {
   id: serial("id").primaryKey(),
   departmentId: integer("department_id").references(() => departments.id),
@@ -199,6 +288,19 @@ export const userPolicies = pgTable("user_policies", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Overrides of the built-in role permissions in shared/permissions.ts.
+// A null department applies to the role everywhere; a department row wins over it.
+export const permissionGrants = pgTable("permission_grants", {
+  id: serial("id").primaryKey(),
+  role: roleEnum("role").notNull(),
+  departmentId: integer("department_id").references(() => departments.id, { onDelete: 'cascade' }),
+  permission: varchar("permission", { length: 100 }).notNull(),
+  isGranted: boolean("is_granted").notNull(),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_permission_grant").on(table.role, table.departmentId, table.permission)]);
+
 // Password reset tokens table for email link-based password recovery
 export const passwordResetTokens = pgTable("password_reset_tokens", {
   id: serial("id").primaryKey(),
@@ -209,6 +311,78 @@ export const passwordResetTokens = pgTable("password_reset_tokens", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Hashes of earlier passwords, for the password policy's reuse check
+export const passwordHistory = pgTable("password_history", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_password_history_user").on(table.userId, table.createdAt)]);
+
+// Login sessions backing JWT auth. Access tokens are short-lived and carry the session id;
+// the refresh token is stored hashed and rotated on every refresh. userId has no foreign key
+// because temporary (CSV) users are not in the users table.
+export const authSessions = pgTable("auth_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  refreshTokenHash: varchar("refresh_token_hash", { length: 64 }).notNull(),
+  userAgent: text("user_agent"),
+  ipAddress: varchar("ip_address", { length: 64 }),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow(),
+  revokedAt: timestamp("revoked_at"),
+  // Set for SAML SSO sessions so single logout can be matched both ways
+  samlNameId: varchar("saml_name_id", { length: 500 }),
+  samlNameIdFormat: varchar("saml_name_id_format", { length: 200 }),
+  samlSessionIndex: varchar("saml_session_index", { length: 200 }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_auth_sessions_refresh_token").on(table.refreshTokenHash),
+  index("IDX_auth_sessions_user").on(table.userId),
+  index("IDX_auth_sessions_saml_name_id").on(table.samlNameId),
+]);
+
+// TOTP second factor. Kept out of the users table so secrets never reach user payloads.
+// pendingSecret holds a secret during enrollment until the first code confirms it.
+export const userTwoFactor = pgTable("user_two_factor", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  secret: varchar("secret", { length: 64 }),
+  pendingSecret: varchar("pending_secret", { length: 64 }),
+  backupCodeHashes: jsonb("backup_code_hashes").$type<string[]>().default([]).notNull(), // SHA-256 of unused codes
+  lastUsedStep: integer("last_used_step"), // Rejects replay of a code within its window
+  enabledAt: timestamp("enabled_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Attempt counters for login throttling and rate limits on public endpoints. Keys name the
+// scope and subject, e.g. "login:account:<email>" or "forgot_password:ip:<address>".
+export const authThrottles = pgTable("auth_throttles", {
+  key: varchar("key", { length: 320 }).primaryKey(),
+  attempts: integer("attempts").default(0).notNull(),
+  windowStartedAt: timestamp("window_started_at").defaultNow().notNull(),
+  lockedUntil: timestamp("locked_until"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Sign-in challenge tokens (by JWT ID) that have completed their step, so a token can't be
+// replayed for another session before it expires. Rows can go once expiresAt has passed.
+export const consumedAuthChallenges = pgTable("consumed_auth_challenges", {
+  jti: varchar("jti", { length: 64 }).primaryKey(),
+  expiresAt: timestamp("expires_at").notNull(),
+  consumedAt: timestamp("consumed_at").defaultNow(),
+});
+
+// Organisation-wide sign-in security settings (single row)
+export const securitySettings = pgTable("security_settings", {
+  id: serial("id").primaryKey(),
+  twoFactorRequiredRoles: jsonb("two_factor_required_roles").$type<string[]>().default([]).notNull(),
+  passwordPolicy: jsonb("password_policy").$type<PasswordPolicy>(), // Null until an admin saves one; DEFAULT_PASSWORD_POLICY applies
+  updatedBy: varchar("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Vendor management table
 export const vendors = pgTable("vendors", {
   id: serial("id").primaryKey(),
@@ -217,10 +391,50 @@ export const vendors = pgTable("vendors", {
   email: varchar("email", { length: 100 }),
   address: text("address"),
   isActive: boolean("is_active").default(true).notNull(),
+  trackingAdapter: varchar("tracking_adapter", { length: 20 }).default('none').notNull(), // 'none', 'http_json' or 'mock'
+  trackingConfig: jsonb("tracking_config"), // Adapter settings, e.g. endpoint template and response field paths
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Carrier tracking events fetched for a sent courier's POD number
+export const courierTrackingEvents = pgTable("courier_tracking_events", {
+  id: serial("id").primaryKey(),
+  courierId: integer("courier_id").references(() => couriers.id, { onDelete: 'cascade' }).notNull(),
+  vendorId: integer("vendor_id").references(() => vendors.id, { onDelete: 'set null' }),
+  status: varchar("status", { length: 100 }).notNull(),
+  description: text("description"),
+  location: varchar("location", { length: 200 }),
+  eventTime: timestamp("event_time").notNull(),
+  isDelivered: boolean("is_delivered").default(false).notNull(),
+  rawData: jsonb("raw_data"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_courier_tracking_event").on(table.courierId, table.eventTime, table.status)]);
+
+// Escalation rules for overdue sent couriers, scoped to a department, a vendor, both or neither
+export const escalationRules = pgTable("escalation_rules", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  departmentId: integer("department_id").references(() => departments.id, { onDelete: 'cascade' }),
+  vendorId: integer("vendor_id").references(() => vendors.id, { onDelete: 'cascade' }),
+  steps: jsonb("steps").notNull(), // Ordered EscalationStep list, see shared/escalation.ts
+  isActive: boolean("is_active").default(true).notNull(),
+  createdBy: varchar("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Escalation steps taken for each sent courier
+export const courierEscalations = pgTable("courier_escalations", {
+  id: serial("id").primaryKey(),
+  courierId: integer("courier_id").references(() => couriers.id, { onDelete: 'cascade' }).notNull(),
+  ruleId: integer("rule_id").references(() => escalationRules.id, { onDelete: 'set null' }),
+  level: integer("level").notNull(),
+  action: varchar("action", { length: 30 }).notNull(),
+  recipients: text("recipients"), // Comma-separated addresses the step was sent to
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_courier_escalation_level").on(table.courierId, table.level)]);
+
 // Authority letter templates table - Enhanced for PDF generation
 export const authorityLetterTemplates = pgTable('authority_letter_templates', {
   id: serial('id').primaryKey(),
@@ -231,10 +445,31 @@ export const authorityLetterTemplates = pgTable('authority_letter_templates', {
   isDefault: boolean('is_default').default(false),
   isActive: boolean('is_active').default(true),
   wordTemplateUrl: varchar('word_template_url', { length: 255 }), // Optional Word template for reference
+  requiresApproval: boolean('requires_approval').default(false).notNull(), // Letters go through a maker-checker review before they can be downloaded
+  // templateContent and wordTemplateUrl are a copy of this version; letters are rendered from them
+  publishedVersionId: integer('published_version_id').references((): AnyPgColumn => authorityLetterTemplateVersions.id, { onDelete: 'set null' }),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Immutable layouts of an authority letter template. Edits and Word uploads add a draft;
+// publishing one copies it onto the template, and rolling back publishes a copy of an older one.
+export const authorityLetterTemplateVersions = pgTable('authority_letter_template_versions', {
+  id: serial('id').primaryKey(),
+  templateId: integer('template_id').references(() => authorityLetterTemplates.id, { onDelete: 'cascade' }).notNull(),
+  versionNumber: integer('version_number').notNull(),
+  templateContent: text('template_content').notNull(),
+  wordTemplateUrl: varchar('word_template_url', { length: 255 }),
+  status: varchar('status', { length: 20 }).default('draft').notNull(), // draft, published, superseded
+  changeNote: text('change_note'),
+  createdBy: varchar('created_by').references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  publishedBy: varchar('published_by').references(() => users.id),
+  publishedAt: timestamp('published_at'),
+}, (table) => [
+  uniqueIndex("IDX_template_versions_number").on(table.templateId, table.versionNumber),
+]);
+
 // Authority letter fields table (for ##field## placeholders)
 export const authorityLetterFields = pgTable('authority_letter_fields', {
   id: serial('id').primaryKey(),
@@ -251,6 +486,84 @@ export const authorityLetterFields = pgTable('authority_letter_fields', {
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Running letter numbers. Scopes are "department:<id>", or "general" for templates without a department.
+export const letterSequences = pgTable('letter_sequences', {
+  scope: varchar('scope', { length: 50 }).primaryKey(),
+  lastNumber: integer('last_number').default(0).notNull(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Register of every authority letter handed out: what was rendered, by whom, and whether it still stands
+export const issuedLetters = pgTable('issued_letters', {
+  id: serial('id').primaryKey(),
+  referenceNumber: varchar('reference_number', { length: 50 }).notNull().unique(), // Printed through ##letterNo##
+  letterNumber: integer('letter_number').notNull(),
+  verificationCode: varchar('verification_code', { length: 20 }).unique(), // Printed with the QR code for the public check
+  departmentId: integer('department_id').references(() => departments.id),
+  templateId: integer('template_id').references(() => authorityLetterTemplates.id, { onDelete: 'set null' }),
+  templateName: varchar('template_name', { length: 255 }).notNull(), // Kept for the register if the template is removed
+  templateVersionId: integer('template_version_id').references(() => authorityLetterTemplateVersions.id, { onDelete: 'set null' }),
+  fieldValues: jsonb('field_values').$type<Record<string, string>>().default({}).notNull(),
+  fileName: varchar('file_name', { length: 255 }).notNull(),
+  filePath: varchar('file_path', { length: 500 }).notNull(),
+  mimeType: varchar('mime_type', { length: 100 }).notNull(),
+  fileHash: varchar('file_hash', { length: 64 }).notNull(), // SHA-256 of the rendered file
+  status: varchar('status', { length: 20 }).default('issued').notNull(), // issued, revoked, cancelled
+  statusReason: text('status_reason'),
+  statusChangedBy: varchar('status_changed_by').references(() => users.id),
+  statusChangedAt: timestamp('status_changed_at'),
+  issuedBy: varchar('issued_by').references(() => users.id),
+  issuedAt: timestamp('issued_at').defaultNow().notNull(),
+}, (table) => [
+  index("IDX_issued_letters_department").on(table.departmentId, table.issuedAt),
+]);
+
+// Maker-checker requests for templates that require approval. The letter is issued from the
+// stored field values on the first download after approval.
+export const letterApprovalRequests = pgTable('letter_approval_requests', {
+  id: serial('id').primaryKey(),
+  templateId: integer('template_id').references(() => authorityLetterTemplates.id, { onDelete: 'cascade' }).notNull(),
+  templateVersionId: integer('template_version_id').references(() => authorityLetterTemplateVersions.id, { onDelete: 'set null' }), // Layout the approver saw; the letter is issued from it
+  departmentId: integer('department_id').references(() => departments.id),
+  fieldValues: jsonb('field_values').$type<Record<string, string>>().default({}).notNull(),
+  format: varchar('format', { length: 10 }).default('pdf').notNull(), // pdf, docx
+  fileName: varchar('file_name', { length: 255 }),
+  status: varchar('status', { length: 20 }).default('pending').notNull(), // pending, approved, rejected
+  requestedBy: varchar('requested_by').references(() => users.id).notNull(),
+  requestedAt: timestamp('requested_at').defaultNow().notNull(),
+  reviewedBy: varchar('reviewed_by').references(() => users.id),
+  reviewedAt: timestamp('reviewed_at'),
+  reviewComment: text('review_comment'),
+  issuedLetterId: integer('issued_letter_id').references(() => issuedLetters.id, { onDelete: 'set null' }),
+}, (table) => [
+  index("IDX_letter_approvals_status").on(table.status, table.departmentId),
+]);
+
+// Bulk authority letter runs, worked through one at a time in the background. The uploaded rows
+// are kept until the job finishes; the ZIP of letters and the CSV of rejected rows stay on disk.
+export const letterBulkJobs = pgTable('letter_bulk_jobs', {
+  id: serial('id').primaryKey(),
+  templateId: integer('template_id').references(() => authorityLetterTemplates.id, { onDelete: 'set null' }), // Null for department documents
+  departmentId: integer('department_id').references(() => departments.id),
+  sourceFileName: varchar('source_file_name', { length: 255 }),
+  rows: jsonb('rows').$type<Record<string, string>[]>().default([]).notNull(),
+  applicationUrl: varchar('application_url', { length: 255 }).notNull(), // Base of the verification links printed on the letters
+  status: varchar('status', { length: 20 }).default('queued').notNull(), // queued, running, completed, failed
+  totalRows: integer('total_rows').default(0).notNull(),
+  processedRows: integer('processed_rows').default(0).notNull(),
+  succeededRows: integer('succeeded_rows').default(0).notNull(),
+  failedRows: integer('failed_rows').default(0).notNull(),
+  resultPath: varchar('result_path', { length: 500 }),
+  errorReportPath: varchar('error_report_path', { length: 500 }),
+  errorMessage: text('error_message'),
+  createdBy: varchar('created_by').references(() => users.id).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  startedAt: timestamp('started_at'),
+  completedAt: timestamp('completed_at'),
+}, (table) => [
+  index("IDX_letter_bulk_jobs_status").on(table.status, table.createdAt),
+]);
+
 // Dropdown field options table for custom fields
 export const fieldDropdownOptions = pgTable('field_dropdown_options', {
   id: serial('id').primaryKey(),
@@ -319,7 +632,7 @@ export const departmentFieldsRelations = relations(departmentFields, ({ one }) =
   }),
 }));
 
-export const couriersRelations = relations(couriers, ({ one }) => ({
+export const couriersRelations = relations(couriers, ({ one, many }) => ({
   department: one(departments, {
     fields: [couriers.departmentId],
     references: [departments.id],
@@ -328,6 +641,70 @@ export const couriersRelations = relations(couriers, ({ one }) => ({
     fields: [couriers.createdBy],
     references: [users.id],
   }),
+  customFieldValues: many(courierCustomFieldValues),
+}));
+
+export const courierCustomFieldValuesRelations = relations(courierCustomFieldValues, ({ one }) => ({
+  courier: one(couriers, {
+    fields: [courierCustomFieldValues.courierId],
+    references: [couriers.id],
+  }),
+  field: one(fields, {
+    fields: [courierCustomFieldValues.fieldId],
+    references: [fields.id],
+  }),
+}));
+
+export const courierStatusHistoryRelations = relations(courierStatusHistory, ({ one }) => ({
+  changedByUser: one(users, {
+    fields: [courierStatusHistory.changedBy],
+    references: [users.id],
+  }),
+}));
+
+export const courierTrackingEventsRelations = relations(courierTrackingEvents, ({ one }) => ({
+  courier: one(couriers, {
+    fields: [courierTrackingEvents.courierId],
+    references: [couriers.id],
+  }),
+  vendor: one(vendors, {
+    fields: [courierTrackingEvents.vendorId],
+    references: [vendors.id],
+  }),
+}));
+
+export const escalationRulesRelations = relations(escalationRules, ({ one, many }) => ({
+  department: one(departments, {
+    fields: [escalationRules.departmentId],
+    references: [departments.id],
+  }),
+  vendor: one(vendors, {
+    fields: [escalationRules.vendorId],
+    references: [vendors.id],
+  }),
+  escalations: many(courierEscalations),
+}));
+
+export const courierEscalationsRelations = relations(courierEscalations, ({ one }) => ({
+  courier: one(couriers, {
+    fields: [courierEscalations.courierId],
+    references: [couriers.id],
+  }),
+  rule: one(escalationRules, {
+    fields: [courierEscalations.ruleId],
+    references: [escalationRules.id],
+  }),
+}));
+
+export const emailTemplatesRelations = relations(emailTemplates, ({ one }) => ({
+  department: one(departments, {
+    fields: [emailTemplates.departmentId],
+    references: [departments.id],
+  }),
+  updatedByUser: one(users, {
+    fields: [emailTemplates.updatedBy],
+    references: [users.id],
+  }),
 }));
 
 export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
@@ -348,6 +725,7 @@ export const branchesRelations = relations(branches, ({ one, many }) => ({
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
+  emergencyAccessExpiresAt: true, // Only granted from the CLI or the environment
   createdAt: true,
   updatedAt: true,
 });
@@ -375,9 +753,8 @@ export const userProfileUpdateSchema = z.object({
 
 export const userPasswordChangeSchema = z.object({
   currentPassword: z.string().min(1, "Current password is required"),
-  newPassword: z.string()
-    .min(8, "Password must be at least 8 characters")
-    .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, "Password must contain at least one uppercase letter, one lowercase letter, and one number"),
+  // Strength and reuse rules come from the configurable password policy (shared/password-policy.ts)
+  newPassword: z.string().min(1, "New password is required"),
   confirmPassword: z.string()
 }).refine((data) => data.newPassword === data.confirmPassword, {
   message: "Passwords don't match",
@@ -387,18 +764,13 @@ export const userPasswordChangeSchema = z.object({
 export const adminUserUpdateSchema = insertUserSchema.extend({
   role: z.enum(['admin', 'sub_admin', 'manager', 'user']).optional(),
   departmentId: z.number().int().positive().optional().nullable(),
-  password: z.string()
-    .min(8, "Password must be at least 8 characters")
-    .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, "Password must contain at least one uppercase letter, one lowercase letter, and one number")
-    .optional(),
+  password: z.string().min(1, "Password is required").optional(), // Checked against the password policy
 }).partial();
 
 export const userRegistrationSchema = z.object({
   name: z.string().min(1, "Name is required").max(100, "Name must be less than 100 characters"),
   email: z.string().email("Invalid email format"),
-  password: z.string()
-    .min(8, "Password must be at least 8 characters")
-    .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, "Password must contain at least one uppercase letter, one lowercase letter, and one number"),
+  password: z.string().min(1, "Password is required"), // Checked against the password policy
   employeeCode: z.string().max(50, "Employee code must be less than 50 characters").optional().nullable(),
   mobileNumber: z.string().regex(/^[\+]?[1-9][\d]{0,15}$/, "Invalid mobile number format").optional().nullable(),
   role: z.enum(['admin', 'sub_admin', 'manager', 'user']).default('user'),
@@ -436,12 +808,51 @@ export const insertCourierSchema = createInsertSchema(couriers).omit({
   updatedAt: true,
 });
 
+export const insertCourierCustomFieldValueSchema = createInsertSchema(courierCustomFieldValues).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertFieldSchema = createInsertSchema(fields).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertCourierStatusHistorySchema = createInsertSchema(courierStatusHistory).omit({
+  id: true,
+  changedAt: true,
+});
+
+export const insertCourierTrackingEventSchema = createInsertSchema(courierTrackingEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertEscalationRuleSchema = createInsertSchema(escalationRules).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCourierEscalationSchema = createInsertSchema(courierEscalations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertEmailTemplateSchema = createInsertSchema(emailTemplates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertEmailOutboxSchema = createInsertSchema(emailOutbox).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertSmtpSettingsSchema = createInsertSchema(smtpSettings).omit({
   id: true,
 });
@@ -450,6 +861,19 @@ export const insertSamlSettingsSchema = createInsertSchema(samlSettings).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  attributeMapping: ssoAttributeMappingSchema.optional(),
+});
+
+export const insertOidcSettingsSchema = createInsertSchema(oidcSettings).omit({
+  id: true,
+  updatedBy: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  issuerUrl: z.string().trim().url("Issuer must be a URL").or(z.literal('')).nullish(),
+  scopes: z.string().trim().refine(scopes => scopes.split(/\s+/).includes('openid'), "Scopes must include openid").optional(),
+  claimMapping: ssoAttributeMappingSchema.optional(),
 });
 
 export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
@@ -465,27 +889,110 @@ export const insertReceivedCourierSchema = createInsertSchema(receivedCouriers).
 
 export const insertAuthorityLetterTemplateSchema = createInsertSchema(authorityLetterTemplates).omit({
   id: true,
+  publishedVersionId: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertAuthorityLetterTemplateVersionSchema = createInsertSchema(authorityLetterTemplateVersions).omit({
+  id: true,
+  versionNumber: true,
+  status: true,
+  createdAt: true,
+  publishedBy: true,
+  publishedAt: true,
+});
+
+// Sent with a content change or Word upload: publish it right away, and why it was made
+export const templateVersionOptionsSchema = z.object({
+  publish: z.boolean().optional(),
+  changeNote: z.string().trim().max(500).optional(),
+});
+
 export const insertAuthorityLetterFieldSchema = createInsertSchema(authorityLetterFields).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertIssuedLetterSchema = createInsertSchema(issuedLetters).omit({
+  id: true,
+  status: true,
+  statusReason: true,
+  statusChangedBy: true,
+  statusChangedAt: true,
+  issuedAt: true,
+});
+
+// Revoked letters were valid once and are withdrawn; cancelled letters should never have gone out
+export const issuedLetterStatusUpdateSchema = z.object({
+  status: z.enum(['revoked', 'cancelled']),
+  reason: z.string().trim().min(1, "A reason is required").max(500, "Reason must be less than 500 characters"),
+});
+
+export const insertLetterApprovalRequestSchema = createInsertSchema(letterApprovalRequests).omit({
+  id: true,
+  templateVersionId: true,
+  departmentId: true,
+  status: true,
+  requestedBy: true,
+  requestedAt: true,
+  reviewedBy: true,
+  reviewedAt: true,
+  reviewComment: true,
+  issuedLetterId: true,
+}).extend({
+  fieldValues: z.record(z.string(), z.string()).default({}),
+  format: z.enum(['pdf', 'docx']).default('pdf'),
+  fileName: z.string().trim().max(255).optional(),
+});
+
+// Approvals may carry a comment; rejections must say what to fix
+export const letterApprovalDecisionSchema = z.discriminatedUnion('decision', [
+  z.object({ decision: z.literal('approved'), comment: z.string().trim().max(1000).optional() }),
+  z.object({ decision: z.literal('rejected'), comment: z.string().trim().min(1, "A comment is required when rejecting").max(1000) }),
+]);
+
+export const insertLetterBulkJobSchema = createInsertSchema(letterBulkJobs).omit({
+  id: true,
+  status: true,
+  totalRows: true,
+  processedRows: true,
+  succeededRows: true,
+  failedRows: true,
+  resultPath: true,
+  errorReportPath: true,
+  errorMessage: true,
+  createdAt: true,
+  startedAt: true,
+  completedAt: true,
+});
+
 export const insertBranchSchema = createInsertSchema(branches).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertUserPolicySchema = createInsertSchema(userPolicies).omit({
+export const insertPermissionGrantSchema = createInsertSchema(permissionGrants).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertAuthSessionSchema = createInsertSchema(authSessions).omit({
+  id: true,
+  lastSeenAt: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
+// Sections can be saved independently, so every field is optional
+export const securitySettingsSchema = z.object({
+  // Roles whose members must enroll in two-factor authentication before signing in
+  twoFactorRequiredRoles: z.array(z.enum(['admin', 'sub_admin'])),
+  passwordPolicy: passwordPolicySchema,
+}).partial();
+
 export const insertVendorSchema = createInsertSchema(vendors).omit({
   id: true,
   createdAt: true,
@@ -508,21 +1015,63 @@ export type Courier = typeof couriers.$inferSelect;
 export type InsertCourier = z.infer<typeof insertCourierSchema>;
 export type ReceivedCourier = typeof receivedCouriers.$inferSelect;
 export type InsertReceivedCourier = z.infer<typeof insertReceivedCourierSchema>;
+export type CourierCustomFieldValue = typeof courierCustomFieldValues.$inferSelect;
+export type InsertCourierCustomFieldValue = z.infer<typeof insertCourierCustomFieldValueSchema>;
+// Custom field value joined with its field definition, as returned alongside couriers
+export type CourierCustomFieldValueDetail = {
+  fieldId: number;
+  fieldName: string | null;
+  fieldType: 'text' | 'calendar' | 'dropdown' | null;
+  value: string;
+};
+export type CourierStatusHistory = typeof courierStatusHistory.$inferSelect;
+export type InsertCourierStatusHistory = z.infer<typeof insertCourierStatusHistorySchema>;
+export type CourierTrackingEvent = typeof courierTrackingEvents.$inferSelect;
+export type InsertCourierTrackingEvent = z.infer<typeof insertCourierTrackingEventSchema>;
+export type EscalationRule = typeof escalationRules.$inferSelect;
+export type InsertEscalationRule = z.infer<typeof insertEscalationRuleSchema>;
+export type CourierEscalation = typeof courierEscalations.$inferSelect;
+export type InsertCourierEscalation = z.infer<typeof insertCourierEscalationSchema>;
 export type Field = typeof fields.$inferSelect;
 export type InsertField = z.infer<typeof insertFieldSchema>;
+export type EmailTemplate = typeof emailTemplates.$inferSelect;
+export type InsertEmailTemplate = z.infer<typeof insertEmailTemplateSchema>;
+export type EmailOutboxMessage = typeof emailOutbox.$inferSelect;
+export type InsertEmailOutboxMessage = z.infer<typeof insertEmailOutboxSchema>;
 export type SmtpSettings = typeof smtpSettings.$inferSelect;
 export type InsertSmtpSettings = z.infer<typeof insertSmtpSettingsSchema>;
 export type SamlSettings = typeof samlSettings.$inferSelect;
 export type InsertSamlSettings = z.infer<typeof insertSamlSettingsSchema>;
+export type OidcSettings = typeof oidcSettings.$inferSelect;
+export type InsertOidcSettings = z.infer<typeof insertOidcSettingsSchema>;
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 export type AuthorityLetterTemplate = typeof authorityLetterTemplates.$inferSelect;
 export type InsertAuthorityLetterTemplate = z.infer<typeof insertAuthorityLetterTemplateSchema>;
+export type AuthorityLetterTemplateVersion = typeof authorityLetterTemplateVersions.$inferSelect;
+export type InsertAuthorityLetterTemplateVersion = z.infer<typeof insertAuthorityLetterTemplateVersionSchema>;
+export type TemplateVersionOptions = z.infer<typeof templateVersionOptionsSchema>;
 export type AuthorityLetterField = typeof authorityLetterFields.$inferSelect;
 export type InsertAuthorityLetterField = z.infer<typeof insertAuthorityLetterFieldSchema>;
+export type IssuedLetter = typeof issuedLetters.$inferSelect;
+export type InsertIssuedLetter = z.infer<typeof insertIssuedLetterSchema>;
+export type IssuedLetterStatusUpdate = z.infer<typeof issuedLetterStatusUpdateSchema>;
+export type LetterApprovalRequest = typeof letterApprovalRequests.$inferSelect;
+export type InsertLetterApprovalRequest = z.infer<typeof insertLetterApprovalRequestSchema>;
+export type LetterApprovalDecision = z.infer<typeof letterApprovalDecisionSchema>;
+export type LetterBulkJob = typeof letterBulkJobs.$inferSelect;
+export type InsertLetterBulkJob = z.infer<typeof insertLetterBulkJobSchema>;
 export type Branch = typeof branches.$inferSelect;
 export type InsertBranch = z.infer<typeof insertBranchSchema>;
 export type UserPolicy = typeof userPolicies.$inferSelect;
-export type InsertUserPolicy = z.infer<typeof insertUserPolicySchema>;
+export type PermissionGrant = typeof permissionGrants.$inferSelect;
+export type InsertPermissionGrant = z.infer<typeof insertPermissionGrantSchema>;
+export type AuthSession = typeof authSessions.$inferSelect;
+export type InsertAuthSession = z.infer<typeof insertAuthSessionSchema>;
+export type PasswordHistoryEntry = typeof passwordHistory.$inferSelect;
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+export type AuthThrottle = typeof authThrottles.$inferSelect;
+export type SecuritySettings = typeof securitySettings.$inferSelect;
+export type SecuritySettingsUpdate = z.infer<typeof securitySettingsSchema>;
 export type Vendor = typeof vendors.$inferSelect;
 export type InsertVendor = z.infer<typeof insertVendorSchema>;
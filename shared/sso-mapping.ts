@@ -0,0 +1,135 @@
+import { z } from "zod";
+
+// How SAML assertions and OpenID Connect claims become local users. Accounts are created on
+// first SSO login and their name, role and departments are re-synced on every login.
+
+export const SSO_ROLES = ['admin', 'sub_admin', 'manager', 'user'] as const;
+export type SsoRole = typeof SSO_ROLES[number];
+
+// When several role rules match, the most privileged role wins
+const ROLE_PRIORITY: Record<SsoRole, number> = { admin: 3, sub_admin: 2, manager: 1, user: 0 };
+
+export interface SsoDefaultAttributes {
+  email: string;
+  name: string;
+  firstName: string;
+  lastName: string;
+  groups: string;
+}
+
+// Standard claim URIs sent by ADFS, Azure AD and most other SAML IdPs
+export const SAML_DEFAULT_ATTRIBUTES: SsoDefaultAttributes = {
+  email: 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress',
+  name: 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/name',
+  firstName: 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/givenname',
+  lastName: 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/surname',
+  groups: 'http://schemas.microsoft.com/ws/2008/06/identity/claims/groups',
+};
+
+// Standard OpenID Connect claims; "groups" is the most common name for group claims
+export const OIDC_DEFAULT_CLAIMS: SsoDefaultAttributes = {
+  email: 'email',
+  name: 'name',
+  firstName: 'given_name',
+  lastName: 'family_name',
+  groups: 'groups',
+};
+
+const attributeName = z.string().trim().max(500);
+
+export const ssoRoleRuleSchema = z.object({
+  attribute: attributeName.min(1, "Attribute is required"),
+  value: z.string().trim().min(1, "Value is required").max(500),
+  role: z.enum(SSO_ROLES),
+});
+
+export const ssoDepartmentRuleSchema = z.object({
+  attribute: attributeName.min(1, "Attribute is required"),
+  value: z.string().trim().min(1, "Value is required").max(500),
+  departmentIds: z.array(z.number().int().positive()).min(1, "Select at least one department"),
+});
+
+export const ssoAttributeMappingSchema = z.object({
+  // Blank attribute names fall back to the NameID (email) or the standard claims above
+  emailAttribute: attributeName.default(''),
+  nameAttribute: attributeName.default(''),
+  firstNameAttribute: attributeName.default(''),
+  lastNameAttribute: attributeName.default(''),
+  // Role given to new users when no role rule matches
+  defaultRole: z.enum(SSO_ROLES).default('user'),
+  // Without role rules an existing user's role is left as set by admins; the same goes for departments
+  roleRules: z.array(ssoRoleRuleSchema).max(50).default([]),
+  departmentRules: z.array(ssoDepartmentRuleSchema).max(100).default([]),
+});
+
+export type SsoRoleRule = z.infer<typeof ssoRoleRuleSchema>;
+export type SsoDepartmentRule = z.infer<typeof ssoDepartmentRuleSchema>;
+export type SsoAttributeMapping = z.infer<typeof ssoAttributeMappingSchema>;
+
+export const DEFAULT_SSO_ATTRIBUTE_MAPPING: SsoAttributeMapping = ssoAttributeMappingSchema.parse({});
+
+// Mapping stored before the editor existed was free-form, so anything unparseable means defaults
+export function parseSsoAttributeMapping(value: unknown): SsoAttributeMapping {
+  const parsed = ssoAttributeMappingSchema.safeParse(value ?? {});
+  return parsed.success ? parsed.data : DEFAULT_SSO_ATTRIBUTE_MAPPING;
+}
+
+// All values of an assertion attribute as strings; multi-valued claims (groups) arrive as arrays
+export function getSsoAttributeValues(attributes: Record<string, unknown>, attribute: string): string[] {
+  const value = attributes[attribute];
+  const values = Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+  return values.filter(v => typeof v === 'string' || typeof v === 'number').map(v => String(v).trim()).filter(Boolean);
+}
+
+function firstValue(attributes: Record<string, unknown>, ...names: string[]): string {
+  for (const name of names) {
+    const [value] = name ? getSsoAttributeValues(attributes, name) : [];
+    if (value) return value;
+  }
+  return '';
+}
+
+function ruleMatches(attributes: Record<string, unknown>, rule: { attribute: string; value: string }): boolean {
+  const expected = rule.value.toLowerCase();
+  return getSsoAttributeValues(attributes, rule.attribute).some(value => value.toLowerCase() === expected);
+}
+
+export interface SsoUserAttributes {
+  email: string;
+  name: string;
+  // Null when there are no role rules, so the existing role is kept
+  role: SsoRole | null;
+  // Null when there are no department rules, so existing departments are kept
+  departmentIds: number[] | null;
+}
+
+export function resolveSsoUser(
+  attributes: Record<string, unknown>,
+  nameId: string | undefined,
+  mapping: SsoAttributeMapping,
+  defaults: SsoDefaultAttributes = SAML_DEFAULT_ATTRIBUTES,
+): SsoUserAttributes {
+  const email = (mapping.emailAttribute ? firstValue(attributes, mapping.emailAttribute) : '')
+    || nameId?.trim()
+    || firstValue(attributes, 'email', defaults.email);
+
+  const firstName = firstValue(attributes, mapping.firstNameAttribute, 'firstName', defaults.firstName);
+  const lastName = firstValue(attributes, mapping.lastNameAttribute, 'lastName', defaults.lastName);
+  const name = firstValue(attributes, mapping.nameAttribute, 'displayName', defaults.name)
+    || `${firstName} ${lastName}`.trim();
+
+  let role: SsoRole | null = null;
+  if (mapping.roleRules.length > 0) {
+    role = mapping.roleRules
+      .filter(rule => ruleMatches(attributes, rule))
+      .reduce<SsoRole>((best, rule) => ROLE_PRIORITY[rule.role] > ROLE_PRIORITY[best] ? rule.role : best, mapping.defaultRole);
+  }
+
+  let departmentIds: number[] | null = null;
+  if (mapping.departmentRules.length > 0) {
+    const matched = mapping.departmentRules.filter(rule => ruleMatches(attributes, rule)).flatMap(rule => rule.departmentIds);
+    departmentIds = Array.from(new Set(matched));
+  }
+
+  return { email, name, role, departmentIds };
+}